@@ -0,0 +1,62 @@
+-- Enable pgvector
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- Converts a legacy JSON embedding string into a vector.
+-- Older rows store a bare number array, newer rows store the serialized
+-- EmbeddingResult object ({"embedding": [...], "model": ..., "dimensions": ...}).
+-- Anything unparseable or with the wrong dimensions becomes NULL so it can be
+-- regenerated later instead of failing the migration.
+CREATE OR REPLACE FUNCTION pg_temp.embedding_json_to_vector(raw TEXT) RETURNS vector AS $$
+DECLARE
+    parsed JSONB;
+BEGIN
+    IF raw IS NULL OR raw = '' THEN
+        RETURN NULL;
+    END IF;
+
+    parsed := raw::jsonb;
+    IF jsonb_typeof(parsed) = 'object' THEN
+        parsed := parsed -> 'embedding';
+    END IF;
+
+    IF parsed IS NULL OR jsonb_typeof(parsed) <> 'array' OR jsonb_array_length(parsed) <> 384 THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN parsed::text::vector;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Convert memories.embedding
+ALTER TABLE "public"."memories" ADD COLUMN "embedding_vector" vector(384);
+
+UPDATE "public"."memories"
+SET "embedding_vector" = pg_temp.embedding_json_to_vector("embedding")
+WHERE "embedding" IS NOT NULL;
+
+UPDATE "public"."memories"
+SET "embedding_model" = NULL, "embedding_created_at" = NULL
+WHERE "embedding_vector" IS NULL;
+
+ALTER TABLE "public"."memories" DROP COLUMN "embedding";
+ALTER TABLE "public"."memories" RENAME COLUMN "embedding_vector" TO "embedding";
+
+-- Convert tasks.embedding
+ALTER TABLE "public"."tasks" ADD COLUMN "embedding_vector" vector(384);
+
+UPDATE "public"."tasks"
+SET "embedding_vector" = pg_temp.embedding_json_to_vector("embedding")
+WHERE "embedding" IS NOT NULL;
+
+UPDATE "public"."tasks"
+SET "embedding_model" = NULL, "embedding_created_at" = NULL
+WHERE "embedding_vector" IS NULL;
+
+ALTER TABLE "public"."tasks" DROP COLUMN "embedding";
+ALTER TABLE "public"."tasks" RENAME COLUMN "embedding_vector" TO "embedding";
+
+-- Approximate nearest-neighbour indexes (cosine distance)
+CREATE INDEX "memories_embedding_hnsw_idx" ON "public"."memories" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX "tasks_embedding_hnsw_idx" ON "public"."tasks" USING hnsw ("embedding" vector_cosine_ops);
@@ -0,0 +1,14 @@
+-- Generated full-text search columns used by keyword and hybrid search
+ALTER TABLE "public"."memories" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+ALTER TABLE "public"."tasks" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "memories_search_vector_idx" ON "public"."memories" USING gin ("search_vector");
+CREATE INDEX "tasks_search_vector_idx" ON "public"."tasks" USING gin ("search_vector");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."embedding_jobs" (
+    "id" SERIAL NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "batch_size" INTEGER NOT NULL DEFAULT 50,
+    "memory_cursor" INTEGER NOT NULL DEFAULT 0,
+    "task_cursor" INTEGER NOT NULL DEFAULT 0,
+    "memories_total" INTEGER NOT NULL DEFAULT 0,
+    "memories_processed" INTEGER NOT NULL DEFAULT 0,
+    "memories_failed" INTEGER NOT NULL DEFAULT 0,
+    "tasks_total" INTEGER NOT NULL DEFAULT 0,
+    "tasks_processed" INTEGER NOT NULL DEFAULT 0,
+    "tasks_failed" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "embedding_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "embedding_jobs_status_idx" ON "public"."embedding_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "memories_embedding_model_idx" ON "public"."memories"("embedding_model");
+
+-- CreateIndex
+CREATE INDEX "tasks_embedding_model_idx" ON "public"."tasks"("embedding_model");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "public"."memory_chunks" (
+    "id" SERIAL NOT NULL,
+    "memory_id" INTEGER NOT NULL,
+    "chunk_index" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "start_offset" INTEGER NOT NULL,
+    "end_offset" INTEGER NOT NULL,
+    "embedding" vector(384),
+    "embedding_model" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "memory_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_chunks" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "chunk_index" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "start_offset" INTEGER NOT NULL,
+    "end_offset" INTEGER NOT NULL,
+    "embedding" vector(384),
+    "embedding_model" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memory_chunks_memory_id_chunk_index_key" ON "public"."memory_chunks"("memory_id", "chunk_index");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_chunks_task_id_chunk_index_key" ON "public"."task_chunks"("task_id", "chunk_index");
+
+-- Approximate nearest-neighbour indexes for cosine distance
+CREATE INDEX "memory_chunks_embedding_hnsw_idx" ON "public"."memory_chunks" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX "task_chunks_embedding_hnsw_idx" ON "public"."task_chunks" USING hnsw ("embedding" vector_cosine_ops);
+
+-- AddForeignKey
+ALTER TABLE "public"."memory_chunks" ADD CONSTRAINT "memory_chunks_memory_id_fkey" FOREIGN KEY ("memory_id") REFERENCES "public"."memories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_chunks" ADD CONSTRAINT "task_chunks_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "public"."embedding_jobs" ADD COLUMN "force" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN "embedding_text_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN "embedding_text_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."embedding_cache" (
+    "content_hash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" vector(384) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "embedding_cache_pkey" PRIMARY KEY ("content_hash","model")
+);
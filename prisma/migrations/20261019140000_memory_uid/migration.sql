@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN "uid" TEXT;
+
+-- Backfill existing rows
+UPDATE "public"."memories" SET "uid" = gen_random_uuid()::text WHERE "uid" IS NULL;
+
+ALTER TABLE "public"."memories" ALTER COLUMN "uid" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memories_uid_key" ON "public"."memories"("uid");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."task_dependencies" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "depends_on_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_depends_on_id_idx" ON "public"."task_dependencies"("depends_on_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_task_id_depends_on_id_key" ON "public"."task_dependencies"("task_id", "depends_on_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_depends_on_id_fkey" FOREIGN KEY ("depends_on_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
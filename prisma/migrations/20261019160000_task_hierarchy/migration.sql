@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN "parent_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "tasks_parent_id_idx" ON "public"."tasks"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "occurrence" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "previous_occurrence_id" INTEGER,
+ADD COLUMN     "recurrence_count" INTEGER,
+ADD COLUMN     "recurrence_frequency" TEXT,
+ADD COLUMN     "recurrence_interval" INTEGER,
+ADD COLUMN     "recurrence_series_id" INTEGER,
+ADD COLUMN     "recurrence_until" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_previous_occurrence_id_key" ON "public"."tasks"("previous_occurrence_id");
+
+-- CreateIndex
+CREATE INDEX "tasks_recurrence_series_id_idx" ON "public"."tasks"("recurrence_series_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_previous_occurrence_id_fkey" FOREIGN KEY ("previous_occurrence_id") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."task_events" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "field" TEXT,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "actor" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_events_task_id_created_at_idx" ON "public"."task_events"("task_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "task_events_event_type_new_value_idx" ON "public"."task_events"("event_type", "new_value");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_events" ADD CONSTRAINT "task_events_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
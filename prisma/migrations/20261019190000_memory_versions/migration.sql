@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."memory_versions" (
+    "id" SERIAL NOT NULL,
+    "memory_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "category" TEXT,
+    "project" TEXT,
+    "tags" TEXT NOT NULL DEFAULT '',
+    "priority" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "replaced_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "memory_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memory_versions_memory_id_version_key" ON "public"."memory_versions"("memory_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."memory_versions" ADD CONSTRAINT "memory_versions_memory_id_fkey" FOREIGN KEY ("memory_id") REFERENCES "public"."memories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "memories_deleted_at_idx" ON "public"."memories"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "projects_deleted_at_idx" ON "public"."projects"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "tasks_deleted_at_idx" ON "public"."tasks"("deleted_at");
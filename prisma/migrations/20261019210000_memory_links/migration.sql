@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."memory_links" (
+    "id" SERIAL NOT NULL,
+    "memory_id" INTEGER NOT NULL,
+    "target_memory_id" INTEGER,
+    "target_task_id" INTEGER,
+    "link_type" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "memory_links_pkey" PRIMARY KEY ("id"),
+    -- A link points at exactly one memory or one task
+    CONSTRAINT "memory_links_one_target_check" CHECK (("target_memory_id" IS NULL) <> ("target_task_id" IS NULL))
+);
+
+-- CreateIndex
+CREATE INDEX "memory_links_target_memory_id_idx" ON "public"."memory_links"("target_memory_id");
+
+-- CreateIndex
+CREATE INDEX "memory_links_target_task_id_idx" ON "public"."memory_links"("target_task_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memory_links_memory_id_target_memory_id_link_type_key" ON "public"."memory_links"("memory_id", "target_memory_id", "link_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memory_links_memory_id_target_task_id_link_type_key" ON "public"."memory_links"("memory_id", "target_task_id", "link_type");
+
+-- AddForeignKey
+ALTER TABLE "public"."memory_links" ADD CONSTRAINT "memory_links_memory_id_fkey" FOREIGN KEY ("memory_id") REFERENCES "public"."memories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."memory_links" ADD CONSTRAINT "memory_links_target_memory_id_fkey" FOREIGN KEY ("target_memory_id") REFERENCES "public"."memories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."memory_links" ADD CONSTRAINT "memory_links_target_task_id_fkey" FOREIGN KEY ("target_task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN     "access_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_accessed_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "memories_last_accessed_at_idx" ON "public"."memories"("last_accessed_at");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."memories" ADD COLUMN     "archived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "memories_expires_at_idx" ON "public"."memories"("expires_at");
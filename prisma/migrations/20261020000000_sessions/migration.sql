@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."sessions" (
+    "id" SERIAL NOT NULL,
+    "project_id" INTEGER,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_project_id_started_at_idx" ON "public"."sessions"("project_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."sessions" ADD CONSTRAINT "sessions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
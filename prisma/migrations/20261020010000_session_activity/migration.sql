@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "ended_at" TIMESTAMP(3),
+ADD COLUMN     "summary_memory_id" INTEGER;
+
+-- Briefings recorded before sessions could be ended are over
+UPDATE "public"."sessions" SET "ended_at" = "started_at";
+
+-- CreateTable
+CREATE TABLE "public"."session_activity" (
+    "id" SERIAL NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "memory_id" INTEGER,
+    "task_id" INTEGER,
+    "action" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_activity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_ended_at_idx" ON "public"."sessions"("ended_at");
+
+-- CreateIndex
+CREATE INDEX "session_activity_session_id_created_at_idx" ON "public"."session_activity"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "session_activity_memory_id_idx" ON "public"."session_activity"("memory_id");
+
+-- CreateIndex
+CREATE INDEX "session_activity_task_id_idx" ON "public"."session_activity"("task_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."sessions" ADD CONSTRAINT "sessions_summary_memory_id_fkey" FOREIGN KEY ("summary_memory_id") REFERENCES "public"."memories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."session_activity" ADD CONSTRAINT "session_activity_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."session_activity" ADD CONSTRAINT "session_activity_memory_id_fkey" FOREIGN KEY ("memory_id") REFERENCES "public"."memories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."session_activity" ADD CONSTRAINT "session_activity_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
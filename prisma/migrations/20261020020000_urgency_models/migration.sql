@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."urgency_models" (
+    "id" SERIAL NOT NULL,
+    "project_id" INTEGER,
+    "priority_weight" DOUBLE PRECISION NOT NULL DEFAULT 2,
+    "due_weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "age_weight" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status_weights" JSONB NOT NULL DEFAULT '{"in_progress": 1}',
+    "dependency_weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "blocked_penalty" DOUBLE PRECISION NOT NULL DEFAULT 6,
+    "tag_weights" JSONB NOT NULL DEFAULT '{}',
+    "urgent_threshold" DOUBLE PRECISION NOT NULL DEFAULT 8,
+    "high_threshold" DOUBLE PRECISION NOT NULL DEFAULT 6,
+    "medium_threshold" DOUBLE PRECISION NOT NULL DEFAULT 4,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "urgency_models_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "urgency_models_project_id_key" ON "public"."urgency_models"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."urgency_models" ADD CONSTRAINT "urgency_models_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
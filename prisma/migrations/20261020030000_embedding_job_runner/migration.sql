@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."embedding_jobs" ADD COLUMN "runner_id" TEXT;
+
+-- Keep only the latest running job before enforcing a single one
+UPDATE "public"."embedding_jobs"
+SET "status" = 'failed', "last_error" = 'Superseded by a newer running job', "completed_at" = CURRENT_TIMESTAMP
+WHERE "status" = 'running'
+  AND "id" <> (SELECT MAX("id") FROM "public"."embedding_jobs" WHERE "status" = 'running');
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "embedding_jobs_single_running_key" ON "public"."embedding_jobs"("status") WHERE "status" = 'running';
@@ -9,6 +9,7 @@ SET timezone = 'UTC';
 
 -- Create extensions if needed
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "vector";
 
 -- The Prisma migrations will handle the actual schema creation
 -- This file is mainly for any additional database setup
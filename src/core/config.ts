@@ -5,16 +5,85 @@
  * and feature flags for the application.
  */
 
+import { homedir } from 'os';
+import { join } from 'path';
+import { EMBEDDING_PROVIDERS, EmbeddingProviderKind } from '../embeddings/embedding-provider.js';
+import { TOKEN_ESTIMATORS, TokenEstimatorKind } from '../utils/token-estimator.js';
+
+/**
+ * Default model and vector size for each embedding provider
+ */
+const EMBEDDING_PROVIDER_DEFAULTS: Record<
+  EmbeddingProviderKind,
+  { model: string; dimensions: number }
+> = {
+  transformers: { model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 },
+  openai: { model: 'text-embedding-3-small', dimensions: 384 },
+  hashing: { model: 'hashing-v1', dimensions: 384 },
+};
+
+/**
+ * Longest text the embedding service embeds; longer input is truncated.
+ * all-MiniLM-L6-v2 has a 512 token limit, roughly 400-500 characters
+ */
+export const EMBEDDING_MAX_TEXT_LENGTH = 400;
+
+/**
+ * Passages are embedded as "<title>: <passage>" with the title cut to this
+ * length, so a passage of up to MAX_CHUNK_SIZE characters is never truncated
+ */
+export const CHUNK_TITLE_MAX_LENGTH = 60;
+
+const MAX_CHUNK_SIZE = EMBEDDING_MAX_TEXT_LENGTH - CHUNK_TITLE_MAX_LENGTH - ': '.length;
+
 export interface ServerConfig {
   database: {
     path: string;
     backupPath: string;
     maxConnections: number;
   };
+  vault: {
+    path: string;
+  };
+  trash: {
+    // Days before trashed rows are purged automatically; 0 disables auto-purge
+    retentionDays: number;
+  };
   embedding: {
+    provider: EmbeddingProviderKind;
     model: string;
+    dimensions: number;
     batchSize: number;
     similarityThreshold: number;
+    // Cosine similarity at which two memories in a project count as duplicates
+    duplicateThreshold: number;
+    chunkSize: number;
+    chunkOverlap: number;
+    apiBaseUrl: string;
+    apiKey?: string;
+    // Days after which an unused embedding_cache entry is deleted; 0 keeps them
+    cacheRetentionDays: number;
+  };
+  relevance: {
+    // Relative weights of the parts of a memory's relevance score
+    weights: {
+      match: number;
+      priority: number;
+      recency: number;
+      usage: number;
+    };
+    // Days after which the recency part of an unused memory has halved
+    halfLifeDays: number;
+    // Days without use after which get_stale_memories lists a memory
+    staleAfterDays: number;
+  };
+  expiry: {
+    // Minutes between sweeps that archive expired memories; 0 disables the sweep
+    sweepMinutes: number;
+  };
+  context: {
+    // How context tools with max_tokens estimate the size of their output
+    tokenEstimator: TokenEstimatorKind;
   };
   server: {
     name: string;
@@ -31,16 +100,53 @@ export interface ServerConfig {
  * Get server configuration from environment variables and defaults
  */
 export function getConfig(): ServerConfig {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'transformers') as EmbeddingProviderKind;
+  const providerDefaults =
+    EMBEDDING_PROVIDER_DEFAULTS[provider] || EMBEDDING_PROVIDER_DEFAULTS.transformers;
+
   return {
     database: {
       path: process.env.DATABASE_PATH || getDefaultDatabasePath(),
       backupPath: process.env.DATABASE_BACKUP_PATH || getDefaultBackupPath(),
       maxConnections: parseInt(process.env.DB_MAX_CONNECTIONS || '10', 10),
     },
+    vault: {
+      path: process.env.OBSIDIAN_VAULT_PATH || getDefaultVaultPath(),
+    },
+    trash: {
+      retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    },
     embedding: {
-      model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+      provider,
+      model: process.env.EMBEDDING_MODEL || providerDefaults.model,
+      dimensions: parseInt(
+        process.env.EMBEDDING_DIMENSIONS || String(providerDefaults.dimensions),
+        10
+      ),
       batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '100', 10),
       similarityThreshold: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.7'),
+      duplicateThreshold: parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '0.92'),
+      chunkSize: parseInt(process.env.EMBEDDING_CHUNK_SIZE || '320', 10),
+      chunkOverlap: parseInt(process.env.EMBEDDING_CHUNK_OVERLAP || '60', 10),
+      apiBaseUrl: process.env.EMBEDDING_API_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+      cacheRetentionDays: parseInt(process.env.EMBEDDING_CACHE_RETENTION_DAYS || '90', 10),
+    },
+    relevance: {
+      weights: {
+        match: parseFloat(process.env.RELEVANCE_WEIGHT_MATCH || '0.7'),
+        priority: parseFloat(process.env.RELEVANCE_WEIGHT_PRIORITY || '0.15'),
+        recency: parseFloat(process.env.RELEVANCE_WEIGHT_RECENCY || '0.1'),
+        usage: parseFloat(process.env.RELEVANCE_WEIGHT_USAGE || '0.05'),
+      },
+      halfLifeDays: parseFloat(process.env.MEMORY_DECAY_HALF_LIFE_DAYS || '90'),
+      staleAfterDays: parseInt(process.env.STALE_MEMORY_DAYS || '90', 10),
+    },
+    expiry: {
+      sweepMinutes: parseInt(process.env.MEMORY_EXPIRY_SWEEP_MINUTES || '60', 10),
+    },
+    context: {
+      tokenEstimator: (process.env.CONTEXT_TOKEN_ESTIMATOR || 'chars') as TokenEstimatorKind,
     },
     server: {
       name: process.env.SERVER_NAME || 'AI Memory MCP Server',
@@ -58,18 +164,21 @@ export function getConfig(): ServerConfig {
  * Get default database path
  */
 function getDefaultDatabasePath(): string {
-  const os = require('os');
-  const path = require('path');
-  return path.join(os.homedir(), '.ai-memory', 'memories.db');
+  return join(homedir(), '.ai-memory', 'memories.db');
 }
 
 /**
  * Get default backup path
  */
 function getDefaultBackupPath(): string {
-  const os = require('os');
-  const path = require('path');
-  return path.join(os.homedir(), '.ai-memory', 'backups');
+  return join(homedir(), '.ai-memory', 'backups');
+}
+
+/**
+ * Get default Markdown vault path
+ */
+function getDefaultVaultPath(): string {
+  return join(homedir(), '.ai-memory', 'vault');
 }
 
 /**
@@ -80,13 +189,74 @@ export function validateConfig(config: ServerConfig): void {
     throw new Error('Database maxConnections must be at least 1');
   }
   
+  if (!Number.isInteger(config.trash.retentionDays) || config.trash.retentionDays < 0) {
+    throw new Error('Trash retentionDays must be a non-negative integer');
+  }
+
+  if (!EMBEDDING_PROVIDERS.includes(config.embedding.provider)) {
+    throw new Error(`Embedding provider must be one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+
+  if (!Number.isInteger(config.embedding.dimensions) || config.embedding.dimensions < 1) {
+    throw new Error('Embedding dimensions must be a positive integer');
+  }
+
   if (config.embedding.batchSize < 1) {
     throw new Error('Embedding batchSize must be at least 1');
   }
   
+  if (config.embedding.chunkSize < 50) {
+    throw new Error('Embedding chunkSize must be at least 50 characters');
+  }
+
+  if (config.embedding.chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(
+      `Embedding chunkSize must be at most ${MAX_CHUNK_SIZE} characters, so passages are not truncated`
+    );
+  }
+
+  if (
+    config.embedding.chunkOverlap < 0 ||
+    config.embedding.chunkOverlap >= config.embedding.chunkSize
+  ) {
+    throw new Error('Embedding chunkOverlap must be between 0 and chunkSize');
+  }
+
+  if (
+    !Number.isInteger(config.embedding.cacheRetentionDays) ||
+    config.embedding.cacheRetentionDays < 0
+  ) {
+    throw new Error('Embedding cacheRetentionDays must be a non-negative integer');
+  }
+
   if (config.embedding.similarityThreshold < 0 || config.embedding.similarityThreshold > 1) {
     throw new Error('Similarity threshold must be between 0 and 1');
   }
+
+  if (config.embedding.duplicateThreshold <= 0 || config.embedding.duplicateThreshold > 1) {
+    throw new Error('Duplicate similarity threshold must be greater than 0 and at most 1');
+  }
+
+  const weights = Object.values(config.relevance.weights);
+  if (weights.some(weight => !(weight >= 0)) || weights.every(weight => weight === 0)) {
+    throw new Error('Relevance weights must be non-negative and not all 0');
+  }
+
+  if (!(config.relevance.halfLifeDays > 0)) {
+    throw new Error('Memory decay half-life must be greater than 0 days');
+  }
+
+  if (!Number.isInteger(config.relevance.staleAfterDays) || config.relevance.staleAfterDays < 1) {
+    throw new Error('Stale memory days must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.expiry.sweepMinutes) || config.expiry.sweepMinutes < 0) {
+    throw new Error('Memory expiry sweep minutes must be a non-negative integer');
+  }
+
+  if (!TOKEN_ESTIMATORS.includes(config.context.tokenEstimator)) {
+    throw new Error(`Context token estimator must be one of: ${TOKEN_ESTIMATORS.join(', ')}`);
+  }
   
   if (config.server.timeout < 1000) {
     throw new Error('Server timeout must be at least 1000ms');
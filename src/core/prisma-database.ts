@@ -6,15 +6,18 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { handleAsyncError } from '../utils/error-handling.js';
+import { createValidationError, handleAsyncError } from '../utils/error-handling.js';
+import { VectorStore } from './vector-store.js';
 
 export class PrismaDatabaseService {
   private prisma: PrismaClient;
+  private vectorStore: VectorStore;
 
   constructor() {
     this.prisma = new PrismaClient({
       log: ['query', 'info', 'warn', 'error'],
     });
+    this.vectorStore = new VectorStore(this.prisma);
   }
 
   /**
@@ -44,6 +47,13 @@ export class PrismaDatabaseService {
     return this.prisma;
   }
 
+  /**
+   * Get the pgvector-backed embedding store
+   */
+  get vectors(): VectorStore {
+    return this.vectorStore;
+  }
+
   /**
    * Seed default data (statuses, etc.)
    */
@@ -106,7 +116,7 @@ export class PrismaDatabaseService {
   async getProjectByName(name: string): Promise<any> {
     return handleAsyncError(async () => {
       return await this.prisma.project.findUnique({
-        where: { name: name.toLowerCase() },
+        where: { name: name.toLowerCase(), deletedAt: null },
       });
     }, 'PrismaDatabaseService.getProjectByName');
   }
@@ -117,7 +127,7 @@ export class PrismaDatabaseService {
   async getTaskWithRelations(taskId: number): Promise<any> {
     return handleAsyncError(async () => {
       return await this.prisma.task.findUnique({
-        where: { id: taskId },
+        where: { id: taskId, deletedAt: null },
         include: {
           status: true,
           category: true,
@@ -138,7 +148,7 @@ export class PrismaDatabaseService {
   async getMemoryWithRelations(memoryId: number): Promise<any> {
     return handleAsyncError(async () => {
       return await this.prisma.memory.findUnique({
-        where: { id: memoryId },
+        where: { id: memoryId, deletedAt: null },
         include: {
           category: true,
           project: true,
@@ -158,7 +168,7 @@ export class PrismaDatabaseService {
   async getTasksByProject(projectName: string, options: { limit?: number } = {}): Promise<any[]> {
     return handleAsyncError(async () => {
       const project = await this.prisma.project.findUnique({
-        where: { name: projectName.toLowerCase() },
+        where: { name: projectName.toLowerCase(), deletedAt: null },
       });
 
       if (!project) {
@@ -166,7 +176,7 @@ export class PrismaDatabaseService {
       }
 
       return await this.prisma.task.findMany({
-        where: { projectId: project.id },
+        where: { projectId: project.id, deletedAt: null },
         include: {
           status: true,
           category: true,
@@ -184,11 +194,16 @@ export class PrismaDatabaseService {
   }
 
   /**
-   * Get memories by filters
+   * Get memories by filters; archived and expired memories only with filters.include_expired
    */
   async getMemoriesByFilters(filters: any, options: { limit?: number } = {}): Promise<any[]> {
     return handleAsyncError(async () => {
-      const where: any = {};
+      const where: any = { deletedAt: null };
+
+      if (!filters.include_expired) {
+        where.archived = false;
+        where.OR = [{ expiresAt: null }, { expiresAt: { gt: new Date() } }];
+      }
 
       if (filters.project) {
         const project = await this.prisma.project.findUnique({
@@ -275,6 +290,11 @@ export class PrismaDatabaseService {
             description: 'Auto-created project',
           },
         });
+      } else if (project.deletedAt) {
+        // Restoring it alone would leave its memories and tasks in the trash
+        throw createValidationError(
+          `Project '${projectName}' is in the trash (ID: ${project.id}); restore it with restore_item or purge it with purge_trash.`
+        );
       }
 
       return project.id;
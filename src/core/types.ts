@@ -19,9 +19,11 @@ export interface Memory {
   category_id?: number;
   project_id?: number;
   priority: number;
+  // Revision number; earlier revisions are listed by list_memory_versions
+  version?: number;
   created_at: string;
   updated_at: string;
-  embedding?: string; // JSON string of number[]
+  embedding?: number[]; // pgvector column, loaded only through VectorStore
   embedding_model?: string;
   embedding_created_at?: string;
   // Joined data
@@ -37,13 +39,14 @@ export interface Task {
   status_id: number;
   category_id?: number;
   project_id?: number;
+  parent_id?: number;
   priority: number;
   due_date?: string;
   created_at: string;
   updated_at: string;
   completed_at?: string;
   archived: boolean;
-  embedding?: string; // JSON string of number[]
+  embedding?: number[]; // pgvector column, loaded only through VectorStore
   embedding_model?: string;
   embedding_created_at?: string;
   // Joined data
@@ -118,6 +121,7 @@ export interface GetMemoryContextArgs {
   priority_min?: number;
   limit?: number;
   min_similarity?: number;
+  search_mode?: SearchMode;
 }
 
 export interface GetWorkPrioritiesArgs {
@@ -173,6 +177,12 @@ export interface CreateMemoryArgs {
   project?: string;
   tags?: string;
   priority?: number;
+  // Stable memory identifier, set when re-creating a memory from a Markdown vault note
+  uid?: string;
+  // What to do when near-identical memories already exist in the same project
+  on_duplicate?: DuplicateAction;
+  // ISO date or date-time after which the memory no longer holds
+  expires_at?: string;
 }
 
 export interface SearchMemoriesArgs {
@@ -182,6 +192,9 @@ export interface SearchMemoriesArgs {
   priority_min?: number;
   limit?: number;
   min_similarity?: number;
+  search_mode?: SearchMode;
+  // Also match memories that are archived or past their expiry
+  include_expired?: boolean;
 }
 
 export interface ListMemoriesArgs {
@@ -205,6 +218,8 @@ export interface UpdateMemoryArgs {
   project?: string;
   tags?: string;
   priority?: number;
+  // null or an empty string removes the expiry
+  expires_at?: string | null;
 }
 
 export interface DeleteMemoryArgs {
@@ -220,6 +235,48 @@ export interface ExportMemoriesArgs {
   project?: string;
 }
 
+export interface ListMemoryVersionsArgs {
+  id: number;
+}
+
+export interface DiffMemoryVersionsArgs {
+  id: number;
+  // Defaults to the version before to_version
+  from_version?: number;
+  // Defaults to the current version
+  to_version?: number;
+}
+
+export interface RestoreMemoryVersionArgs {
+  id: number;
+  version: number;
+}
+
+export interface FindDuplicateMemoriesArgs {
+  project?: string;
+  // Defaults to config.embedding.duplicateThreshold
+  min_similarity?: number;
+  limit?: number;
+}
+
+export interface MergeMemoriesArgs {
+  // Memory that is kept and receives the others' content, tags and links
+  target_id: number;
+  source_ids: number[];
+  // Replaces the target's title
+  title?: string;
+}
+
+export interface GetStaleMemoriesArgs {
+  // Defaults to config.relevance.staleAfterDays
+  days?: number;
+  category?: string;
+  project?: string;
+  // Leave out memories above this priority
+  priority_max?: number;
+  limit?: number;
+}
+
 // Task service argument interfaces
 export interface CreateTaskArgs {
   title: string;
@@ -230,6 +287,29 @@ export interface CreateTaskArgs {
   tags?: string;
   priority?: number;
   due_date?: string;
+  parent_id?: number;
+  // Structured rule or an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+  recurrence?: RecurrenceArgs | string;
+  // Who is making the change, recorded in the task history
+  actor?: string;
+}
+
+/**
+ * Recurrence rule for a task: every `interval` days, weeks or months,
+ * optionally ending on a date or after a number of occurrences
+ */
+export interface RecurrenceArgs {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  until?: string;
+  count?: number;
+}
+
+/**
+ * A batch_create_tasks entry; subtasks are created under it
+ */
+export interface BatchTaskInput extends CreateTaskArgs {
+  subtasks?: BatchTaskInput[];
 }
 
 export interface ListTasksArgs {
@@ -253,6 +333,7 @@ export interface SearchTasksArgs {
   priority_min?: number;
   limit?: number;
   min_similarity?: number;
+  search_mode?: SearchMode;
 }
 
 export interface GetTaskArgs {
@@ -269,15 +350,23 @@ export interface UpdateTaskArgs {
   tags?: string;
   priority?: number;
   due_date?: string;
+  // null moves the task to the top level
+  parent_id?: number | null;
+  // null stops the task from recurring
+  recurrence?: RecurrenceArgs | string | null;
+  actor?: string;
 }
 
 export interface CompleteTaskArgs {
   id: number;
+  cascade?: boolean;
+  actor?: string;
 }
 
 export interface ArchiveTaskArgs {
   id: number;
   archived?: boolean;
+  actor?: string;
 }
 
 export interface DeleteTaskArgs {
@@ -295,6 +384,188 @@ export interface ExportTasksArgs {
   include_archived?: boolean;
 }
 
+export interface GetTaskHistoryArgs {
+  id: number;
+  event_type?: TaskEventType;
+  limit?: number;
+}
+
+// Task dependency service argument interfaces
+export interface AddTaskDependencyArgs {
+  task_id: number;
+  depends_on_id: number;
+}
+
+export interface RemoveTaskDependencyArgs {
+  task_id: number;
+  depends_on_id: number;
+}
+
+export interface GetTaskGraphArgs {
+  task_id?: number;
+  project?: string;
+  include_completed?: boolean;
+}
+
+// Memory link service argument interfaces
+export interface LinkItemsArgs {
+  memory_id: number;
+  link_type: LinkType;
+  // Exactly one target
+  target_memory_id?: number;
+  target_task_id?: number;
+}
+
+export interface UnlinkItemsArgs {
+  memory_id: number;
+  target_memory_id?: number;
+  target_task_id?: number;
+  // Remove every link between the two items when omitted
+  link_type?: LinkType;
+}
+
+// Import service argument interfaces
+export interface ImportOptionsArgs {
+  on_conflict?: ImportConflictStrategy;
+  match_by?: ImportMatchKey;
+  dry_run?: boolean;
+}
+
+/**
+ * Memory record as produced by export_memories (tags may also be a comma-separated string)
+ */
+export interface ImportMemoryRecord {
+  id?: number;
+  title: string;
+  content: string;
+  category?: string;
+  project?: string;
+  priority?: number;
+  tags?: string | string[];
+  created_at?: string;
+}
+
+/**
+ * Task record as produced by export_tasks (tags may also be a comma-separated string)
+ */
+export interface ImportTaskRecord {
+  id?: number;
+  title: string;
+  description?: string;
+  status?: string;
+  category?: string;
+  project?: string;
+  priority?: number;
+  due_date?: string;
+  tags?: string | string[];
+  created_at?: string;
+  completed_at?: string;
+  archived?: boolean;
+}
+
+export interface ImportMemoriesArgs extends ImportOptionsArgs {
+  memories: ImportMemoryRecord[];
+}
+
+export interface ImportTasksArgs extends ImportOptionsArgs {
+  tasks: ImportTaskRecord[];
+}
+
+// Backup service argument interfaces
+export interface BackupDatabaseArgs {
+  include_embeddings?: boolean;
+}
+
+export interface RestoreDatabaseArgs {
+  file: string;
+  mode?: RestoreMode;
+}
+
+// Vault service argument interfaces
+export interface ExportMemoriesMarkdownArgs {
+  folder?: string;
+  category?: string;
+  project?: string;
+}
+
+export interface ImportMemoriesMarkdownArgs {
+  folder?: string;
+  dry_run?: boolean;
+  write_ids?: boolean;
+}
+
+// Trash service argument interfaces
+export interface ListTrashArgs {
+  type?: TrashItemType;
+  limit?: number;
+}
+
+export interface RestoreItemArgs {
+  type: TrashItemType;
+  id: number;
+}
+
+export interface PurgeTrashArgs {
+  type?: TrashItemType;
+  // Only purge items that have been in the trash at least this many days
+  older_than_days?: number;
+  dry_run?: boolean;
+}
+
+// Re-embedding service argument interfaces
+export interface StartReembeddingArgs {
+  batch_size?: number;
+  force?: boolean;
+}
+
+export interface GetReembeddingStatusArgs {
+  job_id?: number;
+}
+
+// Session service argument interfaces
+export interface BeginSessionArgs {
+  project?: string;
+}
+
+export interface EndSessionArgs {
+  // Defaults to the active session
+  id?: number;
+  // Stored as a memory in the session's project
+  summary?: string;
+  title?: string;
+}
+
+export interface ListSessionsArgs {
+  project?: string;
+  limit?: number;
+}
+
+export interface GetSessionArgs {
+  // Defaults to the active session
+  id?: number;
+}
+
+// Urgency service argument interfaces
+export interface GetUrgencyModelArgs {
+  project?: string;
+}
+
+export interface SetUrgencyModelArgs {
+  // Without a project, the global model is set
+  project?: string;
+  priority?: number;
+  due?: number;
+  age?: number;
+  // Merged into the current weights; null removes a status or tag
+  status?: Record<string, number | null>;
+  dependencies?: number;
+  blocked_penalty?: number;
+  tags?: Record<string, number | null>;
+  bands?: { urgent?: number; high?: number; medium?: number };
+  // Delete the model, so the global model or the built-in defaults apply again
+  reset?: boolean;
+}
+
 // Database operation interfaces
 export interface DatabaseOperations {
   dbRun: (sql: string, params?: any[]) => Promise<DatabaseResult>;
@@ -326,6 +597,33 @@ export interface SemanticSearchResult {
   [key: string]: any;
 }
 
+/**
+ * Per-result score breakdown reported by memory and task search
+ */
+export interface SearchScoreBreakdown {
+  mode: SearchMode;
+  score: number;
+  semantic_similarity?: number;
+  semantic_rank?: number;
+  keyword_rank_score?: number;
+  keyword_rank?: number;
+  // Memories only: the ranking score blending the match with priority, recency and usage
+  relevance?: RelevanceBreakdown;
+}
+
+/**
+ * Parts of a memory's relevance score, each between 0 and 1
+ */
+export interface RelevanceBreakdown {
+  score: number;
+  // The mode score scaled against the best match in the result
+  match: number;
+  priority: number;
+  // Halves every MEMORY_DECAY_HALF_LIFE_DAYS since the memory was last used or updated
+  recency: number;
+  usage: number;
+}
+
 // Constants
 export const VALID_TASK_STATUSES = [
   'not_started',
@@ -345,6 +643,63 @@ export const VALID_CONTEXT_LEVELS = ['basic', 'standard', 'comprehensive'] as co
 
 export type ContextLevel = (typeof VALID_CONTEXT_LEVELS)[number];
 
+export const VALID_SEARCH_MODES = ['semantic', 'keyword', 'hybrid'] as const;
+
+export type SearchMode = (typeof VALID_SEARCH_MODES)[number];
+
+export const VALID_CONTEXT_FORMATS = ['markdown', 'json'] as const;
+
+export type ContextFormat = (typeof VALID_CONTEXT_FORMATS)[number];
+
+export const VALID_IMPORT_CONFLICT_STRATEGIES = ['skip', 'overwrite', 'duplicate'] as const;
+
+export type ImportConflictStrategy = (typeof VALID_IMPORT_CONFLICT_STRATEGIES)[number];
+
+export const VALID_IMPORT_MATCH_KEYS = ['id', 'title_project'] as const;
+
+export type ImportMatchKey = (typeof VALID_IMPORT_MATCH_KEYS)[number];
+
+export const VALID_RESTORE_MODES = ['merge', 'replace'] as const;
+
+export type RestoreMode = (typeof VALID_RESTORE_MODES)[number];
+
+export const VALID_RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = (typeof VALID_RECURRENCE_FREQUENCIES)[number];
+
+export const VALID_TASK_EVENT_TYPES = [
+  'created',
+  'status_changed',
+  'field_changed',
+  'tags_changed',
+  'archived',
+  'unarchived',
+  'trashed',
+  'restored',
+] as const;
+
+export type TaskEventType = (typeof VALID_TASK_EVENT_TYPES)[number];
+
+export const VALID_SESSION_ACTIONS = ['created', 'updated'] as const;
+
+export type SessionAction = (typeof VALID_SESSION_ACTIONS)[number];
+
+export const VALID_URGENCY_BANDS = ['urgent', 'high', 'medium', 'low'] as const;
+
+export type UrgencyBand = (typeof VALID_URGENCY_BANDS)[number];
+
+export const VALID_TRASH_ITEM_TYPES = ['memory', 'task', 'project'] as const;
+
+export type TrashItemType = (typeof VALID_TRASH_ITEM_TYPES)[number];
+
+export const VALID_DUPLICATE_ACTIONS = ['warn', 'refuse', 'ignore'] as const;
+
+export type DuplicateAction = (typeof VALID_DUPLICATE_ACTIONS)[number];
+
+export const VALID_LINK_TYPES = ['supersedes', 'relates_to', 'documents', 'derived_from'] as const;
+
+export type LinkType = (typeof VALID_LINK_TYPES)[number];
+
 export const VALID_TIME_HORIZONS = ['today', 'week', 'month'] as const;
 
 export type TimeHorizon = (typeof VALID_TIME_HORIZONS)[number];
@@ -0,0 +1,641 @@
+/**
+ * Vector Store
+ *
+ * Reads and writes pgvector embedding columns for memories and tasks.
+ * Prisma cannot map the `vector` or `tsvector` types, so all access goes
+ * through raw queries here: nearest-neighbour ranking uses the HNSW cosine
+ * indexes and keyword ranking uses the generated `search_vector` columns.
+ *
+ * Long content also has per-passage vectors in memory_chunks/task_chunks.
+ * Nearest-neighbour queries score each parent by the better of its own vector
+ * and its best-matching chunk, and report that chunk as the matched passage.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Size of the memories/tasks embedding columns; must match vector(384) in schema.prisma
+ */
+export const VECTOR_COLUMN_DIMENSIONS = 384;
+
+/**
+ * Filters applied to nearest-neighbour memory queries
+ */
+export interface MemoryVectorFilters {
+  category?: string;
+  project?: string;
+  // Only memories that belong to no project
+  without_project?: boolean;
+  priority_min?: number;
+  exclude_ids?: number[];
+  embedding_model?: string;
+  // Also match archived memories and memories past their expires_at
+  include_expired?: boolean;
+}
+
+/**
+ * Filters applied to nearest-neighbour task queries
+ */
+export interface TaskVectorFilters {
+  status?: string;
+  category?: string;
+  project?: string;
+  priority_min?: number;
+  archived?: boolean;
+  exclude_ids?: number[];
+  embedding_model?: string;
+}
+
+/**
+ * How many chunk candidates to read per requested parent match
+ */
+const CHUNK_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * The chunk of a parent item that matched a query
+ */
+export interface PassageMatch {
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  similarity: number;
+}
+
+/**
+ * A single nearest-neighbour match
+ */
+export interface VectorMatch {
+  id: number;
+  similarity: number;
+  passage?: PassageMatch;
+}
+
+/**
+ * A chunk and its embedding, ready to be stored
+ */
+export interface StoredChunk {
+  index: number;
+  content: string;
+  start: number;
+  end: number;
+  embedding: number[];
+  // Model that produced the embedding, when it differs from its parent's
+  model?: string;
+}
+
+interface ChunkRow {
+  id: number;
+  similarity: number;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+}
+
+/**
+ * A stored vector read back for snapshots
+ */
+export interface StoredEmbedding {
+  id: number;
+  embedding: number[];
+}
+
+/**
+ * A stored passage chunk with its parent row, read back for snapshots
+ */
+export interface StoredParentChunk extends StoredChunk {
+  parentId: number;
+  model: string;
+}
+
+/**
+ * A single full-text match ranked by ts_rank_cd
+ */
+export interface KeywordMatch {
+  id: number;
+  rank: number;
+}
+
+/**
+ * Two memories whose item vectors are close
+ */
+export interface SimilarPair {
+  id: number;
+  other_id: number;
+  similarity: number;
+}
+
+/**
+ * Serialize an embedding into pgvector's text input format
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+interface StoredChunkRow {
+  parent_id: number;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  embedding: string;
+  embedding_model: string;
+}
+
+function toStoredParentChunk(row: StoredChunkRow): StoredParentChunk {
+  return {
+    parentId: row.parent_id,
+    model: row.embedding_model,
+    index: row.chunk_index,
+    content: row.content,
+    start: row.start_offset,
+    end: row.end_offset,
+    embedding: JSON.parse(row.embedding),
+  };
+}
+
+export class VectorStore {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Store the embedding for a memory with the hash of the text it was generated from
+   */
+  async setMemoryEmbedding(
+    memoryId: number,
+    embedding: number[],
+    model: string,
+    textHash: string
+  ): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE memories
+      SET embedding = ${toVectorLiteral(embedding)}::vector,
+          embedding_model = ${model},
+          embedding_text_hash = ${textHash},
+          embedding_created_at = NOW()
+      WHERE id = ${memoryId}`;
+  }
+
+  /**
+   * Store the embedding for a task with the hash of the text it was generated from
+   */
+  async setTaskEmbedding(
+    taskId: number,
+    embedding: number[],
+    model: string,
+    textHash: string
+  ): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE tasks
+      SET embedding = ${toVectorLiteral(embedding)}::vector,
+          embedding_model = ${model},
+          embedding_text_hash = ${textHash},
+          embedding_created_at = NOW()
+      WHERE id = ${taskId}`;
+  }
+
+  /**
+   * Look up cached embeddings by content hash for one model
+   */
+  async getCachedEmbeddings(hashes: string[], model: string): Promise<Map<string, number[]>> {
+    if (hashes.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.prisma.$queryRaw<Array<{ content_hash: string; embedding: string }>>`
+      UPDATE embedding_cache
+      SET last_used_at = NOW()
+      WHERE model = ${model} AND content_hash IN (${Prisma.join(hashes)})
+      RETURNING content_hash, embedding::text AS embedding`;
+
+    return new Map(rows.map(row => [row.content_hash, JSON.parse(row.embedding) as number[]]));
+  }
+
+  /**
+   * Add embeddings to the cache, keyed by content hash and model
+   */
+  async putCachedEmbeddings(
+    entries: Array<{ hash: string; embedding: number[] }>,
+    model: string
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const values = entries.map(
+      entry => Prisma.sql`(${entry.hash}, ${model}, ${toVectorLiteral(entry.embedding)}::vector)`
+    );
+    await this.prisma.$executeRaw`
+      INSERT INTO embedding_cache (content_hash, model, embedding)
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT (content_hash, model) DO UPDATE SET last_used_at = NOW()`;
+  }
+
+  /**
+   * Delete cache entries not used since the given time
+   *
+   * @returns Number of entries deleted
+   */
+  async pruneCachedEmbeddings(unusedSince: Date): Promise<number> {
+    return this.prisma.$executeRaw`
+      DELETE FROM embedding_cache WHERE last_used_at < ${unusedSince}`;
+  }
+
+  /**
+   * Replace all stored chunks of a memory; chunks without their own model are
+   * stored as embedded with the given one
+   */
+  async replaceMemoryChunks(memoryId: number, chunks: StoredChunk[], model: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`DELETE FROM memory_chunks WHERE memory_id = ${memoryId}`,
+      ...chunks.map(
+        chunk => this.prisma.$executeRaw`
+          INSERT INTO memory_chunks
+            (memory_id, chunk_index, content, start_offset, end_offset, embedding, embedding_model)
+          VALUES (${memoryId}, ${chunk.index}, ${chunk.content}, ${chunk.start}, ${chunk.end},
+                  ${toVectorLiteral(chunk.embedding)}::vector, ${chunk.model ?? model})`
+      ),
+    ]);
+  }
+
+  /**
+   * Replace all stored chunks of a task; chunks without their own model are
+   * stored as embedded with the given one
+   */
+  async replaceTaskChunks(taskId: number, chunks: StoredChunk[], model: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`DELETE FROM task_chunks WHERE task_id = ${taskId}`,
+      ...chunks.map(
+        chunk => this.prisma.$executeRaw`
+          INSERT INTO task_chunks
+            (task_id, chunk_index, content, start_offset, end_offset, embedding, embedding_model)
+          VALUES (${taskId}, ${chunk.index}, ${chunk.content}, ${chunk.start}, ${chunk.end},
+                  ${toVectorLiteral(chunk.embedding)}::vector, ${chunk.model ?? model})`
+      ),
+    ]);
+  }
+
+  /**
+   * Read every stored memory embedding
+   */
+  async getMemoryEmbeddings(): Promise<StoredEmbedding[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; embedding: string }>>`
+      SELECT id, embedding::text AS embedding FROM memories
+      WHERE embedding IS NOT NULL ORDER BY id`;
+    return rows.map(row => ({ id: row.id, embedding: JSON.parse(row.embedding) }));
+  }
+
+  /**
+   * Read every stored task embedding
+   */
+  async getTaskEmbeddings(): Promise<StoredEmbedding[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; embedding: string }>>`
+      SELECT id, embedding::text AS embedding FROM tasks
+      WHERE embedding IS NOT NULL ORDER BY id`;
+    return rows.map(row => ({ id: row.id, embedding: JSON.parse(row.embedding) }));
+  }
+
+  /**
+   * Read every stored memory passage chunk
+   */
+  async getMemoryChunks(): Promise<StoredParentChunk[]> {
+    const rows = await this.prisma.$queryRaw<StoredChunkRow[]>`
+      SELECT memory_id AS parent_id, chunk_index, content, start_offset, end_offset,
+             embedding::text AS embedding, embedding_model
+      FROM memory_chunks
+      WHERE embedding IS NOT NULL AND embedding_model IS NOT NULL
+      ORDER BY memory_id, chunk_index`;
+    return rows.map(toStoredParentChunk);
+  }
+
+  /**
+   * Read every stored task passage chunk
+   */
+  async getTaskChunks(): Promise<StoredParentChunk[]> {
+    const rows = await this.prisma.$queryRaw<StoredChunkRow[]>`
+      SELECT task_id AS parent_id, chunk_index, content, start_offset, end_offset,
+             embedding::text AS embedding, embedding_model
+      FROM task_chunks
+      WHERE embedding IS NOT NULL AND embedding_model IS NOT NULL
+      ORDER BY task_id, chunk_index`;
+    return rows.map(toStoredParentChunk);
+  }
+
+  /**
+   * Find the memories closest to the query embedding
+   */
+  async findNearestMemories(
+    queryEmbedding: number[],
+    filters: MemoryVectorFilters,
+    limit: number,
+    minSimilarity: number
+  ): Promise<VectorMatch[]> {
+    const vector = toVectorLiteral(queryEmbedding);
+    const conditions = [Prisma.sql`m.embedding IS NOT NULL`, ...this.memoryConditions(filters)];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; similarity: number }>>`
+      SELECT m.id, 1 - (m.embedding <=> ${vector}::vector) AS similarity
+      FROM memories m
+      LEFT JOIN categories c ON c.id = m.category_id
+      LEFT JOIN projects p ON p.id = m.project_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY m.embedding <=> ${vector}::vector
+      LIMIT ${limit}`;
+
+    const chunkConditions = [
+      Prisma.sql`mc.embedding IS NOT NULL`,
+      ...this.memoryConditions({ ...filters, embedding_model: undefined }),
+    ];
+    if (filters.embedding_model) {
+      chunkConditions.push(Prisma.sql`mc.embedding_model = ${filters.embedding_model}`);
+    }
+
+    const chunkRows = await this.prisma.$queryRaw<ChunkRow[]>`
+      SELECT mc.memory_id AS id, 1 - (mc.embedding <=> ${vector}::vector) AS similarity,
+             mc.chunk_index, mc.content, mc.start_offset, mc.end_offset
+      FROM memory_chunks mc
+      JOIN memories m ON m.id = mc.memory_id
+      LEFT JOIN categories c ON c.id = m.category_id
+      LEFT JOIN projects p ON p.id = m.project_id
+      WHERE ${Prisma.join(chunkConditions, ' AND ')}
+      ORDER BY mc.embedding <=> ${vector}::vector
+      LIMIT ${limit * CHUNK_CANDIDATE_MULTIPLIER}`;
+
+    return this.mergeMatches(rows, chunkRows, limit, minSimilarity);
+  }
+
+  /**
+   * Find the tasks closest to the query embedding
+   */
+  async findNearestTasks(
+    queryEmbedding: number[],
+    filters: TaskVectorFilters,
+    limit: number,
+    minSimilarity: number
+  ): Promise<VectorMatch[]> {
+    const vector = toVectorLiteral(queryEmbedding);
+    const conditions = [Prisma.sql`t.embedding IS NOT NULL`, ...this.taskConditions(filters)];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; similarity: number }>>`
+      SELECT t.id, 1 - (t.embedding <=> ${vector}::vector) AS similarity
+      FROM tasks t
+      JOIN statuses s ON s.id = t.status_id
+      LEFT JOIN categories c ON c.id = t.category_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY t.embedding <=> ${vector}::vector
+      LIMIT ${limit}`;
+
+    const chunkConditions = [
+      Prisma.sql`tc.embedding IS NOT NULL`,
+      ...this.taskConditions({ ...filters, embedding_model: undefined }),
+    ];
+    if (filters.embedding_model) {
+      chunkConditions.push(Prisma.sql`tc.embedding_model = ${filters.embedding_model}`);
+    }
+
+    const chunkRows = await this.prisma.$queryRaw<ChunkRow[]>`
+      SELECT tc.task_id AS id, 1 - (tc.embedding <=> ${vector}::vector) AS similarity,
+             tc.chunk_index, tc.content, tc.start_offset, tc.end_offset
+      FROM task_chunks tc
+      JOIN tasks t ON t.id = tc.task_id
+      JOIN statuses s ON s.id = t.status_id
+      LEFT JOIN categories c ON c.id = t.category_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ${Prisma.join(chunkConditions, ' AND ')}
+      ORDER BY tc.embedding <=> ${vector}::vector
+      LIMIT ${limit * CHUNK_CANDIDATE_MULTIPLIER}`;
+
+    return this.mergeMatches(rows, chunkRows, limit, minSimilarity);
+  }
+
+  /**
+   * Rank memories by full-text relevance against the generated search_vector column
+   */
+  async findKeywordMemories(
+    query: string,
+    filters: MemoryVectorFilters,
+    limit: number
+  ): Promise<KeywordMatch[]> {
+    const conditions = [
+      Prisma.sql`m.search_vector @@ websearch_to_tsquery('english', ${query})`,
+      ...this.memoryConditions(filters),
+    ];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+      SELECT m.id, ts_rank_cd(m.search_vector, websearch_to_tsquery('english', ${query})) AS rank
+      FROM memories m
+      LEFT JOIN categories c ON c.id = m.category_id
+      LEFT JOIN projects p ON p.id = m.project_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY rank DESC, m.id
+      LIMIT ${limit}`;
+
+    return rows.map(row => ({ id: Number(row.id), rank: Number(row.rank) }));
+  }
+
+  /**
+   * Rank tasks by full-text relevance against the generated search_vector column
+   */
+  async findKeywordTasks(
+    query: string,
+    filters: TaskVectorFilters,
+    limit: number
+  ): Promise<KeywordMatch[]> {
+    const conditions = [
+      Prisma.sql`t.search_vector @@ websearch_to_tsquery('english', ${query})`,
+      ...this.taskConditions(filters),
+    ];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+      SELECT t.id, ts_rank_cd(t.search_vector, websearch_to_tsquery('english', ${query})) AS rank
+      FROM tasks t
+      JOIN statuses s ON s.id = t.status_id
+      LEFT JOIN categories c ON c.id = t.category_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY rank DESC, t.id
+      LIMIT ${limit}`;
+
+    return rows.map(row => ({ id: Number(row.id), rank: Number(row.rank) }));
+  }
+
+  /**
+   * Find the memories whose own vector (ignoring passage chunks) is closest
+   * to an embedding; used to spot duplicates rather than to answer queries
+   */
+  async findSimilarMemories(
+    embedding: number[],
+    filters: MemoryVectorFilters,
+    limit: number,
+    minSimilarity: number
+  ): Promise<VectorMatch[]> {
+    const vector = toVectorLiteral(embedding);
+    const conditions = [Prisma.sql`m.embedding IS NOT NULL`, ...this.memoryConditions(filters)];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: number; similarity: number }>>`
+      SELECT m.id, 1 - (m.embedding <=> ${vector}::vector) AS similarity
+      FROM memories m
+      LEFT JOIN categories c ON c.id = m.category_id
+      LEFT JOIN projects p ON p.id = m.project_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY m.embedding <=> ${vector}::vector
+      LIMIT ${limit}`;
+
+    return rows
+      .map(row => ({ id: Number(row.id), similarity: Number(row.similarity) }))
+      .filter(row => row.similarity >= minSimilarity);
+  }
+
+  /**
+   * Pair every memory with its nearest neighbours in the same project (or
+   * among memories without one) and keep the pairs at or above minSimilarity.
+   * Each pair is returned once, with the lower id first.
+   */
+  async findSimilarMemoryPairs(
+    filters: MemoryVectorFilters,
+    neighbours: number,
+    minSimilarity: number
+  ): Promise<SimilarPair[]> {
+    const conditions = [Prisma.sql`m.embedding IS NOT NULL`, ...this.memoryConditions(filters)];
+    const activeNeighbour = filters.include_expired
+      ? Prisma.empty
+      : Prisma.sql`AND NOT o.archived AND (o.expires_at IS NULL OR o.expires_at > NOW())`;
+
+    const rows = await this.prisma.$queryRaw<SimilarPair[]>`
+      SELECT m.id, n.id AS other_id, n.similarity
+      FROM memories m
+      LEFT JOIN categories c ON c.id = m.category_id
+      LEFT JOIN projects p ON p.id = m.project_id
+      CROSS JOIN LATERAL (
+        SELECT o.id, 1 - (o.embedding <=> m.embedding) AS similarity
+        FROM memories o
+        WHERE o.id <> m.id
+          AND o.embedding IS NOT NULL
+          AND o.deleted_at IS NULL
+          ${activeNeighbour}
+          AND o.embedding_model = m.embedding_model
+          AND o.project_id IS NOT DISTINCT FROM m.project_id
+        ORDER BY o.embedding <=> m.embedding
+        LIMIT ${neighbours}
+      ) n
+      WHERE ${Prisma.join(conditions, ' AND ')} AND n.similarity >= ${minSimilarity}`;
+
+    const pairs = new Map<string, SimilarPair>();
+    for (const row of rows) {
+      const [id, otherId] = [Number(row.id), Number(row.other_id)].sort((a, b) => a - b);
+      pairs.set(`${id}:${otherId}`, { id, other_id: otherId, similarity: Number(row.similarity) });
+    }
+    return [...pairs.values()].sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Build WHERE fragments for memory filters (alias m, joined c and p);
+   * trashed memories are always left out, expired ones unless asked for
+   */
+  private memoryConditions(filters: MemoryVectorFilters): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [Prisma.sql`m.deleted_at IS NULL`];
+
+    if (!filters.include_expired) {
+      conditions.push(
+        Prisma.sql`NOT m.archived AND (m.expires_at IS NULL OR m.expires_at > NOW())`
+      );
+    }
+
+    if (filters.category) {
+      conditions.push(Prisma.sql`c.name = ${filters.category.toLowerCase()}`);
+    }
+    if (filters.project) {
+      conditions.push(Prisma.sql`p.name = ${filters.project.toLowerCase()}`);
+    }
+    if (filters.without_project) {
+      conditions.push(Prisma.sql`m.project_id IS NULL`);
+    }
+    if (filters.priority_min) {
+      conditions.push(Prisma.sql`m.priority >= ${filters.priority_min}`);
+    }
+    if (filters.exclude_ids && filters.exclude_ids.length > 0) {
+      conditions.push(Prisma.sql`m.id NOT IN (${Prisma.join(filters.exclude_ids)})`);
+    }
+    if (filters.embedding_model) {
+      conditions.push(Prisma.sql`m.embedding_model = ${filters.embedding_model}`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Build WHERE fragments for task filters (alias t, joined s, c and p);
+   * trashed tasks are always left out
+   */
+  private taskConditions(filters: TaskVectorFilters): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [Prisma.sql`t.deleted_at IS NULL`];
+
+    if (filters.archived !== undefined) {
+      conditions.push(Prisma.sql`t.archived = ${filters.archived}`);
+    }
+    if (filters.status) {
+      conditions.push(Prisma.sql`s.name = ${filters.status.toLowerCase()}`);
+    }
+    if (filters.category) {
+      conditions.push(Prisma.sql`c.name = ${filters.category.toLowerCase()}`);
+    }
+    if (filters.project) {
+      conditions.push(Prisma.sql`p.name = ${filters.project.toLowerCase()}`);
+    }
+    if (filters.priority_min) {
+      conditions.push(Prisma.sql`t.priority >= ${filters.priority_min}`);
+    }
+    if (filters.exclude_ids && filters.exclude_ids.length > 0) {
+      conditions.push(Prisma.sql`t.id NOT IN (${Prisma.join(filters.exclude_ids)})`);
+    }
+    if (filters.embedding_model) {
+      conditions.push(Prisma.sql`t.embedding_model = ${filters.embedding_model}`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Combine parent and chunk rows: each parent keeps its best similarity and,
+   * when a chunk beat the parent vector, that chunk as the matched passage.
+   * The threshold is applied after ORDER BY ... LIMIT so the ANN indexes are used.
+   */
+  private mergeMatches(
+    rows: Array<{ id: number; similarity: number }>,
+    chunkRows: ChunkRow[],
+    limit: number,
+    minSimilarity: number
+  ): VectorMatch[] {
+    const matches = new Map<number, VectorMatch>();
+
+    for (const row of rows) {
+      const id = Number(row.id);
+      matches.set(id, { id, similarity: Number(row.similarity) });
+    }
+
+    for (const row of chunkRows) {
+      const id = Number(row.id);
+      const similarity = Number(row.similarity);
+      const existing = matches.get(id);
+      if (existing && existing.similarity >= similarity) continue;
+
+      matches.set(id, {
+        id,
+        similarity,
+        passage: {
+          chunk_index: Number(row.chunk_index),
+          content: row.content,
+          start_offset: Number(row.start_offset),
+          end_offset: Number(row.end_offset),
+          similarity,
+        },
+      });
+    }
+
+    return Array.from(matches.values())
+      .filter(match => match.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+}
@@ -1,15 +1,37 @@
-import { pipeline, env } from '@xenova/transformers';
+import { config, EMBEDDING_MAX_TEXT_LENGTH } from './core/config.js';
+import { VECTOR_COLUMN_DIMENSIONS } from './core/vector-store.js';
+import { EmbeddingProvider } from './embeddings/embedding-provider.js';
+import { createEmbeddingProvider } from './embeddings/create-provider.js';
+import { contentHash } from './utils/content-hash.js';
 
-// Disable local cache for better deployment compatibility
-env.allowLocalModels = false;
-env.allowRemoteModels = true;
-
-interface EmbeddingResult {
+export interface EmbeddingResult {
   embedding: number[];
   model: string;
   dimensions: number;
 }
 
+/**
+ * Outcome for one input of generateEmbeddings: either a result or an error
+ */
+export interface BatchEmbeddingResult {
+  result?: EmbeddingResult;
+  error?: string;
+}
+
+/**
+ * Persistent store of embeddings keyed by content hash and model
+ */
+export interface EmbeddingCache {
+  getCachedEmbeddings(hashes: string[], model: string): Promise<Map<string, number[]>>;
+  putCachedEmbeddings(
+    entries: Array<{ hash: string; embedding: number[] }>,
+    model: string
+  ): Promise<void>;
+  pruneCachedEmbeddings(unusedSince: Date): Promise<number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 interface SimilarityResult {
   similarity: number;
   id: number;
@@ -18,21 +40,72 @@ interface SimilarityResult {
 }
 
 class EmbeddingService {
-  private embedder: any = null;
-  private readonly modelName = 'Xenova/all-MiniLM-L6-v2';
-  private readonly dimensions = 384; // all-MiniLM-L6-v2 produces 384-dim embeddings
-  
+  private readonly modelName: string;
+  private readonly dimensions: number;
+  private cache: EmbeddingCache | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly batchSize: number
+  ) {
+    this.modelName = provider.modelId;
+    this.dimensions = provider.dimensions;
+  }
+
+  /**
+   * Attach the persistent embedding cache consulted by generateEmbeddings
+   */
+  setCache(cache: EmbeddingCache): void {
+    this.cache = cache;
+  }
+
   /**
-   * Initialize the embedding model
+   * Drop cache entries unused for config.embedding.cacheRetentionDays, now
+   * and once a day while the server runs; does nothing when pruning is
+   * disabled or no cache is attached
+   */
+  async startCachePruning(): Promise<void> {
+    const { cacheRetentionDays } = config.embedding;
+    if (cacheRetentionDays === 0 || !this.cache || this.pruneTimer) return;
+    const cache = this.cache;
+
+    const run = async () => {
+      try {
+        const pruned = await cache.pruneCachedEmbeddings(
+          new Date(Date.now() - cacheRetentionDays * DAY_MS)
+        );
+        if (pruned > 0) {
+          console.error(
+            `[Embedding] Pruned ${pruned} cached embeddings unused for ${cacheRetentionDays} days`
+          );
+        }
+      } catch (error) {
+        console.error('[Embedding] Cache pruning failed:', error);
+      }
+    };
+
+    await run();
+    this.pruneTimer = setInterval(run, DAY_MS);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Initialize the embedding provider
    * This is called lazily on first use to avoid startup delays
    */
   private async initializeModel(): Promise<void> {
-    if (this.embedder) return;
-    
+    // Vectors are stored in fixed-size pgvector columns
+    if (this.dimensions !== VECTOR_COLUMN_DIMENSIONS) {
+      throw new Error(
+        `Embedding provider ${this.provider.kind} produces ${this.dimensions}-dimensional vectors but the database stores vector(${VECTOR_COLUMN_DIMENSIONS}); set EMBEDDING_DIMENSIONS=${VECTOR_COLUMN_DIMENSIONS} or migrate the embedding columns`
+      );
+    }
+
+    if (this.provider.isReady()) return;
+
     try {
-      console.error('[Embedding] Loading embedding model...');
-      this.embedder = await pipeline('feature-extraction', this.modelName);
-      console.error('[Embedding] Model loaded successfully');
+      await this.provider.initialize();
     } catch (error) {
       console.error('[Embedding] Failed to load model:', error);
       throw new Error('Failed to initialize embedding model');
@@ -40,78 +113,145 @@ class EmbeddingService {
   }
 
   /**
-   * Generate embedding for a single text
+   * Generate embedding for a single text, through the cache like generateEmbeddings
    */
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
-    await this.initializeModel();
-    
-    if (!text || text.trim().length === 0) {
-      throw new Error('Cannot generate embedding for empty text');
+    const [embedded] = await this.generateEmbeddings([text]);
+    if (embedded.result) {
+      return embedded.result;
     }
 
-    try {
-      // Clean and truncate text for better embedding quality
-      const cleanText = this.preprocessText(text);
-      
-      // Generate embedding
-      const output = await this.embedder(cleanText, {
-        pooling: 'mean',
-        normalize: true,
-      });
-      
-      // Extract embedding array
-      const embedding = Array.from(output.data) as number[];
-      
-      if (embedding.length !== this.dimensions) {
-        throw new Error(`Unexpected embedding dimensions: expected ${this.dimensions}, got ${embedding.length}`);
-      }
-      
-      return {
-        embedding,
-        model: this.modelName,
-        dimensions: this.dimensions,
-      };
-    } catch (error) {
-      console.error('[Embedding] Generation failed:', error);
-      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!text || text.trim().length === 0) {
+      throw new Error('Cannot generate embedding for empty text');
     }
+    console.error('[Embedding] Generation failed:', embedded.error);
+    throw new Error(`Failed to generate embedding: ${embedded.error ?? 'Unknown error'}`);
   }
 
   /**
    * Generate embeddings for multiple texts (batch processing)
+   *
+   * Texts are sent to the provider in batches of config.embedding.batchSize,
+   * which the transformers pipeline runs as a single padded tensor batch.
+   * Results are returned per input in order; a failed item carries an error
+   * instead of an embedding so callers never persist placeholder vectors.
+   * When a cache is attached, texts already embedded with the active model
+   * (by hash of the preprocessed text) skip inference, and new vectors are
+   * added to it. Cache errors are logged and fall back to inference.
    */
-  async generateEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
-    const results: EmbeddingResult[] = [];
-    
-    // Process in batches to manage memory
-    const batchSize = 10;
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      
-      for (const text of batch) {
-        try {
-          const result = await this.generateEmbedding(text);
-          results.push(result);
-        } catch (error) {
-          console.error(`[Embedding] Failed to process text: ${text.substring(0, 50)}...`);
-          // Push a zero vector as fallback
-          results.push({
-            embedding: new Array(this.dimensions).fill(0),
-            model: this.modelName,
-            dimensions: this.dimensions,
-          });
-        }
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResult[]> {
+    await this.initializeModel();
+
+    const results: BatchEmbeddingResult[] = texts.map(text =>
+      !text || text.trim().length === 0
+        ? { error: 'Cannot generate embedding for empty text' }
+        : {}
+    );
+
+    const candidates = texts
+      .map((text, index) => {
+        const clean = this.preprocessText(text || '');
+        return { index, text: clean, hash: contentHash(clean) };
+      })
+      .filter(item => results[item.index].error === undefined);
+
+    const cached = await this.readCache(candidates.map(item => item.hash));
+    const pending = candidates.filter(item => {
+      const embedding = cached.get(item.hash);
+      if (embedding) {
+        results[item.index] = this.toBatchResult(embedding);
       }
-      
-      // Small delay between batches to prevent overwhelming the system
-      if (i + batchSize < texts.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+      return !embedding;
+    });
+
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      const batch = pending.slice(i, i + this.batchSize);
+
+      let vectors: number[][];
+      try {
+        vectors = await this.provider.embed(batch.map(item => item.text));
+      } catch (error) {
+        // Retry one by one so a single bad input does not fail its whole batch
+        console.error('[Embedding] Batch failed, retrying items individually:', error);
+        for (const item of batch) {
+          try {
+            results[item.index] = this.toBatchResult((await this.provider.embed([item.text]))[0]);
+          } catch (itemError) {
+            results[item.index] = {
+              error: itemError instanceof Error ? itemError.message : 'Unknown error',
+            };
+          }
+        }
+        continue;
       }
+
+      batch.forEach((item, position) => {
+        results[item.index] = this.toBatchResult(vectors[position]);
+      });
     }
-    
+
+    await this.writeCache(
+      pending.flatMap(item => {
+        const embedding = results[item.index].result?.embedding;
+        return embedding ? [{ hash: item.hash, embedding }] : [];
+      })
+    );
+
     return results;
   }
 
+  /**
+   * Cached vectors for the active model, empty when no cache is attached or it fails
+   */
+  private async readCache(hashes: string[]): Promise<Map<string, number[]>> {
+    if (!this.cache || hashes.length === 0) {
+      return new Map();
+    }
+
+    try {
+      return await this.cache.getCachedEmbeddings([...new Set(hashes)], this.modelName);
+    } catch (error) {
+      console.warn('[Embedding] Cache lookup failed, running inference:', error);
+      return new Map();
+    }
+  }
+
+  private async writeCache(entries: Array<{ hash: string; embedding: number[] }>): Promise<void> {
+    if (!this.cache || entries.length === 0) {
+      return;
+    }
+
+    // Identical texts in one batch share a hash; store each once
+    const unique = [...new Map(entries.map(entry => [entry.hash, entry])).values()];
+    try {
+      await this.cache.putCachedEmbeddings(unique, this.modelName);
+    } catch (error) {
+      console.warn('[Embedding] Failed to update embedding cache:', error);
+    }
+  }
+
+  /**
+   * Validate a provider vector and wrap it as a batch result
+   */
+  private toBatchResult(embedding: number[] | undefined): BatchEmbeddingResult {
+    if (!embedding || embedding.length !== this.dimensions) {
+      return {
+        error: `Unexpected embedding dimensions: expected ${this.dimensions}, got ${embedding?.length ?? 0}`,
+      };
+    }
+    if (!embedding.every(Number.isFinite) || embedding.every(value => value === 0)) {
+      return { error: 'Provider returned an invalid embedding vector' };
+    }
+
+    return {
+      result: {
+        embedding,
+        model: this.modelName,
+        dimensions: this.dimensions,
+      },
+    };
+  }
+
   /**
    * Calculate cosine similarity between two embeddings
    */
@@ -185,9 +325,8 @@ class EmbeddingService {
       .trim();
 
     // Truncate to reasonable length (transformers have token limits)
-    // all-MiniLM-L6-v2 has a 512 token limit, roughly 400-500 characters
-    if (cleaned.length > 400) {
-      cleaned = cleaned.substring(0, 400).trim();
+    if (cleaned.length > EMBEDDING_MAX_TEXT_LENGTH) {
+      cleaned = cleaned.substring(0, EMBEDDING_MAX_TEXT_LENGTH).trim();
       // Try to end at a word boundary
       const lastSpace = cleaned.lastIndexOf(' ');
       if (lastSpace > 300) {
@@ -239,9 +378,10 @@ class EmbeddingService {
    */
   getModelInfo() {
     return {
+      provider: this.provider.kind,
       name: this.modelName,
       dimensions: this.dimensions,
-      loaded: this.embedder !== null,
+      loaded: this.provider.isReady(),
     };
   }
 
@@ -284,6 +424,9 @@ class EmbeddingService {
   }
 }
 
-// Export singleton instance
-export const embeddingService = new EmbeddingService();
+// Export singleton instance using the configured provider
+export const embeddingService = new EmbeddingService(
+  createEmbeddingProvider(config.embedding, config.server.timeout),
+  config.embedding.batchSize
+);
 export default embeddingService;
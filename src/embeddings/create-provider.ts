@@ -0,0 +1,35 @@
+/**
+ * Embedding provider factory
+ *
+ * Builds the provider selected by ServerConfig.embedding.provider.
+ */
+
+import { ServerConfig } from '../core/config.js';
+import { EmbeddingProvider } from './embedding-provider.js';
+import { TransformersEmbeddingProvider } from './transformers-provider.js';
+import { OpenAICompatibleEmbeddingProvider } from './openai-compatible-provider.js';
+import { HashingEmbeddingProvider } from './hashing-provider.js';
+
+export function createEmbeddingProvider(
+  embeddingConfig: ServerConfig['embedding'],
+  timeoutMs: number
+): EmbeddingProvider {
+  switch (embeddingConfig.provider) {
+    case 'transformers':
+      return new TransformersEmbeddingProvider(embeddingConfig.model, embeddingConfig.dimensions);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(
+        embeddingConfig.model,
+        embeddingConfig.dimensions,
+        {
+          baseUrl: embeddingConfig.apiBaseUrl,
+          apiKey: embeddingConfig.apiKey,
+          timeoutMs,
+        }
+      );
+    case 'hashing':
+      return new HashingEmbeddingProvider(embeddingConfig.model, embeddingConfig.dimensions);
+    default:
+      throw new Error(`Unknown embedding provider: ${embeddingConfig.provider}`);
+  }
+}
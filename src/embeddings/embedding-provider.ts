@@ -0,0 +1,35 @@
+/**
+ * Embedding Provider interface
+ *
+ * A provider turns text into fixed-length vectors. The embedding service owns
+ * preprocessing, validation and batching; providers only talk to a model.
+ */
+
+/**
+ * Supported embedding provider kinds, selected by ServerConfig.embedding.provider
+ */
+export const EMBEDDING_PROVIDERS = ['transformers', 'openai', 'hashing'] as const;
+export type EmbeddingProviderKind = (typeof EMBEDDING_PROVIDERS)[number];
+
+export interface EmbeddingProvider {
+  /** Provider kind this instance was created for */
+  readonly kind: EmbeddingProviderKind;
+
+  /**
+   * Identifier recorded in embedding_model for every stored vector.
+   * Changing it marks existing vectors stale for the re-embedding job.
+   */
+  readonly modelId: string;
+
+  /** Length of every vector this provider returns */
+  readonly dimensions: number;
+
+  /** Load the model or check the endpoint; safe to call repeatedly */
+  initialize(): Promise<void>;
+
+  /** Whether initialize() has completed */
+  isReady(): boolean;
+
+  /** Embed texts, returning one vector per input in the same order */
+  embed(texts: string[]): Promise<number[][]>;
+}
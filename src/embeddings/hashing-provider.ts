@@ -0,0 +1,65 @@
+/**
+ * Deterministic hashing embedding provider
+ *
+ * Feature-hashes lowercase word tokens and adjacent word pairs into a fixed
+ * number of signed buckets, then L2-normalizes. No model, no network, same
+ * vector for the same text on every machine, which makes it suitable for
+ * tests and offline development. Similarity reflects shared words only.
+ * The model id is the configured model name with the bucket count appended,
+ * since the buckets a word lands in depend on it.
+ */
+
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'hashing' as const;
+  readonly modelId: string;
+
+  constructor(
+    model: string,
+    readonly dimensions: number
+  ) {
+    this.modelId = `${model}-${dimensions}`;
+  }
+
+  async initialize(): Promise<void> {}
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      vector[bucket] += (hash & 0x80000000) === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
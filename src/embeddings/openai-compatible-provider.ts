@@ -0,0 +1,75 @@
+/**
+ * OpenAI-compatible HTTP embedding provider
+ *
+ * Calls POST {baseUrl}/embeddings as implemented by OpenAI and by local
+ * servers such as llama.cpp and Ollama (`http://localhost:11434/v1`).
+ */
+
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'openai' as const;
+  private ready = false;
+
+  constructor(
+    readonly modelId: string,
+    readonly dimensions: number,
+    private options: OpenAICompatibleOptions
+  ) {}
+
+  async initialize(): Promise<void> {
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const body: Record<string, unknown> = { model: this.modelId, input: texts };
+
+    // Only the text-embedding-3 family accepts a requested output size
+    if (this.modelId.startsWith('text-embedding-3')) {
+      body.dimensions = this.dimensions;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Embedding endpoint returned ${response.status} ${response.statusText}${detail ? `: ${detail.substring(0, 200)}` : ''}`
+      );
+    }
+
+    const payload = (await response.json()) as EmbeddingsResponse;
+    if (!Array.isArray(payload.data) || payload.data.length !== texts.length) {
+      throw new Error(
+        `Embedding endpoint returned ${payload.data?.length ?? 0} vectors for ${texts.length} inputs`
+      );
+    }
+
+    this.ready = true;
+    return [...payload.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Local transformers.js embedding provider
+ *
+ * Runs a feature-extraction pipeline in-process (mean pooled, normalized).
+ * The library is imported and the model downloaded on first use, so other
+ * providers never load the transformers runtime.
+ */
+
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'transformers' as const;
+  private embedder: any = null;
+
+  constructor(
+    readonly modelId: string,
+    readonly dimensions: number
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.embedder) return;
+
+    const { pipeline, env } = await import('@xenova/transformers');
+
+    // Disable local cache for better deployment compatibility
+    env.allowLocalModels = false;
+    env.allowRemoteModels = true;
+
+    console.error(`[Embedding] Loading embedding model ${this.modelId}...`);
+    this.embedder = await pipeline('feature-extraction', this.modelId);
+    console.error('[Embedding] Model loaded successfully');
+  }
+
+  isReady(): boolean {
+    return this.embedder !== null;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    await this.initialize();
+
+    // The pipeline accepts a list and runs it as one padded tensor batch
+    const output = await this.embedder(texts, {
+      pooling: 'mean',
+      normalize: true,
+    });
+
+    return output.tolist() as number[][];
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Backup Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for database snapshots:
+ * - backup_database
+ * - restore_database
+ *
+ * @fileoverview MCP handlers for backup tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BackupService } from '../services/backup-service.js';
+import { VALID_RESTORE_MODES } from '../core/types.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Backup tool definitions for MCP
+ */
+export const backupTools: Tool[] = [
+  {
+    name: 'backup_database',
+    description:
+      'Write a versioned single-file snapshot of all memories, tasks, instructions, categories, projects, statuses and tags to the backup directory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        include_embeddings: {
+          type: 'boolean',
+          description:
+            'Include embedding vectors and passage chunks (larger file; otherwise restored rows are re-embedded with start_reembedding)',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'restore_database',
+    description:
+      'Restore a snapshot written by backup_database, remapping IDs and checking format and schema versions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Snapshot file name in the backup directory (as returned by backup_database)',
+        },
+        mode: {
+          type: 'string',
+          enum: [...VALID_RESTORE_MODES],
+          description:
+            'merge adds snapshot rows to existing data, skipping identical rows; replace deletes memories, tasks, instructions, tags, projects and categories first (default: merge)',
+          default: 'merge',
+        },
+      },
+      required: ['file'],
+    },
+  },
+];
+
+/**
+ * Create backup handlers
+ */
+export function createBackupHandlers(backupService: BackupService) {
+  return {
+    async backup_database(args: any) {
+      return handleAsyncError(async () => {
+        if (
+          args.include_embeddings !== undefined &&
+          typeof args.include_embeddings !== 'boolean'
+        ) {
+          return createErrorResponse('include_embeddings must be a boolean');
+        }
+
+        return await backupService.backupDatabase(args);
+      });
+    },
+
+    async restore_database(args: any) {
+      return handleAsyncError(async () => {
+        if (!args.file || typeof args.file !== 'string') {
+          return createErrorResponse('Backup file name is required');
+        }
+
+        if (args.mode !== undefined && !VALID_RESTORE_MODES.includes(args.mode)) {
+          return createErrorResponse(`Mode must be one of: ${VALID_RESTORE_MODES.join(', ')}`);
+        }
+
+        return await backupService.restoreDatabase(args);
+      });
+    },
+  };
+}
@@ -6,6 +6,7 @@
  * - get_task_context
  * - get_memory_context
  * - get_work_priorities
+ * - start_session
  *
  * @fileoverview MCP handlers for context tools with proper validation and error handling
  */
@@ -13,6 +14,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ContextService } from '../services/context-service.js';
 import { createErrorResponse, validateId, handleAsyncError } from '../utils/error-handling.js';
+import { VALID_CONTEXT_FORMATS, VALID_SEARCH_MODES } from '../core/types.js';
 
 /**
  * Context tool definitions for MCP
@@ -36,7 +38,27 @@ export const contextTools: Tool[] = [
           description: 'Include completed tasks',
           default: false,
         },
-        max_items: { type: 'number', description: 'Maximum items to return per type', default: 10 },
+        max_items: {
+          type: 'number',
+          description: 'Maximum items to return per type (default 10, or 50 with max_tokens)',
+        },
+        include_expired: {
+          type: 'boolean',
+          description: 'Include memories that are archived or past their expiry',
+          default: false,
+        },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget: pack the highest-ranked items, shorten or omit the rest and report what was left out',
+        },
+        format: {
+          type: 'string',
+          enum: [...VALID_CONTEXT_FORMATS],
+          description:
+            'Output format: markdown for reading, or json for a ContextPayload with sections, items, scores and statistics',
+          default: 'markdown',
+        },
       },
       required: ['project'],
     },
@@ -66,13 +88,31 @@ export const contextTools: Tool[] = [
           description: 'Use semantic search for related content',
           default: true,
         },
+        include_expired: {
+          type: 'boolean',
+          description: 'Include memories that are archived or past their expiry',
+          default: false,
+        },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget: pack the highest-ranked items, shorten or omit the rest and report what was left out',
+        },
+        format: {
+          type: 'string',
+          enum: [...VALID_CONTEXT_FORMATS],
+          description:
+            'Output format: markdown for reading, or json for a ContextPayload with sections, items, scores and statistics',
+          default: 'markdown',
+        },
       },
       required: ['task_id'],
     },
   },
   {
     name: 'get_memory_context',
-    description: 'Get comprehensive context for a memory including related tasks and project info',
+    description:
+      'Get comprehensive context for a memory including related tasks and project info, or pass a topic to get memories ranked (semantic, keyword or hybrid) and ordered by relevance, with score breakdowns',
     inputSchema: {
       type: 'object',
       properties: {
@@ -80,6 +120,23 @@ export const contextTools: Tool[] = [
           type: 'number',
           description: 'Memory ID to get context for',
         },
+        topic: {
+          type: 'string',
+          description: 'Topic to find relevant memories for (used when memory_id is omitted)',
+        },
+        search_mode: {
+          type: 'string',
+          enum: [...VALID_SEARCH_MODES],
+          description:
+            'Ranking mode for topic search: semantic, keyword (full-text rank) or hybrid (reciprocal rank fusion). Default: semantic',
+          default: 'semantic',
+        },
+        category: { type: 'string', description: 'Filter topic search by category (optional)' },
+        project: { type: 'string', description: 'Filter topic search by project (optional)' },
+        limit: {
+          type: 'number',
+          description: 'Maximum memories for topic search (default 15, or 50 with max_tokens)',
+        },
         level: {
           type: 'string',
           description: 'Context level: basic, standard, comprehensive',
@@ -95,8 +152,24 @@ export const contextTools: Tool[] = [
           description: 'Use semantic search for related content',
           default: true,
         },
+        include_expired: {
+          type: 'boolean',
+          description: 'Include memories that are archived or past their expiry',
+          default: false,
+        },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget: pack the highest-ranked items, shorten or omit the rest and report what was left out',
+        },
+        format: {
+          type: 'string',
+          enum: [...VALID_CONTEXT_FORMATS],
+          description:
+            'Output format: markdown for reading, or json for a ContextPayload with sections, items, scores and statistics',
+          default: 'markdown',
+        },
       },
-      required: ['memory_id'],
     },
   },
   {
@@ -110,6 +183,49 @@ export const contextTools: Tool[] = [
           description: 'Maximum number of items to return',
           default: 10,
         },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget: pack the highest-ranked items, shorten or omit the rest and report what was left out',
+        },
+        format: {
+          type: 'string',
+          enum: [...VALID_CONTEXT_FORMATS],
+          description:
+            'Output format: markdown for reading, or json for a ContextPayload with sections, items, scores and statistics',
+          default: 'markdown',
+        },
+      },
+    },
+  },
+  {
+    name: 'start_session',
+    description:
+      'Start a work session with one briefing: applicable AI instructions, top work priorities, memories changed and tasks newly overdue since the last session, and a summary of what happened. Begins a session like begin_session, so the next briefing starts from here.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description:
+            'Project to brief on (optional); without it the briefing covers all projects. Each scope keeps its own last session.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum items per section (default 5, or 50 with max_tokens)',
+        },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget: pack the highest-ranked items, shorten or omit the rest and report what was left out',
+        },
+        format: {
+          type: 'string',
+          enum: [...VALID_CONTEXT_FORMATS],
+          description:
+            'Output format: markdown for reading, or json for a ContextPayload with sections, items, scores and statistics',
+          default: 'markdown',
+        },
       },
     },
   },
@@ -134,6 +250,17 @@ export function createContextHandlers(contextService: ContextService) {
 
     async get_memory_context(args: any) {
       return handleAsyncError(async () => {
+        if (args.search_mode && !VALID_SEARCH_MODES.includes(args.search_mode)) {
+          return createErrorResponse(
+            `Search mode must be one of: ${VALID_SEARCH_MODES.join(', ')}`
+          );
+        }
+        if (args.memory_id === undefined && args.topic) {
+          return await contextService.getMemoryContext(args);
+        }
+        if (args.memory_id === undefined) {
+          return createErrorResponse('Either memory_id or topic is required');
+        }
         return await contextService.getSpecificMemoryContext(args);
       });
     },
@@ -143,5 +270,11 @@ export function createContextHandlers(contextService: ContextService) {
         return await contextService.getWorkPriorities(args);
       });
     },
+
+    async start_session(args: any) {
+      return handleAsyncError(async () => {
+        return await contextService.startSession(args);
+      });
+    },
   };
 }
@@ -0,0 +1,83 @@
+/**
+ * Embedding Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for embedding maintenance:
+ * - start_reembedding
+ * - get_reembedding_status
+ *
+ * @fileoverview MCP handlers for embedding tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ReembeddingService } from '../services/reembedding-service.js';
+import { createErrorResponse, validateId, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Embedding tool definitions for MCP
+ */
+export const embeddingTools: Tool[] = [
+  {
+    name: 'start_reembedding',
+    description:
+      'Start (or resume) a background job that regenerates embeddings for memories and tasks whose vectors came from a different embedding model or are missing',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        batch_size: {
+          type: 'number',
+          description: 'Rows embedded per batch; progress is saved after each batch (default: 50)',
+          minimum: 1,
+          maximum: 500,
+          default: 50,
+        },
+        force: {
+          type: 'boolean',
+          description:
+            'Re-embed every memory and task, not only outdated ones (use after changing chunk settings)',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_reembedding_status',
+    description:
+      'Get progress of a re-embedding job (latest job by default) and counts of rows still using outdated embeddings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: {
+          type: 'number',
+          description: 'Re-embedding job ID (optional, defaults to the latest job)',
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Create embedding handlers
+ */
+export function createEmbeddingHandlers(reembeddingService: ReembeddingService) {
+  return {
+    async start_reembedding(args: any) {
+      return handleAsyncError(async () => {
+        if (
+          args.batch_size !== undefined &&
+          (!Number.isInteger(args.batch_size) || args.batch_size < 1 || args.batch_size > 500)
+        ) {
+          return createErrorResponse('Batch size must be an integer between 1 and 500');
+        }
+
+        return await reembeddingService.startReembedding(args);
+      });
+    },
+
+    async get_reembedding_status(args: any) {
+      return handleAsyncError(async () => {
+        const jobId = args.job_id !== undefined ? validateId(args.job_id, 'Job') : undefined;
+        return await reembeddingService.getReembeddingStatus({ job_id: jobId });
+      });
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Import Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for importing exported data:
+ * - import_memories
+ * - import_tasks
+ *
+ * @fileoverview MCP handlers for import tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ImportService } from '../services/import-service.js';
+import { VALID_IMPORT_CONFLICT_STRATEGIES, VALID_IMPORT_MATCH_KEYS } from '../core/types.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Options shared by both import tools
+ */
+const importOptionProperties = {
+  on_conflict: {
+    type: 'string',
+    enum: [...VALID_IMPORT_CONFLICT_STRATEGIES],
+    description:
+      'What to do when a record matches an existing row or an earlier record: skip it, overwrite the existing row, or import it as a duplicate (default: skip)',
+    default: 'skip',
+  },
+  match_by: {
+    type: 'string',
+    enum: [...VALID_IMPORT_MATCH_KEYS],
+    description:
+      'How records are matched for conflicts: by exported id, or by title within the same project (default: title_project)',
+    default: 'title_project',
+  },
+  dry_run: {
+    type: 'boolean',
+    description: 'Validate and report what would happen without writing anything',
+    default: false,
+  },
+};
+
+/**
+ * Import tool definitions for MCP
+ */
+export const importTools: Tool[] = [
+  {
+    name: 'import_memories',
+    description:
+      'Import memories in the export_memories format, creating missing categories, projects and tags and generating embeddings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        memories: {
+          type: 'array',
+          description:
+            'Memory records as returned by export_memories (title, content, category, project, priority, tags, created_at, optional id)',
+          items: { type: 'object' },
+        },
+        ...importOptionProperties,
+      },
+      required: ['memories'],
+    },
+  },
+  {
+    name: 'import_tasks',
+    description:
+      'Import tasks in the export_tasks format, creating missing categories, projects and tags and generating embeddings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tasks: {
+          type: 'array',
+          description:
+            'Task records as returned by export_tasks (title, description, status, category, project, priority, due_date, tags, completed_at, archived, optional id)',
+          items: { type: 'object' },
+        },
+        ...importOptionProperties,
+      },
+      required: ['tasks'],
+    },
+  },
+];
+
+/**
+ * Validate the options shared by both import tools
+ *
+ * @returns Error message, or undefined when the options are valid
+ */
+function validateImportOptions(args: any): string | undefined {
+  if (
+    args.on_conflict !== undefined &&
+    !VALID_IMPORT_CONFLICT_STRATEGIES.includes(args.on_conflict)
+  ) {
+    return `on_conflict must be one of: ${VALID_IMPORT_CONFLICT_STRATEGIES.join(', ')}`;
+  }
+  if (args.match_by !== undefined && !VALID_IMPORT_MATCH_KEYS.includes(args.match_by)) {
+    return `match_by must be one of: ${VALID_IMPORT_MATCH_KEYS.join(', ')}`;
+  }
+  if (args.dry_run !== undefined && typeof args.dry_run !== 'boolean') {
+    return 'dry_run must be a boolean';
+  }
+  return undefined;
+}
+
+/**
+ * Create import handlers
+ */
+export function createImportHandlers(importService: ImportService) {
+  return {
+    async import_memories(args: any) {
+      return handleAsyncError(async () => {
+        if (args.memories === undefined) {
+          return createErrorResponse('memories is required');
+        }
+
+        const optionError = validateImportOptions(args);
+        if (optionError) {
+          return createErrorResponse(optionError);
+        }
+
+        return await importService.importMemories(args);
+      });
+    },
+
+    async import_tasks(args: any) {
+      return handleAsyncError(async () => {
+        if (args.tasks === undefined) {
+          return createErrorResponse('tasks is required');
+        }
+
+        const optionError = validateImportOptions(args);
+        if (optionError) {
+          return createErrorResponse(optionError);
+        }
+
+        return await importService.importTasks(args);
+      });
+    },
+  };
+}
@@ -10,6 +10,12 @@
  * - delete_memory
  * - get_memory_stats
  * - export_memories
+ * - list_memory_versions
+ * - diff_memory_versions
+ * - restore_memory_version
+ * - find_duplicate_memories
+ * - merge_memories
+ * - get_stale_memories
  *
  * @fileoverview MCP handlers for memory tools with proper validation and error handling
  */
@@ -25,6 +31,7 @@ import {
   handleAsyncError,
 } from '../utils/error-handling.js';
 import { ERROR_MESSAGES } from '../utils/constants.js';
+import { VALID_DUPLICATE_ACTIONS, VALID_SEARCH_MODES } from '../core/types.js';
 
 /**
  * Memory tool definitions for MCP
@@ -64,19 +71,32 @@ export const memoryTools: Tool[] = [
           maximum: 5,
           default: 1,
         },
+        on_duplicate: {
+          type: 'string',
+          enum: [...VALID_DUPLICATE_ACTIONS],
+          description:
+            'When near-identical memories already exist in the same project: warn (store and list them, default), refuse (do not store) or ignore (skip the check)',
+          default: 'warn',
+        },
+        expires_at: {
+          type: 'string',
+          description:
+            'When the memory stops being true, as an ISO date (valid through that day) or date-time (optional). Expired memories are left out of search and context',
+        },
       },
       required: ['title', 'content'],
     },
   },
   {
     name: 'search_memories',
-    description: 'Search memories using semantic search with optional filters',
+    description:
+      'Search memories using semantic, keyword (full-text) or hybrid ranking with optional filters. Results are ordered by relevance, which blends the match with priority, recency of use and access count; each result includes a score breakdown',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query for semantic search',
+          description: 'Search query',
         },
         category: {
           type: 'string',
@@ -106,6 +126,18 @@ export const memoryTools: Tool[] = [
           maximum: 1,
           default: 0.15,
         },
+        search_mode: {
+          type: 'string',
+          enum: [...VALID_SEARCH_MODES],
+          description:
+            'Ranking mode: semantic (embeddings), keyword (full-text rank) or hybrid (reciprocal rank fusion of both). Default: semantic',
+          default: 'semantic',
+        },
+        include_expired: {
+          type: 'boolean',
+          description: 'Also search memories that are archived or past their expiry',
+          default: false,
+        },
       },
       required: ['query'],
     },
@@ -140,7 +172,8 @@ export const memoryTools: Tool[] = [
   },
   {
     name: 'update_memory',
-    description: 'Update an existing memory',
+    description:
+      'Update an existing memory; the replaced title, content, category, project, tags and priority are kept as an earlier version',
     inputSchema: {
       type: 'object',
       properties: {
@@ -174,13 +207,18 @@ export const memoryTools: Tool[] = [
           minimum: 1,
           maximum: 5,
         },
+        expires_at: {
+          type: ['string', 'null'],
+          description:
+            'New expiry as an ISO date or date-time (optional, null to remove); a future expiry takes an archived memory out of the archive',
+        },
       },
       required: ['id'],
     },
   },
   {
     name: 'delete_memory',
-    description: 'Delete a memory by ID',
+    description: 'Move a memory to the trash; restore it with restore_item until it is purged',
     inputSchema: {
       type: 'object',
       properties: {
@@ -217,6 +255,155 @@ export const memoryTools: Tool[] = [
       },
     },
   },
+  {
+    name: 'list_memory_versions',
+    description:
+      'List every version of a memory, newest first: the current version followed by the earlier revisions kept by each update',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Memory ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'diff_memory_versions',
+    description:
+      'Show a line diff of the title and content of two versions of a memory, plus the other fields that changed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Memory ID',
+        },
+        from_version: {
+          type: 'number',
+          description: 'Older version to compare (default: the version before to_version)',
+          minimum: 1,
+        },
+        to_version: {
+          type: 'number',
+          description: 'Newer version to compare (default: the current version)',
+          minimum: 1,
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'restore_memory_version',
+    description:
+      'Make an earlier version of a memory current again and regenerate its embedding; the replaced state is kept as a version, so the restore can be undone',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Memory ID',
+        },
+        version: {
+          type: 'number',
+          description: 'Version to restore, as listed by list_memory_versions',
+          minimum: 1,
+        },
+      },
+      required: ['id', 'version'],
+    },
+  },
+  {
+    name: 'find_duplicate_memories',
+    description:
+      'Find clusters of near-identical memories by embedding similarity, within each project. Each cluster suggests a target to keep with merge_memories',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Only look in this project',
+        },
+        min_similarity: {
+          type: 'number',
+          description:
+            'Similarity (0-1) at which two memories count as duplicates (default: DUPLICATE_SIMILARITY_THRESHOLD, 0.92)',
+          minimum: 0,
+          maximum: 1,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of clusters to return (default: 20)',
+          minimum: 1,
+          maximum: 100,
+          default: 20,
+        },
+      },
+    },
+  },
+  {
+    name: 'merge_memories',
+    description:
+      'Merge memories into a target memory: their content is appended to it, tags are combined, the highest priority is kept and their links are moved to it. The merged memories are moved to the trash and the previous target is kept as a version',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target_id: {
+          type: 'number',
+          description: 'ID of the memory to keep',
+        },
+        source_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'IDs of the memories to merge into the target',
+          minItems: 1,
+        },
+        title: {
+          type: 'string',
+          description: 'New title for the merged memory (default: keep the target title)',
+        },
+      },
+      required: ['target_id', 'source_ids'],
+    },
+  },
+  {
+    name: 'get_stale_memories',
+    description:
+      'List memories that have not been used (returned by get_memory, search or a context tool) or updated for a number of days, longest unused first, to review for updating, merging or deleting',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'number',
+          description: 'Days without use (default: STALE_MEMORY_DAYS, 90)',
+          minimum: 1,
+        },
+        category: {
+          type: 'string',
+          description: 'Only list memories in this category',
+        },
+        project: {
+          type: 'string',
+          description: 'Only list memories in this project',
+        },
+        priority_max: {
+          type: 'number',
+          description: 'Only list memories up to this priority',
+          minimum: 1,
+          maximum: 5,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of memories to list (default: 50)',
+          minimum: 1,
+          maximum: 500,
+          default: 50,
+        },
+      },
+    },
+  },
 ];
 
 /**
@@ -244,6 +431,14 @@ export function createMemoryHandlers(db: PrismaDatabaseService) {
         if (args.priority && (args.priority < 1 || args.priority > 5)) {
           return createErrorResponse('Priority must be between 1 and 5');
         }
+        if (
+          args.on_duplicate !== undefined &&
+          !VALID_DUPLICATE_ACTIONS.includes(args.on_duplicate)
+        ) {
+          return createErrorResponse(
+            `on_duplicate must be one of: ${VALID_DUPLICATE_ACTIONS.join(', ')}`
+          );
+        }
 
         return await memoryService.storeMemory(args);
       } catch (error) {
@@ -269,6 +464,11 @@ export function createMemoryHandlers(db: PrismaDatabaseService) {
         if (args.min_similarity && (args.min_similarity < 0 || args.min_similarity > 1)) {
           return createErrorResponse('Minimum similarity must be between 0 and 1');
         }
+        if (args.search_mode && !VALID_SEARCH_MODES.includes(args.search_mode)) {
+          return createErrorResponse(
+            `Search mode must be one of: ${VALID_SEARCH_MODES.join(', ')}`
+          );
+        }
         if (args.priority_min && (args.priority_min < 1 || args.priority_min > 5)) {
           return createErrorResponse('Priority minimum must be between 1 and 5');
         }
@@ -337,7 +537,15 @@ export function createMemoryHandlers(db: PrismaDatabaseService) {
         }
 
         // Check if at least one field is provided for update
-        const updateFields = ['title', 'content', 'category', 'project', 'tags', 'priority'];
+        const updateFields = [
+          'title',
+          'content',
+          'category',
+          'project',
+          'tags',
+          'priority',
+          'expires_at',
+        ];
         const hasUpdateField = updateFields.some(field => args[field] !== undefined);
 
         if (!hasUpdateField) {
@@ -386,5 +594,135 @@ export function createMemoryHandlers(db: PrismaDatabaseService) {
         );
       }
     },
+
+    async list_memory_versions(args: any) {
+      try {
+        // Validate required fields
+        if (!validateId(args.id)) {
+          return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
+        }
+
+        return await memoryService.listMemoryVersions(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to list memory versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async diff_memory_versions(args: any) {
+      try {
+        // Validate required fields
+        if (!validateId(args.id)) {
+          return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
+        }
+
+        // Validate optional fields
+        for (const field of ['from_version', 'to_version']) {
+          if (args[field] !== undefined && (!Number.isInteger(args[field]) || args[field] < 1)) {
+            return createErrorResponse(`${field} must be a positive integer`);
+          }
+        }
+
+        return await memoryService.diffMemoryVersions(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to diff memory versions: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async restore_memory_version(args: any) {
+      try {
+        // Validate required fields
+        if (!validateId(args.id)) {
+          return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
+        }
+        if (!Number.isInteger(args.version) || args.version < 1) {
+          return createErrorResponse('version must be a positive integer');
+        }
+
+        return await memoryService.restoreMemoryVersion(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to restore memory version: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async find_duplicate_memories(args: any) {
+      try {
+        // Validate optional fields
+        if (
+          args.min_similarity !== undefined &&
+          (typeof args.min_similarity !== 'number' ||
+            args.min_similarity <= 0 ||
+            args.min_similarity > 1)
+        ) {
+          return createErrorResponse('min_similarity must be greater than 0 and at most 1');
+        }
+        if (
+          args.limit !== undefined &&
+          (!Number.isInteger(args.limit) || args.limit < 1 || args.limit > 100)
+        ) {
+          return createErrorResponse('Limit must be an integer between 1 and 100');
+        }
+
+        return await memoryService.findDuplicateMemories(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to find duplicate memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async merge_memories(args: any) {
+      try {
+        // Validate required fields
+        if (!Number.isInteger(args.target_id) || args.target_id < 1) {
+          return createErrorResponse('A valid target_id is required');
+        }
+        if (
+          !Array.isArray(args.source_ids) ||
+          args.source_ids.length === 0 ||
+          args.source_ids.some((id: any) => !Number.isInteger(id) || id < 1)
+        ) {
+          return createErrorResponse('source_ids must be a non-empty list of memory IDs');
+        }
+
+        return await memoryService.mergeMemories(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to merge memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async get_stale_memories(args: any) {
+      try {
+        // Validate optional fields
+        if (args.days !== undefined && (!Number.isInteger(args.days) || args.days < 1)) {
+          return createErrorResponse('days must be a positive integer');
+        }
+        if (
+          args.priority_max !== undefined &&
+          (!Number.isInteger(args.priority_max) || args.priority_max < 1 || args.priority_max > 5)
+        ) {
+          return createErrorResponse('priority_max must be an integer between 1 and 5');
+        }
+        if (
+          args.limit !== undefined &&
+          (!Number.isInteger(args.limit) || args.limit < 1 || args.limit > 500)
+        ) {
+          return createErrorResponse('Limit must be an integer between 1 and 500');
+        }
+
+        return await memoryService.getStaleMemories(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to get stale memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
   };
 }
@@ -0,0 +1,127 @@
+/**
+ * Memory Link Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for memory links:
+ * - link_items
+ * - unlink_items
+ *
+ * @fileoverview MCP handlers for memory link tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryLinkService } from '../services/memory-link-service.js';
+import { VALID_LINK_TYPES } from '../core/types.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Properties shared by link_items and unlink_items
+ */
+const linkEndProperties = {
+  memory_id: {
+    type: 'number',
+    description: 'ID of the memory the link starts from',
+  },
+  target_memory_id: {
+    type: 'number',
+    description: 'ID of the memory the link points at (give this or target_task_id)',
+  },
+  target_task_id: {
+    type: 'number',
+    description: 'ID of the task the link points at (give this or target_memory_id)',
+  },
+};
+
+/**
+ * Memory link tool definitions for MCP
+ */
+export const memoryLinkTools: Tool[] = [
+  {
+    name: 'link_items',
+    description:
+      'Link a memory to another memory or a task. Link types: supersedes (memory replaces an older memory), relates_to (memory or task), documents (memory describes a task), derived_from (memory was built from another memory). Linked items are shown first in get_task_context and in get_memory_context for a memory_id',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...linkEndProperties,
+        link_type: {
+          type: 'string',
+          enum: [...VALID_LINK_TYPES],
+          description: 'Kind of link',
+        },
+      },
+      required: ['memory_id', 'link_type'],
+    },
+  },
+  {
+    name: 'unlink_items',
+    description: 'Remove the links from a memory to another memory or a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...linkEndProperties,
+        link_type: {
+          type: 'string',
+          enum: [...VALID_LINK_TYPES],
+          description: 'Only remove links of this type (default: every link between the two)',
+        },
+      },
+      required: ['memory_id'],
+    },
+  },
+];
+
+/**
+ * Validate the IDs of a link
+ *
+ * @returns Error message, or undefined when the IDs are valid
+ */
+function validateLinkIds(args: any): string | undefined {
+  if (!args.memory_id || typeof args.memory_id !== 'number') {
+    return 'Valid memory_id is required';
+  }
+  const targets = [args.target_memory_id, args.target_task_id].filter(id => id !== undefined);
+  if (targets.length !== 1) {
+    return 'Provide exactly one of target_memory_id or target_task_id';
+  }
+  if (!targets[0] || typeof targets[0] !== 'number') {
+    return 'Target ID must be a positive number';
+  }
+  return undefined;
+}
+
+/**
+ * Create memory link handlers
+ */
+export function createMemoryLinkHandlers(linkService: MemoryLinkService) {
+  return {
+    async link_items(args: any) {
+      return handleAsyncError(async () => {
+        const idError = validateLinkIds(args);
+        if (idError) {
+          return createErrorResponse(idError);
+        }
+
+        if (!VALID_LINK_TYPES.includes(args.link_type)) {
+          return createErrorResponse(`link_type must be one of: ${VALID_LINK_TYPES.join(', ')}`);
+        }
+
+        return await linkService.linkItems(args);
+      });
+    },
+
+    async unlink_items(args: any) {
+      return handleAsyncError(async () => {
+        const idError = validateLinkIds(args);
+        if (idError) {
+          return createErrorResponse(idError);
+        }
+
+        if (args.link_type !== undefined && !VALID_LINK_TYPES.includes(args.link_type)) {
+          return createErrorResponse(`link_type must be one of: ${VALID_LINK_TYPES.join(', ')}`);
+        }
+
+        return await linkService.unlinkItems(args);
+      });
+    },
+  };
+}
@@ -109,7 +109,8 @@ export const projectTools: Tool[] = [
   },
   {
     name: 'delete_project',
-    description: 'Delete a project by ID',
+    description:
+      'Move a project to the trash together with its memories and tasks; restore them with restore_item until they are purged',
     inputSchema: {
       type: 'object',
       properties: {
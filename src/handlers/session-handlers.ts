@@ -0,0 +1,137 @@
+/**
+ * Session Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for conversation sessions:
+ * - begin_session
+ * - end_session
+ * - list_sessions
+ * - get_session
+ *
+ * @fileoverview MCP handlers for session tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SessionService } from '../services/session-service.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Session tool definitions for MCP
+ */
+export const sessionTools: Tool[] = [
+  {
+    name: 'begin_session',
+    description:
+      'Begin a conversation session. Memories and tasks created or updated until end_session are attributed to it. A session still active is ended first. Use start_session instead to also get a briefing.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project the session is about (optional)',
+        },
+      },
+    },
+  },
+  {
+    name: 'end_session',
+    description:
+      'End the active session (or the one with the given ID), optionally storing a summary of the conversation as a memory in the session project. Returns everything the session touched.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Session to end (default: the active session)',
+        },
+        summary: {
+          type: 'string',
+          description:
+            'Summary of the conversation, stored as a memory in category "session" tagged session-summary',
+        },
+        title: {
+          type: 'string',
+          description: 'Title of the summary memory (default: "Session #<id> summary")',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_sessions',
+    description:
+      'List sessions, most recent first, with their summary memory and how many memories and tasks each touched',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Only list sessions about this project',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of sessions to list (default: 20)',
+          minimum: 1,
+          default: 20,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_session',
+    description:
+      'Replay a session: its summary and every memory and task it created or updated, in order',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Session ID (default: the active session)',
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Create session handlers
+ */
+export function createSessionHandlers(sessionService: SessionService) {
+  const invalidId = (id: unknown) => id !== undefined && (!Number.isInteger(id) || Number(id) < 1);
+
+  return {
+    async begin_session(args: any) {
+      return handleAsyncError(async () => {
+        return await sessionService.beginSession(args);
+      });
+    },
+
+    async end_session(args: any) {
+      return handleAsyncError(async () => {
+        if (invalidId(args.id)) {
+          return createErrorResponse('A valid session ID is required');
+        }
+
+        if (args.summary !== undefined && typeof args.summary !== 'string') {
+          return createErrorResponse('Summary must be a string');
+        }
+
+        return await sessionService.endSession(args);
+      });
+    },
+
+    async list_sessions(args: any) {
+      return handleAsyncError(async () => {
+        return await sessionService.listSessions(args);
+      });
+    },
+
+    async get_session(args: any) {
+      return handleAsyncError(async () => {
+        if (invalidId(args.id)) {
+          return createErrorResponse('A valid session ID is required');
+        }
+
+        return await sessionService.getSession(args);
+      });
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Task Dependency Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for task dependencies:
+ * - add_task_dependency
+ * - remove_task_dependency
+ * - get_task_graph
+ *
+ * @fileoverview MCP handlers for task dependency tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { TaskDependencyService } from '../services/task-dependency-service.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Properties shared by add_task_dependency and remove_task_dependency
+ */
+const dependencyProperties = {
+  task_id: {
+    type: 'number',
+    description: 'ID of the task that waits',
+  },
+  depends_on_id: {
+    type: 'number',
+    description: 'ID of the task that must be done first',
+  },
+};
+
+/**
+ * Task dependency tool definitions for MCP
+ */
+export const taskDependencyTools: Tool[] = [
+  {
+    name: 'add_task_dependency',
+    description:
+      'Record that a task cannot start until another task is done; refuses dependencies that would create a cycle',
+    inputSchema: {
+      type: 'object',
+      properties: dependencyProperties,
+      required: ['task_id', 'depends_on_id'],
+    },
+  },
+  {
+    name: 'remove_task_dependency',
+    description: 'Remove a dependency between two tasks',
+    inputSchema: {
+      type: 'object',
+      properties: dependencyProperties,
+      required: ['task_id', 'depends_on_id'],
+    },
+  },
+  {
+    name: 'get_task_graph',
+    description:
+      'Get task dependencies as nodes and edges in dependency order, with the tasks that are ready and those that are blocked',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: {
+          type: 'number',
+          description: "Only include this task's prerequisites and dependents (optional)",
+        },
+        project: {
+          type: 'string',
+          description: 'Only include tasks in this project (optional)',
+        },
+        include_completed: {
+          type: 'boolean',
+          description: 'Include completed, cancelled and archived tasks',
+          default: true,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Validate the task IDs of a dependency
+ *
+ * @returns Error message, or undefined when the IDs are valid
+ */
+function validateDependencyIds(args: any): string | undefined {
+  if (!args.task_id || typeof args.task_id !== 'number') {
+    return 'Valid task_id is required';
+  }
+  if (!args.depends_on_id || typeof args.depends_on_id !== 'number') {
+    return 'Valid depends_on_id is required';
+  }
+  return undefined;
+}
+
+/**
+ * Create task dependency handlers
+ */
+export function createTaskDependencyHandlers(dependencyService: TaskDependencyService) {
+  return {
+    async add_task_dependency(args: any) {
+      return handleAsyncError(async () => {
+        const idError = validateDependencyIds(args);
+        if (idError) {
+          return createErrorResponse(idError);
+        }
+
+        return await dependencyService.addTaskDependency(args);
+      });
+    },
+
+    async remove_task_dependency(args: any) {
+      return handleAsyncError(async () => {
+        const idError = validateDependencyIds(args);
+        if (idError) {
+          return createErrorResponse(idError);
+        }
+
+        return await dependencyService.removeTaskDependency(args);
+      });
+    },
+
+    async get_task_graph(args: any) {
+      return handleAsyncError(async () => {
+        if (args.task_id !== undefined && typeof args.task_id !== 'number') {
+          return createErrorResponse('task_id must be a number');
+        }
+
+        if (args.include_completed !== undefined && typeof args.include_completed !== 'boolean') {
+          return createErrorResponse('include_completed must be a boolean');
+        }
+
+        return await dependencyService.getTaskGraph(args);
+      });
+    },
+  };
+}
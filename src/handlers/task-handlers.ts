@@ -12,6 +12,7 @@
  * - delete_task
  * - get_task_stats
  * - export_tasks
+ * - get_task_history
  *
  * @fileoverview MCP handlers for task tools with proper validation and error handling
  */
@@ -27,6 +28,34 @@ import {
   handleAsyncError,
 } from '../utils/error-handling.js';
 import { ERROR_MESSAGES } from '../utils/constants.js';
+import {
+  VALID_RECURRENCE_FREQUENCIES,
+  VALID_SEARCH_MODES,
+  VALID_TASK_EVENT_TYPES,
+} from '../core/types.js';
+
+/**
+ * Recurrence property shared by create_task, update_task and batch_create_tasks
+ */
+const recurrenceProperty = {
+  type: ['object', 'string'],
+  description:
+    'Repeat the task: an object with frequency (daily, weekly, monthly), interval (every N, default 1) and an optional end (until date or count of occurrences), or an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;COUNT=6". Completing an occurrence creates the next one with the due date rolled forward',
+  properties: {
+    frequency: { type: 'string', enum: [...VALID_RECURRENCE_FREQUENCIES] },
+    interval: { type: 'number', minimum: 1 },
+    until: { type: 'string', description: 'Last possible due date (YYYY-MM-DD)' },
+    count: { type: 'number', minimum: 1, description: 'Total number of occurrences' },
+  },
+};
+
+/**
+ * Actor property of the tools whose changes are recorded in the task history
+ */
+const actorProperty = {
+  type: 'string',
+  description: 'Who is making the change, shown in the task history (optional)',
+};
 
 /**
  * Task tool definitions for MCP
@@ -76,6 +105,12 @@ export const taskTools: Tool[] = [
           type: 'string',
           description: 'Due date in YYYY-MM-DD format (optional)',
         },
+        parent_id: {
+          type: 'number',
+          description: 'Create the task as a subtask of this task (optional)',
+        },
+        recurrence: recurrenceProperty,
+        actor: actorProperty,
       },
       required: ['title'],
     },
@@ -143,13 +178,14 @@ export const taskTools: Tool[] = [
   },
   {
     name: 'search_tasks',
-    description: 'Search tasks using semantic search with optional filters',
+    description:
+      'Search tasks using semantic, keyword (full-text) or hybrid ranking with optional filters. Each result includes a score breakdown',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query for semantic search',
+          description: 'Search query',
         },
         status: {
           type: 'string',
@@ -183,13 +219,21 @@ export const taskTools: Tool[] = [
           maximum: 1,
           default: 0.15,
         },
+        search_mode: {
+          type: 'string',
+          enum: [...VALID_SEARCH_MODES],
+          description:
+            'Ranking mode: semantic (embeddings), keyword (full-text rank) or hybrid (reciprocal rank fusion of both). Default: semantic',
+          default: 'semantic',
+        },
       },
       required: ['query'],
     },
   },
   {
     name: 'get_task',
-    description: 'Get a specific task by ID with all relations',
+    description:
+      'Get a specific task by ID with all relations, its subtask tree and rolled-up subtask progress',
     inputSchema: {
       type: 'object',
       properties: {
@@ -245,6 +289,17 @@ export const taskTools: Tool[] = [
           type: 'string',
           description: 'New due date in YYYY-MM-DD format (optional)',
         },
+        parent_id: {
+          type: ['number', 'null'],
+          description:
+            'Move the task under this parent task, or null to make it top-level (optional)',
+        },
+        recurrence: {
+          ...recurrenceProperty,
+          type: ['object', 'string', 'null'],
+          description: `${recurrenceProperty.description}. null stops the task from recurring`,
+        },
+        actor: actorProperty,
       },
       required: ['id'],
     },
@@ -259,6 +314,12 @@ export const taskTools: Tool[] = [
           type: 'number',
           description: 'Task ID to complete',
         },
+        cascade: {
+          type: 'boolean',
+          description: 'Also complete all open subtasks (default: false)',
+          default: false,
+        },
+        actor: actorProperty,
       },
       required: ['id'],
     },
@@ -278,13 +339,15 @@ export const taskTools: Tool[] = [
           description: 'Archive status (default: true)',
           default: true,
         },
+        actor: actorProperty,
       },
       required: ['id'],
     },
   },
   {
     name: 'delete_task',
-    description: 'Delete a task by ID',
+    description:
+      'Move a task and its subtasks to the trash; restore them with restore_item until they are purged',
     inputSchema: {
       type: 'object',
       properties: {
@@ -298,7 +361,8 @@ export const taskTools: Tool[] = [
   },
   {
     name: 'get_task_stats',
-    description: 'Get statistics about tasks',
+    description:
+      'Get statistics about tasks, including average and median cycle time (in progress to completed) and lead time (created to completed)',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -330,9 +394,37 @@ export const taskTools: Tool[] = [
       },
     },
   },
+  {
+    name: 'get_task_history',
+    description:
+      'Get the change history of a task: status transitions, field changes with old and new values, tag and archive changes, who made them, and how long the task spent in each status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Task ID',
+        },
+        event_type: {
+          type: 'string',
+          description: 'Only list events of this type (optional)',
+          enum: [...VALID_TASK_EVENT_TYPES],
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of events, newest first (default: 100)',
+          minimum: 1,
+          maximum: 500,
+          default: 100,
+        },
+      },
+      required: ['id'],
+    },
+  },
   {
     name: 'batch_create_tasks',
-    description: 'Create multiple tasks in a single batch operation',
+    description:
+      'Create multiple tasks in a single batch operation; entries may include nested subtasks',
     inputSchema: {
       type: 'object',
       properties: {
@@ -380,6 +472,13 @@ export const taskTools: Tool[] = [
                 type: 'string',
                 description: 'Due date in YYYY-MM-DD format (optional)',
               },
+              recurrence: recurrenceProperty,
+              subtasks: {
+                type: 'array',
+                description:
+                  'Subtasks with the same fields, created under this task; they inherit its project unless they set one',
+                items: { type: 'object' },
+              },
             },
             required: ['title'],
           },
@@ -423,6 +522,18 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           return createErrorResponse('Invalid due date format. Use YYYY-MM-DD');
         }
 
+        if (args.parent_id !== undefined && !validateId(args.parent_id)) {
+          return createErrorResponse('parent_id must be a valid task ID');
+        }
+
+        if (args.recurrence !== undefined && !isRecurrenceArg(args.recurrence)) {
+          return createErrorResponse('recurrence must be an object or an RRULE string');
+        }
+
+        if (args.actor !== undefined && typeof args.actor !== 'string') {
+          return createErrorResponse('actor must be a string');
+        }
+
         return await taskService.createTask(args);
       } catch (error) {
         return createErrorResponse(
@@ -465,6 +576,11 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
         if (args.min_similarity && (args.min_similarity < 0 || args.min_similarity > 1)) {
           return createErrorResponse('Minimum similarity must be between 0 and 1');
         }
+        if (args.search_mode && !VALID_SEARCH_MODES.includes(args.search_mode)) {
+          return createErrorResponse(
+            `Search mode must be one of: ${VALID_SEARCH_MODES.join(', ')}`
+          );
+        }
         if (args.priority_min && (args.priority_min < 1 || args.priority_min > 5)) {
           return createErrorResponse('Priority minimum must be between 1 and 5');
         }
@@ -509,6 +625,26 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           return createErrorResponse('Invalid due date format. Use YYYY-MM-DD');
         }
 
+        if (
+          args.parent_id !== undefined &&
+          args.parent_id !== null &&
+          !validateId(args.parent_id)
+        ) {
+          return createErrorResponse('parent_id must be a valid task ID or null');
+        }
+
+        if (
+          args.recurrence !== undefined &&
+          args.recurrence !== null &&
+          !isRecurrenceArg(args.recurrence)
+        ) {
+          return createErrorResponse('recurrence must be an object, an RRULE string or null');
+        }
+
+        if (args.actor !== undefined && typeof args.actor !== 'string') {
+          return createErrorResponse('actor must be a string');
+        }
+
         // Check if at least one field is provided for update
         const updateFields = [
           'title',
@@ -519,6 +655,8 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           'tags',
           'priority',
           'due_date',
+          'parent_id',
+          'recurrence',
         ];
         const hasUpdateField = updateFields.some(field => args[field] !== undefined);
 
@@ -541,6 +679,14 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
         }
 
+        if (args.cascade !== undefined && typeof args.cascade !== 'boolean') {
+          return createErrorResponse('cascade must be a boolean');
+        }
+
+        if (args.actor !== undefined && typeof args.actor !== 'string') {
+          return createErrorResponse('actor must be a string');
+        }
+
         return await taskService.completeTask(args);
       } catch (error) {
         return createErrorResponse(
@@ -556,6 +702,10 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
         }
 
+        if (args.actor !== undefined && typeof args.actor !== 'string') {
+          return createErrorResponse('actor must be a string');
+        }
+
         return await taskService.archiveTask(args);
       } catch (error) {
         return createErrorResponse(
@@ -599,6 +749,31 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
       }
     },
 
+    async get_task_history(args: any) {
+      try {
+        // Validate required fields
+        if (!validateId(args.id)) {
+          return createErrorResponse(ERROR_MESSAGES.INVALID_ID);
+        }
+
+        if (args.event_type !== undefined && !VALID_TASK_EVENT_TYPES.includes(args.event_type)) {
+          return createErrorResponse(
+            `event_type must be one of: ${VALID_TASK_EVENT_TYPES.join(', ')}`
+          );
+        }
+
+        if (args.limit !== undefined && (args.limit < 1 || args.limit > 500)) {
+          return createErrorResponse('Limit must be between 1 and 500');
+        }
+
+        return await taskService.getTaskHistory(args);
+      } catch (error) {
+        return createErrorResponse(
+          `Failed to get task history: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
     async batch_create_tasks(args: any) {
       try {
         // Validate tasks array
@@ -610,29 +785,14 @@ export function createTaskHandlers(db: PrismaDatabaseService) {
           return createErrorResponse('Tasks array cannot be empty');
         }
 
-        if (args.tasks.length > 100) {
-          return createErrorResponse('Cannot create more than 100 tasks in a single batch');
+        // Validate each task in the array, including nested subtasks
+        const taskError = validateBatchTasks(args.tasks);
+        if (taskError) {
+          return createErrorResponse(taskError);
         }
 
-        // Validate each task in the array
-        for (let i = 0; i < args.tasks.length; i++) {
-          const task = args.tasks[i];
-
-          if (!task || typeof task !== 'object') {
-            return createErrorResponse(`Task at index ${i} must be an object`);
-          }
-
-          if (!task.title || typeof task.title !== 'string') {
-            return createErrorResponse(`Title is required for task ${i}`);
-          }
-
-          if (task.priority && (task.priority < 1 || task.priority > 5)) {
-            return createErrorResponse(`Priority must be between 1 and 5 for task ${i}`);
-          }
-
-          if (task.due_date && !isValidDate(task.due_date)) {
-            return createErrorResponse(`Invalid due date format for task ${i}. Use YYYY-MM-DD`);
-          }
+        if (countBatchTasks(args.tasks) > 100) {
+          return createErrorResponse('Cannot create more than 100 tasks in a single batch');
         }
 
         return await taskService.batchCreateTasks(args);
@@ -655,3 +815,60 @@ function isValidDate(dateString: string): boolean {
   const date = new Date(dateString);
   return date instanceof Date && !isNaN(date.getTime());
 }
+
+/**
+ * Validate batch entries and their nested subtasks
+ *
+ * @returns Error message, or undefined when every entry is valid
+ */
+function validateBatchTasks(tasks: any[], prefix: string = ''): string | undefined {
+  for (let i = 0; i < tasks.length; i++) {
+    const task = tasks[i];
+    const label = `${prefix}${i}`;
+
+    if (!task || typeof task !== 'object') {
+      return `Task at index ${label} must be an object`;
+    }
+
+    if (!task.title || typeof task.title !== 'string') {
+      return `Title is required for task ${label}`;
+    }
+
+    if (task.priority && (task.priority < 1 || task.priority > 5)) {
+      return `Priority must be between 1 and 5 for task ${label}`;
+    }
+
+    if (task.due_date && !isValidDate(task.due_date)) {
+      return `Invalid due date format for task ${label}. Use YYYY-MM-DD`;
+    }
+
+    if (task.recurrence !== undefined && !isRecurrenceArg(task.recurrence)) {
+      return `recurrence must be an object or an RRULE string for task ${label}`;
+    }
+
+    if (task.subtasks !== undefined) {
+      if (!Array.isArray(task.subtasks)) {
+        return `Subtasks must be an array for task ${label}`;
+      }
+      const subtaskError = validateBatchTasks(task.subtasks, `${label}.`);
+      if (subtaskError) {
+        return subtaskError;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Count batch entries including nested subtasks
+ */
+function countBatchTasks(tasks: any[]): number {
+  return tasks.reduce((count, task) => count + 1 + countBatchTasks(task.subtasks ?? []), 0);
+}
+
+/**
+ * Check the shape of a recurrence argument; the rule itself is validated by the service
+ */
+function isRecurrenceArg(value: unknown): boolean {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null);
+}
@@ -0,0 +1,147 @@
+/**
+ * Trash Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for the trash:
+ * - list_trash
+ * - restore_item
+ * - purge_trash
+ *
+ * @fileoverview MCP handlers for trash tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { TrashService } from '../services/trash-service.js';
+import { VALID_TRASH_ITEM_TYPES } from '../core/types.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Trash tool definitions for MCP
+ */
+export const trashTools: Tool[] = [
+  {
+    name: 'list_trash',
+    description:
+      'List deleted memories, tasks and projects that are still in the trash, most recently deleted first, with the date each will be purged automatically',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [...VALID_TRASH_ITEM_TYPES],
+          description: 'Only list items of this type',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of items to list (default: 100)',
+          minimum: 1,
+          maximum: 500,
+          default: 100,
+        },
+      },
+    },
+  },
+  {
+    name: 'restore_item',
+    description:
+      'Take a memory, task or project out of the trash. Restoring a project also restores the memories and tasks deleted with it; restoring a task also restores the subtasks deleted with it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [...VALID_TRASH_ITEM_TYPES],
+          description: 'Type of the trashed item',
+        },
+        id: {
+          type: 'number',
+          description: 'ID of the trashed item',
+        },
+      },
+      required: ['type', 'id'],
+    },
+  },
+  {
+    name: 'purge_trash',
+    description:
+      'Permanently delete items in the trash. Purged items cannot be restored, so use dry_run first to see what would be removed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [...VALID_TRASH_ITEM_TYPES],
+          description: 'Only purge items of this type (default: all types)',
+        },
+        older_than_days: {
+          type: 'number',
+          description: 'Only purge items deleted at least this many days ago',
+          minimum: 0,
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Count the items that would be purged without deleting them',
+          default: false,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Create trash handlers
+ */
+export function createTrashHandlers(trashService: TrashService) {
+  return {
+    async list_trash(args: any) {
+      return handleAsyncError(async () => {
+        if (args.type !== undefined && !VALID_TRASH_ITEM_TYPES.includes(args.type)) {
+          return createErrorResponse(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+        }
+
+        if (
+          args.limit !== undefined &&
+          (!Number.isInteger(args.limit) || args.limit < 1 || args.limit > 500)
+        ) {
+          return createErrorResponse('Limit must be an integer between 1 and 500');
+        }
+
+        return await trashService.listTrash(args);
+      });
+    },
+
+    async restore_item(args: any) {
+      return handleAsyncError(async () => {
+        if (!VALID_TRASH_ITEM_TYPES.includes(args.type)) {
+          return createErrorResponse(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+        }
+
+        if (!Number.isInteger(args.id) || args.id < 1) {
+          return createErrorResponse('A valid item ID is required');
+        }
+
+        return await trashService.restoreItem(args);
+      });
+    },
+
+    async purge_trash(args: any) {
+      return handleAsyncError(async () => {
+        if (args.type !== undefined && !VALID_TRASH_ITEM_TYPES.includes(args.type)) {
+          return createErrorResponse(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+        }
+
+        if (
+          args.older_than_days !== undefined &&
+          (!Number.isInteger(args.older_than_days) || args.older_than_days < 0)
+        ) {
+          return createErrorResponse('older_than_days must be a non-negative integer');
+        }
+
+        if (args.dry_run !== undefined && typeof args.dry_run !== 'boolean') {
+          return createErrorResponse('dry_run must be a boolean');
+        }
+
+        return await trashService.purgeTrash(args);
+      });
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Urgency Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for urgency models:
+ * - get_urgency_model
+ * - set_urgency_model
+ *
+ * @fileoverview MCP handlers for urgency model tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { UrgencyService } from '../services/urgency-service.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+const weightMap = (description: string) => ({
+  type: 'object',
+  description,
+  additionalProperties: { type: ['number', 'null'] },
+});
+
+/**
+ * Urgency tool definitions for MCP
+ */
+export const urgencyTools: Tool[] = [
+  {
+    name: 'get_urgency_model',
+    description:
+      "Show the weights that score task urgency (0-10) for get_work_priorities, start_session and the other context tools: the project's own model, else the global model, else the built-in defaults",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project whose tasks the model scores (default: the global model)',
+        },
+      },
+    },
+  },
+  {
+    name: 'set_urgency_model',
+    description:
+      'Change urgency weights for a project, or globally for projects without their own model. Weights not given keep their current value. A score sums priority × priority weight, due-date points (5 overdue, 4 today, 3 tomorrow, 2 within 3 days, 1 within a week) × due weight, weeks since creation × age weight, the status and tag weights, and dependency weight per open task waiting on it (up to 3); it is capped at 10, and blocked tasks lose blocked_penalty.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project to set the model for (default: the global model)',
+        },
+        priority: { type: 'number', description: 'Points per priority level (default: 2)' },
+        due: { type: 'number', description: 'Multiplier on due-date points (default: 1)' },
+        age: { type: 'number', description: 'Points per week since creation (default: 0)' },
+        status: weightMap(
+          'Points per status name, e.g. {"in_progress": 1}; merged into the current weights, null removes one'
+        ),
+        dependencies: {
+          type: 'number',
+          description: 'Points per open task waiting on this one, up to 3 (default: 1)',
+        },
+        blocked_penalty: {
+          type: 'number',
+          description: 'Taken off the score of a blocked task, which keeps at least 1 (default: 6)',
+          minimum: 0,
+        },
+        tags: weightMap(
+          'Points per tag name, e.g. {"customer": 2}; merged into the current weights, null removes one'
+        ),
+        bands: {
+          type: 'object',
+          description:
+            'Lowest score of the urgent, high and medium groups of get_work_priorities (default: 8, 6, 4)',
+          properties: {
+            urgent: { type: 'number' },
+            high: { type: 'number' },
+            medium: { type: 'number' },
+          },
+        },
+        reset: {
+          type: 'boolean',
+          description:
+            'Delete the model, so the global model (for a project) or the built-in defaults apply again',
+          default: false,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Create urgency handlers
+ */
+export function createUrgencyHandlers(urgencyService: UrgencyService) {
+  return {
+    async get_urgency_model(args: any) {
+      return handleAsyncError(async () => {
+        return await urgencyService.getUrgencyModel(args);
+      });
+    },
+
+    async set_urgency_model(args: any) {
+      return handleAsyncError(async () => {
+        if (args.reset !== undefined && typeof args.reset !== 'boolean') {
+          return createErrorResponse('Reset must be a boolean');
+        }
+
+        return await urgencyService.setUrgencyModel(args);
+      });
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Vault Tool MCP Handlers
+ *
+ * This module contains the MCP tool handlers for Markdown vault sync:
+ * - export_memories_markdown
+ * - import_memories_markdown
+ *
+ * @fileoverview MCP handlers for vault tools with proper validation and error handling
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { VaultService } from '../services/vault-service.js';
+import { createErrorResponse, handleAsyncError } from '../utils/error-handling.js';
+
+/**
+ * Vault tool definitions for MCP
+ */
+export const vaultTools: Tool[] = [
+  {
+    name: 'export_memories_markdown',
+    description:
+      'Export memories to the Markdown (Obsidian) vault as one note per memory with YAML front matter, in one folder per project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Folder inside the vault (default: "AI Memory")',
+        },
+        category: {
+          type: 'string',
+          description: 'Export only this category (optional)',
+        },
+        project: {
+          type: 'string',
+          description: 'Export only this project (optional)',
+        },
+      },
+    },
+  },
+  {
+    name: 'import_memories_markdown',
+    description:
+      'Import Markdown notes from the vault as memories; notes with an ai_memory_id update their memory instead of creating a new one',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Folder inside the vault (default: "AI Memory")',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Report what would be created or updated without writing anything',
+          default: false,
+        },
+        write_ids: {
+          type: 'boolean',
+          description:
+            'Add ai_memory_id to the front matter of newly imported notes so re-imports update them (default: true)',
+          default: true,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Create vault handlers
+ */
+export function createVaultHandlers(vaultService: VaultService) {
+  return {
+    async export_memories_markdown(args: any) {
+      return handleAsyncError(async () => {
+        if (args.folder !== undefined && typeof args.folder !== 'string') {
+          return createErrorResponse('folder must be a string');
+        }
+
+        return await vaultService.exportMemoriesMarkdown(args);
+      });
+    },
+
+    async import_memories_markdown(args: any) {
+      return handleAsyncError(async () => {
+        if (args.folder !== undefined && typeof args.folder !== 'string') {
+          return createErrorResponse('folder must be a string');
+        }
+
+        for (const flag of ['dry_run', 'write_ids']) {
+          if (args[flag] !== undefined && typeof args[flag] !== 'boolean') {
+            return createErrorResponse(`${flag} must be a boolean`);
+          }
+        }
+
+        return await vaultService.importMemoriesMarkdown(args);
+      });
+    },
+  };
+}
@@ -22,15 +22,29 @@ import {
 // Import service implementations
 import { MemoryServiceImpl } from './services/memory-service.js';
 import { TaskServiceImpl } from './services/task-service.js';
+import { TaskDependencyServiceImpl } from './services/task-dependency-service.js';
+import { MemoryLinkServiceImpl } from './services/memory-link-service.js';
 import { ProjectServiceImpl } from './services/project-service.js';
 import { CategoryServiceImpl } from './services/category-service.js';
 import { ContextServiceImpl } from './services/context-service.js';
 import { AIInstructionServiceImpl } from './services/ai-instruction-service.js';
 import { StatusTagServiceImpl } from './services/status-tag-service.js';
+import { ReembeddingServiceImpl } from './services/reembedding-service.js';
+import { ImportServiceImpl } from './services/import-service.js';
+import { BackupServiceImpl } from './services/backup-service.js';
+import { TrashServiceImpl } from './services/trash-service.js';
+import { VaultServiceImpl } from './services/vault-service.js';
+import { SessionServiceImpl } from './services/session-service.js';
+import { UrgencyServiceImpl } from './services/urgency-service.js';
 
 // Import handlers
 import { createMemoryHandlers, memoryTools } from './handlers/memory-handlers.js';
 import { createTaskHandlers, taskTools } from './handlers/task-handlers.js';
+import {
+  createTaskDependencyHandlers,
+  taskDependencyTools,
+} from './handlers/task-dependency-handlers.js';
+import { createMemoryLinkHandlers, memoryLinkTools } from './handlers/memory-link-handlers.js';
 import { createProjectHandlers, projectTools } from './handlers/project-handlers.js';
 import { createCategoryHandlers, categoryTools } from './handlers/category-handlers.js';
 import { createContextHandlers, contextTools } from './handlers/context-handlers.js';
@@ -39,6 +53,13 @@ import {
   aiInstructionTools,
 } from './handlers/ai-instruction-handlers.js';
 import { createStatusTagHandlers, statusTagTools } from './handlers/status-tag-handlers.js';
+import { createEmbeddingHandlers, embeddingTools } from './handlers/embedding-handlers.js';
+import { createImportHandlers, importTools } from './handlers/import-handlers.js';
+import { createBackupHandlers, backupTools } from './handlers/backup-handlers.js';
+import { createTrashHandlers, trashTools } from './handlers/trash-handlers.js';
+import { createVaultHandlers, vaultTools } from './handlers/vault-handlers.js';
+import { createSessionHandlers, sessionTools } from './handlers/session-handlers.js';
+import { createUrgencyHandlers, urgencyTools } from './handlers/urgency-handlers.js';
 
 class AIMemoryHTTPServer {
   private app: express.Application;
@@ -49,20 +70,38 @@ class AIMemoryHTTPServer {
   // Services
   private memoryService!: MemoryServiceImpl;
   private taskService!: TaskServiceImpl;
+  private taskDependencyService!: TaskDependencyServiceImpl;
+  private memoryLinkService!: MemoryLinkServiceImpl;
   private projectService!: ProjectServiceImpl;
   private categoryService!: CategoryServiceImpl;
   private contextService!: ContextServiceImpl;
   private aiInstructionService!: AIInstructionServiceImpl;
   private statusTagService!: StatusTagServiceImpl;
+  private reembeddingService!: ReembeddingServiceImpl;
+  private importService!: ImportServiceImpl;
+  private backupService!: BackupServiceImpl;
+  private trashService!: TrashServiceImpl;
+  private vaultService!: VaultServiceImpl;
+  private sessionService!: SessionServiceImpl;
+  private urgencyService!: UrgencyServiceImpl;
 
   // Handlers
   private memoryHandlers!: ReturnType<typeof createMemoryHandlers>;
   private taskHandlers!: ReturnType<typeof createTaskHandlers>;
+  private taskDependencyHandlers!: ReturnType<typeof createTaskDependencyHandlers>;
+  private memoryLinkHandlers!: ReturnType<typeof createMemoryLinkHandlers>;
   private projectHandlers!: ReturnType<typeof createProjectHandlers>;
   private categoryHandlers!: ReturnType<typeof createCategoryHandlers>;
   private contextHandlers!: ReturnType<typeof createContextHandlers>;
   private aiInstructionHandlers!: ReturnType<typeof createAIInstructionHandlers>;
   private statusTagHandlers!: ReturnType<typeof createStatusTagHandlers>;
+  private embeddingHandlers!: ReturnType<typeof createEmbeddingHandlers>;
+  private importHandlers!: ReturnType<typeof createImportHandlers>;
+  private backupHandlers!: ReturnType<typeof createBackupHandlers>;
+  private trashHandlers!: ReturnType<typeof createTrashHandlers>;
+  private vaultHandlers!: ReturnType<typeof createVaultHandlers>;
+  private sessionHandlers!: ReturnType<typeof createSessionHandlers>;
+  private urgencyHandlers!: ReturnType<typeof createUrgencyHandlers>;
 
   constructor() {
     this.app = express();
@@ -91,6 +130,9 @@ class AIMemoryHTTPServer {
     this.db = new PrismaDatabaseService();
     await this.db.initialize();
     await this.db.seedDefaultData();
+
+    // Reuse stored embeddings for text that has been embedded before
+    embeddingService.setCache(this.db.vectors);
   }
 
   private initializeServices() {
@@ -99,20 +141,38 @@ class AIMemoryHTTPServer {
     // Initialize service instances
     this.memoryService = new MemoryServiceImpl(this.db);
     this.taskService = new TaskServiceImpl(this.db);
+    this.taskDependencyService = new TaskDependencyServiceImpl(this.db);
+    this.memoryLinkService = new MemoryLinkServiceImpl(this.db);
     this.projectService = new ProjectServiceImpl(this.db);
     this.categoryService = new CategoryServiceImpl(this.db);
     this.contextService = new ContextServiceImpl(this.db, embeddingService);
     this.aiInstructionService = new AIInstructionServiceImpl(this.db);
     this.statusTagService = new StatusTagServiceImpl(this.db);
+    this.reembeddingService = new ReembeddingServiceImpl(this.db);
+    this.importService = new ImportServiceImpl(this.db);
+    this.backupService = new BackupServiceImpl(this.db);
+    this.trashService = new TrashServiceImpl(this.db);
+    this.vaultService = new VaultServiceImpl(this.db, this.memoryService);
+    this.sessionService = new SessionServiceImpl(this.db, this.memoryService);
+    this.urgencyService = new UrgencyServiceImpl(this.db);
 
     // Initialize handlers
     this.memoryHandlers = createMemoryHandlers(this.db);
     this.taskHandlers = createTaskHandlers(this.db);
+    this.taskDependencyHandlers = createTaskDependencyHandlers(this.taskDependencyService);
+    this.memoryLinkHandlers = createMemoryLinkHandlers(this.memoryLinkService);
     this.projectHandlers = createProjectHandlers(this.db);
     this.categoryHandlers = createCategoryHandlers(this.db);
     this.contextHandlers = createContextHandlers(this.contextService);
     this.aiInstructionHandlers = createAIInstructionHandlers(this.aiInstructionService);
     this.statusTagHandlers = createStatusTagHandlers(this.statusTagService);
+    this.embeddingHandlers = createEmbeddingHandlers(this.reembeddingService);
+    this.importHandlers = createImportHandlers(this.importService);
+    this.backupHandlers = createBackupHandlers(this.backupService);
+    this.trashHandlers = createTrashHandlers(this.trashService);
+    this.vaultHandlers = createVaultHandlers(this.vaultService);
+    this.sessionHandlers = createSessionHandlers(this.sessionService);
+    this.urgencyHandlers = createUrgencyHandlers(this.urgencyService);
 
     console.log('[Server] Services and handlers initialized successfully');
   }
@@ -167,10 +227,19 @@ class AIMemoryHTTPServer {
         const tools = [
           ...memoryTools,
           ...taskTools,
+          ...taskDependencyTools,
+          ...memoryLinkTools,
           ...projectTools,
           ...categoryTools,
           ...contextTools,
           ...aiInstructionTools,
+          ...embeddingTools,
+          ...importTools,
+          ...backupTools,
+          ...trashTools,
+          ...vaultTools,
+          ...sessionTools,
+          ...urgencyTools,
           ...statusTagTools,
         ];
 
@@ -226,6 +295,151 @@ class AIMemoryHTTPServer {
       }
     });
 
+    this.app.post('/api/memory/import', async (req, res) => {
+      try {
+        const result = await this.importHandlers.import_memories(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error importing memories:', error);
+        res.status(500).json({ error: 'Failed to import memories' });
+      }
+    });
+
+    this.app.post('/api/memory/export-markdown', async (req, res) => {
+      try {
+        const result = await this.vaultHandlers.export_memories_markdown(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error exporting memories to Markdown:', error);
+        res.status(500).json({ error: 'Failed to export memories to Markdown' });
+      }
+    });
+
+    this.app.post('/api/memory/import-markdown', async (req, res) => {
+      try {
+        const result = await this.vaultHandlers.import_memories_markdown(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error importing memories from Markdown:', error);
+        res.status(500).json({ error: 'Failed to import memories from Markdown' });
+      }
+    });
+
+    this.app.get('/api/memory/duplicates', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.find_duplicate_memories({
+          project: req.query.project,
+          min_similarity: req.query.min_similarity
+            ? parseFloat(req.query.min_similarity as string)
+            : undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error finding duplicate memories:', error);
+        res.status(500).json({ error: 'Failed to find duplicate memories' });
+      }
+    });
+
+    this.app.post('/api/memory/merge', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.merge_memories(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error merging memories:', error);
+        res.status(500).json({ error: 'Failed to merge memories' });
+      }
+    });
+
+    this.app.get('/api/memory/stale', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.get_stale_memories({
+          days: req.query.days ? parseInt(req.query.days as string) : undefined,
+          category: req.query.category,
+          project: req.query.project,
+          priority_max: req.query.priority_max
+            ? parseInt(req.query.priority_max as string)
+            : undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting stale memories:', error);
+        res.status(500).json({ error: 'Failed to get stale memories' });
+      }
+    });
+
+    this.app.get('/api/memory/:id/versions', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.list_memory_versions({
+          id: parseInt(req.params.id),
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error listing memory versions:', error);
+        res.status(500).json({ error: 'Failed to list memory versions' });
+      }
+    });
+
+    this.app.get('/api/memory/:id/versions/diff', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.diff_memory_versions({
+          id: parseInt(req.params.id),
+          from_version: req.query.from ? parseInt(req.query.from as string) : undefined,
+          to_version: req.query.to ? parseInt(req.query.to as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error diffing memory versions:', error);
+        res.status(500).json({ error: 'Failed to diff memory versions' });
+      }
+    });
+
+    this.app.post('/api/memory/:id/versions/:version/restore', async (req, res) => {
+      try {
+        const result = await this.memoryHandlers.restore_memory_version({
+          id: parseInt(req.params.id),
+          version: parseInt(req.params.version),
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error restoring memory version:', error);
+        res.status(500).json({ error: 'Failed to restore memory version' });
+      }
+    });
+
+    this.app.post('/api/memory/:id/links', async (req, res) => {
+      try {
+        const result = await this.memoryLinkHandlers.link_items({
+          ...req.body,
+          memory_id: parseInt(req.params.id),
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error linking memory:', error);
+        res.status(500).json({ error: 'Failed to link memory' });
+      }
+    });
+
+    this.app.delete('/api/memory/:id/links', async (req, res) => {
+      try {
+        const result = await this.memoryLinkHandlers.unlink_items({
+          memory_id: parseInt(req.params.id),
+          target_memory_id: req.query.target_memory_id
+            ? parseInt(req.query.target_memory_id as string)
+            : undefined,
+          target_task_id: req.query.target_task_id
+            ? parseInt(req.query.target_task_id as string)
+            : undefined,
+          link_type: req.query.link_type,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error unlinking memory:', error);
+        res.status(500).json({ error: 'Failed to unlink memory' });
+      }
+    });
+
     this.app.post('/api/task/create', async (req, res) => {
       try {
         const result = await this.taskHandlers.create_task(req.body);
@@ -256,6 +470,16 @@ class AIMemoryHTTPServer {
       }
     });
 
+    this.app.post('/api/task/import', async (req, res) => {
+      try {
+        const result = await this.importHandlers.import_tasks(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error importing tasks:', error);
+        res.status(500).json({ error: 'Failed to import tasks' });
+      }
+    });
+
     this.app.get('/api/task/export', async (req, res) => {
       try {
         const result = await this.taskHandlers.export_tasks(req.query);
@@ -276,6 +500,20 @@ class AIMemoryHTTPServer {
       }
     });
 
+    this.app.get('/api/task/graph', async (req, res) => {
+      try {
+        const result = await this.taskDependencyHandlers.get_task_graph({
+          task_id: req.query.task_id ? parseInt(req.query.task_id as string) : undefined,
+          project: req.query.project,
+          include_completed: req.query.include_completed !== 'false',
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting task graph:', error);
+        res.status(500).json({ error: 'Failed to get task graph' });
+      }
+    });
+
     this.app.get('/api/task/:id', async (req, res) => {
       try {
         const result = await this.taskHandlers.get_task({ id: parseInt(req.params.id) });
@@ -301,7 +539,10 @@ class AIMemoryHTTPServer {
 
     this.app.post('/api/task/:id/complete', async (req, res) => {
       try {
-        const result = await this.taskHandlers.complete_task({ id: parseInt(req.params.id) });
+        const result = await this.taskHandlers.complete_task({
+          ...req.body,
+          id: parseInt(req.params.id),
+        });
         res.json(result);
       } catch (error) {
         console.error('[Server] Error completing task:', error);
@@ -322,6 +563,46 @@ class AIMemoryHTTPServer {
       }
     });
 
+    this.app.get('/api/task/:id/history', async (req, res) => {
+      try {
+        const result = await this.taskHandlers.get_task_history({
+          id: parseInt(req.params.id),
+          event_type: req.query.event_type,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting task history:', error);
+        res.status(500).json({ error: 'Failed to get task history' });
+      }
+    });
+
+    this.app.post('/api/task/:id/dependencies', async (req, res) => {
+      try {
+        const result = await this.taskDependencyHandlers.add_task_dependency({
+          ...req.body,
+          task_id: parseInt(req.params.id),
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error adding task dependency:', error);
+        res.status(500).json({ error: 'Failed to add task dependency' });
+      }
+    });
+
+    this.app.delete('/api/task/:id/dependencies/:dependsOnId', async (req, res) => {
+      try {
+        const result = await this.taskDependencyHandlers.remove_task_dependency({
+          task_id: parseInt(req.params.id),
+          depends_on_id: parseInt(req.params.dependsOnId),
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error removing task dependency:', error);
+        res.status(500).json({ error: 'Failed to remove task dependency' });
+      }
+    });
+
     this.app.delete('/api/task/:id', async (req, res) => {
       try {
         const result = await this.taskHandlers.delete_task({ id: parseInt(req.params.id) });
@@ -342,6 +623,154 @@ class AIMemoryHTTPServer {
       }
     });
 
+    this.app.post('/api/embeddings/reembed', async (req, res) => {
+      try {
+        const result = await this.embeddingHandlers.start_reembedding(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error starting re-embedding:', error);
+        res.status(500).json({ error: 'Failed to start re-embedding' });
+      }
+    });
+
+    this.app.get('/api/embeddings/reembed/status', async (req, res) => {
+      try {
+        const result = await this.embeddingHandlers.get_reembedding_status(req.query);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting re-embedding status:', error);
+        res.status(500).json({ error: 'Failed to get re-embedding status' });
+      }
+    });
+
+    this.app.post('/api/backup', async (req, res) => {
+      try {
+        const result = await this.backupHandlers.backup_database(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error backing up database:', error);
+        res.status(500).json({ error: 'Failed to back up database' });
+      }
+    });
+
+    this.app.post('/api/backup/restore', async (req, res) => {
+      try {
+        const result = await this.backupHandlers.restore_database(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error restoring database:', error);
+        res.status(500).json({ error: 'Failed to restore database' });
+      }
+    });
+
+    this.app.get('/api/trash', async (req, res) => {
+      try {
+        const result = await this.trashHandlers.list_trash({
+          type: req.query.type,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error listing trash:', error);
+        res.status(500).json({ error: 'Failed to list trash' });
+      }
+    });
+
+    this.app.post('/api/trash/restore', async (req, res) => {
+      try {
+        const result = await this.trashHandlers.restore_item(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error restoring item from trash:', error);
+        res.status(500).json({ error: 'Failed to restore item from trash' });
+      }
+    });
+
+    this.app.post('/api/trash/purge', async (req, res) => {
+      try {
+        const result = await this.trashHandlers.purge_trash(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error purging trash:', error);
+        res.status(500).json({ error: 'Failed to purge trash' });
+      }
+    });
+
+    this.app.post('/api/session/start', async (req, res) => {
+      try {
+        const result = await this.contextHandlers.start_session(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error starting session:', error);
+        res.status(500).json({ error: 'Failed to start session' });
+      }
+    });
+
+    this.app.post('/api/session/begin', async (req, res) => {
+      try {
+        const result = await this.sessionHandlers.begin_session(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error beginning session:', error);
+        res.status(500).json({ error: 'Failed to begin session' });
+      }
+    });
+
+    this.app.post('/api/session/end', async (req, res) => {
+      try {
+        const result = await this.sessionHandlers.end_session(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error ending session:', error);
+        res.status(500).json({ error: 'Failed to end session' });
+      }
+    });
+
+    this.app.get('/api/session/list', async (req, res) => {
+      try {
+        const result = await this.sessionHandlers.list_sessions({
+          project: req.query.project,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error listing sessions:', error);
+        res.status(500).json({ error: 'Failed to list sessions' });
+      }
+    });
+
+    this.app.get('/api/session/:id', async (req, res) => {
+      try {
+        const result = await this.sessionHandlers.get_session({ id: parseInt(req.params.id) });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting session:', error);
+        res.status(500).json({ error: 'Failed to get session' });
+      }
+    });
+
+    this.app.get('/api/urgency-model', async (req, res) => {
+      try {
+        const result = await this.urgencyHandlers.get_urgency_model({
+          project: req.query.project,
+        });
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error getting urgency model:', error);
+        res.status(500).json({ error: 'Failed to get urgency model' });
+      }
+    });
+
+    this.app.post('/api/urgency-model', async (req, res) => {
+      try {
+        const result = await this.urgencyHandlers.set_urgency_model(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error('[Server] Error setting urgency model:', error);
+        res.status(500).json({ error: 'Failed to set urgency model' });
+      }
+    });
+
     // Server info endpoint
     this.app.get('/api/info', (req, res) => {
       res.json({
@@ -359,6 +788,17 @@ class AIMemoryHTTPServer {
               store: '/api/memory/store',
               search: '/api/memory/search',
               list: '/api/memory/list',
+              import: '/api/memory/import',
+              exportMarkdown: '/api/memory/export-markdown',
+              importMarkdown: '/api/memory/import-markdown',
+              duplicates: '/api/memory/duplicates',
+              merge: '/api/memory/merge',
+              stale: '/api/memory/stale',
+              versions: '/api/memory/:id/versions',
+              diffVersions: '/api/memory/:id/versions/diff',
+              restoreVersion: '/api/memory/:id/versions/:version/restore',
+              link: '/api/memory/:id/links',
+              unlink: '/api/memory/:id/links',
             },
             task: {
               create: '/api/task/create',
@@ -369,9 +809,38 @@ class AIMemoryHTTPServer {
               update: '/api/task/:id',
               complete: '/api/task/:id/complete',
               archive: '/api/task/:id/archive',
+              history: '/api/task/:id/history',
               delete: '/api/task/:id',
               stats: '/api/task/stats',
               export: '/api/task/export',
+              import: '/api/task/import',
+              graph: '/api/task/graph',
+              addDependency: '/api/task/:id/dependencies',
+              removeDependency: '/api/task/:id/dependencies/:dependsOnId',
+            },
+            embeddings: {
+              reembed: '/api/embeddings/reembed',
+              reembedStatus: '/api/embeddings/reembed/status',
+            },
+            backup: {
+              create: '/api/backup',
+              restore: '/api/backup/restore',
+            },
+            trash: {
+              list: '/api/trash',
+              restore: '/api/trash/restore',
+              purge: '/api/trash/purge',
+            },
+            session: {
+              start: '/api/session/start',
+              begin: '/api/session/begin',
+              end: '/api/session/end',
+              list: '/api/session/list',
+              get: '/api/session/:id',
+            },
+            urgencyModel: {
+              get: '/api/urgency-model',
+              set: '/api/urgency-model',
             },
           },
         },
@@ -408,6 +877,24 @@ class AIMemoryHTTPServer {
       case 'export_memories':
         result = await this.memoryHandlers.export_memories(args);
         break;
+      case 'list_memory_versions':
+        result = await this.memoryHandlers.list_memory_versions(args);
+        break;
+      case 'diff_memory_versions':
+        result = await this.memoryHandlers.diff_memory_versions(args);
+        break;
+      case 'restore_memory_version':
+        result = await this.memoryHandlers.restore_memory_version(args);
+        break;
+      case 'find_duplicate_memories':
+        result = await this.memoryHandlers.find_duplicate_memories(args);
+        break;
+      case 'merge_memories':
+        result = await this.memoryHandlers.merge_memories(args);
+        break;
+      case 'get_stale_memories':
+        result = await this.memoryHandlers.get_stale_memories(args);
+        break;
 
       // Task Management
       case 'create_task':
@@ -443,6 +930,28 @@ class AIMemoryHTTPServer {
       case 'batch_create_tasks':
         result = await this.taskHandlers.batch_create_tasks(args);
         break;
+      case 'get_task_history':
+        result = await this.taskHandlers.get_task_history(args);
+        break;
+
+      // Task Dependencies
+      case 'add_task_dependency':
+        result = await this.taskDependencyHandlers.add_task_dependency(args);
+        break;
+      case 'remove_task_dependency':
+        result = await this.taskDependencyHandlers.remove_task_dependency(args);
+        break;
+      case 'get_task_graph':
+        result = await this.taskDependencyHandlers.get_task_graph(args);
+        break;
+
+      // Memory Links
+      case 'link_items':
+        result = await this.memoryLinkHandlers.link_items(args);
+        break;
+      case 'unlink_items':
+        result = await this.memoryLinkHandlers.unlink_items(args);
+        break;
 
       // Project Management
       case 'create_project':
@@ -502,6 +1011,9 @@ class AIMemoryHTTPServer {
       case 'get_work_priorities':
         result = await this.contextHandlers.get_work_priorities(args);
         break;
+      case 'start_session':
+        result = await this.contextHandlers.start_session(args);
+        break;
 
       // AI Instruction Management
       case 'create_ai_instruction':
@@ -520,6 +1032,71 @@ class AIMemoryHTTPServer {
         result = await this.aiInstructionHandlers.delete_ai_instruction(args);
         break;
 
+      // Embedding Maintenance
+      case 'start_reembedding':
+        result = await this.embeddingHandlers.start_reembedding(args);
+        break;
+      case 'get_reembedding_status':
+        result = await this.embeddingHandlers.get_reembedding_status(args);
+        break;
+
+      // Import
+      case 'import_memories':
+        result = await this.importHandlers.import_memories(args);
+        break;
+      case 'import_tasks':
+        result = await this.importHandlers.import_tasks(args);
+        break;
+
+      // Backup
+      case 'backup_database':
+        result = await this.backupHandlers.backup_database(args);
+        break;
+      case 'restore_database':
+        result = await this.backupHandlers.restore_database(args);
+        break;
+
+      // Trash
+      case 'list_trash':
+        result = await this.trashHandlers.list_trash(args);
+        break;
+      case 'restore_item':
+        result = await this.trashHandlers.restore_item(args);
+        break;
+      case 'purge_trash':
+        result = await this.trashHandlers.purge_trash(args);
+        break;
+
+      // Sessions
+      case 'begin_session':
+        result = await this.sessionHandlers.begin_session(args);
+        break;
+      case 'end_session':
+        result = await this.sessionHandlers.end_session(args);
+        break;
+      case 'list_sessions':
+        result = await this.sessionHandlers.list_sessions(args);
+        break;
+      case 'get_session':
+        result = await this.sessionHandlers.get_session(args);
+        break;
+
+      // Urgency models
+      case 'get_urgency_model':
+        result = await this.urgencyHandlers.get_urgency_model(args);
+        break;
+      case 'set_urgency_model':
+        result = await this.urgencyHandlers.set_urgency_model(args);
+        break;
+
+      // Markdown Vault
+      case 'export_memories_markdown':
+        result = await this.vaultHandlers.export_memories_markdown(args);
+        break;
+      case 'import_memories_markdown':
+        result = await this.vaultHandlers.import_memories_markdown(args);
+        break;
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -606,6 +1183,18 @@ class AIMemoryHTTPServer {
     }
 
     this.server.listen(port);
+
+    // Pick up a re-embedding job interrupted by the previous shutdown
+    await this.reembeddingService.resumeInterruptedJobs();
+
+    // Purge trash past its retention period, now and daily
+    await this.trashService.startAutoPurge();
+
+    // Archive memories past their expiry, now and periodically
+    await this.memoryService.startExpirySweep();
+
+    // Drop embedding cache entries left unused, now and daily
+    await embeddingService.startCachePruning();
   }
 }
 
@@ -10,16 +10,30 @@ import { STATUS_EMOJIS } from './core/types.js';
 // Import service implementations
 import { MemoryServiceImpl } from './services/memory-service.js';
 import { TaskServiceImpl } from './services/task-service.js';
+import { TaskDependencyServiceImpl } from './services/task-dependency-service.js';
+import { MemoryLinkServiceImpl } from './services/memory-link-service.js';
 import { ProjectServiceImpl } from './services/project-service.js';
 import { CategoryServiceImpl } from './services/category-service.js';
 import { ContextServiceImpl } from './services/context-service.js';
 import { AIInstructionServiceImpl } from './services/ai-instruction-service.js';
 import { StatusTagServiceImpl } from './services/status-tag-service.js';
+import { ReembeddingServiceImpl } from './services/reembedding-service.js';
+import { ImportServiceImpl } from './services/import-service.js';
+import { BackupServiceImpl } from './services/backup-service.js';
+import { TrashServiceImpl } from './services/trash-service.js';
+import { VaultServiceImpl } from './services/vault-service.js';
+import { SessionServiceImpl } from './services/session-service.js';
+import { UrgencyServiceImpl } from './services/urgency-service.js';
 import { GitOperationsManager } from './core/git-operations-manager.js';
 
 // Import handlers
 import { createMemoryHandlers, memoryTools } from './handlers/memory-handlers.js';
 import { createTaskHandlers, taskTools } from './handlers/task-handlers.js';
+import {
+  createTaskDependencyHandlers,
+  taskDependencyTools,
+} from './handlers/task-dependency-handlers.js';
+import { createMemoryLinkHandlers, memoryLinkTools } from './handlers/memory-link-handlers.js';
 import { createProjectHandlers, projectTools } from './handlers/project-handlers.js';
 import { createCategoryHandlers, categoryTools } from './handlers/category-handlers.js';
 import { createContextHandlers, contextTools } from './handlers/context-handlers.js';
@@ -28,6 +42,13 @@ import {
   aiInstructionTools,
 } from './handlers/ai-instruction-handlers.js';
 import { createStatusTagHandlers, statusTagTools } from './handlers/status-tag-handlers.js';
+import { createEmbeddingHandlers, embeddingTools } from './handlers/embedding-handlers.js';
+import { createImportHandlers, importTools } from './handlers/import-handlers.js';
+import { createBackupHandlers, backupTools } from './handlers/backup-handlers.js';
+import { createTrashHandlers, trashTools } from './handlers/trash-handlers.js';
+import { createVaultHandlers, vaultTools } from './handlers/vault-handlers.js';
+import { createSessionHandlers, sessionTools } from './handlers/session-handlers.js';
+import { createUrgencyHandlers, urgencyTools } from './handlers/urgency-handlers.js';
 import { createGitHandlers, gitTools } from './handlers/git-handlers.js';
 
 class AIMemoryServer {
@@ -37,21 +58,39 @@ class AIMemoryServer {
   // Services
   private memoryService!: MemoryServiceImpl;
   private taskService!: TaskServiceImpl;
+  private taskDependencyService!: TaskDependencyServiceImpl;
+  private memoryLinkService!: MemoryLinkServiceImpl;
   private projectService!: ProjectServiceImpl;
   private categoryService!: CategoryServiceImpl;
   private contextService!: ContextServiceImpl;
   private aiInstructionService!: AIInstructionServiceImpl;
   private statusTagService!: StatusTagServiceImpl;
+  private reembeddingService!: ReembeddingServiceImpl;
+  private importService!: ImportServiceImpl;
+  private backupService!: BackupServiceImpl;
+  private trashService!: TrashServiceImpl;
+  private vaultService!: VaultServiceImpl;
+  private sessionService!: SessionServiceImpl;
+  private urgencyService!: UrgencyServiceImpl;
   private gitManager!: GitOperationsManager;
 
   // Handlers
   private memoryHandlers!: ReturnType<typeof createMemoryHandlers>;
   private taskHandlers!: ReturnType<typeof createTaskHandlers>;
+  private taskDependencyHandlers!: ReturnType<typeof createTaskDependencyHandlers>;
+  private memoryLinkHandlers!: ReturnType<typeof createMemoryLinkHandlers>;
   private projectHandlers!: ReturnType<typeof createProjectHandlers>;
   private categoryHandlers!: ReturnType<typeof createCategoryHandlers>;
   private contextHandlers!: ReturnType<typeof createContextHandlers>;
   private aiInstructionHandlers!: ReturnType<typeof createAIInstructionHandlers>;
   private statusTagHandlers!: ReturnType<typeof createStatusTagHandlers>;
+  private embeddingHandlers!: ReturnType<typeof createEmbeddingHandlers>;
+  private importHandlers!: ReturnType<typeof createImportHandlers>;
+  private backupHandlers!: ReturnType<typeof createBackupHandlers>;
+  private trashHandlers!: ReturnType<typeof createTrashHandlers>;
+  private vaultHandlers!: ReturnType<typeof createVaultHandlers>;
+  private sessionHandlers!: ReturnType<typeof createSessionHandlers>;
+  private urgencyHandlers!: ReturnType<typeof createUrgencyHandlers>;
   private gitHandlers!: ReturnType<typeof createGitHandlers>;
 
   constructor() {
@@ -79,6 +118,9 @@ class AIMemoryServer {
     this.db = new PrismaDatabaseService();
     await this.db.initialize();
     await this.db.seedDefaultData();
+
+    // Reuse stored embeddings for text that has been embedded before
+    embeddingService.setCache(this.db.vectors);
   }
 
   private initializeServices() {
@@ -87,21 +129,39 @@ class AIMemoryServer {
     // Initialize service instances
     this.memoryService = new MemoryServiceImpl(this.db);
     this.taskService = new TaskServiceImpl(this.db);
+    this.taskDependencyService = new TaskDependencyServiceImpl(this.db);
+    this.memoryLinkService = new MemoryLinkServiceImpl(this.db);
     this.projectService = new ProjectServiceImpl(this.db);
     this.categoryService = new CategoryServiceImpl(this.db);
     this.contextService = new ContextServiceImpl(this.db, embeddingService);
     this.aiInstructionService = new AIInstructionServiceImpl(this.db);
     this.statusTagService = new StatusTagServiceImpl(this.db);
+    this.reembeddingService = new ReembeddingServiceImpl(this.db);
+    this.importService = new ImportServiceImpl(this.db);
+    this.backupService = new BackupServiceImpl(this.db);
+    this.trashService = new TrashServiceImpl(this.db);
+    this.vaultService = new VaultServiceImpl(this.db, this.memoryService);
+    this.sessionService = new SessionServiceImpl(this.db, this.memoryService);
+    this.urgencyService = new UrgencyServiceImpl(this.db);
     this.gitManager = new GitOperationsManager();
 
     // Initialize handlers
     this.memoryHandlers = createMemoryHandlers(this.db);
     this.taskHandlers = createTaskHandlers(this.db);
+    this.taskDependencyHandlers = createTaskDependencyHandlers(this.taskDependencyService);
+    this.memoryLinkHandlers = createMemoryLinkHandlers(this.memoryLinkService);
     this.projectHandlers = createProjectHandlers(this.db);
     this.categoryHandlers = createCategoryHandlers(this.db);
     this.contextHandlers = createContextHandlers(this.contextService);
     this.aiInstructionHandlers = createAIInstructionHandlers(this.aiInstructionService);
     this.statusTagHandlers = createStatusTagHandlers(this.statusTagService);
+    this.embeddingHandlers = createEmbeddingHandlers(this.reembeddingService);
+    this.importHandlers = createImportHandlers(this.importService);
+    this.backupHandlers = createBackupHandlers(this.backupService);
+    this.trashHandlers = createTrashHandlers(this.trashService);
+    this.vaultHandlers = createVaultHandlers(this.vaultService);
+    this.sessionHandlers = createSessionHandlers(this.sessionService);
+    this.urgencyHandlers = createUrgencyHandlers(this.urgencyService);
     this.gitHandlers = createGitHandlers(this.gitManager);
 
     console.log('[Server] Services and handlers initialized successfully');
@@ -113,11 +173,20 @@ class AIMemoryServer {
         tools: [
           ...memoryTools,
           ...taskTools,
+          ...taskDependencyTools,
+          ...memoryLinkTools,
           ...projectTools,
           ...categoryTools,
           ...statusTagTools,
           ...contextTools,
           ...aiInstructionTools,
+          ...embeddingTools,
+          ...importTools,
+          ...backupTools,
+          ...trashTools,
+          ...vaultTools,
+          ...sessionTools,
+          ...urgencyTools,
           ...gitTools,
         ],
       };
@@ -157,6 +226,24 @@ class AIMemoryServer {
           case 'export_memories':
             result = await this.memoryHandlers.export_memories(args);
             break;
+          case 'list_memory_versions':
+            result = await this.memoryHandlers.list_memory_versions(args);
+            break;
+          case 'diff_memory_versions':
+            result = await this.memoryHandlers.diff_memory_versions(args);
+            break;
+          case 'restore_memory_version':
+            result = await this.memoryHandlers.restore_memory_version(args);
+            break;
+          case 'find_duplicate_memories':
+            result = await this.memoryHandlers.find_duplicate_memories(args);
+            break;
+          case 'merge_memories':
+            result = await this.memoryHandlers.merge_memories(args);
+            break;
+          case 'get_stale_memories':
+            result = await this.memoryHandlers.get_stale_memories(args);
+            break;
 
           // Task Management
           case 'create_task':
@@ -192,6 +279,28 @@ class AIMemoryServer {
           case 'batch_create_tasks':
             result = await this.taskHandlers.batch_create_tasks(args);
             break;
+          case 'get_task_history':
+            result = await this.taskHandlers.get_task_history(args);
+            break;
+
+          // Task Dependencies
+          case 'add_task_dependency':
+            result = await this.taskDependencyHandlers.add_task_dependency(args);
+            break;
+          case 'remove_task_dependency':
+            result = await this.taskDependencyHandlers.remove_task_dependency(args);
+            break;
+          case 'get_task_graph':
+            result = await this.taskDependencyHandlers.get_task_graph(args);
+            break;
+
+          // Memory Links
+          case 'link_items':
+            result = await this.memoryLinkHandlers.link_items(args);
+            break;
+          case 'unlink_items':
+            result = await this.memoryLinkHandlers.unlink_items(args);
+            break;
 
           // Project Management
           case 'create_project':
@@ -251,6 +360,9 @@ class AIMemoryServer {
           case 'get_work_priorities':
             result = await this.contextHandlers.get_work_priorities(args);
             break;
+          case 'start_session':
+            result = await this.contextHandlers.start_session(args);
+            break;
 
           // AI Instruction Management
           case 'create_ai_instruction':
@@ -272,6 +384,71 @@ class AIMemoryServer {
             result = await this.aiInstructionHandlers.batch_create_ai_instructions(args);
             break;
 
+          // Embedding Maintenance
+          case 'start_reembedding':
+            result = await this.embeddingHandlers.start_reembedding(args);
+            break;
+          case 'get_reembedding_status':
+            result = await this.embeddingHandlers.get_reembedding_status(args);
+            break;
+
+          // Import
+          case 'import_memories':
+            result = await this.importHandlers.import_memories(args);
+            break;
+          case 'import_tasks':
+            result = await this.importHandlers.import_tasks(args);
+            break;
+
+          // Backup
+          case 'backup_database':
+            result = await this.backupHandlers.backup_database(args);
+            break;
+          case 'restore_database':
+            result = await this.backupHandlers.restore_database(args);
+            break;
+
+          // Trash
+          case 'list_trash':
+            result = await this.trashHandlers.list_trash(args);
+            break;
+          case 'restore_item':
+            result = await this.trashHandlers.restore_item(args);
+            break;
+          case 'purge_trash':
+            result = await this.trashHandlers.purge_trash(args);
+            break;
+
+          // Sessions
+          case 'begin_session':
+            result = await this.sessionHandlers.begin_session(args);
+            break;
+          case 'end_session':
+            result = await this.sessionHandlers.end_session(args);
+            break;
+          case 'list_sessions':
+            result = await this.sessionHandlers.list_sessions(args);
+            break;
+          case 'get_session':
+            result = await this.sessionHandlers.get_session(args);
+            break;
+
+          // Urgency models
+          case 'get_urgency_model':
+            result = await this.urgencyHandlers.get_urgency_model(args);
+            break;
+          case 'set_urgency_model':
+            result = await this.urgencyHandlers.set_urgency_model(args);
+            break;
+
+          // Markdown Vault
+          case 'export_memories_markdown':
+            result = await this.vaultHandlers.export_memories_markdown(args);
+            break;
+          case 'import_memories_markdown':
+            result = await this.vaultHandlers.import_memories_markdown(args);
+            break;
+
           // Git Operations
           case 'git_status':
             result = await this.gitHandlers.git_status(args);
@@ -363,6 +540,18 @@ class AIMemoryServer {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('AI Memory MCP server v2.2.0 (with context tools) running on stdio');
+
+    // Pick up a re-embedding job interrupted by the previous shutdown
+    await this.reembeddingService.resumeInterruptedJobs();
+
+    // Purge trash past its retention period, now and daily
+    await this.trashService.startAutoPurge();
+
+    // Archive memories past their expiry, now and periodically
+    await this.memoryService.startExpirySweep();
+
+    // Drop embedding cache entries left unused, now and daily
+    await embeddingService.startCachePruning();
   }
 }
 
@@ -0,0 +1,981 @@
+/**
+ * Backup Service for AI Memory MCP Server
+ *
+ * Writes the whole database to a single gzipped JSON snapshot in
+ * config.database.backupPath and restores such snapshots. Snapshots carry a
+ * format version and the latest applied migration, both checked before a
+ * restore. Rows are re-inserted with new IDs and every reference (categories,
+ * projects, statuses, tags, AI instruction targets) is remapped, so a
+ * snapshot can be merged into a populated database. Vectors are optional;
+ * rows restored without them are picked up by start_reembedding.
+ *
+ * @fileoverview Versioned single-file backup and restore of all tables
+ */
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import {
+  AIInstruction,
+  Category,
+  Memory as MemoryRow,
+  MemoryLink,
+  MemoryTag,
+  MemoryVersion,
+  Prisma,
+  Project,
+  Session,
+  SessionActivity,
+  Status,
+  Tag,
+  Task as TaskRow,
+  TaskDependency,
+  TaskEvent,
+  TaskTag,
+  UrgencyModel,
+} from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import {
+  StoredEmbedding,
+  StoredParentChunk,
+  VECTOR_COLUMN_DIMENSIONS,
+} from '../core/vector-store.js';
+import { config } from '../core/config.js';
+import { embeddingService } from '../embedding-service.js';
+import {
+  BackupDatabaseArgs,
+  MCPResponse,
+  RestoreDatabaseArgs,
+  VALID_RESTORE_MODES,
+} from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Identifies snapshot files written by this service
+ */
+const SNAPSHOT_FORMAT = 'ai-memory-snapshot';
+
+/**
+ * Layout version of the snapshot file; bump when the tables section changes
+ */
+const SNAPSHOT_FORMAT_VERSION = 7;
+
+const BACKUP_FILE_PREFIX = 'ai-memory-backup-';
+const BACKUP_FILE_SUFFIX = '.json.gz';
+
+/**
+ * Restores run in one transaction, which may take a while for large snapshots
+ */
+const RESTORE_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * A row after a JSON round trip: dates become ISO strings
+ */
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+interface SnapshotTables {
+  categories: Serialized<Category>[];
+  projects: Serialized<Project>[];
+  statuses: Serialized<Status>[];
+  tags: Serialized<Tag>[];
+  memories: Serialized<MemoryRow>[];
+  tasks: Serialized<TaskRow>[];
+  memory_tags: Serialized<MemoryTag>[];
+  task_tags: Serialized<TaskTag>[];
+  ai_instructions: Serialized<AIInstruction>[];
+  // Added in format version 2
+  task_dependencies?: Serialized<TaskDependency>[];
+  // Added in format version 3
+  task_events?: Serialized<TaskEvent>[];
+  // Added in format version 4
+  memory_versions?: Serialized<MemoryVersion>[];
+  // Added in format version 5
+  memory_links?: Serialized<MemoryLink>[];
+  // Added in format version 6
+  sessions?: Serialized<Session>[];
+  session_activity?: Serialized<SessionActivity>[];
+  // Added in format version 7
+  urgency_models?: Serialized<UrgencyModel>[];
+  // Present only when the snapshot includes embeddings
+  memory_embeddings?: StoredEmbedding[];
+  task_embeddings?: StoredEmbedding[];
+  memory_chunks?: StoredParentChunk[];
+  task_chunks?: StoredParentChunk[];
+}
+
+/**
+ * Snapshot file contents
+ */
+interface Snapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  format_version: number;
+  // Latest migration applied to the source database, when known
+  schema_version: string | null;
+  created_at: string;
+  server_version: string;
+  embedding_model: string;
+  include_embeddings: boolean;
+  tables: SnapshotTables;
+}
+
+const REQUIRED_TABLES: Array<keyof SnapshotTables> = [
+  'categories',
+  'projects',
+  'statuses',
+  'tags',
+  'memories',
+  'tasks',
+  'memory_tags',
+  'task_tags',
+  'ai_instructions',
+];
+
+/**
+ * Old-to-new ID maps built while restoring
+ */
+interface IdMaps {
+  categories: Map<number, number>;
+  projects: Map<number, number>;
+  statuses: Map<number, number>;
+  tags: Map<number, number>;
+  memories: Map<number, number>;
+  tasks: Map<number, number>;
+  sessions: Map<number, number>;
+}
+
+/**
+ * Backup service interface
+ */
+export interface BackupService {
+  backupDatabase(args: BackupDatabaseArgs): Promise<MCPResponse>;
+  restoreDatabase(args: RestoreDatabaseArgs): Promise<MCPResponse>;
+}
+
+/**
+ * Backup Service Implementation
+ *
+ * In merge mode, categories, projects, statuses and tags are matched by name
+ * and memories, tasks and AI instructions identical to an existing row are
+ * skipped, so restoring the same snapshot twice does not duplicate data.
+ * Replace mode deletes all memories, tasks, instructions, tags, projects and
+ * categories first; statuses are kept because they are matched by name.
+ */
+export class BackupServiceImpl implements BackupService {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Write a snapshot of every table to the backup directory
+   */
+  async backupDatabase(args: BackupDatabaseArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { include_embeddings = false } = args;
+
+      const byId = { orderBy: { id: 'asc' as const } };
+      const [categories, projects, statuses, tags, memories, tasks] = await Promise.all([
+        this.db.client.category.findMany(byId),
+        this.db.client.project.findMany(byId),
+        this.db.client.status.findMany(byId),
+        this.db.client.tag.findMany(byId),
+        this.db.client.memory.findMany(byId),
+        this.db.client.task.findMany(byId),
+      ]);
+      const [
+        memoryTags,
+        taskTags,
+        aiInstructions,
+        taskDependencies,
+        taskEvents,
+        memoryVersions,
+        memoryLinks,
+        sessions,
+        sessionActivity,
+        urgencyModels,
+      ] = await Promise.all([
+        this.db.client.memoryTag.findMany(byId),
+        this.db.client.taskTag.findMany(byId),
+        this.db.client.aIInstruction.findMany(byId),
+        this.db.client.taskDependency.findMany(byId),
+        this.db.client.taskEvent.findMany(byId),
+        this.db.client.memoryVersion.findMany(byId),
+        this.db.client.memoryLink.findMany(byId),
+        this.db.client.session.findMany(byId),
+        this.db.client.sessionActivity.findMany(byId),
+        this.db.client.urgencyModel.findMany(byId),
+      ]);
+
+      // Embedding metadata describes vectors, so it is only kept alongside them
+      const withoutEmbeddingMetadata = <T extends MemoryRow | TaskRow>(row: T): T =>
+        include_embeddings
+          ? row
+          : { ...row, embeddingModel: null, embeddingCreatedAt: null, embeddingTextHash: null };
+
+      const tables = {
+        categories,
+        projects,
+        statuses,
+        tags,
+        memories: memories.map(withoutEmbeddingMetadata),
+        tasks: tasks.map(withoutEmbeddingMetadata),
+        memory_tags: memoryTags,
+        task_tags: taskTags,
+        ai_instructions: aiInstructions,
+        task_dependencies: taskDependencies,
+        task_events: taskEvents,
+        memory_versions: memoryVersions,
+        memory_links: memoryLinks,
+        sessions,
+        session_activity: sessionActivity,
+        urgency_models: urgencyModels,
+        ...(include_embeddings
+          ? {
+              memory_embeddings: await this.db.vectors.getMemoryEmbeddings(),
+              task_embeddings: await this.db.vectors.getTaskEmbeddings(),
+              memory_chunks: await this.db.vectors.getMemoryChunks(),
+              task_chunks: await this.db.vectors.getTaskChunks(),
+            }
+          : {}),
+      };
+
+      const migrations = await this.appliedMigrations();
+      const createdAt = new Date();
+      const snapshot = {
+        format: SNAPSHOT_FORMAT,
+        format_version: SNAPSHOT_FORMAT_VERSION,
+        schema_version: migrations.length > 0 ? migrations[migrations.length - 1] : null,
+        created_at: createdAt.toISOString(),
+        server_version: config.server.version,
+        embedding_model: embeddingService.getModelName(),
+        include_embeddings,
+        tables,
+      };
+
+      const fileName = `${BACKUP_FILE_PREFIX}${createdAt
+        .toISOString()
+        .replace(/[:.]/g, '-')}${BACKUP_FILE_SUFFIX}`;
+      const path = join(config.database.backupPath, fileName);
+
+      await mkdir(config.database.backupPath, { recursive: true });
+      await writeFile(path, await gzipAsync(JSON.stringify(snapshot)));
+      const { size } = await stat(path);
+
+      return createMCPResponse(
+        {
+          file: fileName,
+          path,
+          size_bytes: size,
+          format_version: snapshot.format_version,
+          schema_version: snapshot.schema_version,
+          include_embeddings,
+          counts: this.countRows(tables),
+        },
+        `Database backed up to ${path}`
+      );
+    });
+  }
+
+  /**
+   * Restore a snapshot from the backup directory
+   */
+  async restoreDatabase(args: RestoreDatabaseArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { file, mode = 'merge' } = args;
+
+      if (!VALID_RESTORE_MODES.includes(mode)) {
+        throw createValidationError(`Mode must be one of: ${VALID_RESTORE_MODES.join(', ')}`);
+      }
+
+      const snapshot = await this.readSnapshot(file);
+      await this.checkCompatibility(snapshot);
+      const { tables } = snapshot;
+
+      const { ids, skipped, existing, urgencyModels } = await this.db.client.$transaction(
+        async tx => {
+          if (mode === 'replace') {
+            await tx.session.deleteMany();
+            // Project models go with their projects
+            await tx.urgencyModel.deleteMany({ where: { projectId: null } });
+            await tx.memory.deleteMany();
+            await tx.task.deleteMany();
+            await tx.aIInstruction.deleteMany();
+            await tx.tag.deleteMany();
+            await tx.project.deleteMany();
+            await tx.category.deleteMany();
+          }
+          return this.restoreTables(tx, tables);
+        },
+        { maxWait: RESTORE_TRANSACTION_TIMEOUT_MS, timeout: RESTORE_TRANSACTION_TIMEOUT_MS }
+      );
+
+      const embedded = snapshot.include_embeddings
+        ? await this.restoreEmbeddings(tables, ids, existing)
+        : { memories: 0, tasks: 0 };
+
+      const restoredMemories = tables.memories.length - skipped.memories;
+      const restoredTasks = tables.tasks.length - skipped.tasks;
+      const unembedded =
+        restoredMemories - embedded.memories + (restoredTasks - embedded.tasks);
+
+      const result = {
+        file: basename(file),
+        mode,
+        snapshot_created_at: snapshot.created_at,
+        schema_version: snapshot.schema_version,
+        restored: {
+          categories: ids.categories.size,
+          projects: ids.projects.size,
+          statuses: ids.statuses.size,
+          tags: ids.tags.size,
+          memories: restoredMemories,
+          tasks: restoredTasks,
+          ai_instructions: tables.ai_instructions.length - skipped.aiInstructions,
+          sessions: ids.sessions.size,
+          urgency_models: urgencyModels,
+        },
+        skipped_existing: {
+          memories: skipped.memories,
+          tasks: skipped.tasks,
+          ai_instructions: skipped.aiInstructions,
+        },
+        embeddings_restored: embedded,
+        rows_without_embeddings: unembedded,
+      };
+
+      const embeddingNote =
+        unembedded > 0 ? `; run start_reembedding to embed ${unembedded} restored rows` : '';
+
+      return createMCPResponse(
+        result,
+        `Restored ${restoredMemories} memories and ${restoredTasks} tasks from ${basename(file)}${embeddingNote}`
+      );
+    });
+  }
+
+  /**
+   * Load and decompress a snapshot; only files inside the backup directory are accepted
+   */
+  private async readSnapshot(file: string): Promise<Snapshot> {
+    if (!file || typeof file !== 'string') {
+      throw createValidationError('Backup file name is required');
+    }
+    if (basename(file) !== file) {
+      throw createValidationError(
+        `Backup file must be a file name inside ${config.database.backupPath}, not a path`
+      );
+    }
+
+    let raw: Buffer;
+    try {
+      raw = await readFile(join(config.database.backupPath, file));
+    } catch {
+      const available = await this.listBackupFiles();
+      throw createNotFoundError(
+        `Backup file ${file} (available: ${available.length > 0 ? available.join(', ') : 'none'})`
+      );
+    }
+
+    // Accept both gzipped and plain JSON snapshots
+    const isGzip = raw.length > 2 && raw[0] === 0x1f && raw[1] === 0x8b;
+    let snapshot: any;
+    try {
+      snapshot = JSON.parse((isGzip ? await gunzipAsync(raw) : raw).toString('utf8'));
+    } catch {
+      throw createValidationError(`${file} is not a readable snapshot file`);
+    }
+
+    if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+      throw createValidationError(`${file} is not an AI Memory snapshot`);
+    }
+    const missing = REQUIRED_TABLES.filter(table => !Array.isArray(snapshot.tables?.[table]));
+    if (missing.length > 0) {
+      throw createValidationError(`Snapshot is missing tables: ${missing.join(', ')}`);
+    }
+
+    return snapshot as Snapshot;
+  }
+
+  /**
+   * Refuse snapshots written by a newer server or from a schema this database lacks
+   */
+  private async checkCompatibility(snapshot: Snapshot): Promise<void> {
+    if (!Number.isInteger(snapshot.format_version) || snapshot.format_version < 1) {
+      throw createValidationError('Snapshot has no valid format version');
+    }
+    if (snapshot.format_version > SNAPSHOT_FORMAT_VERSION) {
+      throw createValidationError(
+        `Snapshot format version ${snapshot.format_version} is newer than the supported version ${SNAPSHOT_FORMAT_VERSION}; upgrade the server before restoring`
+      );
+    }
+
+    const migrations = await this.appliedMigrations();
+    if (
+      snapshot.schema_version &&
+      migrations.length > 0 &&
+      !migrations.includes(snapshot.schema_version)
+    ) {
+      throw createValidationError(
+        `Snapshot was taken at schema version ${snapshot.schema_version}, which has not been applied to this database; run "npx prisma migrate deploy" first`
+      );
+    }
+  }
+
+  /**
+   * Insert snapshot rows, remapping every reference to the new IDs
+   */
+  private async restoreTables(tx: Prisma.TransactionClient, tables: SnapshotTables) {
+    const ids: IdMaps = {
+      categories: new Map(),
+      projects: new Map(),
+      statuses: new Map(),
+      tags: new Map(),
+      memories: new Map(),
+      tasks: new Map(),
+      sessions: new Map(),
+    };
+    const skipped = { memories: 0, tasks: 0, aiInstructions: 0 };
+    const existingMemories = new Set<number>();
+    const existingTasks = new Set<number>();
+
+    // Only rows present before the restore count as duplicates, so identical
+    // rows inside the snapshot are all restored
+    const [memoryMax, taskMax, instructionMax, sessionMax] = await Promise.all([
+      tx.memory.aggregate({ _max: { id: true } }),
+      tx.task.aggregate({ _max: { id: true } }),
+      tx.aIInstruction.aggregate({ _max: { id: true } }),
+      tx.session.aggregate({ _max: { id: true } }),
+    ]);
+    const preexisting = (max: number | null) => ({ id: { lte: max ?? 0 } });
+
+    for (const category of tables.categories) {
+      const row = await tx.category.upsert({
+        where: { name: category.name },
+        update: {},
+        create: {
+          name: category.name,
+          description: category.description,
+          createdAt: new Date(category.createdAt),
+        },
+      });
+      ids.categories.set(category.id, row.id);
+    }
+
+    for (const project of tables.projects) {
+      const row = await tx.project.upsert({
+        where: { name: project.name },
+        update: {},
+        create: {
+          name: project.name,
+          description: project.description,
+          color: project.color,
+          createdAt: new Date(project.createdAt),
+          // Trash timestamps were added after format version 4
+          deletedAt: project.deletedAt ? new Date(project.deletedAt) : null,
+        },
+      });
+      ids.projects.set(project.id, row.id);
+    }
+
+    for (const status of tables.statuses) {
+      const row = await tx.status.upsert({
+        where: { name: status.name },
+        update: {},
+        create: {
+          name: status.name,
+          description: status.description,
+          isCompletedStatus: status.isCompletedStatus,
+          sortOrder: status.sortOrder,
+          createdAt: new Date(status.createdAt),
+        },
+      });
+      ids.statuses.set(status.id, row.id);
+    }
+
+    for (const tag of tables.tags) {
+      const row = await tx.tag.upsert({
+        where: { name: tag.name },
+        update: {},
+        create: { name: tag.name, createdAt: new Date(tag.createdAt) },
+      });
+      ids.tags.set(tag.id, row.id);
+    }
+
+    for (const memory of tables.memories) {
+      const data = {
+        title: memory.title,
+        content: memory.content,
+        categoryId: this.remap(ids.categories, memory.categoryId),
+        projectId: this.remap(ids.projects, memory.projectId),
+        priority: memory.priority,
+      };
+
+      // The stable uid identifies the same memory even after it was edited
+      const existing =
+        (memory.uid
+          ? await tx.memory.findUnique({ where: { uid: memory.uid }, select: { id: true } })
+          : null) ??
+        (await tx.memory.findFirst({
+          where: { ...data, ...preexisting(memoryMax._max.id) },
+          select: { id: true },
+        }));
+      if (existing) {
+        ids.memories.set(memory.id, existing.id);
+        existingMemories.add(existing.id);
+        skipped.memories++;
+        continue;
+      }
+
+      const row = await tx.memory.create({
+        data: {
+          ...data,
+          uid: memory.uid,
+          // Version numbers were added after format version 3
+          version: memory.version ?? 1,
+          // Access statistics and expiry were added after format version 5
+          accessCount: memory.accessCount ?? 0,
+          lastAccessedAt: memory.lastAccessedAt ? new Date(memory.lastAccessedAt) : null,
+          expiresAt: memory.expiresAt ? new Date(memory.expiresAt) : null,
+          archived: memory.archived ?? false,
+          createdAt: new Date(memory.createdAt),
+          updatedAt: new Date(memory.updatedAt),
+          deletedAt: memory.deletedAt ? new Date(memory.deletedAt) : null,
+        },
+      });
+      ids.memories.set(memory.id, row.id);
+    }
+
+    for (const task of tables.tasks) {
+      const statusId = ids.statuses.get(task.statusId);
+      if (statusId === undefined) {
+        throw createValidationError(
+          `Snapshot task ${task.id} references status ${task.statusId}, which is not in the snapshot`
+        );
+      }
+
+      const data = {
+        title: task.title,
+        description: task.description,
+        statusId,
+        categoryId: this.remap(ids.categories, task.categoryId),
+        projectId: this.remap(ids.projects, task.projectId),
+        priority: task.priority,
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        archived: task.archived,
+        // Recurrence columns were added after format version 1
+        recurrenceFrequency: task.recurrenceFrequency ?? null,
+        recurrenceInterval: task.recurrenceInterval ?? null,
+        recurrenceUntil: task.recurrenceUntil ? new Date(task.recurrenceUntil) : null,
+        recurrenceCount: task.recurrenceCount ?? null,
+        occurrence: task.occurrence ?? 1,
+      };
+
+      const existing = await tx.task.findFirst({
+        where: { ...data, ...preexisting(taskMax._max.id) },
+        select: { id: true },
+      });
+      if (existing) {
+        ids.tasks.set(task.id, existing.id);
+        existingTasks.add(existing.id);
+        skipped.tasks++;
+        continue;
+      }
+
+      const row = await tx.task.create({
+        data: {
+          ...data,
+          completedAt: task.completedAt ? new Date(task.completedAt) : null,
+          createdAt: new Date(task.createdAt),
+          updatedAt: new Date(task.updatedAt),
+          deletedAt: task.deletedAt ? new Date(task.deletedAt) : null,
+        },
+      });
+      ids.tasks.set(task.id, row.id);
+    }
+
+    // Parents and series may come after the tasks that point at them, so
+    // links are set once all tasks exist
+    for (const task of tables.tasks) {
+      const taskId = ids.tasks.get(task.id)!;
+      if (existingTasks.has(taskId)) continue;
+
+      const previousOccurrenceId = this.remap(ids.tasks, task.previousOccurrenceId ?? null);
+      const links = {
+        parentId: this.remap(ids.tasks, task.parentId ?? null),
+        recurrenceSeriesId: this.remap(ids.tasks, task.recurrenceSeriesId ?? null),
+        // Unique, so only linked when the previous occurrence was restored too
+        previousOccurrenceId:
+          previousOccurrenceId !== null && !existingTasks.has(previousOccurrenceId)
+            ? previousOccurrenceId
+            : null,
+      };
+      if (Object.values(links).some(id => id !== null)) {
+        await tx.task.update({ where: { id: taskId }, data: links });
+      }
+    }
+
+    // Tag links only for newly inserted rows; skipped rows keep their own tags
+    const memoryTags = tables.memory_tags.flatMap(link => {
+      const memoryId = ids.memories.get(link.memoryId);
+      const tagId = ids.tags.get(link.tagId);
+      return memoryId !== undefined && tagId !== undefined && !existingMemories.has(memoryId)
+        ? [{ memoryId, tagId }]
+        : [];
+    });
+    if (memoryTags.length > 0) {
+      await tx.memoryTag.createMany({ data: memoryTags, skipDuplicates: true });
+    }
+
+    const taskTags = tables.task_tags.flatMap(link => {
+      const taskId = ids.tasks.get(link.taskId);
+      const tagId = ids.tags.get(link.tagId);
+      return taskId !== undefined && tagId !== undefined && !existingTasks.has(taskId)
+        ? [{ taskId, tagId }]
+        : [];
+    });
+    if (taskTags.length > 0) {
+      await tx.taskTag.createMany({ data: taskTags, skipDuplicates: true });
+    }
+
+    // Dependencies only between newly inserted tasks, so merging cannot close a cycle
+    const taskDependencies = (tables.task_dependencies ?? []).flatMap(link => {
+      const taskId = ids.tasks.get(link.taskId);
+      const dependsOnId = ids.tasks.get(link.dependsOnId);
+      return taskId !== undefined &&
+        dependsOnId !== undefined &&
+        !existingTasks.has(taskId) &&
+        !existingTasks.has(dependsOnId)
+        ? [{ taskId, dependsOnId }]
+        : [];
+    });
+    if (taskDependencies.length > 0) {
+      await tx.taskDependency.createMany({ data: taskDependencies, skipDuplicates: true });
+    }
+
+    // History only for newly inserted tasks; skipped tasks keep their own history
+    const taskEvents = (tables.task_events ?? []).flatMap(event => {
+      const taskId = ids.tasks.get(event.taskId);
+      return taskId !== undefined && !existingTasks.has(taskId)
+        ? [
+            {
+              taskId,
+              eventType: event.eventType,
+              field: event.field,
+              oldValue: event.oldValue,
+              newValue: event.newValue,
+              actor: event.actor,
+              createdAt: new Date(event.createdAt),
+            },
+          ]
+        : [];
+    });
+    if (taskEvents.length > 0) {
+      await tx.taskEvent.createMany({ data: taskEvents });
+    }
+
+    // Earlier revisions only for newly inserted memories, like task history
+    const memoryVersions = (tables.memory_versions ?? []).flatMap(revision => {
+      const memoryId = ids.memories.get(revision.memoryId);
+      return memoryId !== undefined && !existingMemories.has(memoryId)
+        ? [
+            {
+              memoryId,
+              version: revision.version,
+              title: revision.title,
+              content: revision.content,
+              category: revision.category,
+              project: revision.project,
+              tags: revision.tags,
+              priority: revision.priority,
+              createdAt: new Date(revision.createdAt),
+              replacedAt: new Date(revision.replacedAt),
+            },
+          ]
+        : [];
+    });
+    if (memoryVersions.length > 0) {
+      await tx.memoryVersion.createMany({ data: memoryVersions, skipDuplicates: true });
+    }
+
+    // Links belong to the memory they start from, so only new memories get theirs
+    const memoryLinks = (tables.memory_links ?? []).flatMap(link => {
+      const memoryId = ids.memories.get(link.memoryId);
+      const targetMemoryId = this.remap(ids.memories, link.targetMemoryId);
+      const targetTaskId = this.remap(ids.tasks, link.targetTaskId);
+      return memoryId !== undefined &&
+        !existingMemories.has(memoryId) &&
+        (targetMemoryId !== null || targetTaskId !== null)
+        ? [
+            {
+              memoryId,
+              targetMemoryId,
+              targetTaskId,
+              linkType: link.linkType,
+              createdAt: new Date(link.createdAt),
+            },
+          ]
+        : [];
+    });
+    if (memoryLinks.length > 0) {
+      await tx.memoryLink.createMany({ data: memoryLinks, skipDuplicates: true });
+    }
+
+    // Sessions are matched by project and start time. A restored session
+    // never becomes the active one: one still open in the snapshot is closed
+    // at its last recorded activity.
+    const sessionActivity = tables.session_activity ?? [];
+    for (const session of tables.sessions ?? []) {
+      const data = {
+        projectId: this.remap(ids.projects, session.projectId),
+        startedAt: new Date(session.startedAt),
+      };
+
+      const existing = await tx.session.findFirst({
+        where: { ...data, ...preexisting(sessionMax._max.id) },
+        select: { id: true },
+      });
+      if (existing) continue;
+
+      const lastActivity = sessionActivity
+        .filter(entry => entry.sessionId === session.id)
+        .reduce(
+          (last, entry) => (entry.createdAt > last ? entry.createdAt : last),
+          session.startedAt
+        );
+      const row = await tx.session.create({
+        data: {
+          ...data,
+          endedAt: new Date(session.endedAt ?? lastActivity),
+          summaryMemoryId: this.remap(ids.memories, session.summaryMemoryId),
+        },
+      });
+      ids.sessions.set(session.id, row.id);
+    }
+
+    // Activity only for newly inserted sessions and the memories and tasks restored with them
+    const activity = sessionActivity.flatMap(entry => {
+      const sessionId = ids.sessions.get(entry.sessionId);
+      const memoryId = this.remap(ids.memories, entry.memoryId);
+      const taskId = this.remap(ids.tasks, entry.taskId);
+      return sessionId !== undefined && (memoryId !== null || taskId !== null)
+        ? [
+            {
+              sessionId,
+              memoryId,
+              taskId,
+              action: entry.action,
+              createdAt: new Date(entry.createdAt),
+            },
+          ]
+        : [];
+    });
+    if (activity.length > 0) {
+      await tx.sessionActivity.createMany({ data: activity });
+    }
+
+    // Urgency models already set in this database win over the snapshot's
+    let urgencyModels = 0;
+    for (const model of tables.urgency_models ?? []) {
+      const projectId = this.remap(ids.projects, model.projectId);
+      if (model.projectId !== null && projectId === null) continue;
+
+      const existing = await tx.urgencyModel.findFirst({
+        where: { projectId },
+        select: { id: true },
+      });
+      if (existing) continue;
+
+      await tx.urgencyModel.create({
+        data: {
+          projectId,
+          priorityWeight: model.priorityWeight,
+          dueWeight: model.dueWeight,
+          ageWeight: model.ageWeight,
+          statusWeights: model.statusWeights as Prisma.InputJsonValue,
+          dependencyWeight: model.dependencyWeight,
+          blockedPenalty: model.blockedPenalty,
+          tagWeights: model.tagWeights as Prisma.InputJsonValue,
+          urgentThreshold: model.urgentThreshold,
+          highThreshold: model.highThreshold,
+          mediumThreshold: model.mediumThreshold,
+          createdAt: new Date(model.createdAt),
+          updatedAt: new Date(model.updatedAt),
+        },
+      });
+      urgencyModels++;
+    }
+
+    for (const instruction of tables.ai_instructions) {
+      const targets =
+        instruction.scope === 'project'
+          ? ids.projects
+          : instruction.scope === 'category'
+            ? ids.categories
+            : null;
+
+      const data = {
+        title: instruction.title,
+        content: instruction.content,
+        scope: instruction.scope,
+        targetId: targets ? this.remap(targets, instruction.targetId) : null,
+        priority: instruction.priority,
+      };
+
+      const existing = await tx.aIInstruction.findFirst({
+        where: { ...data, ...preexisting(instructionMax._max.id) },
+        select: { id: true },
+      });
+      if (existing) {
+        skipped.aiInstructions++;
+        continue;
+      }
+
+      await tx.aIInstruction.create({
+        data: {
+          ...data,
+          createdAt: new Date(instruction.createdAt),
+          updatedAt: new Date(instruction.updatedAt),
+        },
+      });
+    }
+
+    return {
+      ids,
+      skipped,
+      existing: { memories: existingMemories, tasks: existingTasks },
+      urgencyModels,
+    };
+  }
+
+  /**
+   * Write snapshot vectors for newly inserted rows (outside the restore
+   * transaction; rows whose vectors fail can be re-embedded later). Chunks
+   * keep the model they were embedded with, which can differ from their
+   * parent's in a snapshot taken during re-embedding
+   *
+   * @returns Number of memories and tasks whose item embedding was restored
+   */
+  private async restoreEmbeddings(
+    tables: SnapshotTables,
+    ids: IdMaps,
+    existing: { memories: Set<number>; tasks: Set<number> }
+  ): Promise<{ memories: number; tasks: number }> {
+    const memoriesById = new Map(tables.memories.map(memory => [memory.id, memory]));
+    const tasksById = new Map(tables.tasks.map(task => [task.id, task]));
+
+    let memories = 0;
+    for (const { id, embedding } of tables.memory_embeddings ?? []) {
+      const newId = ids.memories.get(id);
+      const row = memoriesById.get(id);
+      if (
+        newId === undefined ||
+        existing.memories.has(newId) ||
+        !row?.embeddingModel ||
+        !this.isStorable(embedding)
+      ) {
+        continue;
+      }
+
+      await this.db.vectors.setMemoryEmbedding(
+        newId,
+        embedding,
+        row.embeddingModel,
+        row.embeddingTextHash ?? ''
+      );
+      await this.db.vectors.replaceMemoryChunks(
+        newId,
+        this.chunksFor(tables.memory_chunks, id),
+        row.embeddingModel
+      );
+      memories++;
+    }
+
+    let tasks = 0;
+    for (const { id, embedding } of tables.task_embeddings ?? []) {
+      const newId = ids.tasks.get(id);
+      const row = tasksById.get(id);
+      if (
+        newId === undefined ||
+        existing.tasks.has(newId) ||
+        !row?.embeddingModel ||
+        !this.isStorable(embedding)
+      ) {
+        continue;
+      }
+
+      await this.db.vectors.setTaskEmbedding(
+        newId,
+        embedding,
+        row.embeddingModel,
+        row.embeddingTextHash ?? ''
+      );
+      await this.db.vectors.replaceTaskChunks(
+        newId,
+        this.chunksFor(tables.task_chunks, id),
+        row.embeddingModel
+      );
+      tasks++;
+    }
+
+    return { memories, tasks };
+  }
+
+  private chunksFor(chunks: StoredParentChunk[] | undefined, parentId: number) {
+    return (chunks ?? []).filter(
+      chunk => chunk.parentId === parentId && this.isStorable(chunk.embedding)
+    );
+  }
+
+  /**
+   * Vectors must fit the pgvector column to be written back
+   */
+  private isStorable(embedding: unknown): embedding is number[] {
+    return Array.isArray(embedding) && embedding.length === VECTOR_COLUMN_DIMENSIONS;
+  }
+
+  private remap(map: Map<number, number>, id: number | null): number | null {
+    return id === null ? null : (map.get(id) ?? null);
+  }
+
+  /**
+   * Names of applied migrations, oldest first; empty when the database was not
+   * set up with prisma migrate
+   */
+  private async appliedMigrations(): Promise<string[]> {
+    try {
+      const rows = await this.db.client.$queryRaw<Array<{ migration_name: string }>>`
+        SELECT migration_name FROM _prisma_migrations
+        WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL
+        ORDER BY migration_name`;
+      return rows.map(row => row.migration_name);
+    } catch {
+      return [];
+    }
+  }
+
+  private async listBackupFiles(): Promise<string[]> {
+    try {
+      const files = await readdir(config.database.backupPath);
+      return files.filter(name => name.startsWith(BACKUP_FILE_PREFIX)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private countRows(tables: Record<string, unknown[]>): Record<string, number> {
+    return Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length]));
+  }
+}
+
+// Export factory function
+export function createBackupService(db: PrismaDatabaseService): BackupService {
+  return new BackupServiceImpl(db);
+}
@@ -135,12 +135,13 @@ export class CategoryServiceImpl implements CategoryService {
       // Get counts
       const [memoryCount, taskCount] = await Promise.all([
         this.db.client.memory.count({
-          where: { categoryId: category.id },
+          where: { categoryId: category.id, deletedAt: null },
         }),
         this.db.client.task.count({
           where: {
             categoryId: category.id,
             archived: false,
+            deletedAt: null,
           },
         }),
       ]);
@@ -262,9 +263,11 @@ export class CategoryServiceImpl implements CategoryService {
         include: {
           _count: {
             select: {
-              memories: true,
+              memories: {
+                where: { deletedAt: null },
+              },
               tasks: {
-                where: { archived: false },
+                where: { archived: false, deletedAt: null },
               },
             },
           },
@@ -0,0 +1,173 @@
+/**
+ * Context Budget for AI Memory MCP Server
+ *
+ * Packs a context payload into a max_tokens budget, measured on the format it
+ * will be rendered in. The frame (headers, the task or memory the context is
+ * about, statistics) is always kept. Items are packed best score first across
+ * all sections: whole when they fit, with their content cut short or dropped
+ * when only that fits, and omitted otherwise. Sections and the items in them
+ * keep their order. The payload's budget report lists what was shortened or
+ * omitted.
+ *
+ * @fileoverview Token-budgeted packing of context payloads
+ */
+
+import { TokenEstimator } from '../utils/token-estimator.js';
+import {
+  ContextBudgetReport,
+  ContextItem,
+  ContextItemRef,
+  ContextPayload,
+  ContextSection,
+} from './context-payload.js';
+import { ContextRenderer } from './context-renderer.js';
+
+const SHORTENED_MARKER = '…';
+
+export class ContextPacker {
+  constructor(
+    private estimator: TokenEstimator,
+    private renderer: ContextRenderer
+  ) {}
+
+  /**
+   * Copy of the payload with the items that fit into maxTokens and a budget
+   * report
+   */
+  pack<T extends ContextPayload>(payload: T, maxTokens: number): T {
+    // The report is not known until packing is done; pack again with less
+    // room for items until the report fits as well
+    let itemBudget = maxTokens;
+    for (;;) {
+      const chosen = this.choose(payload, itemBudget);
+      const packed = this.assemble(payload, chosen, maxTokens);
+      const tokens = packed.budget!.estimated_tokens;
+      if (tokens <= maxTokens || chosen.size === 0) {
+        return packed;
+      }
+      itemBudget -= tokens - maxTokens;
+    }
+  }
+
+  /**
+   * Choose the form of each item to include within budget tokens
+   */
+  private choose(payload: ContextPayload, budget: number): Map<ContextItem, ContextItem> {
+    let remaining = budget - this.estimate(this.renderer.renderFrame(payload));
+
+    const sectionOf = new Map<ContextItem, ContextSection>();
+    for (const section of payload.sections) {
+      section.items.forEach(item => sectionOf.set(item, section));
+    }
+
+    // Stable sort, so equal scores keep their section order
+    const ranked = [...sectionOf.keys()].sort((a, b) => b.score - a.score);
+    const opened = new Set<ContextSection>();
+    const chosen = new Map<ContextItem, ContextItem>();
+
+    for (const item of ranked) {
+      const section = sectionOf.get(item)!;
+      const sectionCost = opened.has(section)
+        ? 0
+        : this.estimate(this.renderer.renderSectionFrame(section));
+      const room = remaining - sectionCost;
+      if (room <= 0) continue;
+
+      const fitted = this.fit(payload, section, item, room);
+      if (!fitted) continue;
+
+      chosen.set(item, fitted);
+      opened.add(section);
+      remaining = room - this.estimate(this.renderer.renderItem(payload, section, fitted));
+    }
+    return chosen;
+  }
+
+  /**
+   * The item if it fits in room tokens, else the item with as many leading
+   * words of its content as fit (possibly none), else undefined
+   */
+  private fit(
+    payload: ContextPayload,
+    section: ContextSection,
+    item: ContextItem,
+    room: number
+  ): ContextItem | undefined {
+    const fits = (candidate: ContextItem) =>
+      this.estimate(this.renderer.renderItem(payload, section, candidate)) <= room;
+
+    if (fits(item)) {
+      return item;
+    }
+    if (item.content === undefined) {
+      return undefined;
+    }
+
+    const words = item.content.split(' ');
+    const shorten = (keep: number): ContextItem => ({
+      ...item,
+      content: keep > 0 ? words.slice(0, keep).join(' ') + SHORTENED_MARKER : undefined,
+      shortened: true,
+    });
+    if (!fits(shorten(0))) {
+      return undefined;
+    }
+
+    // Longest prefix that fits
+    let low = 0;
+    let high = words.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(shorten(middle))) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return shorten(low);
+  }
+
+  private assemble<T extends ContextPayload>(
+    payload: T,
+    chosen: Map<ContextItem, ContextItem>,
+    maxTokens: number
+  ): T {
+    const shortened: ContextItemRef[] = [];
+    const omitted: ContextItemRef[] = [];
+    const sections = payload.sections.map(section => {
+      const items: ContextItem[] = [];
+      for (const item of section.items) {
+        const fitted = chosen.get(item);
+        if (!fitted) {
+          omitted.push({ kind: item.kind, id: item.id });
+          continue;
+        }
+        if (fitted !== item) {
+          shortened.push({ kind: item.kind, id: item.id });
+        }
+        items.push(fitted);
+      }
+      return { ...section, items };
+    });
+
+    const packed: T = { ...payload, sections };
+    const tokens = this.estimate(this.renderer.render(packed));
+
+    // The report states the total including itself, so settle its length first
+    const budget: ContextBudgetReport = {
+      max_tokens: maxTokens,
+      estimated_tokens: tokens,
+      estimator: this.estimator.name,
+      shortened,
+      omitted,
+    };
+    for (let i = 0; i < 2; i++) {
+      budget.estimated_tokens = tokens + this.estimate(this.renderer.renderBudget(budget));
+    }
+    return { ...packed, budget };
+  }
+
+  private estimate(text: string): number {
+    return this.estimator.estimate(text);
+  }
+}
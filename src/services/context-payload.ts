@@ -0,0 +1,220 @@
+/**
+ * Context Payload for AI Memory MCP Server
+ *
+ * The structured form of every context tool's output. The context service
+ * builds a payload, packs it into max_tokens when a budget is given, and
+ * renders it as Markdown for agents or JSON for programmatic clients, so
+ * both formats always carry the same items.
+ *
+ * @fileoverview Typed context payloads returned by the context tools
+ */
+
+import { AIInstruction, ContextLevel, SearchScoreBreakdown, TimeHorizon } from '../core/types.js';
+import { TaskDependencyInfo } from './task-dependency-service.js';
+import { SubtaskNode, SubtaskRollup } from './task-hierarchy.js';
+import { UrgencyBreakdown } from './urgency-model.js';
+
+export type ContextItemKind = 'instruction' | 'memory' | 'task';
+
+interface ContextItemBase {
+  id: number;
+  title: string;
+  priority: number;
+  // Items with higher scores are kept first under max_tokens, across all
+  // sections: instructions 1.2-2, memories by relevance and tasks by urgency
+  // score / 10, 0-1
+  score: number;
+  // Text shown under the title: an instruction's content, or a preview of a
+  // memory's content or a task's description
+  content?: string;
+  // Set when max_tokens cut or dropped content
+  shortened?: boolean;
+}
+
+export interface ContextInstructionItem extends ContextItemBase {
+  kind: 'instruction';
+  scope: AIInstruction['scope'];
+}
+
+export interface ContextMemoryItem extends ContextItemBase {
+  kind: 'memory';
+  category?: string;
+  project?: string;
+  tags?: string[];
+  // How an explicitly linked memory relates, e.g. "Superseded by"
+  link_label?: string;
+  // Semantic similarity to the task or topic, 0-1
+  similarity?: number;
+  score_breakdown?: SearchScoreBreakdown;
+  // Index of the passage of long content that matched better than the whole memory
+  matched_passage?: number;
+  // Whether the memory was created or only updated since the last session
+  change?: 'created' | 'updated';
+}
+
+export interface ContextTaskItem extends ContextItemBase {
+  kind: 'task';
+  status: string;
+  due_date?: string;
+  overdue: boolean;
+  category?: string;
+  project?: string;
+  tags?: string[];
+  link_label?: string;
+  blocked_by?: number[];
+  unblocks?: number;
+  // How the task's urgency model scored it
+  urgency?: UrgencyBreakdown;
+}
+
+export type ContextItem = ContextInstructionItem | ContextMemoryItem | ContextTaskItem;
+
+export const CONTEXT_SECTION_TITLES = {
+  instructions: 'AI Instructions',
+  project_memories: 'Recent Project Memories',
+  project_tasks: 'Active Project Tasks',
+  linked_memories: 'Linked Memories',
+  linked_items: 'Linked Items',
+  related_tasks: 'Related Tasks in Project',
+  similar_memories: 'Related Memories',
+  related_memories: 'Related Memories',
+  ranked_memories: 'Relevant Memories',
+  urgent: 'Urgent',
+  high: 'High Priority',
+  medium: 'Medium Priority',
+  low: 'Low Priority',
+  priorities: 'Top Priorities',
+  changed_memories: 'Memories Changed Since Last Session',
+  newly_overdue: 'Newly Overdue Tasks',
+} as const;
+
+export type ContextSectionName = keyof typeof CONTEXT_SECTION_TITLES;
+
+export interface ContextSection {
+  name: ContextSectionName;
+  title: string;
+  // Items found; work priority groups also count tasks past limit
+  total: number;
+  items: ContextItem[];
+}
+
+export interface ContextItemRef {
+  kind: ContextItemKind;
+  id: number;
+}
+
+/**
+ * What max_tokens left out
+ */
+export interface ContextBudgetReport {
+  max_tokens: number;
+  estimated_tokens: number;
+  estimator: string;
+  shortened: ContextItemRef[];
+  omitted: ContextItemRef[];
+}
+
+interface ContextPayloadBase {
+  level?: ContextLevel;
+  sections: ContextSection[];
+  budget?: ContextBudgetReport;
+}
+
+export interface ProjectContextPayload extends ContextPayloadBase {
+  context: 'project';
+  project: { id: number; name: string; description?: string };
+  statistics: {
+    memory_count: number;
+    task_count: number;
+    completed_tasks: number;
+    overdue_tasks: number;
+  };
+}
+
+export interface TaskContextPayload extends ContextPayloadBase {
+  context: 'task';
+  task: {
+    id: number;
+    title: string;
+    status: string;
+    priority: number;
+    project?: string;
+    category?: string;
+    due_date?: string;
+    overdue: boolean;
+    tags: string[];
+    description?: string;
+  };
+  recurrence?: { rule: string; occurrence: number };
+  dependencies?: TaskDependencyInfo;
+  parent?: { id: number; title: string };
+  subtasks?: { rollup: SubtaskRollup; tree: SubtaskNode[] };
+}
+
+export interface MemoryContextPayload extends ContextPayloadBase {
+  context: 'memory';
+  memory: {
+    id: number;
+    title: string;
+    priority: number;
+    project?: string;
+    category?: string;
+    tags: string[];
+    content?: string;
+    expires_at?: string;
+    expired: boolean;
+  };
+}
+
+export interface TopicContextPayload extends ContextPayloadBase {
+  context: 'topic';
+  topic: string;
+}
+
+export interface WorkPrioritiesPayload extends ContextPayloadBase {
+  context: 'work_priorities';
+  time_horizon: TimeHorizon;
+  statistics: {
+    total: number;
+    overdue: number;
+    due_today: number;
+    due_this_week: number;
+  };
+}
+
+export interface SessionBriefingPayload extends ContextPayloadBase {
+  context: 'session';
+  session: { id: number; project?: string; started_at: string };
+  previous_session?: { id: number; started_at: string; ended_at?: string };
+  // Changes are counted from here: the end of the previous session (its
+  // start while it is still active), or a week back on the first session
+  since: string;
+  changes: {
+    memories_created: number;
+    memories_updated: number;
+    tasks_created: number;
+    tasks_completed: number;
+    tasks_newly_overdue: number;
+  };
+  // The changes in one sentence
+  summary: string;
+}
+
+export type ContextPayload =
+  | ProjectContextPayload
+  | TaskContextPayload
+  | MemoryContextPayload
+  | TopicContextPayload
+  | WorkPrioritiesPayload
+  | SessionBriefingPayload;
+
+/**
+ * Section of items; empty sections are left out of payloads
+ */
+export function contextSection(
+  name: ContextSectionName,
+  items: ContextItem[],
+  total: number = items.length
+): ContextSection[] {
+  return items.length > 0 ? [{ name, title: CONTEXT_SECTION_TITLES[name], total, items }] : [];
+}
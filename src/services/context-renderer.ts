@@ -0,0 +1,512 @@
+/**
+ * Context Renderers for AI Memory MCP Server
+ *
+ * Turn a context payload into the text a context tool returns. Besides the
+ * whole payload, a renderer renders its parts on their own (the frame around
+ * the sections, a section's heading, one item, the budget report), which is
+ * what max_tokens packing measures.
+ *
+ * @fileoverview Markdown and JSON rendering of context payloads
+ */
+
+import { ContextFormat, SearchScoreBreakdown } from '../core/types.js';
+import { SubtaskNode, SubtaskRollup } from './task-hierarchy.js';
+import { TaskDependencyInfo } from './task-dependency-service.js';
+import { CONTEXT_DETAIL_LEVELS } from '../utils/constants.js';
+import {
+  ContextBudgetReport,
+  ContextItem,
+  ContextItemRef,
+  ContextMemoryItem,
+  ContextPayload,
+  ContextSection,
+  ContextTaskItem,
+} from './context-payload.js';
+
+export interface ContextRenderer {
+  render(payload: ContextPayload): string;
+
+  /** Everything but the sections and the budget report */
+  renderFrame(payload: ContextPayload): string;
+
+  /** What a section adds besides its items */
+  renderSectionFrame(section: ContextSection): string;
+
+  renderItem(payload: ContextPayload, section: ContextSection, item: ContextItem): string;
+
+  renderBudget(report: ContextBudgetReport): string;
+}
+
+/**
+ * Compact JSON of the payload itself
+ */
+export class JsonContextRenderer implements ContextRenderer {
+  render(payload: ContextPayload): string {
+    return JSON.stringify(payload);
+  }
+
+  renderFrame(payload: ContextPayload): string {
+    return JSON.stringify({ ...payload, sections: [], budget: undefined });
+  }
+
+  renderSectionFrame(section: ContextSection): string {
+    return JSON.stringify({ ...section, items: [] });
+  }
+
+  renderItem(_payload: ContextPayload, _section: ContextSection, item: ContextItem): string {
+    return JSON.stringify(item);
+  }
+
+  renderBudget(report: ContextBudgetReport): string {
+    return JSON.stringify({ budget: report });
+  }
+}
+
+/**
+ * Markdown for agents to read
+ */
+export class MarkdownContextRenderer implements ContextRenderer {
+  render(payload: ContextPayload): string {
+    const sections = payload.sections
+      .filter(section => section.items.length > 0)
+      .map(section => this.renderSection(payload, section));
+
+    return (
+      this.renderHead(payload) +
+      sections.join('') +
+      this.renderTail(payload) +
+      (payload.budget ? this.renderBudget(payload.budget) : '')
+    );
+  }
+
+  renderFrame(payload: ContextPayload): string {
+    return this.renderHead(payload) + this.renderTail(payload);
+  }
+
+  renderSectionFrame(section: ContextSection): string {
+    return this.renderHeading(section) + this.renderFooter(section);
+  }
+
+  renderItem(payload: ContextPayload, section: ContextSection, item: ContextItem): string {
+    const basic = payload.level === CONTEXT_DETAIL_LEVELS.BASIC;
+
+    switch (section.name) {
+      case 'instructions': {
+        if (item.kind !== 'instruction') break;
+        const scopeLabel =
+          item.scope === 'global'
+            ? '🌍 Global'
+            : item.scope === 'project'
+              ? '📁 Project'
+              : '📂 Category';
+        const content = item.content !== undefined ? `  ${item.content}\n` : '';
+        return `• ${scopeLabel} [P${item.priority}] ${item.title}\n${content}\n`;
+      }
+
+      case 'project_memories': {
+        if (item.kind !== 'memory') break;
+        let text = `• [P${item.priority}] ${item.title}\n`;
+        if (!basic) {
+          text += this.renderContent(item);
+          text += `  📂 ${item.category || 'None'} | 🏷️ ${this.renderTags(item.tags)}\n`;
+        }
+        return text + '\n';
+      }
+
+      case 'project_tasks': {
+        if (item.kind !== 'task') break;
+        let text = `• ${this.getStatusEmoji(item.status)} [P${item.priority}] ${item.title}${this.renderOverdue(item)}\n`;
+        if (!basic) {
+          text += `  Status: ${item.status} | Due: ${item.due_date || 'No due date'}\n`;
+          text += this.renderContent(item);
+          text += `  📂 ${item.category || 'None'} | 🏷️ ${this.renderTags(item.tags)}\n`;
+        }
+        return text + '\n';
+      }
+
+      case 'linked_memories':
+      case 'linked_items':
+        if (item.kind === 'memory') {
+          return (
+            `• ${item.link_label} memory #${item.id} [P${item.priority}] ${item.title}\n` +
+            this.renderContent(item)
+          );
+        }
+        if (item.kind === 'task') {
+          const due = item.due_date ? ` (due ${item.due_date})` : '';
+          return `• ${item.link_label} task #${item.id} ${this.getStatusEmoji(item.status)} [P${item.priority}] ${item.title}${due}\n`;
+        }
+        break;
+
+      case 'related_tasks':
+        if (item.kind !== 'task') break;
+        return `• ${this.getStatusEmoji(item.status)} [P${item.priority}] ${item.title}\n`;
+
+      case 'similar_memories':
+        if (item.kind !== 'memory') break;
+        return (
+          `• [${((item.similarity ?? 0) * 100).toFixed(0)}% match] ${item.title}\n` +
+          this.renderContent(item)
+        );
+
+      case 'related_memories':
+        if (item.kind !== 'memory') break;
+        return (
+          `• ${this.getPriorityEmoji(item.priority)} [P${item.priority}] ${item.title}\n` +
+          this.renderContent(item)
+        );
+
+      case 'ranked_memories':
+        if (item.kind !== 'memory') break;
+        return this.renderRankedMemory(item);
+
+      case 'urgent':
+      case 'high':
+      case 'medium':
+      case 'low':
+      case 'priorities':
+        if (item.kind !== 'task') break;
+        return this.renderPriorityTask(item);
+
+      case 'changed_memories': {
+        if (item.kind !== 'memory') break;
+        const project = item.project ? ` (📁 ${item.project})` : '';
+        return (
+          `• ${item.change === 'created' ? '🆕' : '✏️'} [P${item.priority}] ${item.title}${project}\n` +
+          this.renderContent(item)
+        );
+      }
+
+      case 'newly_overdue': {
+        if (item.kind !== 'task') break;
+        const project = item.project ? ` (📁 ${item.project})` : '';
+        return `• ${this.getStatusEmoji(item.status)} [P${item.priority}] ${item.title} — due ${item.due_date}${project}\n`;
+      }
+    }
+    throw new Error(`Cannot render ${item.kind} items in section ${section.name}`);
+  }
+
+  renderBudget(report: ContextBudgetReport): string {
+    const overBudget = report.estimated_tokens > report.max_tokens;
+    if (!overBudget && report.shortened.length === 0 && report.omitted.length === 0) {
+      return '';
+    }
+
+    const parts = [
+      `~${report.estimated_tokens}/${report.max_tokens} tokens (${report.estimator} estimate)`,
+    ];
+    if (overBudget) {
+      parts.push('over budget even without items');
+    }
+    if (report.shortened.length > 0) {
+      parts.push(`shortened ${this.describeRefs(report.shortened)}`);
+    }
+    if (report.omitted.length > 0) {
+      parts.push(`omitted ${this.describeRefs(report.omitted)}`);
+    }
+    return `\n✂️ **Token budget:** ${parts.join('; ')}\n`;
+  }
+
+  private renderHead(payload: ContextPayload): string {
+    switch (payload.context) {
+      case 'project':
+        return (
+          `📁 **Project Context: ${payload.project.name}**\n\n` +
+          `**Description:** ${payload.project.description || 'No description'}\n\n`
+        );
+
+      case 'task': {
+        const { task } = payload;
+        const overdueFlag = task.overdue ? ' 🔴 OVERDUE' : '';
+        let context = `${this.getStatusEmoji(task.status)} **Task Context: ${task.title}**${overdueFlag}\n\n`;
+        context += `**Status:** ${task.status}\n`;
+        context += `**Priority:** ${task.priority}/5\n`;
+        context += `**Project:** ${task.project || 'None'}\n`;
+        context += `**Category:** ${task.category || 'None'}\n`;
+        context += `**Due Date:** ${task.due_date || 'No due date'}\n`;
+        context += `**Tags:** ${this.renderTags(task.tags)}\n\n`;
+        if (task.description) {
+          context += `**📝 Description:**\n${task.description}\n\n`;
+        }
+        if (payload.recurrence) {
+          context += `**🔁 Repeats:** ${payload.recurrence.rule} (occurrence ${payload.recurrence.occurrence})\n\n`;
+        }
+        if (payload.dependencies) {
+          context += this.renderDependencies(payload.dependencies);
+        }
+        if (payload.parent) {
+          context += `**⬆️ Parent Task:** #${payload.parent.id} ${payload.parent.title}\n\n`;
+        }
+        if (payload.subtasks) {
+          context += this.renderSubtasks(payload.subtasks.tree, payload.subtasks.rollup);
+        }
+        return context;
+      }
+
+      case 'memory': {
+        const { memory } = payload;
+        let context = `${this.getPriorityEmoji(memory.priority)} **Memory Context: ${memory.title}**\n\n`;
+        context += `**Priority:** ${memory.priority}/5\n`;
+        if (memory.expires_at) {
+          context += `**${memory.expired ? 'Expired' : 'Expires'}:** ${memory.expires_at}\n`;
+        }
+        context += `**Project:** ${memory.project || 'None'}\n`;
+        context += `**Category:** ${memory.category || 'None'}\n`;
+        context += `**Tags:** ${this.renderTags(memory.tags)}\n\n`;
+        if (memory.content) {
+          context += `**📝 Content:**\n${memory.content}\n\n`;
+        }
+        return context;
+      }
+
+      case 'topic':
+        return payload.sections.length === 0
+          ? `No relevant memories found for topic: "${payload.topic}"`
+          : `💭 **Memory Context for: "${payload.topic}"**\n\n`;
+
+      case 'work_priorities':
+        return payload.statistics.total === 0
+          ? `No tasks found for the specified criteria.`
+          : `🎯 **Work Priorities** (${payload.time_horizon} view)\n\n`;
+
+      case 'session':
+        return (
+          `🧭 **Session Briefing: ${payload.session.project || 'All Projects'}**\n\n` +
+          `**📰 What happened:** ${payload.summary}\n\n`
+        );
+    }
+  }
+
+  private renderTail(payload: ContextPayload): string {
+    if (payload.context === 'project') {
+      const { statistics } = payload;
+      let context = `**📊 Project Statistics:**\n`;
+      context += `• Memories: ${statistics.memory_count}\n`;
+      context += `• Active Tasks: ${statistics.task_count}\n`;
+      context += `• Completed Tasks: ${statistics.completed_tasks}\n`;
+      context += `• Overdue Tasks: ${statistics.overdue_tasks}\n`;
+      return context;
+    }
+
+    if (payload.context === 'work_priorities' && payload.statistics.total > 0) {
+      const { statistics } = payload;
+      let context = `\n📊 **Summary:**\n`;
+      context += `• Total Tasks: ${statistics.total}\n`;
+      context += `• Overdue: ${statistics.overdue}\n`;
+      context += `• Due Today: ${statistics.due_today}\n`;
+      context += `• Due This Week: ${statistics.due_this_week}\n`;
+      return context;
+    }
+
+    return '';
+  }
+
+  private renderSection(payload: ContextPayload, section: ContextSection): string {
+    const items = section.items.map(item => this.renderItem(payload, section, item));
+    return this.renderHeading(section) + items.join('') + this.renderFooter(section);
+  }
+
+  private renderHeading(section: ContextSection): string {
+    switch (section.name) {
+      case 'instructions':
+        return `**🤖 AI Instructions:**\n`;
+      case 'project_memories':
+        return `**💭 Recent Project Memories (${section.total}):**\n`;
+      case 'project_tasks':
+        return `**📋 Active Project Tasks (${section.total}):**\n`;
+      case 'linked_memories':
+        return `**📎 Linked Memories:**\n`;
+      case 'linked_items':
+        return `**🔗 Linked Items:**\n`;
+      case 'related_tasks':
+        return `**🔗 Related Tasks in Project:**\n`;
+      case 'similar_memories':
+      case 'related_memories':
+        return `**💭 Related Memories:**\n`;
+      case 'ranked_memories':
+        return `Found ${section.total} relevant memories:\n\n`;
+      case 'urgent':
+        return `🚨 **URGENT** (${section.total} tasks):\n`;
+      case 'high':
+        return `\n🔴 **HIGH PRIORITY** (${section.total} tasks):\n`;
+      case 'medium':
+        return `\n🟡 **MEDIUM PRIORITY** (${section.total} tasks):\n`;
+      case 'low':
+        return `\n🟢 **LOW PRIORITY** (${section.total} tasks):\n`;
+      case 'priorities':
+        return `**🎯 Top Priorities** (${section.total} open tasks):\n`;
+      case 'changed_memories':
+        return `**📝 Memories Changed Since Last Session (${section.total}):**\n`;
+      case 'newly_overdue':
+        return `**🔴 Newly Overdue Tasks (${section.total}):**\n`;
+    }
+  }
+
+  private renderFooter(section: ContextSection): string {
+    switch (section.name) {
+      case 'linked_memories':
+      case 'linked_items':
+      case 'related_tasks':
+      case 'similar_memories':
+      case 'related_memories':
+      case 'priorities':
+      case 'changed_memories':
+      case 'newly_overdue':
+        return '\n';
+      default:
+        return '';
+    }
+  }
+
+  private renderRankedMemory(memory: ContextMemoryItem): string {
+    const similarity = memory.similarity ? `[${(memory.similarity * 100).toFixed(0)}% match] ` : '';
+
+    let context = `• ${similarity}[P${memory.priority}] ${memory.title}\n`;
+    context += `  📂 ${memory.category || 'None'} | 📁 ${memory.project || 'None'}\n`;
+    if (memory.score_breakdown) {
+      context += `  📊 ${this.renderScoreBreakdown(memory.score_breakdown)}\n`;
+    }
+    if (memory.tags && memory.tags.length > 0) {
+      context += `  🏷️ ${memory.tags.join(', ')}\n`;
+    }
+
+    // Show the passage that matched when a later chunk of long content won
+    if (memory.content !== undefined) {
+      context +=
+        memory.matched_passage !== undefined
+          ? `  📍 Matched passage ${memory.matched_passage + 1}: ${memory.content}\n`
+          : `  ${memory.content}\n`;
+    }
+    return context + '\n';
+  }
+
+  private renderPriorityTask(task: ContextTaskItem): string {
+    let context = `• ${this.getStatusEmoji(task.status)} [P${task.priority}] ${task.title}${this.renderOverdue(task)}\n`;
+    context += `  Due: ${task.due_date || 'No due date'} | Project: ${task.project || 'None'}\n`;
+    if (task.blocked_by && task.blocked_by.length > 0) {
+      context += `  ⛔ Blocked by: ${task.blocked_by.map(id => `#${id}`).join(', ')}\n`;
+    }
+    if (task.unblocks) {
+      context += `  🔓 Unblocks ${task.unblocks} task(s)\n`;
+    }
+    if (task.urgency) {
+      context += `  📊 Urgency ${task.urgency.score}: ${task.urgency.explanation}\n`;
+    }
+    return context;
+  }
+
+  private renderScoreBreakdown(breakdown: SearchScoreBreakdown): string {
+    const parts = [`${breakdown.mode} score ${breakdown.score}`];
+    if (breakdown.semantic_rank !== undefined) {
+      parts.push(`semantic #${breakdown.semantic_rank} (${breakdown.semantic_similarity})`);
+    }
+    if (breakdown.keyword_rank !== undefined) {
+      parts.push(`keyword #${breakdown.keyword_rank} (${breakdown.keyword_rank_score})`);
+    }
+    if (breakdown.relevance) {
+      const { score, match, priority, recency, usage } = breakdown.relevance;
+      parts.push(
+        `relevance ${score} (match ${match}, priority ${priority}, recency ${recency}, usage ${usage})`
+      );
+    }
+    return parts.join(' | ');
+  }
+
+  private renderSubtasks(subtasks: SubtaskNode[], rollup: SubtaskRollup): string {
+    let context = `**🌳 Subtasks** (${rollup.completed}/${rollup.completed + rollup.open} done, ${rollup.completion_percent}%`;
+    if (rollup.next_due_date) {
+      context += `, next due ${rollup.next_due_date}`;
+    }
+    context += `):\n`;
+
+    const render = (nodes: SubtaskNode[], depth: number) => {
+      for (const node of nodes) {
+        const check =
+          node.status === 'completed' ? '✅' : node.status === 'cancelled' ? '❌' : '⬜';
+        const due = node.due_date ? ` (due ${node.due_date})` : '';
+        context += `${'  '.repeat(depth)}• ${check} #${node.id} ${node.title}${due}\n`;
+        render(node.subtasks, depth + 1);
+      }
+    };
+    render(subtasks, 0);
+
+    return context + '\n';
+  }
+
+  private renderDependencies(dependencies: TaskDependencyInfo): string {
+    let context = dependencies.blocked
+      ? `**⛔ Blocked** by ${dependencies.blocked_by.length} open task(s)\n`
+      : '';
+    if (dependencies.depends_on.length > 0) {
+      context += `**Depends on:**\n`;
+      for (const dep of dependencies.depends_on) {
+        context += `• ${dep.open ? '⏳' : '✅'} #${dep.id} ${dep.title} (${dep.status})\n`;
+      }
+    }
+    if (dependencies.blocks.length > 0) {
+      context += `**Blocks:**\n`;
+      for (const dep of dependencies.blocks) {
+        context += `• #${dep.id} ${dep.title} (${dep.status})\n`;
+      }
+    }
+    return context + '\n';
+  }
+
+  private renderContent(item: ContextItem): string {
+    return item.content !== undefined ? `  ${item.content}\n` : '';
+  }
+
+  private renderOverdue(task: ContextTaskItem): string {
+    return task.overdue ? ' 🔴 OVERDUE' : '';
+  }
+
+  private renderTags(tags?: string[]): string {
+    return tags && tags.length > 0 ? tags.join(', ') : 'None';
+  }
+
+  /**
+   * "2 memories (#4, #9), 1 task (#12)"
+   */
+  private describeRefs(refs: ContextItemRef[]): string {
+    const byKind = new Map<string, number[]>();
+    for (const ref of refs) {
+      byKind.set(ref.kind, [...(byKind.get(ref.kind) ?? []), ref.id]);
+    }
+    return [...byKind]
+      .map(([kind, ids]) => {
+        const label = ids.length === 1 ? kind : kind.replace(/y$/, 'ie') + 's';
+        return `${ids.length} ${label} (${ids.map(id => `#${id}`).join(', ')})`;
+      })
+      .join(', ');
+  }
+
+  private getStatusEmoji(status: string): string {
+    const statusEmojis: { [key: string]: string } = {
+      not_started: '⏳',
+      in_progress: '🔄',
+      completed: '✅',
+      cancelled: '❌',
+      on_hold: '⏸️',
+    };
+    return statusEmojis[status] || '⏳';
+  }
+
+  private getPriorityEmoji(priority: number): string {
+    if (priority >= 5) return '🔴';
+    if (priority >= 4) return '🟠';
+    if (priority >= 3) return '🟡';
+    if (priority >= 2) return '🟢';
+    return '⚪';
+  }
+}
+
+export function createContextRenderer(format: ContextFormat): ContextRenderer {
+  switch (format) {
+    case 'markdown':
+      return new MarkdownContextRenderer();
+    case 'json':
+      return new JsonContextRenderer();
+    default:
+      throw new Error(`Unknown context format: ${format}`);
+  }
+}
@@ -16,8 +16,37 @@ import {
   Category,
   AIInstruction,
   ContextLevel as ContextDetailLevel,
+  ContextFormat,
+  VALID_CONTEXT_FORMATS,
   TimeHorizon,
+  SearchMode,
+  SearchScoreBreakdown,
 } from '../core/types.js';
+import { SearchRanker } from './search-ranker.js';
+import { MemoryRelevance } from './memory-relevance.js';
+import { activeMemoryWhere, isExpired } from './memory-expiry.js';
+import { ContextPacker } from './context-budget.js';
+import {
+  ContextInstructionItem,
+  ContextMemoryItem,
+  ContextPayload,
+  ContextSectionName,
+  ContextTaskItem,
+  SessionBriefingPayload,
+  WorkPrioritiesPayload,
+  contextSection,
+} from './context-payload.js';
+import { createContextRenderer } from './context-renderer.js';
+import { MemoryVectorFilters } from '../core/vector-store.js';
+import { TaskDependencyInfo, TaskDependencyServiceImpl } from './task-dependency-service.js';
+import { LinkedMemory, LinkedTask, MemoryLinkServiceImpl } from './memory-link-service.js';
+import { TaskHierarchy } from './task-hierarchy.js';
+import { TaskRecurrence } from './task-recurrence.js';
+import { SessionLog } from './session-log.js';
+import { MAX_URGENCY, UrgencyBreakdown, UrgencyModels } from './urgency-model.js';
+import { describeRecurrence } from '../utils/recurrence.js';
+import { TokenEstimator, createTokenEstimator } from '../utils/token-estimator.js';
+import { config } from '../core/config.js';
 import { CONTEXT_DETAIL_LEVELS, TIME_HORIZONS, TASK_STATUS_IDS } from '../utils/constants.js';
 import {
   AIMemoryError,
@@ -35,6 +64,7 @@ export interface ContextService {
   getMemoryContext(args: MemoryContextArgs): Promise<ContextResponse>;
   getSpecificMemoryContext(args: SpecificMemoryContextArgs): Promise<ContextResponse>;
   getWorkPriorities(args: WorkPrioritiesArgs): Promise<ContextResponse>;
+  startSession(args: StartSessionArgs): Promise<ContextResponse>;
 }
 
 /**
@@ -45,6 +75,9 @@ export interface ProjectContextArgs {
   level?: ContextDetailLevel;
   include_completed?: boolean;
   max_items?: number;
+  include_expired?: boolean;
+  max_tokens?: number;
+  format?: ContextFormat;
 }
 
 /**
@@ -55,6 +88,9 @@ export interface TaskContextArgs {
   level?: ContextDetailLevel;
   include_related?: boolean;
   semantic_search?: boolean;
+  include_expired?: boolean;
+  max_tokens?: number;
+  format?: ContextFormat;
 }
 
 /**
@@ -67,6 +103,10 @@ export interface MemoryContextArgs {
   priority_min?: number;
   limit?: number;
   min_similarity?: number;
+  search_mode?: SearchMode;
+  include_expired?: boolean;
+  max_tokens?: number;
+  format?: ContextFormat;
 }
 
 /**
@@ -77,6 +117,9 @@ export interface SpecificMemoryContextArgs {
   level?: ContextDetailLevel;
   include_related?: boolean;
   semantic_search?: boolean;
+  include_expired?: boolean;
+  max_tokens?: number;
+  format?: ContextFormat;
 }
 
 /**
@@ -88,6 +131,18 @@ export interface WorkPrioritiesArgs {
   project?: string;
   priority_min?: number;
   limit?: number;
+  max_tokens?: number;
+  format?: ContextFormat;
+}
+
+/**
+ * Start session arguments
+ */
+export interface StartSessionArgs {
+  project?: string;
+  limit?: number;
+  max_tokens?: number;
+  format?: ContextFormat;
 }
 
 /**
@@ -101,14 +156,102 @@ export interface ContextResponse {
   isError?: boolean;
 }
 
+/**
+ * Items fetched per type when max_tokens is given without max_items or
+ * limit, so the budget has enough to choose from
+ */
+const BUDGETED_MAX_ITEMS = 50;
+
+/**
+ * How far back the first briefing in a scope reports changes
+ */
+const FIRST_SESSION_LOOKBACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Task with its urgency and what it depends on
+ */
+interface RankedTask {
+  task: Task;
+  dependencies?: TaskDependencyInfo;
+  urgency: UrgencyBreakdown;
+}
+
+function preview(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length) + '...' : text;
+}
+
+function isOverdue(dueDate?: string): boolean {
+  return !!dueDate && new Date(dueDate) < new Date();
+}
+
+/**
+ * Name of a relation that is either loaded as an object or already flattened
+ */
+function relationName(relation: any): string | undefined {
+  return typeof relation === 'string' ? relation : relation?.name;
+}
+
+/**
+ * "Since the last session ended on 2026-10-12 09:30 UTC: 2 memories created
+ * and 1 updated; 1 task newly overdue."
+ */
+function describeChanges(changes: SessionBriefingPayload['changes'], previousEnd?: Date): string {
+  const count = (n: number, noun: string) =>
+    `${n} ${n === 1 ? noun : noun.replace(/y$/, 'ie') + 's'}`;
+
+  const parts: string[] = [];
+  if (changes.memories_created > 0 || changes.memories_updated > 0) {
+    parts.push(
+      `${count(changes.memories_created, 'memory')} created and ${changes.memories_updated} updated`
+    );
+  }
+  if (changes.tasks_created > 0 || changes.tasks_completed > 0) {
+    parts.push(
+      `${count(changes.tasks_created, 'task')} created and ${changes.tasks_completed} completed`
+    );
+  }
+  if (changes.tasks_newly_overdue > 0) {
+    parts.push(`${count(changes.tasks_newly_overdue, 'task')} newly overdue`);
+  }
+
+  const period = previousEnd
+    ? `since the last session ended on ${previousEnd.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+    : `in the last ${FIRST_SESSION_LOOKBACK_DAYS} days (first session)`;
+  if (parts.length === 0) {
+    return `Nothing changed ${period}.`;
+  }
+  return `${period.charAt(0).toUpperCase()}${period.slice(1)}: ${parts.join('; ')}.`;
+}
+
 /**
  * Context Service Implementation
  */
 export class ContextServiceImpl implements ContextService {
+  private ranker: SearchRanker;
+  private dependencies: TaskDependencyServiceImpl;
+  private hierarchy: TaskHierarchy;
+  private recurrence: TaskRecurrence;
+  private links: MemoryLinkServiceImpl;
+  private relevance: MemoryRelevance;
+  private sessions: SessionLog;
+  private urgency: UrgencyModels;
+
   constructor(
     private database: PrismaDatabaseService,
-    private embeddingService: any
-  ) {}
+    private embeddingService: any,
+    private tokenEstimator: TokenEstimator = createTokenEstimator(config.context.tokenEstimator)
+  ) {
+    this.ranker = new SearchRanker(database);
+    this.dependencies = new TaskDependencyServiceImpl(database);
+    this.hierarchy = new TaskHierarchy(database);
+    this.recurrence = new TaskRecurrence(database);
+    this.links = new MemoryLinkServiceImpl(database);
+    this.relevance = new MemoryRelevance(database);
+    this.sessions = new SessionLog(database);
+    this.urgency = new UrgencyModels(database);
+  }
 
   /**
    * Get comprehensive project context including memories, tasks, and AI instructions
@@ -119,13 +262,17 @@ export class ContextServiceImpl implements ContextService {
         project,
         level = CONTEXT_DETAIL_LEVELS.STANDARD,
         include_completed = false,
-        max_items = 10,
+        max_tokens,
+        max_items = max_tokens === undefined ? 10 : BUDGETED_MAX_ITEMS,
+        include_expired = false,
+        format = 'markdown',
       } = args;
 
       // Validate inputs
       if (!project) {
         throw createValidationError('Project name is required');
       }
+      this.validateOutput(format, max_tokens);
 
       // Get project details
       const projectData = await this.database.getProjectByName(project.toLowerCase());
@@ -133,39 +280,59 @@ export class ContextServiceImpl implements ContextService {
         throw createNotFoundError('Project', project);
       }
 
-      let context = `📁 **Project Context: ${project}**\n\n`;
-      context += `**Description:** ${projectData.description || 'No description'}\n\n`;
-
       // Get AI instructions for this project
       const aiInstructions = await this.getProjectAIInstructions(projectData.id);
-      if (aiInstructions.length > 0) {
-        context += this.formatAIInstructions(aiInstructions);
-      }
 
       // Get project memories
-      const memories = await this.getProjectMemories(projectData.id, max_items);
-      if (memories.length > 0) {
-        context += this.formatProjectMemories(memories, level);
-      }
+      const memories = await this.getProjectMemories(projectData.id, max_items, include_expired);
+      const memoryScores = await this.relevance.scoreById(memories.map(memory => memory.id));
 
       // Get project tasks
-      const tasks = await this.getProjectTasks(projectData.id, max_items, include_completed);
-      if (tasks.length > 0) {
-        context += this.formatProjectTasks(tasks, level);
-      }
+      const tasks = (await this.getProjectTasks(projectData.id, max_items, include_completed)).map(
+        task => this.flattenTask(task)
+      );
+      const urgency = await this.urgency.scoreAll(tasks);
 
       // Get project statistics
-      const stats = await this.getProjectStatistics(projectData.id);
-      context += this.formatProjectStatistics(stats);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: context,
+      const statistics = await this.getProjectStatistics(projectData.id);
+
+      const detailed = level !== CONTEXT_DETAIL_LEVELS.BASIC;
+      return this.respond(
+        {
+          context: 'project',
+          level,
+          project: {
+            id: projectData.id,
+            name: project,
+            description: projectData.description || undefined,
           },
-        ],
-      };
+          sections: [
+            ...contextSection('instructions', this.instructionItems(aiInstructions)),
+            ...contextSection(
+              'project_memories',
+              memories.map(memory =>
+                this.memoryItem(memory, {
+                  score: memoryScores.get(memory.id) ?? 0,
+                  content: detailed ? preview(memory.content, 200) : undefined,
+                })
+              )
+            ),
+            ...contextSection(
+              'project_tasks',
+              tasks.map(task =>
+                this.taskItem(task, {
+                  ...this.urgencyFields(urgency.get(task.id)!),
+                  content:
+                    detailed && task.description ? preview(task.description, 150) : undefined,
+                })
+              )
+            ),
+          ],
+          statistics,
+        },
+        format,
+        max_tokens
+      );
     }, 'getProjectContext');
   }
 
@@ -179,73 +346,159 @@ export class ContextServiceImpl implements ContextService {
         level = CONTEXT_DETAIL_LEVELS.STANDARD,
         include_related = true,
         semantic_search = true,
+        include_expired = false,
+        max_tokens,
+        format = 'markdown',
       } = args;
 
       // Validate inputs
       if (!task_id || task_id <= 0) {
         throw createValidationError('Valid task ID is required');
       }
+      this.validateOutput(format, max_tokens);
 
       // Get task details with relations
-      const task = await this.database.getTaskWithRelations(task_id);
-      if (!task) {
+      const row = await this.database.getTaskWithRelations(task_id);
+      if (!row) {
         throw createNotFoundError('Task', task_id);
       }
+      const task = this.flattenTask(row);
 
-      const overdueFlag =
-        task.due_date && new Date(task.due_date) < new Date() ? ' 🔴 OVERDUE' : '';
-      const statusEmoji = this.getStatusEmoji(task.status || 'not_started');
+      const rule = this.recurrence.ruleOf(row);
+      const dependencies = (await this.dependencies.getDependencyInfo([task_id])).get(task_id)!;
 
-      let context = `${statusEmoji} **Task Context: ${task.title}**${overdueFlag}\n\n`;
-      context += this.formatTaskDetails(task);
+      const parent = row.parentId
+        ? await this.database.client.task.findUnique({
+            where: { id: row.parentId, deletedAt: null },
+            select: { id: true, title: true },
+          })
+        : null;
+
+      const subtasks = await this.hierarchy.loadSubtree(task_id);
 
       // Get AI instructions for task context
       const aiInstructions = await this.getTaskAIInstructions(task);
-      if (aiInstructions.length > 0) {
-        context += this.formatAIInstructions(aiInstructions);
-      }
+      const sections = contextSection('instructions', this.instructionItems(aiInstructions));
+
+      // Explicitly linked memories come before the heuristic matches
+      const linkedMemories = (await this.links.getTaskLinks(task_id)).filter(
+        linked => include_expired || !linked.expired
+      );
+      const linkedScores = await this.relevance.scoreById(
+        linkedMemories.map(memory => memory.id),
+        () => 1
+      );
+      sections.push(
+        ...contextSection(
+          'linked_memories',
+          linkedMemories.map(linked =>
+            this.linkedMemoryItem(linked, level, 150, linkedScores.get(linked.id) ?? 0)
+          )
+        )
+      );
 
       if (include_related && level !== CONTEXT_DETAIL_LEVELS.BASIC) {
         // Get related tasks in same project
         if (task.project_id) {
-          const relatedTasks = await this.getRelatedTasks(task.project_id, task_id);
-          if (relatedTasks.length > 0) {
-            context += this.formatRelatedTasks(relatedTasks);
-          }
+          const relatedTasks = (await this.getRelatedTasks(task.project_id, task_id)).map(related =>
+            this.flattenTask(related)
+          );
+          const urgency = await this.urgency.scoreAll(relatedTasks);
+          sections.push(
+            ...contextSection(
+              'related_tasks',
+              relatedTasks.map(related =>
+                this.taskItem(related, this.urgencyFields(urgency.get(related.id)!))
+              )
+            )
+          );
         }
 
         // Get related memories using semantic search
         if (semantic_search && task.title) {
           try {
-            const semanticResults = await this.getSemanticMemories(
-              task.title + ' ' + (task.description || ''),
-              { project: task.project || '', category: task.category || '' },
-              5,
-              0.2
+            const linkedIds = new Set(linkedMemories.map(memory => memory.id));
+            const semanticResults = (
+              await this.getSemanticMemories(
+                task.title + ' ' + (task.description || ''),
+                {
+                  project: task.project || '',
+                  category: task.category || '',
+                  include_expired,
+                },
+                5,
+                0.2
+              )
+            ).filter(memory => !linkedIds.has(memory.id));
+
+            const similarityOf = new Map(
+              semanticResults.map(memory => [memory.id, (memory as any).similarity_score])
+            );
+            const semanticScores = await this.relevance.scoreById(
+              semanticResults.map(memory => memory.id),
+              id => similarityOf.get(id) ?? 0
+            );
+            sections.push(
+              ...contextSection(
+                'similar_memories',
+                semanticResults.map(memory => {
+                  const text = (memory as any).matched_passage?.content ?? memory.content;
+                  return this.memoryItem(memory, {
+                    score: semanticScores.get(memory.id) ?? 0,
+                    similarity: similarityOf.get(memory.id),
+                    content:
+                      level === CONTEXT_DETAIL_LEVELS.COMPREHENSIVE
+                        ? preview(text, 150)
+                        : undefined,
+                  });
+                })
+              )
             );
-
-            if (semanticResults.length > 0) {
-              context += this.formatSemanticMemories(semanticResults, level);
-            }
           } catch (error) {
             console.error('Semantic search failed:', error);
           }
         }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: context,
+      return this.respond(
+        {
+          context: 'task',
+          level,
+          task: {
+            id: task.id,
+            title: task.title,
+            status: task.status || 'not_started',
+            priority: task.priority,
+            project: task.project,
+            category: task.category,
+            due_date: task.due_date,
+            overdue: isOverdue(task.due_date),
+            tags: task.tags ?? [],
+            description: task.description || undefined,
           },
-        ],
-      };
+          recurrence: rule
+            ? { rule: describeRecurrence(rule), occurrence: row.occurrence }
+            : undefined,
+          dependencies:
+            dependencies.depends_on.length > 0 || dependencies.blocks.length > 0
+              ? dependencies
+              : undefined,
+          parent: parent ?? undefined,
+          subtasks:
+            subtasks.length > 0
+              ? { rollup: this.hierarchy.rollup(subtasks), tree: subtasks }
+              : undefined,
+          sections,
+        },
+        format,
+        max_tokens
+      );
     }, 'getTaskContext');
   }
 
   /**
-   * Get memory context using semantic search with keyword fallback
+   * Get memory context using semantic, keyword or hybrid ranking, ordered by
+   * relevance. Semantic mode falls back to keyword ranking when it finds nothing.
    */
   async getMemoryContext(args: MemoryContextArgs): Promise<ContextResponse> {
     return handleAsyncError(async () => {
@@ -254,73 +507,74 @@ export class ContextServiceImpl implements ContextService {
         category,
         project,
         priority_min = 1,
-        limit = 15,
+        max_tokens,
+        limit = max_tokens === undefined ? 15 : BUDGETED_MAX_ITEMS,
         min_similarity = 0.15,
+        search_mode = 'semantic',
+        include_expired = false,
+        format = 'markdown',
       } = args;
 
       // Validate inputs
       if (!topic) {
         throw createValidationError('Topic is required');
       }
+      this.validateOutput(format, max_tokens);
 
+      const filters = { category, project, priority_min, include_expired };
       let memories: Memory[] = [];
 
-      // Try semantic search first
       try {
-        memories = await this.getSemanticMemories(
+        memories = await this.getRankedMemories(
           topic,
-          { category, project, priority_min },
+          filters,
+          search_mode,
           limit,
-          min_similarity
+          min_similarity,
+          true
         );
       } catch (error) {
+        if (search_mode !== 'semantic') {
+          throw error;
+        }
         console.error('Semantic search failed, falling back to keyword search:', error);
       }
 
-      // Fall back to keyword search if semantic search failed or returned no results
-      if (memories.length === 0) {
-        memories = await this.getKeywordMemories(topic, { category, project, priority_min }, limit);
+      // Fall back to keyword ranking if semantic search failed or returned no results
+      if (memories.length === 0 && search_mode === 'semantic') {
+        memories = await this.getRankedMemories(
+          topic,
+          filters,
+          'keyword',
+          limit,
+          min_similarity,
+          true
+        );
       }
 
+      // Full-text search stems title and content words only; a topic that
+      // names a tag, category or project, or part of a word, still matches
       if (memories.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No relevant memories found for topic: "${topic}"`,
-            },
-          ],
-        };
+        memories = await this.getSubstringMemories(topic, filters, limit);
       }
 
-      let context = `💭 **Memory Context for: "${topic}"**\n\n`;
-      context += `Found ${memories.length} relevant memories:\n\n`;
-
-      for (const memory of memories) {
-        const similarity = (memory as any).similarity_score
-          ? `[${((memory as any).similarity_score * 100).toFixed(0)}% match] `
-          : '';
-
-        context += `• ${similarity}[P${memory.priority}] ${memory.title}\n`;
-        context += `  📂 ${memory.category || 'None'} | 📁 ${memory.project || 'None'}\n`;
-
-        if (memory.tags && memory.tags.length > 0) {
-          context += `  🏷️ ${memory.tags.join(', ')}\n`;
-        }
-
-        const preview =
-          memory.content.length > 200 ? memory.content.substring(0, 200) + '...' : memory.content;
-        context += `  ${preview}\n\n`;
-      }
+      const items = memories.map(memory => {
+        const breakdown: SearchScoreBreakdown = (memory as any).score_breakdown;
+        const passage = (memory as any).matched_passage;
+        return this.memoryItem(memory, {
+          score: breakdown.relevance?.score ?? breakdown.score,
+          similarity: (memory as any).similarity_score,
+          score_breakdown: breakdown,
+          matched_passage: passage?.chunk_index,
+          content: preview(passage ? passage.content : memory.content, 200),
+        });
+      });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: context,
-          },
-        ],
-      };
+      return this.respond(
+        { context: 'topic', topic, sections: contextSection('ranked_memories', items) },
+        format,
+        max_tokens
+      );
     }, 'getMemoryContext');
   }
 
@@ -334,48 +588,102 @@ export class ContextServiceImpl implements ContextService {
         level = CONTEXT_DETAIL_LEVELS.STANDARD,
         include_related = true,
         semantic_search = true,
+        include_expired = false,
+        max_tokens,
+        format = 'markdown',
       } = args;
 
       // Validate inputs
       if (!memory_id || memory_id <= 0) {
         throw createValidationError('Valid memory ID is required');
       }
+      this.validateOutput(format, max_tokens);
 
       // Get memory details with relations
-      const memory = await this.database.getMemoryWithRelations(memory_id);
-      if (!memory) {
+      const row = await this.database.getMemoryWithRelations(memory_id);
+      if (!row) {
         throw createNotFoundError('Memory', memory_id);
       }
+      const memory = this.flattenMemory(row);
 
-      const priorityEmoji = this.getPriorityEmoji(memory.priority);
-
-      let context = `${priorityEmoji} **Memory Context: ${memory.title}**\n\n`;
-      context += this.formatMemoryDetails(memory);
+      // Explicit links come before the project and category heuristics
+      const allLinks = await this.links.getMemoryLinks(memory_id);
+      const links = {
+        ...allLinks,
+        memories: allLinks.memories.filter(linked => include_expired || !linked.expired),
+      };
+      const linkedScores = await this.relevance.scoreById(
+        links.memories.map(linked => linked.id),
+        () => 1
+      );
+      const linkedUrgency = await this.urgency.scoreAll(links.tasks);
+      const sections = contextSection('linked_items', [
+        ...links.memories.map(linked =>
+          this.linkedMemoryItem(linked, level, 100, linkedScores.get(linked.id) ?? 0)
+        ),
+        ...links.tasks.map(linked => this.linkedTaskItem(linked, linkedUrgency.get(linked.id)!)),
+      ]);
 
       // Get related tasks if requested
       if (include_related) {
-        const relatedTasks = await this.getRelatedTasksForMemory(memory_id, level);
-        if (relatedTasks.length > 0) {
-          context += this.formatRelatedTasks(relatedTasks);
-        }
+        const linkedTaskIds = new Set(links.tasks.map(task => task.id));
+        const relatedTasks = (await this.getRelatedTasksForMemory(memory_id, level))
+          .filter(task => !linkedTaskIds.has(task.id))
+          .map(task => this.flattenTask(task));
+        const urgency = await this.urgency.scoreAll(relatedTasks);
+        sections.push(
+          ...contextSection(
+            'related_tasks',
+            relatedTasks.map(task => this.taskItem(task, this.urgencyFields(urgency.get(task.id)!)))
+          )
+        );
       }
 
       // Get related memories if requested and semantic search is enabled
       if (include_related && semantic_search) {
-        const relatedMemories = await this.getRelatedMemoriesForMemory(memory_id, level);
-        if (relatedMemories.length > 0) {
-          context += this.formatRelatedMemories(relatedMemories, level);
-        }
+        const linkedMemoryIds = new Set([memory_id, ...links.memories.map(linked => linked.id)]);
+        const relatedMemories = (
+          await this.getRelatedMemoriesForMemory(memory_id, level, include_expired)
+        ).filter(related => !linkedMemoryIds.has(related.id));
+        const relatedScores = await this.relevance.scoreById(
+          relatedMemories.map(related => related.id)
+        );
+        sections.push(
+          ...contextSection(
+            'related_memories',
+            relatedMemories.map(related =>
+              this.memoryItem(related, {
+                score: relatedScores.get(related.id) ?? 0,
+                content:
+                  level !== CONTEXT_DETAIL_LEVELS.BASIC && related.content
+                    ? preview(related.content, 100)
+                    : undefined,
+              })
+            )
+          )
+        );
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: context,
+      return this.respond(
+        {
+          context: 'memory',
+          level,
+          memory: {
+            id: memory.id,
+            title: memory.title,
+            priority: memory.priority,
+            project: memory.project,
+            category: memory.category,
+            tags: memory.tags ?? [],
+            content: memory.content || undefined,
+            expires_at: row.expiresAt?.toISOString(),
+            expired: isExpired(row),
           },
-        ],
-      };
+          sections,
+        },
+        format,
+        max_tokens
+      );
     }, 'getSpecificMemoryContext');
   }
 
@@ -390,97 +698,172 @@ export class ContextServiceImpl implements ContextService {
         project,
         priority_min = 1,
         limit = 20,
+        max_tokens,
+        format = 'markdown',
       } = args;
+      this.validateOutput(format, max_tokens);
 
       // Get tasks based on time horizon
-      const tasks = await this.getTasksByTimeHorizon(time_horizon as any, {
-        category,
-        project,
-        priority_min,
-      });
-
-      if (tasks.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No tasks found for the specified criteria.`,
-            },
-          ],
-        };
-      }
-
-      // Calculate urgency scores
-      const tasksWithUrgency = tasks.map(task => ({
-        ...task,
-        urgency_score: this.calculateUrgencyScore(task),
-      }));
-
-      // Sort by urgency score
-      tasksWithUrgency.sort((a, b) => b.urgency_score - a.urgency_score);
-
-      // Group by urgency levels
-      const urgent = tasksWithUrgency.filter(t => t.urgency_score >= 8);
-      const high = tasksWithUrgency.filter(t => t.urgency_score >= 6 && t.urgency_score < 8);
-      const medium = tasksWithUrgency.filter(t => t.urgency_score >= 4 && t.urgency_score < 6);
-      const low = tasksWithUrgency.filter(t => t.urgency_score < 4);
-
-      let context = `🎯 **Work Priorities** (${time_horizon} view)\n\n`;
-
-      if (urgent.length > 0) {
-        context += `🚨 **URGENT** (${urgent.length} tasks):\n`;
-        context += this.formatPriorityTasks(urgent.slice(0, limit));
-      }
+      const tasks = (
+        await this.getTasksByTimeHorizon(time_horizon as any, {
+          category,
+          project,
+          priority_min,
+        })
+      ).map(task => this.flattenTask(task));
+
+      const tasksWithUrgency = await this.rankByUrgency(tasks);
+
+      // Group by urgency band; each project's model sets its own thresholds
+      const group = (name: ContextSectionName & UrgencyBreakdown['band']) => {
+        const grouped = tasksWithUrgency.filter(ranked => ranked.urgency.band === name);
+        return contextSection(
+          name,
+          grouped.slice(0, limit).map(ranked => this.rankedTaskItem(ranked)),
+          grouped.length
+        );
+      };
 
-      if (high.length > 0) {
-        context += `\n🔴 **HIGH PRIORITY** (${high.length} tasks):\n`;
-        context += this.formatPriorityTasks(high.slice(0, limit));
-      }
+      return this.respond(
+        {
+          context: 'work_priorities',
+          time_horizon: time_horizon as TimeHorizon,
+          sections: [...group('urgent'), ...group('high'), ...group('medium'), ...group('low')],
+          statistics: this.calculatePriorityStats(tasks),
+        },
+        format,
+        max_tokens
+      );
+    }, 'getWorkPriorities');
+  }
 
-      if (medium.length > 0) {
-        context += `\n🟡 **MEDIUM PRIORITY** (${medium.length} tasks):\n`;
-        context += this.formatPriorityTasks(medium.slice(0, limit));
-      }
+  /**
+   * Briefing for the start of a session: AI instructions, top work priorities
+   * and what changed since the previous session for the same project (or
+   * across all projects). Begins a session, as begin_session does, which the
+   * next briefing counts from.
+   */
+  async startSession(args: StartSessionArgs): Promise<ContextResponse> {
+    return handleAsyncError(async () => {
+      const {
+        project,
+        max_tokens,
+        limit = max_tokens === undefined ? 5 : BUDGETED_MAX_ITEMS,
+        format = 'markdown',
+      } = args;
+      this.validateOutput(format, max_tokens);
 
-      if (low.length > 0) {
-        context += `\n🟢 **LOW PRIORITY** (${low.length} tasks):\n`;
-        context += this.formatPriorityTasks(low.slice(0, limit));
+      let projectData: { id: number; name: string } | null = null;
+      if (project) {
+        projectData = await this.database.getProjectByName(project.toLowerCase());
+        if (!projectData) {
+          throw createNotFoundError('Project', project);
+        }
       }
+      const projectId = projectData?.id ?? null;
 
-      // Add summary statistics
-      const stats = this.calculatePriorityStats(tasksWithUrgency);
-      context += `\n📊 **Summary:**\n`;
-      context += `• Total Tasks: ${stats.total}\n`;
-      context += `• Overdue: ${stats.overdue}\n`;
-      context += `• Due Today: ${stats.dueToday}\n`;
-      context += `• Due This Week: ${stats.dueThisWeek}\n`;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: context,
+      const now = new Date();
+      const previous = await this.sessions.latest(projectId);
+      // The previous session's own work is not news; a session still active
+      // is counted from its start
+      const previousEnd = previous ? (previous.endedAt ?? previous.startedAt) : undefined;
+      const since = previousEnd ?? new Date(now.getTime() - FIRST_SESSION_LOOKBACK_DAYS * DAY_MS);
+
+      const aiInstructions = await this.getProjectAIInstructions(projectId ?? undefined);
+
+      const openTasks = (
+        await this.getTasksByTimeHorizon(TIME_HORIZONS.ALL as TimeHorizon, {
+          project: projectData?.name,
+        })
+      ).map(task => this.flattenTask(task));
+      const priorities = await this.rankByUrgency(openTasks);
+
+      const changes = await this.getChangesSince(since, now, projectId);
+      const changedMemories = await this.getChangedMemories(since, projectId, limit);
+      const memoryScores = await this.relevance.scoreById(changedMemories.map(memory => memory.id));
+      const overdueTasks = (await this.getNewlyOverdueTasks(since, now, projectId, limit)).map(
+        task => this.flattenTask(task)
+      );
+      const overdueUrgency = await this.urgency.scoreAll(overdueTasks);
+
+      const { session } = await this.sessions.begin(projectId, now);
+
+      return this.respond(
+        {
+          context: 'session',
+          session: {
+            id: session.id,
+            project: projectData?.name,
+            started_at: session.startedAt.toISOString(),
           },
-        ],
-      };
-    }, 'getWorkPriorities');
+          previous_session: previous
+            ? {
+                id: previous.id,
+                started_at: previous.startedAt.toISOString(),
+                ended_at: previous.endedAt?.toISOString(),
+              }
+            : undefined,
+          since: since.toISOString(),
+          changes,
+          summary: describeChanges(changes, previousEnd),
+          sections: [
+            ...contextSection('instructions', this.instructionItems(aiInstructions)),
+            ...contextSection(
+              'priorities',
+              priorities.slice(0, limit).map(ranked => this.rankedTaskItem(ranked)),
+              priorities.length
+            ),
+            ...contextSection(
+              'changed_memories',
+              changedMemories.map(memory =>
+                this.memoryItem(memory, {
+                  score: memoryScores.get(memory.id) ?? 0,
+                  change: memory.createdAt > since ? 'created' : 'updated',
+                  content: preview(memory.content, 150),
+                })
+              ),
+              changes.memories_created + changes.memories_updated
+            ),
+            ...contextSection(
+              'newly_overdue',
+              overdueTasks.map(task =>
+                this.taskItem(task, this.urgencyFields(overdueUrgency.get(task.id)!))
+              ),
+              changes.tasks_newly_overdue
+            ),
+          ],
+        },
+        format,
+        max_tokens
+      );
+    }, 'startSession');
   }
 
   // Private helper methods
 
-  private async getProjectAIInstructions(projectId: number): Promise<AIInstruction[]> {
+  /**
+   * Global instructions, plus the project's own when projectId is given
+   */
+  private async getProjectAIInstructions(projectId?: number): Promise<AIInstruction[]> {
     const instructions = await this.database.client.aIInstruction.findMany({
       where: {
-        OR: [{ scope: 'global' }, { scope: 'project', targetId: projectId }],
+        OR: [
+          { scope: 'global' },
+          ...(projectId !== undefined ? [{ scope: 'project', targetId: projectId }] : []),
+        ],
       },
       orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
     });
     return instructions as any;
   }
 
-  private async getProjectMemories(projectId: number, maxItems: number): Promise<Memory[]> {
+  private async getProjectMemories(
+    projectId: number,
+    maxItems: number,
+    includeExpired: boolean
+  ): Promise<Memory[]> {
     const memories = await this.database.client.memory.findMany({
-      where: { projectId },
+      where: { projectId, deletedAt: null, ...(!includeExpired && activeMemoryWhere()) },
       include: {
         category: true,
         memoryTags: {
@@ -503,6 +886,7 @@ export class ContextServiceImpl implements ContextService {
     const where: any = {
       projectId,
       archived: false,
+      deletedAt: null,
     };
 
     if (!includeCompleted) {
@@ -529,15 +913,16 @@ export class ContextServiceImpl implements ContextService {
   private async getProjectStatistics(projectId: number): Promise<any> {
     const [memoryCount, taskCount, completedTasks, overdueTasks] = await Promise.all([
       this.database.client.memory.count({
-        where: { projectId },
+        where: { projectId, deletedAt: null },
       }),
       this.database.client.task.count({
-        where: { projectId, archived: false },
+        where: { projectId, archived: false, deletedAt: null },
       }),
       this.database.client.task.count({
         where: {
           projectId,
           archived: false,
+          deletedAt: null,
           status: { name: 'completed' },
         },
       }),
@@ -545,6 +930,7 @@ export class ContextServiceImpl implements ContextService {
         where: {
           projectId,
           archived: false,
+          deletedAt: null,
           dueDate: { lt: new Date() },
           status: { name: { not: 'completed' } },
         },
@@ -607,6 +993,7 @@ export class ContextServiceImpl implements ContextService {
         projectId,
         id: { not: excludeTaskId },
         archived: false,
+        deletedAt: null,
       },
       include: {
         status: true,
@@ -619,39 +1006,92 @@ export class ContextServiceImpl implements ContextService {
 
   private async getSemanticMemories(
     query: string,
-    filters: { category?: string; project?: string; priority_min?: number },
+    filters: MemoryVectorFilters,
     limit: number,
     minSimilarity: number
   ): Promise<Memory[]> {
-    return this.embeddingService.searchMemories(query, filters, limit, minSimilarity);
+    return this.getRankedMemories(query, filters, 'semantic', limit, minSimilarity);
   }
 
-  private async getKeywordMemories(
-    topic: string,
-    filters: { category?: string; project?: string; priority_min?: number },
-    limit: number
+  private async getRankedMemories(
+    query: string,
+    filters: MemoryVectorFilters,
+    mode: SearchMode,
+    limit: number,
+    minSimilarity: number,
+    relevance: boolean = false
   ): Promise<Memory[]> {
-    const where: any = {
-      priority: { gte: filters.priority_min || 1 },
-      OR: [
-        { title: { contains: topic, mode: 'insensitive' } },
-        { content: { contains: topic, mode: 'insensitive' } },
-        { category: { name: { contains: topic, mode: 'insensitive' } } },
-        { project: { name: { contains: topic, mode: 'insensitive' } } },
-        { memoryTags: { tag: { name: { contains: topic, mode: 'insensitive' } } } },
-      ],
-    };
+    const matches = await this.ranker.rankMemories(query, filters, {
+      mode,
+      limit,
+      minSimilarity,
+      relevance,
+    });
 
-    if (filters.category) {
-      where.category = { name: filters.category.toLowerCase() };
+    if (matches.length === 0) {
+      return [];
     }
 
-    if (filters.project) {
-      where.project = { name: filters.project.toLowerCase() };
-    }
+    const memories = await this.database.client.memory.findMany({
+      where: { id: { in: matches.map(match => match.id) }, deletedAt: null },
+      include: {
+        category: true,
+        project: true,
+        memoryTags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+    });
 
+    // Keep ranking order and flatten relations for formatting
+    const memoriesById = new Map(memories.map(memory => [memory.id, memory]));
+    return matches
+      .filter(match => memoriesById.has(match.id))
+      .map(match => {
+        const memory = memoriesById.get(match.id)!;
+        return {
+          ...memory,
+          category: memory.category?.name,
+          project: memory.project?.name,
+          tags: memory.memoryTags.map(mt => mt.tag.name),
+          similarity_score: match.breakdown.semantic_similarity,
+          score_breakdown: match.breakdown,
+          matched_passage: match.passage,
+        };
+      }) as any;
+  }
+
+  /**
+   * Memories whose title, content, category, project or a tag contains the
+   * topic, ignoring case, ranked by relevance with every match counting the same
+   */
+  private async getSubstringMemories(
+    topic: string,
+    filters: MemoryVectorFilters,
+    limit: number
+  ): Promise<Memory[]> {
+    const contains = { contains: topic, mode: 'insensitive' as const };
     const memories = await this.database.client.memory.findMany({
-      where,
+      where: {
+        deletedAt: null,
+        priority: { gte: filters.priority_min || 1 },
+        ...(filters.category && { category: { name: filters.category.toLowerCase() } }),
+        ...(filters.project && { project: { name: filters.project.toLowerCase() } }),
+        AND: [
+          filters.include_expired ? {} : activeMemoryWhere(),
+          {
+            OR: [
+              { title: contains },
+              { content: contains },
+              { category: { name: contains } },
+              { project: { name: contains } },
+              { memoryTags: { some: { tag: { name: contains } } } },
+            ],
+          },
+        ],
+      },
       include: {
         category: true,
         project: true,
@@ -664,7 +1104,25 @@ export class ContextServiceImpl implements ContextService {
       orderBy: [{ priority: 'desc' }, { updatedAt: 'desc' }],
       take: limit,
     });
-    return memories as any;
+
+    const ranked = await this.relevance.rerank(
+      memories.map(memory => ({
+        id: memory.id,
+        breakdown: { mode: 'keyword' as const, score: 1 } as SearchScoreBreakdown,
+      })),
+      limit
+    );
+    const memoriesById = new Map(memories.map(memory => [memory.id, memory]));
+    return ranked.map(match => {
+      const memory = memoriesById.get(match.id)!;
+      return {
+        ...memory,
+        category: memory.category?.name,
+        project: memory.project?.name,
+        tags: memory.memoryTags.map(mt => mt.tag.name),
+        score_breakdown: match.breakdown,
+      };
+    }) as any;
   }
 
   private async getTasksByTimeHorizon(
@@ -673,6 +1131,7 @@ export class ContextServiceImpl implements ContextService {
   ): Promise<Task[]> {
     const where: any = {
       archived: false,
+      deletedAt: null,
       status: { name: { not: 'completed' } },
       priority: { gte: filters.priority_min || 1 },
     };
@@ -726,37 +1185,29 @@ export class ContextServiceImpl implements ContextService {
     return tasks as any;
   }
 
-  private calculateUrgencyScore(task: Task): number {
-    let score = task.priority * 2; // Base score from priority (2-10)
-
-    // Due date urgency
-    if (task.due_date) {
-      const dueDate = new Date(task.due_date);
-      const now = new Date();
-      const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (daysUntilDue < 0) {
-        score += 5; // Overdue
-      } else if (daysUntilDue === 0) {
-        score += 4; // Due today
-      } else if (daysUntilDue <= 1) {
-        score += 3; // Due tomorrow
-      } else if (daysUntilDue <= 3) {
-        score += 2; // Due in 3 days
-      } else if (daysUntilDue <= 7) {
-        score += 1; // Due in a week
-      }
-    }
-
-    // Status urgency
-    if (task.status === 'in_progress') {
-      score += 1; // In progress tasks get slight boost
-    }
+  /**
+   * Tasks by descending urgency; blocked tasks sink, tasks others wait on rise
+   */
+  private async rankByUrgency(tasks: Task[]): Promise<RankedTask[]> {
+    const dependencyInfo = await this.dependencies.getDependencyInfo(tasks.map(task => task.id));
+    const urgency = await this.urgency.scoreAll(tasks, dependencyInfo);
+    return tasks
+      .map(task => ({
+        task,
+        dependencies: dependencyInfo.get(task.id),
+        urgency: urgency.get(task.id)!,
+      }))
+      .sort((a, b) => b.urgency.score - a.urgency.score);
+  }
 
-    return Math.min(score, 10); // Cap at 10
+  /**
+   * Packing score and urgency breakdown of a task item
+   */
+  private urgencyFields(urgency: UrgencyBreakdown): Pick<ContextTaskItem, 'score' | 'urgency'> {
+    return { score: urgency.score / MAX_URGENCY, urgency };
   }
 
-  private calculatePriorityStats(tasks: any[]): any {
+  private calculatePriorityStats(tasks: Task[]): WorkPrioritiesPayload['statistics'] {
     const now = new Date();
     const today = now.toISOString().split('T')[0];
     const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
@@ -766,155 +1217,109 @@ export class ContextServiceImpl implements ContextService {
     return {
       total: tasks.length,
       overdue: tasks.filter(t => t.due_date && t.due_date < today).length,
-      dueToday: tasks.filter(t => t.due_date === today).length,
-      dueThisWeek: tasks.filter(t => t.due_date && t.due_date <= weekFromNow).length,
+      due_today: tasks.filter(t => t.due_date === today).length,
+      due_this_week: tasks.filter(t => t.due_date && t.due_date <= weekFromNow).length,
     };
   }
 
-  // Formatting helper methods
-
-  private formatAIInstructions(instructions: AIInstruction[]): string {
-    let context = `**🤖 AI Instructions:**\n`;
-    for (const instruction of instructions) {
-      const scopeLabel =
-        instruction.scope === 'global'
-          ? '🌍 Global'
-          : instruction.scope === 'project'
-            ? '📁 Project'
-            : '📂 Category';
-      context += `• ${scopeLabel} [P${instruction.priority}] ${instruction.title}\n  ${instruction.content}\n\n`;
-    }
-    return context;
-  }
-
-  private formatProjectMemories(memories: Memory[], level: ContextDetailLevel): string {
-    let context = `**💭 Recent Project Memories (${memories.length}):**\n`;
-    for (const memory of memories) {
-      context += `• [P${memory.priority}] ${memory.title}\n`;
-      if (level !== CONTEXT_DETAIL_LEVELS.BASIC) {
-        const preview =
-          memory.content.length > 200 ? memory.content.substring(0, 200) + '...' : memory.content;
-        context += `  ${preview}\n`;
-        context += `  📂 ${memory.category || 'None'} | 🏷️ ${Array.isArray(memory.tags) ? memory.tags.join(', ') : memory.tags || 'None'}\n`;
-      }
-      context += '\n';
-    }
-    return context;
-  }
-
-  private formatProjectTasks(tasks: Task[], level: ContextDetailLevel): string {
-    let context = `**📋 Active Project Tasks (${tasks.length}):**\n`;
-    for (const task of tasks) {
-      const overdueFlag =
-        task.due_date && new Date(task.due_date) < new Date() ? ' 🔴 OVERDUE' : '';
-      const statusEmoji = this.getStatusEmoji(task.status || 'not_started');
-
-      context += `• ${statusEmoji} [P${task.priority}] ${task.title}${overdueFlag}\n`;
-      if (level !== CONTEXT_DETAIL_LEVELS.BASIC) {
-        context += `  Status: ${task.status} | Due: ${task.due_date || 'No due date'}\n`;
-        if (task.description) {
-          const preview =
-            task.description.length > 150
-              ? task.description.substring(0, 150) + '...'
-              : task.description;
-          context += `  ${preview}\n`;
-        }
-        context += `  📂 ${task.category || 'None'} | 🏷️ ${Array.isArray(task.tags) ? task.tags.join(', ') : task.tags || 'None'}\n`;
-      }
-      context += '\n';
-    }
-    return context;
-  }
+  /**
+   * Counts of what changed between since and now, for one project when
+   * projectId is set
+   */
+  private async getChangesSince(
+    since: Date,
+    now: Date,
+    projectId: number | null
+  ): Promise<SessionBriefingPayload['changes']> {
+    const inProject = projectId !== null ? { projectId } : {};
+    const memoryWhere = { ...inProject, deletedAt: null, ...activeMemoryWhere(now) };
+
+    const [memoriesCreated, memoriesUpdated, tasksCreated, tasksCompleted, tasksNewlyOverdue] =
+      await Promise.all([
+        this.database.client.memory.count({
+          where: { ...memoryWhere, createdAt: { gt: since } },
+        }),
+        this.database.client.memory.count({
+          where: { ...memoryWhere, createdAt: { lte: since }, updatedAt: { gt: since } },
+        }),
+        this.database.client.task.count({
+          where: { ...inProject, deletedAt: null, createdAt: { gt: since } },
+        }),
+        this.database.client.task.count({
+          where: { ...inProject, deletedAt: null, completedAt: { gt: since } },
+        }),
+        this.database.client.task.count({ where: this.newlyOverdueWhere(since, now, projectId) }),
+      ]);
 
-  private formatProjectStatistics(stats: any): string {
-    let context = `**📊 Project Statistics:**\n`;
-    context += `• Memories: ${stats.memory_count}\n`;
-    context += `• Active Tasks: ${stats.task_count}\n`;
-    context += `• Completed Tasks: ${stats.completed_tasks}\n`;
-    context += `• Overdue Tasks: ${stats.overdue_tasks}\n`;
-    return context;
+    return {
+      memories_created: memoriesCreated,
+      memories_updated: memoriesUpdated,
+      tasks_created: tasksCreated,
+      tasks_completed: tasksCompleted,
+      tasks_newly_overdue: tasksNewlyOverdue,
+    };
   }
 
-  private formatTaskDetails(task: Task): string {
-    let context = `**Status:** ${task.status}\n`;
-    context += `**Priority:** ${task.priority}/5\n`;
-    context += `**Project:** ${task.project || 'None'}\n`;
-    context += `**Category:** ${task.category || 'None'}\n`;
-    context += `**Due Date:** ${task.due_date || 'No due date'}\n`;
-    context += `**Tags:** ${Array.isArray(task.tags) ? task.tags.join(', ') : task.tags || 'None'}\n\n`;
-
-    if (task.description) {
-      context += `**📝 Description:**\n${task.description}\n\n`;
-    }
-    return context;
+  /**
+   * Memories created or updated after since, most recent first
+   */
+  private async getChangedMemories(since: Date, projectId: number | null, limit: number) {
+    return this.database.client.memory.findMany({
+      where: {
+        ...(projectId !== null && { projectId }),
+        deletedAt: null,
+        updatedAt: { gt: since },
+        ...activeMemoryWhere(),
+      },
+      include: {
+        category: true,
+        project: true,
+        memoryTags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+      orderBy: [{ updatedAt: 'desc' }],
+      take: limit,
+    });
   }
 
-  private formatRelatedTasks(relatedTasks: Task[]): string {
-    let context = `**🔗 Related Tasks in Project:**\n`;
-    for (const relatedTask of relatedTasks) {
-      const relatedEmoji = this.getStatusEmoji(relatedTask.status || 'not_started');
-      context += `• ${relatedEmoji} [P${relatedTask.priority}] ${relatedTask.title}\n`;
-    }
-    context += '\n';
-    return context;
-  }
-
-  private formatSemanticMemories(memories: Memory[], level: ContextDetailLevel): string {
-    let context = `**💭 Related Memories:**\n`;
-    for (const memory of memories) {
-      const similarity = ((memory as any).similarity_score * 100).toFixed(0);
-      context += `• [${similarity}% match] ${memory.title}\n`;
-      if (level === CONTEXT_DETAIL_LEVELS.COMPREHENSIVE) {
-        const preview =
-          memory.content.length > 150 ? memory.content.substring(0, 150) + '...' : memory.content;
-        context += `  ${preview}\n`;
-      }
-    }
-    context += '\n';
-    return context;
-  }
-
-  private formatPriorityTasks(tasks: any[]): string {
-    let context = '';
-    for (const task of tasks) {
-      const overdueFlag =
-        task.due_date && new Date(task.due_date) < new Date() ? ' 🔴 OVERDUE' : '';
-      const statusEmoji = this.getStatusEmoji(task.status || 'not_started');
-      context += `• ${statusEmoji} [P${task.priority}] ${task.title}${overdueFlag}\n`;
-      context += `  Due: ${task.due_date || 'No due date'} | Project: ${task.project || 'None'}\n`;
-    }
-    return context;
+  /**
+   * Open tasks that came due between since and now
+   */
+  private async getNewlyOverdueTasks(
+    since: Date,
+    now: Date,
+    projectId: number | null,
+    limit: number
+  ): Promise<Task[]> {
+    const tasks = await this.database.client.task.findMany({
+      where: this.newlyOverdueWhere(since, now, projectId),
+      include: {
+        status: true,
+        category: true,
+        project: true,
+        taskTags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+      orderBy: [{ dueDate: 'asc' }, { priority: 'desc' }],
+      take: limit,
+    });
+    return tasks as any;
   }
 
-  private getStatusEmoji(status: string): string {
-    const statusEmojis: { [key: string]: string } = {
-      not_started: '⏳',
-      in_progress: '🔄',
-      completed: '✅',
-      cancelled: '❌',
-      on_hold: '⏸️',
+  private newlyOverdueWhere(since: Date, now: Date, projectId: number | null) {
+    return {
+      ...(projectId !== null && { projectId }),
+      archived: false,
+      deletedAt: null,
+      dueDate: { gte: since, lt: now },
+      status: { name: { notIn: ['completed', 'cancelled'] } },
     };
-    return statusEmojis[status] || '⏳';
-  }
-
-  private getPriorityEmoji(priority: number): string {
-    if (priority >= 5) return '🔴';
-    if (priority >= 4) return '🟠';
-    if (priority >= 3) return '🟡';
-    if (priority >= 2) return '🟢';
-    return '⚪';
-  }
-
-  private formatMemoryDetails(memory: Memory): string {
-    let context = `**Priority:** ${memory.priority}/5\n`;
-    context += `**Project:** ${memory.project || 'None'}\n`;
-    context += `**Category:** ${memory.category || 'None'}\n`;
-    context += `**Tags:** ${Array.isArray(memory.tags) ? memory.tags.join(', ') : memory.tags || 'None'}\n\n`;
-
-    if (memory.content) {
-      context += `**📝 Content:**\n${memory.content}\n\n`;
-    }
-    return context;
   }
 
   private async getRelatedTasksForMemory(
@@ -939,7 +1344,8 @@ export class ContextServiceImpl implements ContextService {
 
   private async getRelatedMemoriesForMemory(
     memoryId: number,
-    level: ContextDetailLevel
+    level: ContextDetailLevel,
+    includeExpired: boolean
   ): Promise<Memory[]> {
     // Get memories from the same project and category as the target memory
     const memory = await this.database.getMemoryWithRelations(memoryId);
@@ -947,7 +1353,7 @@ export class ContextServiceImpl implements ContextService {
       return [];
     }
 
-    const filters: any = {};
+    const filters: any = { include_expired: includeExpired };
     if (memory.project) {
       filters.project = memory.project.name;
     }
@@ -965,25 +1371,177 @@ export class ContextServiceImpl implements ContextService {
     });
   }
 
-  private formatRelatedMemories(memories: Memory[], level: ContextDetailLevel): string {
-    let context = `**💭 Related Memories:**\n`;
-    for (const memory of memories) {
-      const priorityEmoji = this.getPriorityEmoji(memory.priority);
-      context += `• ${priorityEmoji} [P${memory.priority}] ${memory.title}\n`;
-      if (level !== CONTEXT_DETAIL_LEVELS.BASIC && memory.content) {
-        const preview =
-          memory.content.length > 100 ? memory.content.substring(0, 100) + '...' : memory.content;
-        context += `  ${preview}\n`;
-      }
+  private validateOutput(format: ContextFormat, maxTokens?: number): void {
+    if (!VALID_CONTEXT_FORMATS.includes(format)) {
+      throw createValidationError(`Format must be one of: ${VALID_CONTEXT_FORMATS.join(', ')}`);
+    }
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+      throw createValidationError('max_tokens must be a positive integer');
     }
-    context += '\n';
-    return context;
+  }
+
+  /**
+   * Pack the payload into max_tokens, record the memories it shows and render it
+   */
+  private async respond(
+    payload: ContextPayload,
+    format: ContextFormat,
+    maxTokens?: number
+  ): Promise<ContextResponse> {
+    const renderer = createContextRenderer(format);
+    const packed =
+      maxTokens === undefined
+        ? payload
+        : new ContextPacker(this.tokenEstimator, renderer).pack(payload, maxTokens);
+
+    const memoryIds = packed.sections.flatMap(section =>
+      section.items.filter(item => item.kind === 'memory').map(item => item.id)
+    );
+    if (packed.context === 'memory') {
+      memoryIds.push(packed.memory.id);
+    }
+    await this.relevance.recordAccess(memoryIds);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderer.render(packed),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Task with its status, category, project and tags as names; rows loaded
+   * with relations carry them as objects
+   */
+  private flattenTask(row: any): Task {
+    return {
+      ...row,
+      status: relationName(row.status),
+      category: relationName(row.category),
+      project: relationName(row.project),
+      project_id: row.project_id ?? row.projectId,
+      tags: row.tags ?? row.taskTags?.map((tt: any) => tt.tag.name),
+      due_date: row.due_date ?? row.dueDate?.toISOString().split('T')[0],
+      created_at: row.created_at ?? row.createdAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Memory with its category, project and tags as names
+   */
+  private flattenMemory(row: any): Memory {
+    return {
+      ...row,
+      category: relationName(row.category),
+      project: relationName(row.project),
+      tags: row.tags ?? row.memoryTags?.map((mt: any) => mt.tag.name),
+    };
+  }
+
+  private instructionItems(instructions: AIInstruction[]): ContextInstructionItem[] {
+    return instructions.map(instruction => ({
+      kind: 'instruction',
+      id: instruction.id,
+      title: instruction.title,
+      priority: instruction.priority,
+      // Instructions say how to use everything else, so they are packed
+      // before any memory or task (those score at most 1)
+      score: 1 + instruction.priority / 5,
+      scope: instruction.scope,
+      content: instruction.content,
+    }));
+  }
+
+  private memoryItem(
+    row: any,
+    fields: Pick<ContextMemoryItem, 'score'> & Partial<ContextMemoryItem>
+  ): ContextMemoryItem {
+    const memory = this.flattenMemory(row);
+    return {
+      kind: 'memory',
+      id: memory.id,
+      title: memory.title,
+      priority: memory.priority,
+      category: memory.category,
+      project: memory.project,
+      tags: memory.tags,
+      ...fields,
+    };
+  }
+
+  private taskItem(
+    task: Task,
+    fields: Pick<ContextTaskItem, 'score'> & Partial<ContextTaskItem>
+  ): ContextTaskItem {
+    return {
+      kind: 'task',
+      id: task.id,
+      title: task.title,
+      priority: task.priority,
+      status: task.status || 'not_started',
+      due_date: task.due_date,
+      overdue: isOverdue(task.due_date),
+      category: task.category,
+      project: task.project,
+      tags: task.tags,
+      ...fields,
+    };
+  }
+
+  private rankedTaskItem({ task, dependencies, urgency }: RankedTask): ContextTaskItem {
+    return this.taskItem(task, {
+      ...this.urgencyFields(urgency),
+      blocked_by: dependencies?.blocked ? dependencies.blocked_by : undefined,
+      unblocks: dependencies?.unblocks || undefined,
+    });
+  }
+
+  private linkedMemoryItem(
+    linked: LinkedMemory,
+    level: ContextDetailLevel,
+    previewLength: number,
+    score: number
+  ): ContextMemoryItem {
+    return {
+      kind: 'memory',
+      id: linked.id,
+      title: linked.title,
+      priority: linked.priority,
+      score,
+      category: linked.category,
+      project: linked.project,
+      link_label: linked.label,
+      content:
+        level !== CONTEXT_DETAIL_LEVELS.BASIC && linked.content
+          ? preview(linked.content, previewLength)
+          : undefined,
+    };
+  }
+
+  private linkedTaskItem(linked: LinkedTask, urgency: UrgencyBreakdown): ContextTaskItem {
+    return {
+      kind: 'task',
+      id: linked.id,
+      title: linked.title,
+      priority: linked.priority,
+      ...this.urgencyFields(urgency),
+      status: linked.status,
+      due_date: linked.due_date,
+      overdue: isOverdue(linked.due_date),
+      link_label: linked.label,
+    };
   }
 }
 
 // Export factory function
-export function createContextService(db: PrismaDatabaseService): ContextService {
-  return new ContextServiceImpl(db, embeddingService);
+export function createContextService(
+  db: PrismaDatabaseService,
+  tokenEstimator?: TokenEstimator
+): ContextService {
+  return new ContextServiceImpl(db, embeddingService, tokenEstimator);
 }
 
 // Export singleton instance
@@ -0,0 +1,276 @@
+/**
+ * Embedding Indexer for AI Memory MCP Server
+ *
+ * Generates embeddings for memories and tasks and writes them to the
+ * pgvector columns. The item vector is built from createSearchableText, and
+ * its SHA-256 is stored next to the vector: when the searchable text and the
+ * active model are unchanged (e.g. only the priority was edited), indexing is
+ * skipped. Content longer than one chunk is also split into overlapping
+ * passages, each stored with its own vector so the whole text is searchable.
+ * Item and passage texts for a whole batch of items go through a single
+ * generateEmbeddings call. Embedding failures are logged and reported to the
+ * caller but never fail the surrounding create/update operation.
+ *
+ * @fileoverview Shared embedding write path for memory and task services
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { StoredChunk } from '../core/vector-store.js';
+import { CHUNK_TITLE_MAX_LENGTH, config } from '../core/config.js';
+import { BatchEmbeddingResult, embeddingService } from '../embedding-service.js';
+import { chunkText } from '../utils/text-chunker.js';
+import { contentHash } from '../utils/content-hash.js';
+
+/**
+ * An item to embed: its searchable text and the title and body used for passages
+ */
+interface IndexableItem {
+  id: number;
+  title: string;
+  body: string;
+  searchText: string;
+  textHash: string;
+  embeddingModel: string | null;
+  embeddingTextHash: string | null;
+}
+
+/**
+ * Embedded vectors for one item, ready to store
+ */
+interface EmbeddedItem {
+  id: number;
+  textHash: string;
+  embedding?: number[];
+  model?: string;
+  chunks: StoredChunk[];
+  error?: string;
+}
+
+/**
+ * Options for indexing calls
+ */
+export interface IndexOptions {
+  /** Re-embed even when the searchable text and model are unchanged */
+  force?: boolean;
+}
+
+const tagsInclude = { include: { tag: true } } as const;
+
+export class EmbeddingIndexer {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Generate and store the embedding and passage chunks for a memory
+   *
+   * @returns true when the stored embedding is current (newly written or unchanged)
+   */
+  async indexMemory(memoryId: number, options: IndexOptions = {}): Promise<boolean> {
+    const [indexed] = await this.indexMemories([memoryId], options);
+    return indexed;
+  }
+
+  /**
+   * Generate and store the embedding and passage chunks for a task
+   *
+   * @returns true when the stored embedding is current (newly written or unchanged)
+   */
+  async indexTask(taskId: number, options: IndexOptions = {}): Promise<boolean> {
+    const [indexed] = await this.indexTasks([taskId], options);
+    return indexed;
+  }
+
+  /**
+   * Index several memories with batched inference
+   *
+   * @returns Per ID, whether its stored embedding is current
+   */
+  async indexMemories(memoryIds: number[], options: IndexOptions = {}): Promise<boolean[]> {
+    const memories = await this.db.client.memory.findMany({
+      where: { id: { in: memoryIds } },
+      include: { category: true, project: true, memoryTags: tagsInclude },
+    });
+
+    const items = memories.map(memory => {
+      const searchText = embeddingService.createSearchableText(
+        {
+          title: memory.title,
+          content: memory.content,
+          category: memory.category?.name,
+          project: memory.project?.name,
+          tags: memory.memoryTags.map(mt => mt.tag.name),
+        },
+        'memory'
+      );
+      return this.toIndexable(memory, memory.content, searchText);
+    });
+
+    const stored = await this.embedAndStore(items, options, 'memory', async item => {
+      await this.db.vectors.setMemoryEmbedding(
+        item.id,
+        item.embedding!,
+        item.model!,
+        item.textHash
+      );
+      await this.db.vectors.replaceMemoryChunks(item.id, item.chunks, item.model!);
+    });
+
+    return memoryIds.map(id => stored.get(id) ?? false);
+  }
+
+  /**
+   * Index several tasks with batched inference
+   *
+   * @returns Per ID, whether its stored embedding is current
+   */
+  async indexTasks(taskIds: number[], options: IndexOptions = {}): Promise<boolean[]> {
+    const tasks = await this.db.client.task.findMany({
+      where: { id: { in: taskIds } },
+      include: { status: true, category: true, project: true, taskTags: tagsInclude },
+    });
+
+    const items = tasks.map(task => {
+      const searchText = embeddingService.createSearchableText(
+        {
+          title: task.title,
+          description: task.description,
+          status: task.status?.name,
+          category: task.category?.name,
+          project: task.project?.name,
+          tags: task.taskTags.map(tt => tt.tag.name),
+        },
+        'task'
+      );
+      return this.toIndexable(task, task.description, searchText);
+    });
+
+    const stored = await this.embedAndStore(items, options, 'task', async item => {
+      await this.db.vectors.setTaskEmbedding(item.id, item.embedding!, item.model!, item.textHash);
+      await this.db.vectors.replaceTaskChunks(item.id, item.chunks, item.model!);
+    });
+
+    return taskIds.map(id => stored.get(id) ?? false);
+  }
+
+  private toIndexable(
+    row: {
+      id: number;
+      title: string;
+      embeddingModel: string | null;
+      embeddingTextHash: string | null;
+    },
+    body: string,
+    searchText: string
+  ): IndexableItem {
+    return {
+      id: row.id,
+      title: row.title,
+      body,
+      searchText,
+      textHash: contentHash(searchText),
+      embeddingModel: row.embeddingModel,
+      embeddingTextHash: row.embeddingTextHash,
+    };
+  }
+
+  /**
+   * Embed items whose searchable text or model changed and persist them
+   *
+   * @returns Per item ID, whether its stored embedding is current
+   */
+  private async embedAndStore(
+    items: IndexableItem[],
+    options: IndexOptions,
+    type: 'memory' | 'task',
+    store: (item: EmbeddedItem) => Promise<void>
+  ): Promise<Map<number, boolean>> {
+    const model = embeddingService.getModelName();
+    const outcome = new Map<number, boolean>();
+
+    const changed = items.filter(item => {
+      const current =
+        !options.force && item.embeddingModel === model && item.embeddingTextHash === item.textHash;
+      if (current) {
+        outcome.set(item.id, true);
+      }
+      return !current;
+    });
+
+    for (const item of await this.embedItems(changed)) {
+      try {
+        if (!item.embedding || !item.model) {
+          throw new Error(item.error);
+        }
+        await store(item);
+        outcome.set(item.id, true);
+      } catch (embeddingError) {
+        console.warn(`Failed to generate embedding for ${type} ${item.id}:`, embeddingError);
+        outcome.set(item.id, false);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Embed item searchable texts and their passages (prefixed with the title for
+   * context) in one batched call. Passages that fail are skipped, not stored empty.
+   */
+  private async embedItems(items: IndexableItem[]): Promise<EmbeddedItem[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const texts: string[] = [];
+    const plans = items.map(item => {
+      const itemIndex = texts.push(item.searchText) - 1;
+      // A long title would push the end of every passage past the truncation limit
+      const title = item.title.substring(0, CHUNK_TITLE_MAX_LENGTH);
+      const chunks = chunkText(item.body, {
+        chunkSize: config.embedding.chunkSize,
+        overlap: config.embedding.chunkOverlap,
+      }).map(chunk => ({
+        chunk,
+        textIndex: texts.push(`${title}: ${chunk.content}`) - 1,
+      }));
+      return { item, itemIndex, chunks };
+    });
+
+    let results: BatchEmbeddingResult[];
+    try {
+      results = await embeddingService.generateEmbeddings(texts);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return items.map(item => ({
+        id: item.id,
+        textHash: item.textHash,
+        chunks: [],
+        error: message,
+      }));
+    }
+
+    return plans.map(({ item, itemIndex, chunks }) => {
+      const itemResult = results[itemIndex];
+      const stored: StoredChunk[] = [];
+      for (const { chunk, textIndex } of chunks) {
+        const chunkResult = results[textIndex];
+        if (chunkResult.result) {
+          stored.push({ ...chunk, embedding: chunkResult.result.embedding });
+        } else {
+          console.warn(
+            `Failed to embed passage ${chunk.index} of "${item.title}":`,
+            chunkResult.error
+          );
+        }
+      }
+
+      return {
+        id: item.id,
+        textHash: item.textHash,
+        embedding: itemResult.result?.embedding,
+        model: itemResult.result?.model,
+        error: itemResult.error,
+        chunks: stored,
+      };
+    });
+  }
+}
@@ -0,0 +1,828 @@
+/**
+ * Import Service for AI Memory MCP Server
+ *
+ * Loads memories and tasks in the format produced by export_memories and
+ * export_tasks. Every record is validated before anything is written, and a
+ * dry run reports what would be created, overwritten or skipped. Conflicts
+ * with existing rows (and between records of the same import) are detected
+ * by ID or by title within the same project and resolved by the chosen
+ * strategy. Missing categories, projects and tags are created, records naming
+ * a project in the trash are invalid, and imported rows are embedded in
+ * batches once they are written.
+ *
+ * @fileoverview Import of exported memories and tasks with conflict handling
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { EmbeddingIndexer } from './embedding-indexer.js';
+import { TaskEventLog } from './task-event-log.js';
+import { MemoryVersionHistory } from './memory-versions.js';
+import { trashedProjectMessage } from './trash-service.js';
+import {
+  ImportConflictStrategy,
+  ImportMatchKey,
+  ImportMemoriesArgs,
+  ImportMemoryRecord,
+  ImportOptionsArgs,
+  ImportTaskRecord,
+  ImportTasksArgs,
+  MCPResponse,
+  VALID_IMPORT_CONFLICT_STRATEGIES,
+  VALID_IMPORT_MATCH_KEYS,
+  VALID_TASK_STATUSES,
+} from '../core/types.js';
+import {
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+
+/**
+ * Maximum number of records accepted by one import call
+ */
+const MAX_IMPORT_RECORDS = 10000;
+
+/**
+ * Number of imported rows embedded per indexer call
+ */
+const EMBEDDING_BATCH_SIZE = 50;
+
+/**
+ * Number of validation problems quoted in a rejected import's error message
+ */
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * Actor recorded in the history of imported tasks
+ */
+const IMPORT_ACTOR = 'import';
+
+type ImportAction = 'create' | 'overwrite' | 'duplicate' | 'skip';
+
+/**
+ * What an import will do with one valid record
+ */
+interface PlannedRecord<T> {
+  index: number;
+  record: T;
+  action: ImportAction;
+  key?: string;
+  existingId?: number;
+}
+
+/**
+ * Import service interface
+ */
+export interface ImportService {
+  importMemories(args: ImportMemoriesArgs): Promise<MCPResponse>;
+  importTasks(args: ImportTasksArgs): Promise<MCPResponse>;
+}
+
+/**
+ * Import Service Implementation
+ *
+ * Records are written one at a time (each with its tags in a transaction),
+ * so a failure part-way leaves earlier records imported; re-running the same
+ * import with on_conflict "skip" picks up where it stopped.
+ */
+export class ImportServiceImpl implements ImportService {
+  private indexer: EmbeddingIndexer;
+  private events: TaskEventLog;
+  private versions: MemoryVersionHistory;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.indexer = new EmbeddingIndexer(db);
+    this.events = new TaskEventLog(db);
+    this.versions = new MemoryVersionHistory(db);
+  }
+
+  /**
+   * Import memories from export_memories output
+   */
+  async importMemories(args: ImportMemoriesArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const records = this.unwrapRecords(args.memories, 'memories');
+      const options = this.resolveOptions(args);
+
+      const problems = this.collectProblems(records, record => this.validateMemory(record));
+      await this.checkTrashedProjects(records, problems);
+      const valid = records
+        .map((record, index) => ({ record: record as ImportMemoryRecord, index }))
+        .filter(({ index }) => !problems.has(index));
+
+      const plan = await this.plan(valid, options, record =>
+        this.findExistingMemory(record, options.match_by)
+      );
+
+      if (options.dry_run) {
+        const wouldCreate = await this.findMissingNames(valid.map(({ record }) => record));
+        return this.dryRunResponse(
+          plan,
+          problems,
+          records.length,
+          options,
+          wouldCreate,
+          'memories'
+        );
+      }
+      this.rejectInvalid(problems);
+
+      const names = new NameResolver(this.db);
+      const written = new Map<string, number>();
+      const ids = new Map<number, number>();
+
+      for (const item of plan) {
+        if (item.action === 'skip') continue;
+
+        const { record } = item;
+        const creating = item.action !== 'overwrite';
+        const categoryId =
+          record.category !== undefined || creating
+            ? await names.category(record.category || 'general')
+            : undefined;
+        const projectId =
+          record.project !== undefined
+            ? record.project
+              ? await names.project(record.project)
+              : null
+            : undefined;
+        const tagIds = record.tags !== undefined ? await names.tags(record.tags) : undefined;
+
+        const data = {
+          title: record.title,
+          content: record.content,
+          categoryId,
+          projectId,
+          priority: record.priority,
+        };
+
+        const targetId = creating ? undefined : (written.get(item.key!) ?? item.existingId!);
+
+        const writeTags = async (prisma: Prisma.TransactionClient, memoryId: number) => {
+          if (tagIds !== undefined) {
+            await prisma.memoryTag.deleteMany({ where: { memoryId } });
+            if (tagIds.length > 0) {
+              await prisma.memoryTag.createMany({
+                data: tagIds.map(tagId => ({ memoryId, tagId })),
+              });
+            }
+          }
+        };
+
+        // Overwritten memories keep their previous state as a version
+        const id = await this.db.client.$transaction(async prisma => {
+          if (targetId !== undefined) {
+            await this.versions.track(prisma, targetId, async () => {
+              await prisma.memory.update({ where: { id: targetId }, data });
+              await writeTags(prisma, targetId);
+            });
+            return targetId;
+          }
+
+          const memory = await prisma.memory.create({
+            data: {
+              ...data,
+              priority: record.priority ?? 1,
+              createdAt: record.created_at ? new Date(record.created_at) : undefined,
+            },
+          });
+          await writeTags(prisma, memory.id);
+
+          return memory.id;
+        });
+
+        if (item.key) written.set(item.key, id);
+        ids.set(item.index, id);
+      }
+
+      const embeddings = await this.embed([...new Set(ids.values())], batch =>
+        this.indexer.indexMemories(batch)
+      );
+
+      return this.importResponse(plan, ids, records.length, options, embeddings, 'memories');
+    });
+  }
+
+  /**
+   * Import tasks from export_tasks output
+   */
+  async importTasks(args: ImportTasksArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const records = this.unwrapRecords(args.tasks, 'tasks');
+      const options = this.resolveOptions(args);
+
+      const statuses = await this.db.client.status.findMany({ select: { name: true } });
+      const knownStatuses = new Set<string>([
+        ...VALID_TASK_STATUSES,
+        ...statuses.map(status => status.name),
+      ]);
+
+      const problems = this.collectProblems(records, record =>
+        this.validateTask(record, knownStatuses)
+      );
+      await this.checkTrashedProjects(records, problems);
+      const valid = records
+        .map((record, index) => ({ record: record as ImportTaskRecord, index }))
+        .filter(({ index }) => !problems.has(index));
+
+      const plan = await this.plan(valid, options, record =>
+        this.findExistingTask(record, options.match_by)
+      );
+
+      if (options.dry_run) {
+        const wouldCreate = await this.findMissingNames(
+          valid.map(({ record }) => record),
+          true
+        );
+        return this.dryRunResponse(
+          plan,
+          problems,
+          records.length,
+          options,
+          wouldCreate,
+          'tasks'
+        );
+      }
+      this.rejectInvalid(problems);
+
+      const names = new NameResolver(this.db);
+      const written = new Map<string, number>();
+      const ids = new Map<number, number>();
+
+      for (const item of plan) {
+        if (item.action === 'skip') continue;
+
+        const { record } = item;
+        const creating = item.action !== 'overwrite';
+        const statusId =
+          record.status !== undefined || creating
+            ? await names.status(record.status || 'not_started')
+            : undefined;
+        const categoryId =
+          record.category !== undefined || creating
+            ? await names.category(record.category || 'general')
+            : undefined;
+        const projectId =
+          record.project !== undefined
+            ? record.project
+              ? await names.project(record.project)
+              : null
+            : undefined;
+        const tagIds = record.tags !== undefined ? await names.tags(record.tags, true) : undefined;
+
+        const data = {
+          title: record.title,
+          description: record.description,
+          statusId,
+          categoryId,
+          projectId,
+          priority: record.priority,
+          dueDate: record.due_date !== undefined ? this.toDate(record.due_date) : undefined,
+          completedAt:
+            record.completed_at !== undefined ? this.toDate(record.completed_at) : undefined,
+          archived: record.archived,
+        };
+
+        const targetId = creating ? undefined : (written.get(item.key!) ?? item.existingId!);
+
+        const writeTags = async (prisma: Prisma.TransactionClient, taskId: number) => {
+          if (tagIds === undefined) return;
+          await prisma.taskTag.deleteMany({ where: { taskId } });
+          if (tagIds.length > 0) {
+            await prisma.taskTag.createMany({
+              data: tagIds.map(tagId => ({ taskId, tagId })),
+            });
+          }
+        };
+
+        // Imported changes show up in the task history like any other edit
+        const id = await this.db.client.$transaction(async prisma => {
+          if (targetId !== undefined) {
+            await this.events.track(prisma, targetId, IMPORT_ACTOR, async () => {
+              await prisma.task.update({ where: { id: targetId }, data });
+              await writeTags(prisma, targetId);
+            });
+            return targetId;
+          }
+
+          const task = await prisma.task.create({
+            data: {
+              ...data,
+              statusId: statusId!,
+              description: record.description ?? '',
+              priority: record.priority ?? 1,
+              archived: record.archived ?? false,
+              createdAt: record.created_at ? new Date(record.created_at) : undefined,
+            },
+          });
+          await writeTags(prisma, task.id);
+          await this.events.recordCreated(prisma, task.id, IMPORT_ACTOR);
+          return task.id;
+        });
+
+        if (item.key) written.set(item.key, id);
+        ids.set(item.index, id);
+      }
+
+      const embeddings = await this.embed([...new Set(ids.values())], batch =>
+        this.indexer.indexTasks(batch)
+      );
+
+      return this.importResponse(plan, ids, records.length, options, embeddings, 'tasks');
+    });
+  }
+
+  /**
+   * Accept a bare record array, an export response payload ({ data: [...] })
+   * or either of those as a JSON string
+   */
+  private unwrapRecords(value: unknown, field: string): unknown[] {
+    let records = value;
+    if (typeof records === 'string') {
+      try {
+        records = JSON.parse(records);
+      } catch {
+        throw createValidationError(`${field} must be valid JSON`);
+      }
+    }
+    if (records && !Array.isArray(records) && Array.isArray((records as any).data)) {
+      records = (records as any).data;
+    }
+
+    if (!Array.isArray(records)) {
+      throw createValidationError(`${field} must be an array of records in the export format`);
+    }
+    if (records.length > MAX_IMPORT_RECORDS) {
+      throw createValidationError(
+        `Cannot import more than ${MAX_IMPORT_RECORDS} ${field} in one call`
+      );
+    }
+
+    return records;
+  }
+
+  private resolveOptions(args: ImportOptionsArgs): Required<ImportOptionsArgs> {
+    const { on_conflict = 'skip', match_by = 'title_project', dry_run = false } = args;
+
+    if (!VALID_IMPORT_CONFLICT_STRATEGIES.includes(on_conflict)) {
+      throw createValidationError(
+        `on_conflict must be one of: ${VALID_IMPORT_CONFLICT_STRATEGIES.join(', ')}`
+      );
+    }
+    if (!VALID_IMPORT_MATCH_KEYS.includes(match_by)) {
+      throw createValidationError(`match_by must be one of: ${VALID_IMPORT_MATCH_KEYS.join(', ')}`);
+    }
+
+    return { on_conflict, match_by, dry_run: dry_run === true };
+  }
+
+  private collectProblems(
+    records: unknown[],
+    validate: (record: any) => string[]
+  ): Map<number, string[]> {
+    const problems = new Map<number, string[]>();
+    records.forEach((record, index) => {
+      const recordProblems =
+        record && typeof record === 'object' && !Array.isArray(record)
+          ? validate(record)
+          : ['record must be an object'];
+      if (recordProblems.length > 0) {
+        problems.set(index, recordProblems);
+      }
+    });
+    return problems;
+  }
+
+  /**
+   * Mark otherwise valid records that name a trashed project as invalid; the
+   * project has to be restored (with its memories and tasks) or purged first
+   */
+  private async checkTrashedProjects(
+    records: unknown[],
+    problems: Map<number, string[]>
+  ): Promise<void> {
+    const named = records.flatMap((record, index) => {
+      const project = (record as { project?: unknown }).project;
+      return !problems.has(index) && typeof project === 'string' && project
+        ? [{ index, project }]
+        : [];
+    });
+    if (named.length === 0) return;
+
+    const trashed = await this.db.client.project.findMany({
+      where: {
+        name: { in: [...new Set(named.map(({ project }) => project.toLowerCase()))] },
+        deletedAt: { not: null },
+      },
+      select: { id: true, name: true },
+    });
+    const trashedIds = new Map(trashed.map(project => [project.name, project.id]));
+
+    for (const { index, project } of named) {
+      const id = trashedIds.get(project.toLowerCase());
+      if (id !== undefined) {
+        problems.set(index, [trashedProjectMessage(project, id)]);
+      }
+    }
+  }
+
+  private rejectInvalid(problems: Map<number, string[]>): void {
+    if (problems.size === 0) return;
+
+    const quoted = [...problems.entries()]
+      .slice(0, MAX_REPORTED_PROBLEMS)
+      .map(([index, messages]) => `record ${index}: ${messages.join(', ')}`);
+    throw createValidationError(
+      `Import rejected, ${problems.size} invalid record(s) (nothing was written): ${quoted.join('; ')}`
+    );
+  }
+
+  private validateMemory(record: any): string[] {
+    const problems = this.validateCommon(record);
+    if (typeof record.content !== 'string' || record.content.trim().length === 0) {
+      problems.push('content is required');
+    }
+    return problems;
+  }
+
+  private validateTask(record: any, knownStatuses: Set<string>): string[] {
+    const problems = this.validateCommon(record);
+
+    if (record.description !== undefined && typeof record.description !== 'string') {
+      problems.push('description must be a string');
+    }
+    if (
+      record.status !== undefined &&
+      (typeof record.status !== 'string' || !knownStatuses.has(record.status.toLowerCase()))
+    ) {
+      problems.push(`status must be one of: ${[...knownStatuses].join(', ')}`);
+    }
+    for (const field of ['due_date', 'completed_at']) {
+      if (record[field] !== undefined && record[field] !== null && !this.isDate(record[field])) {
+        problems.push(`${field} must be a valid date`);
+      }
+    }
+    if (record.archived !== undefined && typeof record.archived !== 'boolean') {
+      problems.push('archived must be a boolean');
+    }
+
+    return problems;
+  }
+
+  /**
+   * Checks shared by memory and task records
+   */
+  private validateCommon(record: any): string[] {
+    const problems: string[] = [];
+
+    if (typeof record.title !== 'string' || record.title.trim().length === 0) {
+      problems.push('title is required');
+    }
+    if (record.id !== undefined && (!Number.isInteger(record.id) || record.id < 1)) {
+      problems.push('id must be a positive integer');
+    }
+    for (const field of ['category', 'project']) {
+      const value = record[field];
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        problems.push(`${field} must be a string`);
+      }
+    }
+    if (
+      record.priority !== undefined &&
+      (!Number.isInteger(record.priority) || record.priority < 1 || record.priority > 5)
+    ) {
+      problems.push('priority must be an integer between 1 and 5');
+    }
+    if (
+      record.tags !== undefined &&
+      typeof record.tags !== 'string' &&
+      !(Array.isArray(record.tags) && record.tags.every((tag: unknown) => typeof tag === 'string'))
+    ) {
+      problems.push('tags must be a comma-separated string or an array of strings');
+    }
+    if (record.created_at !== undefined && !this.isDate(record.created_at)) {
+      problems.push('created_at must be a valid date');
+    }
+
+    return problems;
+  }
+
+  /**
+   * Decide what to do with each valid record. A record also conflicts with an
+   * earlier record of the same import that has the same key.
+   */
+  private async plan<T extends { id?: number; title: string; project?: string }>(
+    records: Array<{ record: T; index: number }>,
+    options: Required<ImportOptionsArgs>,
+    findExisting: (record: T) => Promise<number | undefined>
+  ): Promise<PlannedRecord<T>[]> {
+    const seen = new Set<string>();
+    const plan: PlannedRecord<T>[] = [];
+
+    for (const { record, index } of records) {
+      const key = this.conflictKey(record, options.match_by);
+      const existingId = key ? await findExisting(record) : undefined;
+      const conflict = existingId !== undefined || (key !== undefined && seen.has(key));
+
+      if (key) seen.add(key);
+      plan.push({
+        index,
+        record,
+        key,
+        existingId,
+        action: conflict ? this.conflictAction(options.on_conflict) : 'create',
+      });
+    }
+
+    return plan;
+  }
+
+  private conflictAction(strategy: ImportConflictStrategy): ImportAction {
+    return strategy === 'overwrite' ? 'overwrite' : strategy === 'duplicate' ? 'duplicate' : 'skip';
+  }
+
+  private conflictKey(
+    record: { id?: number; title: string; project?: string },
+    matchBy: ImportMatchKey
+  ): string | undefined {
+    if (matchBy === 'id') {
+      return record.id !== undefined ? `id:${record.id}` : undefined;
+    }
+    return `title:${(record.project || '').toLowerCase()}\u0000${record.title}`;
+  }
+
+  private async findExistingMemory(
+    record: ImportMemoryRecord,
+    matchBy: ImportMatchKey
+  ): Promise<number | undefined> {
+    const memory =
+      matchBy === 'id'
+        ? await this.db.client.memory.findUnique({
+            where: { id: record.id, deletedAt: null },
+            select: { id: true },
+          })
+        : await this.db.client.memory.findFirst({
+            where: { title: record.title, deletedAt: null, ...this.projectWhere(record.project) },
+            select: { id: true },
+            orderBy: { id: 'asc' },
+          });
+    return memory?.id;
+  }
+
+  private async findExistingTask(
+    record: ImportTaskRecord,
+    matchBy: ImportMatchKey
+  ): Promise<number | undefined> {
+    const task =
+      matchBy === 'id'
+        ? await this.db.client.task.findUnique({
+            where: { id: record.id, deletedAt: null },
+            select: { id: true },
+          })
+        : await this.db.client.task.findFirst({
+            where: { title: record.title, deletedAt: null, ...this.projectWhere(record.project) },
+            select: { id: true },
+            orderBy: { id: 'asc' },
+          });
+    return task?.id;
+  }
+
+  private projectWhere(project?: string) {
+    return project ? { project: { name: project.toLowerCase() } } : { projectId: null };
+  }
+
+  /**
+   * Categories, projects and tags referenced by the records that do not exist
+   * yet; task tags are compared lowercased, as they are stored
+   */
+  private async findMissingNames(
+    records: Array<{ category?: string; project?: string; tags?: string | string[] }>,
+    lowercaseTags: boolean = false
+  ) {
+    const categories = new Set(records.map(r => (r.category || 'general').toLowerCase()));
+    const projects = new Set(
+      records.filter(r => r.project).map(r => (r.project as string).toLowerCase())
+    );
+    const tags = new Set(records.flatMap(r => splitTags(r.tags, lowercaseTags)));
+
+    const [existingCategories, existingProjects, existingTags] = await Promise.all([
+      this.db.client.category.findMany({ where: { name: { in: [...categories] } } }),
+      this.db.client.project.findMany({ where: { name: { in: [...projects] } } }),
+      this.db.client.tag.findMany({ where: { name: { in: [...tags] } } }),
+    ]);
+
+    const missing = (names: Set<string>, existing: Array<{ name: string }>) => {
+      const found = new Set(existing.map(row => row.name));
+      return [...names].filter(name => !found.has(name)).sort();
+    };
+
+    return {
+      categories: missing(categories, existingCategories),
+      projects: missing(projects, existingProjects),
+      tags: missing(tags, existingTags),
+    };
+  }
+
+  /**
+   * Embed imported rows in batches
+   */
+  private async embed(
+    ids: number[],
+    index: (batch: number[]) => Promise<boolean[]>
+  ): Promise<{ indexed: number; failed: number }> {
+    let indexed = 0;
+    for (let i = 0; i < ids.length; i += EMBEDDING_BATCH_SIZE) {
+      const results = await index(ids.slice(i, i + EMBEDDING_BATCH_SIZE));
+      indexed += results.filter(ok => ok).length;
+    }
+    return { indexed, failed: ids.length - indexed };
+  }
+
+  private summarize(plan: PlannedRecord<unknown>[], total: number, invalid: number) {
+    const count = (action: ImportAction) => plan.filter(item => item.action === action).length;
+    return {
+      total,
+      created: count('create'),
+      overwritten: count('overwrite'),
+      duplicated: count('duplicate'),
+      skipped: count('skip'),
+      invalid,
+    };
+  }
+
+  private dryRunResponse(
+    plan: PlannedRecord<{ title: string }>[],
+    problems: Map<number, string[]>,
+    total: number,
+    options: Required<ImportOptionsArgs>,
+    wouldCreate: { categories: string[]; projects: string[]; tags: string[] },
+    label: 'memories' | 'tasks'
+  ): MCPResponse {
+    const summary = this.summarize(plan, total, problems.size);
+
+    const result = {
+      dry_run: true,
+      valid: problems.size === 0,
+      on_conflict: options.on_conflict,
+      match_by: options.match_by,
+      summary,
+      records: plan.map(item => ({
+        index: item.index,
+        title: item.record.title,
+        action: item.action,
+        existing_id: item.existingId,
+      })),
+      errors: [...problems.entries()].map(([index, messages]) => ({ index, errors: messages })),
+      would_create: wouldCreate,
+    };
+
+    const message =
+      problems.size > 0
+        ? `Dry run: ${problems.size} of ${total} ${label} are invalid; fix them before importing`
+        : `Dry run: ${summary.created + summary.duplicated} ${label} would be created, ${summary.overwritten} overwritten, ${summary.skipped} skipped`;
+
+    return createMCPResponse(result, message);
+  }
+
+  private importResponse(
+    plan: PlannedRecord<{ id?: number; title: string }>[],
+    ids: Map<number, number>,
+    total: number,
+    options: Required<ImportOptionsArgs>,
+    embeddings: { indexed: number; failed: number },
+    label: 'memories' | 'tasks'
+  ): MCPResponse {
+    const summary = this.summarize(plan, total, 0);
+
+    const result = {
+      dry_run: false,
+      on_conflict: options.on_conflict,
+      match_by: options.match_by,
+      summary,
+      records: plan.map(item => ({
+        index: item.index,
+        title: item.record.title,
+        action: item.action,
+        source_id: item.record.id,
+        id: ids.get(item.index) ?? item.existingId,
+      })),
+      embeddings,
+    };
+
+    const embeddingNote =
+      embeddings.failed > 0
+        ? `; ${embeddings.failed} could not be embedded (run start_reembedding to retry)`
+        : '';
+
+    return createMCPResponse(
+      result,
+      `Imported ${summary.created + summary.duplicated + summary.overwritten} ${label} (${summary.created + summary.duplicated} created, ${summary.overwritten} overwritten, ${summary.skipped} skipped)${embeddingNote}`
+    );
+  }
+
+  private isDate(value: unknown): boolean {
+    return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+  }
+
+  private toDate(value: string | null | undefined): Date | null {
+    return value ? new Date(value) : null;
+  }
+}
+
+/**
+ * Split tags given as an array or a comma-separated string; task tags are
+ * lowercased like the task service stores them
+ */
+function splitTags(tags: string | string[] | undefined, lowercase: boolean = false): string[] {
+  const names = Array.isArray(tags) ? tags : (tags || '').split(',');
+  return [
+    ...new Set(
+      names.map(tag => (lowercase ? tag.trim().toLowerCase() : tag.trim())).filter(tag => tag)
+    ),
+  ];
+}
+
+/**
+ * Finds or creates categories, projects, statuses and tags by name, caching
+ * IDs for the duration of one import
+ */
+class NameResolver {
+  private ids = new Map<string, number>();
+
+  constructor(private db: PrismaDatabaseService) {}
+
+  async category(name: string): Promise<number> {
+    const key = name.toLowerCase();
+    return this.cached(`category:${key}`, async () => {
+      const category =
+        (await this.db.client.category.findUnique({ where: { name: key } })) ??
+        (await this.db.client.category.create({
+          data: { name: key, description: `Auto-created category: ${name}` },
+        }));
+      return category.id;
+    });
+  }
+
+  async project(name: string): Promise<number> {
+    const key = name.toLowerCase();
+    return this.cached(`project:${key}`, async () => {
+      const project =
+        (await this.db.client.project.findUnique({ where: { name: key } })) ??
+        (await this.db.client.project.create({
+          data: { name: key, description: `Auto-created project: ${name}` },
+        }));
+      if (project.deletedAt) {
+        throw createValidationError(trashedProjectMessage(name, project.id));
+      }
+      return project.id;
+    });
+  }
+
+  async status(name: string): Promise<number> {
+    const key = name.toLowerCase();
+    return this.cached(`status:${key}`, async () => {
+      const sortOrder = VALID_TASK_STATUSES.indexOf(key as (typeof VALID_TASK_STATUSES)[number]);
+      const status =
+        (await this.db.client.status.findUnique({ where: { name: key } })) ??
+        (await this.db.client.status.create({
+          data: {
+            name: key,
+            description: `Auto-created status: ${name}`,
+            isCompletedStatus: key === 'completed',
+            sortOrder: sortOrder >= 0 ? sortOrder + 1 : 99,
+          },
+        }));
+      return status.id;
+    });
+  }
+
+  async tags(tags: string | string[], lowercase: boolean = false): Promise<number[]> {
+    const ids: number[] = [];
+    for (const name of splitTags(tags, lowercase)) {
+      ids.push(
+        await this.cached(`tag:${name}`, async () => {
+          const tag =
+            (await this.db.client.tag.findUnique({ where: { name } })) ??
+            (await this.db.client.tag.create({ data: { name } }));
+          return tag.id;
+        })
+      );
+    }
+    return ids;
+  }
+
+  private async cached(key: string, resolve: () => Promise<number>): Promise<number> {
+    let id = this.ids.get(key);
+    if (id === undefined) {
+      id = await resolve();
+      this.ids.set(key, id);
+    }
+    return id;
+  }
+}
+
+// Export factory function
+export function createImportService(db: PrismaDatabaseService): ImportService {
+  return new ImportServiceImpl(db);
+}
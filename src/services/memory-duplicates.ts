@@ -0,0 +1,214 @@
+/**
+ * Memory Duplicate Detection for AI Memory MCP Server
+ *
+ * Agents tend to store the same fact again in later sessions. Duplicates are
+ * memories in the same project (or both without a project) whose item
+ * vectors are at least config.embedding.duplicateThreshold similar. Passage
+ * chunks are ignored, so a short memory is not reported as a duplicate of a
+ * long one that merely contains it. Only vectors from the active embedding
+ * model are compared.
+ *
+ * @fileoverview Duplicate candidates for new memories and near-duplicate clusters
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { SimilarPair, VectorMatch } from '../core/vector-store.js';
+import { config } from '../core/config.js';
+import { embeddingService } from '../embedding-service.js';
+
+/**
+ * Most candidates reported for a new memory
+ */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Nearest neighbours compared per memory when clustering
+ */
+const CLUSTER_NEIGHBOURS = 5;
+
+/**
+ * Fields of a memory that its searchable text is built from
+ */
+export interface DuplicateProbe {
+  title: string;
+  content: string;
+  category?: string;
+  project?: string;
+  tags?: string[];
+}
+
+/**
+ * Existing memory that looks like a duplicate of a new one
+ */
+export interface DuplicateCandidate {
+  id: number;
+  title: string;
+  project?: string;
+  priority: number;
+  similarity: number;
+  updated_at: string;
+}
+
+/**
+ * Group of memories that are near-duplicates of each other
+ */
+export interface DuplicateCluster {
+  project?: string;
+  // Highest and lowest similarity among the pairs that formed the cluster
+  max_similarity: number;
+  min_similarity: number;
+  // Highest priority, then most recently updated: the natural merge_memories target
+  suggested_target_id: number;
+  memories: Array<{
+    id: number;
+    title: string;
+    priority: number;
+    tags: string[];
+    content_length: number;
+    updated_at: string;
+  }>;
+}
+
+export class MemoryDuplicateDetector {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Existing memories similar enough to a memory about to be stored to be
+   * duplicates, most similar first. Returns nothing when the embedding or the
+   * vector lookup fails, so storing never fails because of the check.
+   */
+  async findCandidates(
+    probe: DuplicateProbe,
+    minSimilarity: number = config.embedding.duplicateThreshold
+  ): Promise<DuplicateCandidate[]> {
+    let matches: VectorMatch[];
+    try {
+      const searchText = embeddingService.createSearchableText(probe, 'memory');
+      const [embedded] = await embeddingService.generateEmbeddings([searchText]);
+      if (!embedded?.result) {
+        console.error('[Duplicates] Skipping duplicate check:', embedded?.error);
+        return [];
+      }
+
+      matches = await this.db.vectors.findSimilarMemories(
+        embedded.result.embedding,
+        {
+          project: probe.project,
+          without_project: !probe.project,
+          embedding_model: embedded.result.model,
+        },
+        MAX_CANDIDATES,
+        minSimilarity
+      );
+    } catch (error) {
+      console.error('[Duplicates] Skipping duplicate check:', error);
+      return [];
+    }
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const memories = await this.db.client.memory.findMany({
+      where: { id: { in: matches.map(match => match.id) }, deletedAt: null },
+      include: { project: true },
+    });
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+
+    return matches
+      .filter(match => byId.has(match.id))
+      .map(match => {
+        const memory = byId.get(match.id)!;
+        return {
+          id: memory.id,
+          title: memory.title,
+          project: memory.project?.name,
+          priority: memory.priority,
+          similarity: Number(match.similarity.toFixed(3)),
+          updated_at: memory.updatedAt.toISOString(),
+        };
+      });
+  }
+
+  /**
+   * Group near-duplicate memories into clusters, largest similarity first.
+   * Memories are joined into one cluster when any pair between them is at
+   * least minSimilarity similar.
+   */
+  async findClusters(
+    project: string | undefined,
+    minSimilarity: number,
+    limit: number
+  ): Promise<DuplicateCluster[]> {
+    const pairs = await this.db.vectors.findSimilarMemoryPairs(
+      { project, embedding_model: embeddingService.getModelName() },
+      CLUSTER_NEIGHBOURS,
+      minSimilarity
+    );
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const groups = this.group(pairs);
+    const memories = await this.db.client.memory.findMany({
+      where: { id: { in: groups.flatMap(group => group.ids) }, deletedAt: null },
+      include: { project: true, memoryTags: { include: { tag: true } } },
+    });
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+
+    const clusters: DuplicateCluster[] = [];
+    for (const group of groups) {
+      const rows = group.ids.flatMap(id => (byId.has(id) ? [byId.get(id)!] : []));
+      if (rows.length < 2) continue;
+
+      const target = [...rows].sort(
+        (a, b) => b.priority - a.priority || b.updatedAt.getTime() - a.updatedAt.getTime()
+      )[0];
+      clusters.push({
+        project: rows[0].project?.name,
+        max_similarity: Number(Math.max(...group.similarities).toFixed(3)),
+        min_similarity: Number(Math.min(...group.similarities).toFixed(3)),
+        suggested_target_id: target.id,
+        memories: rows.map(row => ({
+          id: row.id,
+          title: row.title,
+          priority: row.priority,
+          tags: row.memoryTags.map(mt => mt.tag.name),
+          content_length: row.content.length,
+          updated_at: row.updatedAt.toISOString(),
+        })),
+      });
+    }
+
+    return clusters.sort((a, b) => b.max_similarity - a.max_similarity).slice(0, limit);
+  }
+
+  /**
+   * Connected components of the similarity pairs
+   */
+  private group(pairs: SimilarPair[]): Array<{ ids: number[]; similarities: number[] }> {
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root)! !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    for (const { id, other_id } of pairs) {
+      if (!parent.has(id)) parent.set(id, id);
+      if (!parent.has(other_id)) parent.set(other_id, other_id);
+      parent.set(find(id), find(other_id));
+    }
+
+    const groups = new Map<number, { ids: number[]; similarities: number[] }>();
+    for (const id of [...parent.keys()].sort((a, b) => a - b)) {
+      const root = find(id);
+      groups.set(root, groups.get(root) ?? { ids: [], similarities: [] });
+      groups.get(root)!.ids.push(id);
+    }
+    for (const pair of pairs) {
+      groups.get(find(pair.id))!.similarities.push(pair.similarity);
+    }
+    return [...groups.values()];
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Memory Expiry for AI Memory MCP Server
+ *
+ * Some memories are only true for a while ("staging DB is down until
+ * Friday"). A memory with expires_at is left out of search and context once
+ * that time has passed, unless include_expired is set, and a periodic sweep
+ * marks it archived. Moving expires_at into the future or clearing it with
+ * update_memory takes the memory out of the archive again.
+ *
+ * @fileoverview Expiry dates, the active-memory filter and the archive sweep
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { config } from '../core/config.js';
+import { createValidationError } from '../utils/error-handling.js';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prisma filter for memories that are neither archived nor past their expiry
+ */
+export function activeMemoryWhere(now: Date = new Date()): Prisma.MemoryWhereInput {
+  return { archived: false, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+/**
+ * Whether a memory row is archived or past its expiry
+ */
+export function isExpired(
+  memory: { archived: boolean; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return memory.archived || (memory.expiresAt !== null && memory.expiresAt <= now);
+}
+
+/**
+ * Parse an expires_at argument. A date without a time keeps the memory valid
+ * through that day, so it expires at the start of the next day (UTC).
+ */
+export function parseExpiry(value: string): Date {
+  const expiresAt = DATE_ONLY.test(value)
+    ? new Date(new Date(`${value}T00:00:00.000Z`).getTime() + DAY_MS)
+    : new Date(value);
+  if (isNaN(expiresAt.getTime())) {
+    throw createValidationError(
+      `Invalid expires_at "${value}"; use an ISO date (2026-10-23) or date and time`
+    );
+  }
+  return expiresAt;
+}
+
+export class MemoryExpiry {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Archive memories whose expiry has passed
+   *
+   * @returns Number of memories archived
+   */
+  async archiveExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await this.db.client.memory.updateMany({
+      where: { archived: false, deletedAt: null, expiresAt: { lte: now } },
+      data: { archived: true },
+    });
+    return count;
+  }
+
+  /**
+   * Archive expired memories now and every config.expiry.sweepMinutes while
+   * the server runs; does nothing when the sweep is disabled
+   */
+  async startSweep(): Promise<void> {
+    const { sweepMinutes } = config.expiry;
+    if (sweepMinutes === 0 || this.sweepTimer) return;
+
+    const run = async () => {
+      try {
+        const archived = await this.archiveExpired();
+        if (archived > 0) {
+          console.error(`[Expiry] Archived ${archived} expired memories`);
+        }
+      } catch (error) {
+        console.error('[Expiry] Sweep failed:', error);
+      }
+    };
+
+    await run();
+    this.sweepTimer = setInterval(run, sweepMinutes * 60 * 1000);
+    this.sweepTimer.unref();
+  }
+}
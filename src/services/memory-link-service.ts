@@ -0,0 +1,406 @@
+/**
+ * Memory Link Service for AI Memory MCP Server
+ *
+ * Manages explicit, typed links from a memory to another memory or to a task:
+ * "supersedes", "relates_to", "documents" and "derived_from". Context tools
+ * show these links ahead of the project/category heuristics. Links are owned
+ * by the memory they start from; "relates_to" between two memories is
+ * symmetric and stored once.
+ *
+ * @fileoverview Typed memory-to-memory and memory-to-task links
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import {
+  LinkItemsArgs,
+  LinkType,
+  MCPResponse,
+  UnlinkItemsArgs,
+  VALID_LINK_TYPES,
+} from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+import { isExpired } from './memory-expiry.js';
+
+type LinkTargetType = 'memory' | 'task';
+
+/**
+ * Target kinds each link type may point at
+ */
+const LINK_TARGETS: Record<LinkType, LinkTargetType[]> = {
+  supersedes: ['memory'],
+  relates_to: ['memory', 'task'],
+  documents: ['task'],
+  derived_from: ['memory'],
+};
+
+/**
+ * How a link reads from the memory it starts from and from its target
+ */
+const LINK_LABELS: Record<LinkType, { outgoing: string; incoming: string }> = {
+  supersedes: { outgoing: 'Supersedes', incoming: 'Superseded by' },
+  relates_to: { outgoing: 'Relates to', incoming: 'Relates to' },
+  documents: { outgoing: 'Documents', incoming: 'Documented by' },
+  derived_from: { outgoing: 'Derived from', incoming: 'Source of' },
+};
+
+const linkedMemorySelect = {
+  id: true,
+  title: true,
+  content: true,
+  priority: true,
+  deletedAt: true,
+  expiresAt: true,
+  archived: true,
+  category: { select: { name: true } },
+  project: { select: { name: true } },
+} satisfies Prisma.MemorySelect;
+
+const linkedTaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  archived: true,
+  deletedAt: true,
+  createdAt: true,
+  projectId: true,
+  status: { select: { name: true } },
+  taskTags: { select: { tag: { select: { name: true } } } },
+} satisfies Prisma.TaskSelect;
+
+type LinkedMemoryRow = Prisma.MemoryGetPayload<{ select: typeof linkedMemorySelect }>;
+type LinkedTaskRow = Prisma.TaskGetPayload<{ select: typeof linkedTaskSelect }>;
+
+/**
+ * Memory on the other end of a link
+ */
+export interface LinkedMemory {
+  link_id: number;
+  link_type: LinkType;
+  // Whether the link starts from the memory being described or points at it
+  direction: 'outgoing' | 'incoming';
+  label: string;
+  id: number;
+  title: string;
+  content: string;
+  priority: number;
+  category?: string;
+  project?: string;
+  // Archived or past its expiry; context tools leave it out unless asked
+  expired: boolean;
+}
+
+/**
+ * Task a memory links to
+ */
+export interface LinkedTask {
+  link_id: number;
+  link_type: LinkType;
+  label: string;
+  id: number;
+  title: string;
+  status: string;
+  priority: number;
+  due_date?: string;
+  archived: boolean;
+  project_id?: number;
+  tags: string[];
+  created_at: string;
+}
+
+/**
+ * Every live item linked to or from a memory
+ */
+export interface MemoryLinks {
+  memories: LinkedMemory[];
+  tasks: LinkedTask[];
+}
+
+/**
+ * Memory link service interface
+ */
+export interface MemoryLinkService {
+  linkItems(args: LinkItemsArgs): Promise<MCPResponse>;
+  unlinkItems(args: UnlinkItemsArgs): Promise<MCPResponse>;
+  getMemoryLinks(memoryId: number): Promise<MemoryLinks>;
+  getTaskLinks(taskId: number): Promise<LinkedMemory[]>;
+}
+
+/**
+ * Memory Link Service Implementation
+ *
+ * Links to or from trashed items are kept and reappear when the item is
+ * restored; they are left out of context until then.
+ */
+export class MemoryLinkServiceImpl implements MemoryLinkService {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Link a memory to another memory or to a task
+   */
+  async linkItems(args: LinkItemsArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { memory_id, link_type } = args;
+      const target = this.validateLink(args);
+
+      if (!VALID_LINK_TYPES.includes(link_type)) {
+        throw createValidationError(`link_type must be one of: ${VALID_LINK_TYPES.join(', ')}`);
+      }
+      if (!LINK_TARGETS[link_type].includes(target.type)) {
+        throw createValidationError(
+          `A "${link_type}" link must point at a ${LINK_TARGETS[link_type].join(' or ')}`
+        );
+      }
+
+      const memory = await this.db.client.memory.findUnique({
+        where: { id: memory_id, deletedAt: null },
+        select: { title: true },
+      });
+      if (!memory) {
+        throw createNotFoundError('Memory', memory_id);
+      }
+
+      const targetRow =
+        target.type === 'memory'
+          ? await this.db.client.memory.findUnique({
+              where: { id: target.id, deletedAt: null },
+              select: { title: true },
+            })
+          : await this.db.client.task.findUnique({
+              where: { id: target.id, deletedAt: null },
+              select: { title: true },
+            });
+      if (!targetRow) {
+        throw createNotFoundError(target.type === 'memory' ? 'Memory' : 'Task', target.id);
+      }
+
+      const existing = await this.db.client.memoryLink.findFirst({
+        where: { memoryId: memory_id, linkType: link_type, ...this.targetWhere(target) },
+      });
+      if (existing) {
+        throw createValidationError(
+          `Memory ${memory_id} already has a "${link_type}" link to ${target.type} ${target.id}`
+        );
+      }
+
+      // The same link type the other way round is either a duplicate
+      // (relates_to) or a contradiction (supersedes, derived_from)
+      if (target.type === 'memory') {
+        const reverse = await this.db.client.memoryLink.findFirst({
+          where: { memoryId: target.id, targetMemoryId: memory_id, linkType: link_type },
+        });
+        if (reverse) {
+          throw createValidationError(
+            `Memory ${target.id} already has a "${link_type}" link to memory ${memory_id}`
+          );
+        }
+      }
+
+      const link = await this.db.client.memoryLink.create({
+        data: {
+          memoryId: memory_id,
+          linkType: link_type,
+          targetMemoryId: target.type === 'memory' ? target.id : null,
+          targetTaskId: target.type === 'task' ? target.id : null,
+        },
+      });
+
+      return createMCPResponse(
+        {
+          id: link.id,
+          memory_id,
+          link_type,
+          target_type: target.type,
+          target_id: target.id,
+        },
+        `Memory "${memory.title}" → ${LINK_LABELS[link_type].outgoing.toLowerCase()} → ${target.type} "${targetRow.title}"`
+      );
+    });
+  }
+
+  /**
+   * Remove the links from a memory to another item, optionally only those of
+   * one type
+   */
+  async unlinkItems(args: UnlinkItemsArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { memory_id, link_type } = args;
+      const target = this.validateLink(args);
+
+      if (link_type !== undefined && !VALID_LINK_TYPES.includes(link_type)) {
+        throw createValidationError(`link_type must be one of: ${VALID_LINK_TYPES.join(', ')}`);
+      }
+
+      const typeFilter = link_type ? { linkType: link_type } : {};
+      const where: Prisma.MemoryLinkWhereInput =
+        target.type === 'memory'
+          ? {
+              OR: [
+                { memoryId: memory_id, targetMemoryId: target.id, ...typeFilter },
+                // relates_to is symmetric, so it may have been stored the other way round
+                ...(!link_type || link_type === 'relates_to'
+                  ? [{ memoryId: target.id, targetMemoryId: memory_id, linkType: 'relates_to' }]
+                  : []),
+              ],
+            }
+          : { memoryId: memory_id, targetTaskId: target.id, ...typeFilter };
+
+      const { count } = await this.db.client.memoryLink.deleteMany({ where });
+      if (count === 0) {
+        throw createNotFoundError(
+          `${link_type ? `"${link_type}" link` : 'Link'} from memory ${memory_id} to ${target.type} ${target.id}`
+        );
+      }
+
+      return createMCPResponse(
+        { memory_id, target_type: target.type, target_id: target.id, removed: count },
+        `Removed ${count} link${count === 1 ? '' : 's'} between memory ${memory_id} and ${target.type} ${target.id}`
+      );
+    });
+  }
+
+  /**
+   * Live memories and tasks linked to or from a memory, explicit links first
+   * in the order they were made
+   */
+  async getMemoryLinks(memoryId: number): Promise<MemoryLinks> {
+    const [outgoing, incoming] = await Promise.all([
+      this.db.client.memoryLink.findMany({
+        where: { memoryId },
+        include: {
+          targetMemory: { select: linkedMemorySelect },
+          targetTask: { select: linkedTaskSelect },
+        },
+        orderBy: { id: 'asc' },
+      }),
+      this.db.client.memoryLink.findMany({
+        where: { targetMemoryId: memoryId },
+        include: { memory: { select: linkedMemorySelect } },
+        orderBy: { id: 'asc' },
+      }),
+    ]);
+
+    const memories: LinkedMemory[] = [];
+    const tasks: LinkedTask[] = [];
+
+    for (const link of outgoing) {
+      const linkType = link.linkType as LinkType;
+      if (link.targetMemory && !link.targetMemory.deletedAt) {
+        memories.push(this.toLinkedMemory(link.id, linkType, 'outgoing', link.targetMemory));
+      }
+      if (link.targetTask && !link.targetTask.deletedAt) {
+        tasks.push(this.toLinkedTask(link.id, linkType, link.targetTask));
+      }
+    }
+    for (const link of incoming) {
+      if (!link.memory.deletedAt) {
+        memories.push(
+          this.toLinkedMemory(link.id, link.linkType as LinkType, 'incoming', link.memory)
+        );
+      }
+    }
+
+    return { memories, tasks };
+  }
+
+  /**
+   * Live memories that link to a task
+   */
+  async getTaskLinks(taskId: number): Promise<LinkedMemory[]> {
+    const links = await this.db.client.memoryLink.findMany({
+      where: { targetTaskId: taskId, memory: { deletedAt: null } },
+      include: { memory: { select: linkedMemorySelect } },
+      orderBy: { id: 'asc' },
+    });
+
+    return links.map(link =>
+      this.toLinkedMemory(link.id, link.linkType as LinkType, 'incoming', link.memory)
+    );
+  }
+
+  // Private helper methods
+
+  /**
+   * Check the memory ID and that exactly one valid target is given
+   */
+  private validateLink(args: LinkItemsArgs | UnlinkItemsArgs): {
+    type: LinkTargetType;
+    id: number;
+  } {
+    const { memory_id, target_memory_id, target_task_id } = args;
+
+    if (!Number.isInteger(memory_id) || memory_id <= 0) {
+      throw createValidationError('memory_id must be a positive integer');
+    }
+    if ((target_memory_id === undefined) === (target_task_id === undefined)) {
+      throw createValidationError('Provide exactly one of target_memory_id or target_task_id');
+    }
+
+    const target: { type: LinkTargetType; id: number } =
+      target_memory_id !== undefined
+        ? { type: 'memory', id: target_memory_id }
+        : { type: 'task', id: target_task_id! };
+    if (!Number.isInteger(target.id) || target.id <= 0) {
+      throw createValidationError(`target_${target.type}_id must be a positive integer`);
+    }
+    if (target.type === 'memory' && target.id === memory_id) {
+      throw createValidationError('A memory cannot be linked to itself');
+    }
+    return target;
+  }
+
+  private targetWhere(target: { type: LinkTargetType; id: number }) {
+    return target.type === 'memory' ? { targetMemoryId: target.id } : { targetTaskId: target.id };
+  }
+
+  private toLinkedMemory(
+    linkId: number,
+    linkType: LinkType,
+    direction: 'outgoing' | 'incoming',
+    row: LinkedMemoryRow
+  ): LinkedMemory {
+    return {
+      link_id: linkId,
+      link_type: linkType,
+      direction,
+      label: LINK_LABELS[linkType][direction],
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      priority: row.priority,
+      category: row.category?.name,
+      project: row.project?.name,
+      expired: isExpired(row),
+    };
+  }
+
+  private toLinkedTask(linkId: number, linkType: LinkType, row: LinkedTaskRow): LinkedTask {
+    return {
+      link_id: linkId,
+      link_type: linkType,
+      label: LINK_LABELS[linkType].outgoing,
+      id: row.id,
+      title: row.title,
+      status: row.status.name,
+      priority: row.priority,
+      due_date: row.dueDate?.toISOString().split('T')[0],
+      archived: row.archived,
+      project_id: row.projectId ?? undefined,
+      tags: row.taskTags.map(tt => tt.tag.name),
+      created_at: row.createdAt.toISOString(),
+    };
+  }
+}
+
+/**
+ * Create a new memory link service instance
+ */
+export function createMemoryLinkService(db: PrismaDatabaseService): MemoryLinkService {
+  return new MemoryLinkServiceImpl(db);
+}
@@ -0,0 +1,191 @@
+/**
+ * Memory Relevance for AI Memory MCP Server
+ *
+ * Records when memories are used and blends that into their ranking. A
+ * memory is "used" whenever get_memory, search_memories or a context tool
+ * returns it. Its relevance is a weighted mean (config.relevance.weights) of:
+ * - match: how well it matched the query, relative to the best match
+ * - priority: its manual 1-5 priority
+ * - recency: halves every config.relevance.halfLifeDays since it was last
+ *   used or updated, whichever is later
+ * - usage: its access count on a logarithmic scale
+ *
+ * @fileoverview Memory access tracking and relevance re-ranking
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { config } from '../core/config.js';
+import { RelevanceBreakdown, SearchScoreBreakdown } from '../core/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Access count at which the usage part reaches 1
+ */
+const USAGE_SATURATION = 50;
+
+/**
+ * Usage fields relevance is computed from
+ */
+export interface MemoryUsage {
+  priority: number;
+  accessCount: number;
+  lastAccessedAt: Date | null;
+  updatedAt: Date;
+}
+
+export class MemoryRelevance {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Count one use of each memory. Written with raw SQL so updated_at, which
+   * records content changes, is left alone. Failures are logged rather than
+   * thrown, so tracking never breaks a read.
+   */
+  async recordAccess(memoryIds: number[]): Promise<void> {
+    const ids = [...new Set(memoryIds)];
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.client.$executeRaw`
+        UPDATE memories
+        SET access_count = access_count + 1, last_accessed_at = NOW()
+        WHERE id IN (${Prisma.join(ids)})`;
+    } catch (error) {
+      console.error('[Relevance] Failed to record memory access:', error);
+    }
+  }
+
+  /**
+   * Reorder ranked memories by relevance and attach its breakdown. The match
+   * part is each item's mode score divided by the best score in the list.
+   */
+  async rerank<T extends { id: number; breakdown: SearchScoreBreakdown }>(
+    matches: T[],
+    limit: number
+  ): Promise<T[]> {
+    if (matches.length === 0) {
+      return matches;
+    }
+
+    const rows = await this.db.client.memory.findMany({
+      where: { id: { in: matches.map(match => match.id) } },
+      select: {
+        id: true,
+        priority: true,
+        accessCount: true,
+        lastAccessedAt: true,
+        updatedAt: true,
+      },
+    });
+    const usageById = new Map(rows.map(row => [row.id, row]));
+    const bestScore = Math.max(...matches.map(match => match.breakdown.score));
+    const now = new Date();
+
+    return matches
+      .filter(match => usageById.has(match.id))
+      .map(match => {
+        const matchScore = bestScore > 0 ? match.breakdown.score / bestScore : 0;
+        const relevance = this.score(matchScore, usageById.get(match.id)!, now);
+        return { ...match, breakdown: { ...match.breakdown, relevance } };
+      })
+      .sort((a, b) => b.breakdown.relevance.score - a.breakdown.relevance.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Relevance scores of memories by id, for packing context. Without a match
+   * score (a project's memories, say) the match part is left out and the
+   * score is the weighted mean of priority, recency and usage alone.
+   */
+  async scoreById(
+    memoryIds: number[],
+    matchOf?: (id: number) => number
+  ): Promise<Map<number, number>> {
+    if (memoryIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.db.client.memory.findMany({
+      where: { id: { in: memoryIds } },
+      select: {
+        id: true,
+        priority: true,
+        accessCount: true,
+        lastAccessedAt: true,
+        updatedAt: true,
+      },
+    });
+    const now = new Date();
+
+    return new Map(
+      rows.map(row => [
+        row.id,
+        matchOf ? this.score(matchOf(row.id), row, now).score : this.standing(row, now),
+      ])
+    );
+  }
+
+  /**
+   * Relevance of one memory for a match score between 0 and 1
+   */
+  score(match: number, usage: MemoryUsage, now: Date = new Date()): RelevanceBreakdown {
+    const { weights } = config.relevance;
+    const parts = { match, ...this.usageParts(usage, now) };
+    const totalWeight = weights.match + weights.priority + weights.recency + weights.usage;
+    const score =
+      (weights.match * parts.match +
+        weights.priority * parts.priority +
+        weights.recency * parts.recency +
+        weights.usage * parts.usage) /
+      totalWeight;
+
+    return {
+      score: round(score),
+      match: round(parts.match),
+      priority: round(parts.priority),
+      recency: round(parts.recency),
+      usage: round(parts.usage),
+    };
+  }
+
+  /**
+   * Relevance of one memory without a match part; 0 when only match is weighted
+   */
+  private standing(usage: MemoryUsage, now: Date): number {
+    const { weights } = config.relevance;
+    const parts = this.usageParts(usage, now);
+    const totalWeight = weights.priority + weights.recency + weights.usage;
+    if (totalWeight === 0) {
+      return 0;
+    }
+    return round(
+      (weights.priority * parts.priority +
+        weights.recency * parts.recency +
+        weights.usage * parts.usage) /
+        totalWeight
+    );
+  }
+
+  private usageParts(
+    usage: MemoryUsage,
+    now: Date
+  ): { priority: number; recency: number; usage: number } {
+    const { halfLifeDays } = config.relevance;
+    const lastUsed = Math.max(usage.lastAccessedAt?.getTime() ?? 0, usage.updatedAt.getTime());
+    const daysUnused = Math.max(0, (now.getTime() - lastUsed) / DAY_MS);
+
+    return {
+      priority: (Math.min(Math.max(usage.priority, 1), 5) - 1) / 4,
+      recency: 0.5 ** (daysUnused / halfLifeDays),
+      usage: Math.min(1, Math.log1p(usage.accessCount) / Math.log1p(USAGE_SATURATION)),
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
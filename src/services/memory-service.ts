@@ -8,8 +8,17 @@
  * @fileoverview Memory service with semantic search and embedding integration
  */
 
+import { Prisma } from '@prisma/client';
 import { PrismaDatabaseService } from '../core/prisma-database.js';
-import { embeddingService } from '../embedding-service.js';
+import { EmbeddingIndexer } from './embedding-indexer.js';
+import { SearchRanker } from './search-ranker.js';
+import { MemoryVersionHistory } from './memory-versions.js';
+import { MemoryDuplicateDetector } from './memory-duplicates.js';
+import { MemoryRelevance } from './memory-relevance.js';
+import { MemoryExpiry, parseExpiry } from './memory-expiry.js';
+import { SessionLog } from './session-log.js';
+import { trashedProjectMessage } from './trash-service.js';
+import { config } from '../core/config.js';
 import {
   Memory,
   CreateMemoryArgs,
@@ -20,7 +29,14 @@ import {
   DeleteMemoryArgs,
   GetMemoryStatsArgs,
   ExportMemoriesArgs,
+  ListMemoryVersionsArgs,
+  DiffMemoryVersionsArgs,
+  RestoreMemoryVersionArgs,
+  FindDuplicateMemoriesArgs,
+  MergeMemoriesArgs,
+  GetStaleMemoriesArgs,
   MCPResponse,
+  VALID_DUPLICATE_ACTIONS,
 } from '../core/types.js';
 import {
   AIMemoryError,
@@ -42,6 +58,13 @@ export interface MemoryService {
   deleteMemory(args: DeleteMemoryArgs): Promise<MCPResponse>;
   getMemoryStats(args: GetMemoryStatsArgs): Promise<MCPResponse>;
   exportMemories(args: ExportMemoriesArgs): Promise<MCPResponse>;
+  listMemoryVersions(args: ListMemoryVersionsArgs): Promise<MCPResponse>;
+  diffMemoryVersions(args: DiffMemoryVersionsArgs): Promise<MCPResponse>;
+  restoreMemoryVersion(args: RestoreMemoryVersionArgs): Promise<MCPResponse>;
+  findDuplicateMemories(args: FindDuplicateMemoriesArgs): Promise<MCPResponse>;
+  mergeMemories(args: MergeMemoriesArgs): Promise<MCPResponse>;
+  getStaleMemories(args: GetStaleMemoriesArgs): Promise<MCPResponse>;
+  startExpirySweep(): Promise<void>;
 }
 
 /**
@@ -51,20 +74,83 @@ export interface MemoryService {
  * Integrates with embedding service for intelligent memory retrieval.
  */
 export class MemoryServiceImpl implements MemoryService {
-  constructor(private db: PrismaDatabaseService) {}
+  private indexer: EmbeddingIndexer;
+  private ranker: SearchRanker;
+  private versions: MemoryVersionHistory;
+  private duplicates: MemoryDuplicateDetector;
+  private relevance: MemoryRelevance;
+  private expiry: MemoryExpiry;
+  private sessions: SessionLog;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.indexer = new EmbeddingIndexer(db);
+    this.ranker = new SearchRanker(db);
+    this.versions = new MemoryVersionHistory(db);
+    this.duplicates = new MemoryDuplicateDetector(db);
+    this.relevance = new MemoryRelevance(db);
+    this.expiry = new MemoryExpiry(db);
+    this.sessions = new SessionLog(db);
+  }
 
   /**
-   * Store a new memory with optional embedding generation
+   * Store a new memory with optional embedding generation. Near-identical
+   * memories in the same project are reported with the new memory, or stop
+   * it from being stored when on_duplicate is "refuse".
    */
   async storeMemory(args: CreateMemoryArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { title, content, category = 'general', project, tags = '', priority = 1 } = args;
+      const {
+        title,
+        content,
+        category = 'general',
+        project,
+        tags = '',
+        priority = 1,
+        uid,
+        on_duplicate = 'warn',
+        expires_at,
+      } = args;
 
       // Validate required fields
       if (!title || !content) {
         throw createValidationError('Title and content are required');
       }
 
+      if (!VALID_DUPLICATE_ACTIONS.includes(on_duplicate)) {
+        throw createValidationError(
+          `on_duplicate must be one of: ${VALID_DUPLICATE_ACTIONS.join(', ')}`
+        );
+      }
+
+      const expiresAt = expires_at ? parseExpiry(expires_at) : null;
+      if (expiresAt && expiresAt <= new Date()) {
+        throw createValidationError('expires_at must be in the future');
+      }
+
+      // Look for near-identical memories before anything is created
+      const duplicates =
+        on_duplicate === 'ignore'
+          ? []
+          : await this.duplicates.findCandidates({
+              title,
+              content,
+              category: category.toLowerCase(),
+              project: project?.toLowerCase(),
+              tags: tags
+                .split(',')
+                .map(tag => tag.trim())
+                .filter(tag => tag),
+            });
+      const duplicateList = duplicates
+        .map(duplicate => `#${duplicate.id} "${duplicate.title}" (${duplicate.similarity})`)
+        .join(', ');
+
+      if (on_duplicate === 'refuse' && duplicates.length > 0) {
+        throw createValidationError(
+          `Memory "${title}" not stored; similar memories already exist: ${duplicateList}. Update or merge them instead, or store with on_duplicate "ignore"`
+        );
+      }
+
       // Ensure category exists
       const categoryId = await this.ensureCategory(category);
 
@@ -85,10 +171,13 @@ export class MemoryServiceImpl implements MemoryService {
           categoryId,
           projectId,
           priority,
+          uid,
+          expiresAt,
         },
       });
 
       const memoryId = createdMemory.id;
+      await this.sessions.record(this.db.client, { memoryId }, 'created');
 
       // Add tags if provided
       if (tagIds.length > 0) {
@@ -96,61 +185,65 @@ export class MemoryServiceImpl implements MemoryService {
       }
 
       // Generate embedding for semantic search
-      try {
-        const embedding = await embeddingService.generateEmbedding(`${title}: ${content}`);
-        await this.db.client.memory.update({
-          where: { id: memoryId },
-          data: {
-            embedding: JSON.stringify(embedding),
-            embeddingModel: embeddingService.getModelName(),
-            embeddingCreatedAt: new Date(),
-          },
-        });
-      } catch (embeddingError) {
-        console.warn(`Failed to generate embedding for memory ${memoryId}:`, embeddingError);
-      }
+      await this.indexer.indexMemory(memoryId);
 
       // Get the created memory with relations
       const memoryWithRelations = await this.getMemoryWithRelations(memoryId, false);
 
+      if (duplicates.length > 0) {
+        return createMCPResponse(
+          { ...memoryWithRelations, possible_duplicates: duplicates },
+          `Memory "${title}" stored successfully; possible duplicates: ${duplicateList}`
+        );
+      }
+
       return createMCPResponse(memoryWithRelations, `Memory "${title}" stored successfully`);
     });
   }
 
   /**
-   * Search memories using semantic search with optional filters
+   * Search memories using semantic, keyword or hybrid ranking with optional
+   * filters; matches are ordered by relevance and counted as used
    */
   async searchMemories(args: SearchMemoriesArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { query, category, project, priority_min, limit = 20, min_similarity = 0.15 } = args;
+      const {
+        query,
+        category,
+        project,
+        priority_min,
+        limit = 20,
+        min_similarity = 0.15,
+        search_mode = 'semantic',
+        include_expired = false,
+      } = args;
 
       if (!query) {
         throw createValidationError('Search query is required');
       }
 
-      // Generate embedding for the search query
-      const queryEmbedding = await embeddingService.generateEmbedding(query);
+      // Rank inside PostgreSQL by similarity, full-text rank, or both fused,
+      // then blend in priority, recency and usage
+      const matches = await this.ranker.rankMemories(
+        query,
+        { category, project, priority_min, include_expired },
+        { mode: search_mode, limit, minSimilarity: min_similarity, relevance: true }
+      );
 
-      // Build where conditions
-      const where: any = {
-        embedding: { not: null },
-      };
+      // Flag vectors from an older model that semantic ranking had to skip
+      const staleCount =
+        search_mode === 'keyword' ? 0 : await this.ranker.countStaleMemories(include_expired);
+      const staleNote =
+        staleCount > 0
+          ? `; ${staleCount} memories with missing or stale embeddings were skipped by semantic ranking until re-embedded`
+          : '';
 
-      if (category) {
-        where.category = { name: category };
-      }
-
-      if (project) {
-        where.project = { name: project };
+      if (matches.length === 0) {
+        return createMCPResponse([], `No memories found matching the criteria${staleNote}`);
       }
 
-      if (priority_min) {
-        where.priority = { gte: priority_min };
-      }
-
-      // Get all memories matching filters
       const memories = await this.db.client.memory.findMany({
-        where,
+        where: { id: { in: matches.map(match => match.id) }, deletedAt: null },
         include: {
           category: true,
           project: true,
@@ -162,41 +255,35 @@ export class MemoryServiceImpl implements MemoryService {
         },
       });
 
-      if (memories.length === 0) {
-        return createMCPResponse([], 'No memories found matching the criteria');
-      }
-
-      // Calculate similarities and filter by minimum similarity
-      const memoriesWithSimilarity = memories
-        .map(memory => {
-          try {
-            const memoryEmbedding = JSON.parse(memory.embedding || '[]');
-            const similarity = embeddingService.calculateSimilarity(
-              queryEmbedding.embedding,
-              memoryEmbedding.embedding
-            );
-            return { ...memory, similarity };
-          } catch (error) {
-            console.warn(`Failed to parse embedding for memory ${memory.id}:`, error);
-            return { ...memory, similarity: 0 };
-          }
-        })
-        .filter(memory => memory.similarity >= min_similarity)
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      // Restore ranking order and attach score breakdowns
+      const memoriesById = new Map(memories.map(memory => [memory.id, memory]));
+      const rankedMemories = matches
+        .filter(match => memoriesById.has(match.id))
+        .map(match => ({
+          ...memoriesById.get(match.id)!,
+          score_breakdown: match.breakdown,
+          matched_passage: match.passage ?? null,
+        }));
 
       // Format tags and other fields
-      const formattedMemories = memoriesWithSimilarity.map(memory => ({
+      const formattedMemories = rankedMemories.map(memory => ({
         ...memory,
         category: memory.category?.name,
         project: memory.project?.name,
         tags: memory.memoryTags.map(mt => mt.tag.name),
-        similarity: Math.round(memory.similarity * 100) / 100,
+        similarity:
+          memory.score_breakdown.semantic_similarity !== undefined
+            ? Math.round(memory.score_breakdown.semantic_similarity * 100) / 100
+            : undefined,
+        score: memory.score_breakdown.score,
+        relevance: memory.score_breakdown.relevance?.score,
       }));
 
+      await this.relevance.recordAccess(formattedMemories.map(memory => memory.id));
+
       return createMCPResponse(
         formattedMemories,
-        `Found ${formattedMemories.length} memories matching "${query}"`
+        `Found ${formattedMemories.length} memories matching "${query}" (${search_mode} search)${staleNote}`
       );
     });
   }
@@ -226,8 +313,8 @@ export class MemoryServiceImpl implements MemoryService {
         throw createValidationError(`Invalid sort order: ${sort_order}`);
       }
 
-      // Build where conditions
-      const where: any = {};
+      // Build where conditions; trashed memories are never listed
+      const where: any = { deletedAt: null };
 
       if (category) {
         where.category = {
@@ -256,6 +343,7 @@ export class MemoryServiceImpl implements MemoryService {
 
       try {
         const memories = await this.db.client.memory.findMany({
+          where: { deletedAt: null },
           take: 2,
         });
 
@@ -283,7 +371,7 @@ export class MemoryServiceImpl implements MemoryService {
       }
 
       const memory = await this.db.client.memory.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
         include: {
           category: true,
           project: true,
@@ -299,6 +387,9 @@ export class MemoryServiceImpl implements MemoryService {
         throw createNotFoundError(`Memory with ID ${id} not found`);
       }
 
+      // The returned access statistics are those from before this read
+      await this.relevance.recordAccess([id]);
+
       // Format tags
       const formattedMemory = {
         ...memory,
@@ -314,7 +405,7 @@ export class MemoryServiceImpl implements MemoryService {
    */
   async updateMemory(args: UpdateMemoryArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { id, title, content, category, project, tags, priority } = args;
+      const { id, title, content, category, project, tags, priority, expires_at } = args;
 
       if (!id || typeof id !== 'number') {
         throw createValidationError('Valid memory ID is required');
@@ -322,7 +413,7 @@ export class MemoryServiceImpl implements MemoryService {
 
       // Check if memory exists
       const existing = await this.db.client.memory.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
       });
       if (!existing) {
         throw createNotFoundError(`Memory with ID ${id} not found`);
@@ -357,64 +448,53 @@ export class MemoryServiceImpl implements MemoryService {
         updateData.priority = priority;
       }
 
+      // A memory whose expiry is moved ahead or cleared leaves the archive
+      if (expires_at !== undefined) {
+        updateData.expiresAt = expires_at ? parseExpiry(expires_at) : null;
+        updateData.archived = updateData.expiresAt !== null && updateData.expiresAt <= new Date();
+      }
+
       if (Object.keys(updateData).length === 0) {
         throw createValidationError('At least one field must be provided for update');
       }
 
       updateData.updatedAt = new Date();
 
-      // Update memory in a transaction
-      const updatedMemory = await this.db.client.$transaction(async prisma => {
-        // Update the memory
-        const updatedMem = await prisma.memory.update({
-          where: { id },
-          data: updateData,
-        });
-
-        // Update tags if provided
-        if (tags !== undefined) {
-          const tagIds = await this.ensureTags(tags);
-
-          // Remove existing tags
-          await prisma.memoryTag.deleteMany({
-            where: { memoryId: id },
+      // Update memory in a transaction; the replaced state is kept as a revision
+      await this.db.client.$transaction(async prisma =>
+        this.versions.track(prisma, id, async () => {
+          // Update the memory
+          await prisma.memory.update({
+            where: { id },
+            data: updateData,
           });
 
-          // Add new tags
-          if (tagIds.length > 0) {
-            await prisma.memoryTag.createMany({
-              data: tagIds.map(tagId => ({
-                memoryId: id,
-                tagId,
-              })),
+          // Update tags if provided
+          if (tags !== undefined) {
+            const tagIds = await this.ensureTags(tags);
+
+            // Remove existing tags
+            await prisma.memoryTag.deleteMany({
+              where: { memoryId: id },
             });
-          }
-        }
 
-        return updatedMem;
-      });
+            // Add new tags
+            if (tagIds.length > 0) {
+              await prisma.memoryTag.createMany({
+                data: tagIds.map(tagId => ({
+                  memoryId: id,
+                  tagId,
+                })),
+              });
+            }
+          }
 
-      // Regenerate embedding if content or title changed
-      if (title !== undefined || content !== undefined) {
-        try {
-          const finalTitle = title !== undefined ? title : existing.title;
-          const finalContent = content !== undefined ? content : existing.content;
-          const embedding = await embeddingService.generateEmbedding(
-            `${finalTitle}: ${finalContent}`
-          );
+          await this.sessions.record(prisma, { memoryId: id }, 'updated');
+        })
+      );
 
-          await this.db.client.memory.update({
-            where: { id },
-            data: {
-              embedding: JSON.stringify(embedding),
-              embeddingModel: embeddingService.getModelName(),
-              embeddingCreatedAt: new Date(),
-            },
-          });
-        } catch (embeddingError) {
-          console.warn(`Failed to regenerate embedding for memory ${id}:`, embeddingError);
-        }
-      }
+      // Regenerate embedding; skipped when the searchable text is unchanged
+      await this.indexer.indexMemory(id);
 
       // Get the updated memory with relations
       const memoryWithRelations = await this.db.client.memory.findUnique({
@@ -444,7 +524,7 @@ export class MemoryServiceImpl implements MemoryService {
   }
 
   /**
-   * Delete a memory by ID
+   * Move a memory to the trash; restore_item brings it back until it is purged
    */
   async deleteMemory(args: DeleteMemoryArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
@@ -456,19 +536,23 @@ export class MemoryServiceImpl implements MemoryService {
 
       // Check if memory exists and get its title
       const existing = await this.db.client.memory.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
         select: { title: true },
       });
       if (!existing) {
         throw createNotFoundError(`Memory with ID ${id} not found`);
       }
 
-      // Delete memory (tags will be deleted automatically due to CASCADE)
-      await this.db.client.memory.delete({
+      // Tags, versions and embeddings stay with the row until the trash is purged
+      await this.db.client.memory.update({
         where: { id },
+        data: { deletedAt: new Date() },
       });
 
-      return createMCPResponse({ id }, `Memory "${existing.title}" deleted successfully`);
+      return createMCPResponse(
+        { id, trashed: true },
+        `Memory "${existing.title}" moved to the trash`
+      );
     });
   }
 
@@ -485,23 +569,27 @@ export class MemoryServiceImpl implements MemoryService {
         priorityStats,
         recentActivity,
       ] = await Promise.all([
-        this.db.client.memory.count(),
         this.db.client.memory.count({
-          where: { categoryId: { not: null } },
+          where: { deletedAt: null },
+        }),
+        this.db.client.memory.count({
+          where: { categoryId: { not: null }, deletedAt: null },
         }),
         this.db.client.memory.count({
-          where: { projectId: { not: null } },
+          where: { projectId: { not: null }, deletedAt: null },
         }),
         this.db.client.memory.count({
-          where: { embedding: { not: null } },
+          where: { embeddingModel: { not: null }, deletedAt: null },
         }),
         this.db.client.memory.groupBy({
           by: ['priority'],
+          where: { deletedAt: null },
           _count: { priority: true },
           orderBy: { priority: 'desc' },
         }),
         this.db.client.memory.count({
           where: {
+            deletedAt: null,
             createdAt: {
               gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
             },
@@ -534,8 +622,8 @@ export class MemoryServiceImpl implements MemoryService {
     return handleAsyncError(async () => {
       const { category, project } = args;
 
-      // Build where conditions
-      const where: any = {};
+      // Build where conditions; trashed memories are never listed
+      const where: any = { deletedAt: null };
 
       if (category) {
         where.category = {
@@ -580,6 +668,312 @@ export class MemoryServiceImpl implements MemoryService {
     });
   }
 
+  /**
+   * List every revision of a memory, newest first, starting with the current one
+   */
+  async listMemoryVersions(args: ListMemoryVersionsArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { id } = args;
+
+      if (!id || typeof id !== 'number') {
+        throw createValidationError('Valid memory ID is required');
+      }
+
+      const versions = await this.versions.list(id);
+
+      return createMCPResponse(
+        { memory_id: id, current_version: versions[0].version, versions },
+        `Memory "${versions[0].title}" has ${versions.length} version${versions.length === 1 ? '' : 's'}`
+      );
+    });
+  }
+
+  /**
+   * Diff the title, content and other fields of two revisions of a memory
+   */
+  async diffMemoryVersions(args: DiffMemoryVersionsArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { id, from_version, to_version } = args;
+
+      if (!id || typeof id !== 'number') {
+        throw createValidationError('Valid memory ID is required');
+      }
+
+      const diff = await this.versions.diff(id, from_version, to_version);
+      const changes = [
+        ...(diff.title_diff ? ['title'] : []),
+        ...(diff.content_diff ? ['content'] : []),
+        ...Object.keys(diff.changed_fields),
+      ];
+
+      return createMCPResponse(
+        diff,
+        changes.length > 0
+          ? `Versions ${diff.from_version} and ${diff.to_version} of memory ${id} differ in ${changes.join(', ')}`
+          : `Versions ${diff.from_version} and ${diff.to_version} of memory ${id} are identical`
+      );
+    });
+  }
+
+  /**
+   * Make an earlier revision current again. The state it replaces is kept as
+   * a revision too, so a restore can itself be undone.
+   */
+  async restoreMemoryVersion(args: RestoreMemoryVersionArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { id, version } = args;
+
+      if (!id || typeof id !== 'number') {
+        throw createValidationError('Valid memory ID is required');
+      }
+      if (!Number.isInteger(version) || version < 1) {
+        throw createValidationError('Version must be a positive integer');
+      }
+
+      const revision = await this.versions.get(id, version);
+      if (revision.current) {
+        throw createValidationError(`Version ${version} is already the current version`);
+      }
+
+      // Category, project and tags were kept by name and may have been deleted since
+      const categoryId = revision.category ? await this.ensureCategory(revision.category) : null;
+      const projectId = revision.project ? await this.ensureProject(revision.project) : null;
+      const tagIds = await this.ensureTags(revision.tags.join(','));
+
+      await this.db.client.$transaction(async prisma =>
+        this.versions.track(prisma, id, async () => {
+          await prisma.memory.update({
+            where: { id },
+            data: {
+              title: revision.title,
+              content: revision.content,
+              categoryId,
+              projectId,
+              priority: revision.priority,
+            },
+          });
+
+          await prisma.memoryTag.deleteMany({ where: { memoryId: id } });
+          if (tagIds.length > 0) {
+            await prisma.memoryTag.createMany({
+              data: tagIds.map(tagId => ({ memoryId: id, tagId })),
+            });
+          }
+
+          await this.sessions.record(prisma, { memoryId: id }, 'updated');
+        })
+      );
+
+      // Regenerate embedding for the restored text
+      await this.indexer.indexMemory(id);
+
+      const memoryWithRelations = await this.getMemoryWithRelations(id, false);
+
+      return createMCPResponse(
+        memoryWithRelations,
+        `Memory "${revision.title}" restored from version ${version} as version ${memoryWithRelations?.version}`
+      );
+    });
+  }
+
+  /**
+   * Cluster memories whose embeddings are nearly identical, per project
+   */
+  async findDuplicateMemories(args: FindDuplicateMemoriesArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { project, min_similarity = config.embedding.duplicateThreshold, limit = 20 } = args;
+
+      if (typeof min_similarity !== 'number' || min_similarity <= 0 || min_similarity > 1) {
+        throw createValidationError('min_similarity must be greater than 0 and at most 1');
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        throw createValidationError('Limit must be an integer between 1 and 100');
+      }
+
+      const clusters = await this.duplicates.findClusters(project, min_similarity, limit);
+      const memoryCount = clusters.reduce((sum, cluster) => sum + cluster.memories.length, 0);
+
+      return createMCPResponse(
+        { project, min_similarity, clusters },
+        clusters.length > 0
+          ? `Found ${clusters.length} cluster${clusters.length === 1 ? '' : 's'} of near-duplicate memories (${memoryCount} memories)`
+          : 'No near-duplicate memories found'
+      );
+    });
+  }
+
+  /**
+   * Merge memories into a target memory: their content is appended (unless
+   * the target already contains it), tags are combined, the highest priority
+   * is kept and links to or from them are moved to the target. The merged
+   * memories go to the trash; the target's previous state is kept as a revision.
+   */
+  async mergeMemories(args: MergeMemoriesArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { target_id, source_ids, title } = args;
+
+      if (!Number.isInteger(target_id) || target_id <= 0) {
+        throw createValidationError('target_id must be a positive integer');
+      }
+      if (
+        !Array.isArray(source_ids) ||
+        source_ids.length === 0 ||
+        source_ids.some(id => !Number.isInteger(id) || id <= 0)
+      ) {
+        throw createValidationError('source_ids must be a non-empty list of positive integers');
+      }
+      if (source_ids.includes(target_id)) {
+        throw createValidationError('The target memory cannot also be a source');
+      }
+      if (title !== undefined && title.trim() === '') {
+        throw createValidationError('Title cannot be empty');
+      }
+
+      const sourceIds = [...new Set(source_ids)];
+      const rows = await this.db.client.memory.findMany({
+        where: { id: { in: [target_id, ...sourceIds] }, deletedAt: null },
+        include: { memoryTags: true },
+      });
+      const byId = new Map(rows.map(row => [row.id, row]));
+      for (const id of [target_id, ...sourceIds]) {
+        if (!byId.has(id)) {
+          throw createNotFoundError('Memory', id);
+        }
+      }
+
+      const target = byId.get(target_id)!;
+      const sources = sourceIds.map(id => byId.get(id)!);
+      const merged = [target, ...sources];
+
+      const sections = [target.content];
+      for (const source of sources) {
+        const content = source.content.trim();
+        if (content && !sections.some(section => section.includes(content))) {
+          sections.push(content);
+        }
+      }
+      const tagIds = [...new Set(merged.flatMap(row => row.memoryTags.map(mt => mt.tagId)))];
+
+      const redirected = await this.db.client.$transaction(async prisma => {
+        await this.versions.track(prisma, target_id, async () => {
+          await prisma.memory.update({
+            where: { id: target_id },
+            data: {
+              title: title ?? target.title,
+              content: sections.join('\n\n---\n\n'),
+              categoryId: target.categoryId ?? sources.find(row => row.categoryId)?.categoryId,
+              projectId: target.projectId ?? sources.find(row => row.projectId)?.projectId,
+              priority: Math.max(...merged.map(row => row.priority)),
+              updatedAt: new Date(),
+            },
+          });
+
+          await prisma.memoryTag.deleteMany({ where: { memoryId: target_id } });
+          if (tagIds.length > 0) {
+            await prisma.memoryTag.createMany({
+              data: tagIds.map(tagId => ({ memoryId: target_id, tagId })),
+            });
+          }
+
+          await this.sessions.record(prisma, { memoryId: target_id }, 'updated');
+        });
+
+        const count = await this.redirectLinks(prisma, sourceIds, target_id);
+
+        await prisma.memory.updateMany({
+          where: { id: { in: sourceIds } },
+          data: { deletedAt: new Date() },
+        });
+
+        return count;
+      });
+
+      // Regenerate embedding for the merged text
+      await this.indexer.indexMemory(target_id);
+
+      const memoryWithRelations = await this.getMemoryWithRelations(target_id, false);
+
+      return createMCPResponse(
+        { ...memoryWithRelations, merged_ids: sourceIds, links_redirected: redirected },
+        `Merged ${sources.length} memor${sources.length === 1 ? 'y' : 'ies'} into "${memoryWithRelations?.title}"; the merged memories were moved to the trash`
+      );
+    });
+  }
+
+  /**
+   * List memories that have been neither used nor updated for a number of
+   * days, longest unused first, for review
+   */
+  async getStaleMemories(args: GetStaleMemoriesArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const {
+        days = config.relevance.staleAfterDays,
+        category,
+        project,
+        priority_max,
+        limit = 50,
+      } = args;
+
+      if (!Number.isInteger(days) || days < 1) {
+        throw createValidationError('days must be a positive integer');
+      }
+      if (priority_max !== undefined && (!Number.isInteger(priority_max) || priority_max < 1)) {
+        throw createValidationError('priority_max must be a positive integer');
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        throw createValidationError('Limit must be an integer between 1 and 500');
+      }
+
+      const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const memories = await this.db.client.memory.findMany({
+        where: {
+          deletedAt: null,
+          updatedAt: { lt: cutoff },
+          OR: [{ lastAccessedAt: null }, { lastAccessedAt: { lt: cutoff } }],
+          ...(category && { category: { name: category.toLowerCase() } }),
+          ...(project && { project: { name: project.toLowerCase() } }),
+          ...(priority_max !== undefined && { priority: { lte: priority_max } }),
+        },
+        include: { category: true, project: true },
+        orderBy: [{ lastAccessedAt: { sort: 'asc', nulls: 'first' } }, { updatedAt: 'asc' }],
+        take: limit,
+      });
+
+      const now = new Date();
+      const staleMemories = memories.map(memory => {
+        const lastUsed = new Date(
+          Math.max(memory.lastAccessedAt?.getTime() ?? 0, memory.updatedAt.getTime())
+        );
+        return {
+          id: memory.id,
+          title: memory.title,
+          category: memory.category?.name,
+          project: memory.project?.name,
+          priority: memory.priority,
+          access_count: memory.accessCount,
+          last_accessed_at: memory.lastAccessedAt?.toISOString(),
+          updated_at: memory.updatedAt.toISOString(),
+          days_unused: Math.floor((now.getTime() - lastUsed.getTime()) / (24 * 60 * 60 * 1000)),
+          recency: this.relevance.score(0, memory, now).recency,
+        };
+      });
+
+      return createMCPResponse(
+        { days, memories: staleMemories },
+        staleMemories.length > 0
+          ? `Found ${staleMemories.length} memories unused for at least ${days} days`
+          : `No memories unused for ${days} days`
+      );
+    });
+  }
+
+  /**
+   * Archive expired memories now and periodically while the server runs
+   */
+  async startExpirySweep(): Promise<void> {
+    await this.expiry.startSweep();
+  }
+
   /**
    * Get memory with all relations (categories, projects, tags)
    */
@@ -606,19 +1000,24 @@ export class MemoryServiceImpl implements MemoryService {
 
     const result: any = {
       id: memory.id,
+      uid: memory.uid,
       title: memory.title,
       content: memory.content,
       category: memory.category?.name,
       project: memory.project?.name,
       priority: memory.priority,
+      version: memory.version,
       tags: memory.memoryTags.map((mt: any) => mt.tag.name),
+      expires_at: memory.expiresAt?.toISOString(),
+      archived: memory.archived,
+      access_count: memory.accessCount,
+      last_accessed_at: memory.lastAccessedAt?.toISOString(),
       created_at: memory.createdAt.toISOString(),
       updated_at: memory.updatedAt.toISOString(),
     };
 
-    // Only include embedding data if explicitly requested
+    // Only include embedding metadata if explicitly requested (vectors stay in the database)
     if (includeEmbedding) {
-      result.embedding = memory.embedding || undefined;
       result.embedding_model = memory.embeddingModel || undefined;
       result.embedding_created_at = memory.embeddingCreatedAt?.toISOString() || undefined;
     }
@@ -626,6 +1025,66 @@ export class MemoryServiceImpl implements MemoryService {
     return result;
   }
 
+  /**
+   * Point the links to and from merged memories at the memory they were
+   * merged into. Links between the merged memories themselves, repeats and
+   * the reverse of a link the target already has are dropped.
+   *
+   * @returns Number of links moved to the target
+   */
+  private async redirectLinks(
+    prisma: Prisma.TransactionClient,
+    sourceIds: number[],
+    targetId: number
+  ): Promise<number> {
+    const links = await prisma.memoryLink.findMany({
+      where: { OR: [{ memoryId: { in: sourceIds } }, { targetMemoryId: { in: sourceIds } }] },
+      orderBy: { id: 'asc' },
+    });
+    if (links.length === 0) {
+      return 0;
+    }
+
+    const redirect = (id: number) => (sourceIds.includes(id) ? targetId : id);
+    const existing = await prisma.memoryLink.findMany({
+      where: {
+        OR: [{ memoryId: targetId }, { targetMemoryId: targetId }],
+        NOT: { id: { in: links.map(link => link.id) } },
+      },
+    });
+    const keys = new Set(
+      existing.map(
+        link => `${link.memoryId}:${link.targetMemoryId}:${link.targetTaskId}:${link.linkType}`
+      )
+    );
+
+    const moved: Prisma.MemoryLinkCreateManyInput[] = [];
+    for (const link of links) {
+      const memoryId = redirect(link.memoryId);
+      const targetMemoryId = link.targetMemoryId === null ? null : redirect(link.targetMemoryId);
+      if (memoryId === targetMemoryId) continue;
+
+      const key = `${memoryId}:${targetMemoryId}:${link.targetTaskId}:${link.linkType}`;
+      const reverseKey = `${targetMemoryId}:${memoryId}:null:${link.linkType}`;
+      if (keys.has(key) || (targetMemoryId !== null && keys.has(reverseKey))) continue;
+
+      keys.add(key);
+      moved.push({
+        memoryId,
+        targetMemoryId,
+        targetTaskId: link.targetTaskId,
+        linkType: link.linkType,
+        createdAt: link.createdAt,
+      });
+    }
+
+    await prisma.memoryLink.deleteMany({ where: { id: { in: links.map(link => link.id) } } });
+    if (moved.length > 0) {
+      await prisma.memoryLink.createMany({ data: moved });
+    }
+    return moved.length;
+  }
+
   /**
    * Update memory tags
    */
@@ -667,7 +1126,8 @@ export class MemoryServiceImpl implements MemoryService {
   }
 
   /**
-   * Ensure project exists and return its ID
+   * Ensure project exists and return its ID; a trashed project of that name
+   * has to be restored (with its memories and tasks) or purged first
    */
   private async ensureProject(projectName: string): Promise<number> {
     let project = await this.db.client.project.findFirst({
@@ -681,6 +1141,8 @@ export class MemoryServiceImpl implements MemoryService {
           description: `Auto-created project: ${projectName}`,
         },
       });
+    } else if (project.deletedAt) {
+      throw createValidationError(trashedProjectMessage(projectName, project.id));
     }
 
     return project.id;
@@ -0,0 +1,253 @@
+/**
+ * Memory Version History for AI Memory MCP Server
+ *
+ * Keeps the earlier revisions of every memory. Memory writes save the state
+ * they replace (title, content, category, project, tags and priority) in the
+ * same transaction as the change and bump the memory's version number, so a
+ * memory overwritten with a worse summary can be compared with and restored
+ * to any earlier revision.
+ *
+ * @fileoverview Memory revisions, revision diffs and restore snapshots
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { createNotFoundError } from '../utils/error-handling.js';
+import { diffLines, formatUnifiedDiff } from '../utils/text-diff.js';
+
+/**
+ * Prisma client or the client of an open transaction
+ */
+type VersionClient = Prisma.TransactionClient;
+
+const snapshotSelect = {
+  version: true,
+  title: true,
+  content: true,
+  priority: true,
+  createdAt: true,
+  updatedAt: true,
+  category: { select: { name: true } },
+  project: { select: { name: true } },
+  memoryTags: { select: { tag: { select: { name: true } } } },
+} satisfies Prisma.MemorySelect;
+
+/**
+ * State of a memory at one revision
+ */
+export interface MemoryRevision {
+  version: number;
+  title: string;
+  content: string;
+  category: string | null;
+  project: string | null;
+  tags: string[];
+  priority: number;
+  // When this revision was written and, for earlier revisions, when it was replaced
+  created_at: string;
+  replaced_at?: string;
+  current: boolean;
+}
+
+/**
+ * Revision as listed by list_memory_versions, without its content
+ */
+export type MemoryRevisionSummary = Omit<MemoryRevision, 'content'> & {
+  content_length: number;
+};
+
+/**
+ * Differences between two revisions as returned by diff_memory_versions
+ */
+export interface MemoryRevisionDiff {
+  memory_id: number;
+  from_version: number;
+  to_version: number;
+  // Unified diffs; empty when the text is unchanged
+  title_diff: string;
+  content_diff: string;
+  lines_added: number;
+  lines_removed: number;
+  // Old and new value of every other field that changed
+  changed_fields: Record<string, { from: string | number | null; to: string | number | null }>;
+}
+
+export class MemoryVersionHistory {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Run a change to an existing memory and keep the state it replaced as a
+   * revision. Pass the transaction client the change runs in so the revision
+   * commits with it. Changes that leave every versioned field as it was do
+   * not create a revision.
+   */
+  async track<T>(client: VersionClient, memoryId: number, change: () => Promise<T>): Promise<T> {
+    // Concurrent changes to the same memory wait here, so each reads the
+    // version the previous one left and no two revisions get the same number
+    await client.$queryRaw`SELECT id FROM memories WHERE id = ${memoryId} FOR UPDATE`;
+
+    const before = await this.snapshot(client, memoryId);
+    const result = await change();
+    const after = await this.snapshot(client, memoryId);
+
+    if (before && after && this.changedFields(before, after).length > 0) {
+      await client.memoryVersion.create({
+        data: {
+          memoryId,
+          version: before.version,
+          title: before.title,
+          content: before.content,
+          category: before.category,
+          project: before.project,
+          tags: before.tags.join(', '),
+          priority: before.priority,
+          createdAt: new Date(before.created_at),
+        },
+      });
+      await client.memory.update({
+        where: { id: memoryId },
+        data: { version: before.version + 1 },
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Every revision of a memory, newest first, starting with the current one
+   */
+  async list(memoryId: number): Promise<MemoryRevisionSummary[]> {
+    const current = await this.snapshot(this.db.client, memoryId);
+    if (!current) {
+      throw createNotFoundError('Memory', memoryId);
+    }
+
+    const rows = await this.db.client.memoryVersion.findMany({
+      where: { memoryId },
+      orderBy: { version: 'desc' },
+    });
+
+    return [current, ...rows.map(row => this.fromRow(row))].map(({ content, ...revision }) => ({
+      ...revision,
+      content_length: content.length,
+    }));
+  }
+
+  /**
+   * One revision of a memory; the current version is read from the memory itself
+   */
+  async get(memoryId: number, version: number): Promise<MemoryRevision> {
+    const current = await this.snapshot(this.db.client, memoryId);
+    if (!current) {
+      throw createNotFoundError('Memory', memoryId);
+    }
+    if (version === current.version) {
+      return current;
+    }
+
+    const row = await this.db.client.memoryVersion.findUnique({
+      where: { memoryId_version: { memoryId, version } },
+    });
+    if (!row) {
+      throw createNotFoundError(`Version ${version} of memory ${memoryId}`);
+    }
+    return this.fromRow(row);
+  }
+
+  /**
+   * Compare two revisions; `to` defaults to the current version and `from`
+   * to the revision before `to`
+   */
+  async diff(memoryId: number, from?: number, to?: number): Promise<MemoryRevisionDiff> {
+    const target = to !== undefined ? await this.get(memoryId, to) : await this.current(memoryId);
+    const source = await this.get(memoryId, from ?? target.version - 1);
+
+    const label = (revision: MemoryRevision) =>
+      `memory ${memoryId} v${revision.version}${revision.current ? ' (current)' : ''}`;
+    const contentLines = diffLines(source.content, target.content);
+
+    const changedFields: MemoryRevisionDiff['changed_fields'] = {};
+    for (const field of this.changedFields(source, target)) {
+      if (field === 'title' || field === 'content') continue;
+      changedFields[field] =
+        field === 'tags'
+          ? { from: source.tags.join(', ') || null, to: target.tags.join(', ') || null }
+          : { from: source[field], to: target[field] };
+    }
+
+    return {
+      memory_id: memoryId,
+      from_version: source.version,
+      to_version: target.version,
+      title_diff: formatUnifiedDiff(
+        diffLines(source.title, target.title),
+        label(source),
+        label(target)
+      ),
+      content_diff: formatUnifiedDiff(contentLines, label(source), label(target)),
+      lines_added: contentLines.filter(line => line.type === 'added').length,
+      lines_removed: contentLines.filter(line => line.type === 'removed').length,
+      changed_fields: changedFields,
+    };
+  }
+
+  private async current(memoryId: number): Promise<MemoryRevision> {
+    const current = await this.snapshot(this.db.client, memoryId);
+    if (!current) {
+      throw createNotFoundError('Memory', memoryId);
+    }
+    return current;
+  }
+
+  private async snapshot(client: VersionClient, memoryId: number): Promise<MemoryRevision | null> {
+    const memory = await client.memory.findUnique({
+      where: { id: memoryId, deletedAt: null },
+      select: snapshotSelect,
+    });
+    if (!memory) return null;
+
+    return {
+      version: memory.version,
+      title: memory.title,
+      content: memory.content,
+      category: memory.category?.name ?? null,
+      project: memory.project?.name ?? null,
+      tags: memory.memoryTags.map(mt => mt.tag.name).sort(),
+      priority: memory.priority,
+      // A memory's current revision was written at its last update
+      created_at: (memory.version > 1 ? memory.updatedAt : memory.createdAt).toISOString(),
+      current: true,
+    };
+  }
+
+  private fromRow(row: Prisma.MemoryVersionGetPayload<object>): MemoryRevision {
+    return {
+      version: row.version,
+      title: row.title,
+      content: row.content,
+      category: row.category,
+      project: row.project,
+      tags: row.tags
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag),
+      priority: row.priority,
+      created_at: row.createdAt.toISOString(),
+      replaced_at: row.replacedAt.toISOString(),
+      current: false,
+    };
+  }
+
+  private changedFields(
+    before: MemoryRevision,
+    after: MemoryRevision
+  ): Array<'title' | 'content' | 'category' | 'project' | 'tags' | 'priority'> {
+    const fields = ['title', 'content', 'category', 'project', 'priority'] as const;
+    const changed: Array<(typeof fields)[number] | 'tags'> = fields.filter(
+      field => before[field] !== after[field]
+    );
+    if (before.tags.join(', ') !== after.tags.join(', ')) {
+      changed.push('tags');
+    }
+    return changed;
+  }
+}
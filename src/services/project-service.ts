@@ -10,6 +10,9 @@
 
 import { PrismaDatabaseService } from '../core/prisma-database.js';
 import { Project, MCPResponse } from '../core/types.js';
+import { TaskEventLog } from './task-event-log.js';
+import { TaskHierarchy } from './task-hierarchy.js';
+import { trashedProjectMessage } from './trash-service.js';
 import {
   AIMemoryError,
   createNotFoundError,
@@ -63,7 +66,13 @@ export interface ProjectService {
  * Handles project CRUD operations with proper validation and error handling.
  */
 export class ProjectServiceImpl implements ProjectService {
-  constructor(private db: PrismaDatabaseService) {}
+  private events: TaskEventLog;
+  private hierarchy: TaskHierarchy;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.events = new TaskEventLog(db);
+    this.hierarchy = new TaskHierarchy(db);
+  }
 
   /**
    * Create a new project
@@ -95,11 +104,17 @@ export class ProjectServiceImpl implements ProjectService {
         };
       } catch (error: any) {
         if (error.code === 'P2002') {
+          const existing = await this.db.client.project.findUnique({
+            where: { name: name.toLowerCase().trim() },
+            select: { id: true, deletedAt: true },
+          });
           return {
             content: [
               {
                 type: 'text',
-                text: `Project '${name}' already exists.`,
+                text: existing?.deletedAt
+                  ? trashedProjectMessage(name, existing.id)
+                  : `Project '${name}' already exists.`,
               },
             ],
             isError: true,
@@ -118,13 +133,16 @@ export class ProjectServiceImpl implements ProjectService {
       const { include_stats = true } = args;
 
       const projects = await this.db.client.project.findMany({
+        where: { deletedAt: null },
         include: include_stats
           ? {
               _count: {
                 select: {
-                  memories: true,
+                  memories: {
+                    where: { deletedAt: null },
+                  },
                   tasks: {
-                    where: { archived: false },
+                    where: { archived: false, deletedAt: null },
                   },
                 },
               },
@@ -173,11 +191,11 @@ export class ProjectServiceImpl implements ProjectService {
       let project: any = null;
       if (id) {
         project = await this.db.client.project.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
         });
       } else if (name) {
         project = await this.db.client.project.findFirst({
-          where: { name: name.toLowerCase().trim() },
+          where: { name: name.toLowerCase().trim(), deletedAt: null },
         });
       }
 
@@ -188,12 +206,13 @@ export class ProjectServiceImpl implements ProjectService {
       // Get counts
       const [memoryCount, taskCount] = await Promise.all([
         this.db.client.memory.count({
-          where: { projectId: project.id },
+          where: { projectId: project.id, deletedAt: null },
         }),
         this.db.client.task.count({
           where: {
             projectId: project.id,
             archived: false,
+            deletedAt: null,
           },
         }),
       ]);
@@ -250,7 +269,7 @@ export class ProjectServiceImpl implements ProjectService {
 
       try {
         const result = await this.db.client.project.update({
-          where: { id },
+          where: { id, deletedAt: null },
           data: updateData,
         });
 
@@ -282,7 +301,8 @@ export class ProjectServiceImpl implements ProjectService {
   }
 
   /**
-   * Delete a project
+   * Move a project to the trash together with its memories and tasks, so
+   * restoring the project brings them back with it
    */
   async deleteProject(args: DeleteProjectArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
@@ -292,17 +312,35 @@ export class ProjectServiceImpl implements ProjectService {
         throw createValidationError('Project ID is required and must be a number');
       }
 
-      const result = await this.db.client.project.delete({
-        where: { id },
+      const project = await this.db.client.project.findUnique({
+        where: { id, deletedAt: null },
+        select: { name: true },
       });
+      if (!project) {
+        throw createNotFoundError('Project', id);
+      }
 
-      // Prisma delete will throw if not found, so we don't need to check changes
+      const deletedAt = new Date();
+      const live = { projectId: id, deletedAt: null };
+      const projectTaskIds = (
+        await this.db.client.task.findMany({ where: live, select: { id: true } })
+      ).map(task => task.id);
+      // Subtasks in other projects go too, so no live subtask is left under a trashed parent
+      const taskIds = [...projectTaskIds, ...(await this.hierarchy.subtaskIds(projectTaskIds))];
+
+      const trashed = await this.db.client.$transaction(async prisma => {
+        const memories = await prisma.memory.updateMany({ where: live, data: { deletedAt } });
+        await prisma.task.updateMany({ where: { id: { in: taskIds } }, data: { deletedAt } });
+        await prisma.project.update({ where: { id }, data: { deletedAt } });
+        await this.events.recordTrashChanges(prisma, taskIds, true);
+        return { memories: memories.count, tasks: taskIds.length };
+      });
 
       return {
         content: [
           {
             type: 'text',
-            text: `Project ${id} deleted successfully. Related memories and tasks now have no project assigned.`,
+            text: `Project '${project.name}' moved to the trash with ${trashed.memories} memories and ${trashed.tasks} tasks. Use restore_item to bring them back.`,
           },
         ],
       };
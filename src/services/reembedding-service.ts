@@ -0,0 +1,403 @@
+/**
+ * Re-embedding Service for AI Memory MCP Server
+ *
+ * Finds memories and tasks whose stored vectors were produced by a different
+ * embedding model (or never embedded) and regenerates them in the background.
+ * Progress is persisted per batch in the embedding_jobs table, so a job
+ * interrupted by a restart resumes from its last cursor. A forced job
+ * rebuilds every row, e.g. to re-chunk content after changing chunk settings.
+ *
+ * @fileoverview Resumable background re-embedding when the embedding model changes
+ */
+
+import { randomUUID } from 'crypto';
+import { EmbeddingJob, Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { embeddingService } from '../embedding-service.js';
+import { EmbeddingIndexer } from './embedding-indexer.js';
+import { GetReembeddingStatusArgs, MCPResponse, StartReembeddingArgs } from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+
+/**
+ * Default number of rows re-embedded per batch
+ */
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * A running job whose progress has not advanced for this long is taken to
+ * belong to a process that died, and another process may take it over
+ */
+const RUNNER_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Re-embedding service interface
+ */
+export interface ReembeddingService {
+  startReembedding(args: StartReembeddingArgs): Promise<MCPResponse>;
+  getReembeddingStatus(args: GetReembeddingStatusArgs): Promise<MCPResponse>;
+  resumeInterruptedJobs(): Promise<void>;
+}
+
+/**
+ * Re-embedding Service Implementation
+ *
+ * At most one job is running at a time (a partial unique index enforces it),
+ * and only the process that claimed it runs it, so the stdio and HTTP
+ * servers never run the same job twice. Each batch reads rows after the
+ * job's cursor, embeds them with the active model and advances the cursor, so
+ * rows that fail are counted and skipped rather than retried forever.
+ */
+export class ReembeddingServiceImpl implements ReembeddingService {
+  private indexer: EmbeddingIndexer;
+  private activeJobId: number | null = null;
+  // Identifies this process as a job's runner
+  private readonly runnerId = randomUUID();
+
+  constructor(private db: PrismaDatabaseService) {
+    this.indexer = new EmbeddingIndexer(db);
+  }
+
+  /**
+   * Start a re-embedding job, or resume the unfinished one
+   */
+  async startReembedding(args: StartReembeddingArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { batch_size = DEFAULT_BATCH_SIZE, force = false } = args;
+
+      if (!Number.isInteger(batch_size) || batch_size < 1 || batch_size > 500) {
+        throw createValidationError('Batch size must be an integer between 1 and 500');
+      }
+
+      if (this.activeJobId !== null) {
+        const job = await this.db.client.embeddingJob.findUnique({
+          where: { id: this.activeJobId },
+        });
+        return createMCPResponse(
+          this.formatJob(job!),
+          `Re-embedding job ${this.activeJobId} is already running`
+        );
+      }
+
+      const model = embeddingService.getModelName();
+      const unfinished = await this.db.client.embeddingJob.findFirst({
+        where: { status: 'running' },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      if (unfinished && unfinished.model === model) {
+        if (!(await this.claim(unfinished.id))) {
+          return createMCPResponse(
+            this.formatJob(unfinished),
+            `Re-embedding job ${unfinished.id} is already running in another server process`
+          );
+        }
+        this.launch(unfinished.id);
+        return createMCPResponse(
+          this.formatJob(unfinished),
+          `Resumed re-embedding job ${unfinished.id} for model ${model}`
+        );
+      }
+
+      if (unfinished) {
+        await this.db.client.embeddingJob.update({
+          where: { id: unfinished.id },
+          data: {
+            status: 'failed',
+            lastError: `Superseded by model change to ${model}`,
+            completedAt: new Date(),
+          },
+        });
+      }
+
+      const candidates = this.candidatesWhere(model, force);
+      const [memoriesTotal, tasksTotal] = await Promise.all([
+        this.db.client.memory.count({ where: candidates }),
+        this.db.client.task.count({ where: candidates }),
+      ]);
+
+      if (memoriesTotal === 0 && tasksTotal === 0) {
+        return createMCPResponse(
+          { model, memories_outdated: 0, tasks_outdated: 0 },
+          `All embeddings are current for model ${model}`
+        );
+      }
+
+      let job: EmbeddingJob;
+      try {
+        job = await this.db.client.embeddingJob.create({
+          data: {
+            model,
+            batchSize: batch_size,
+            force,
+            memoriesTotal,
+            tasksTotal,
+            runnerId: this.runnerId,
+          },
+        });
+      } catch (error) {
+        // Another call started a job between the check above and this insert
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          const running = await this.db.client.embeddingJob.findFirstOrThrow({
+            where: { status: 'running' },
+          });
+          return createMCPResponse(
+            this.formatJob(running),
+            `Re-embedding job ${running.id} is already running`
+          );
+        }
+        throw error;
+      }
+
+      this.launch(job.id);
+
+      return createMCPResponse(
+        this.formatJob(job),
+        `Started re-embedding job ${job.id}: ${memoriesTotal} memories and ${tasksTotal} tasks to embed with ${model}`
+      );
+    });
+  }
+
+  /**
+   * Report progress of a job (latest job when no ID is given) and remaining outdated rows
+   */
+  async getReembeddingStatus(args: GetReembeddingStatusArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { job_id } = args;
+
+      const job = job_id
+        ? await this.db.client.embeddingJob.findUnique({ where: { id: job_id } })
+        : await this.db.client.embeddingJob.findFirst({ orderBy: { startedAt: 'desc' } });
+
+      if (job_id && !job) {
+        throw createNotFoundError('Re-embedding job', job_id);
+      }
+
+      const model = embeddingService.getModelName();
+      const [memoriesOutdated, tasksOutdated] = await Promise.all([
+        this.db.client.memory.count({ where: this.outdatedWhere(model) }),
+        this.db.client.task.count({ where: this.outdatedWhere(model) }),
+      ]);
+
+      const status = {
+        active_model: model,
+        memories_outdated: memoriesOutdated,
+        tasks_outdated: tasksOutdated,
+        job: job ? this.formatJob(job) : null,
+      };
+
+      const message = job
+        ? `Re-embedding job ${job.id} is ${job.status}`
+        : 'No re-embedding jobs have been run';
+
+      return createMCPResponse(status, message);
+    });
+  }
+
+  /**
+   * Resume a job left running by a previous process (called on server startup)
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    const unfinished = await this.db.client.embeddingJob.findFirst({
+      where: { status: 'running', model: embeddingService.getModelName() },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (!unfinished) return;
+
+    if (await this.claim(unfinished.id)) {
+      console.error(`[Embedding] Resuming re-embedding job ${unfinished.id}`);
+      this.launch(unfinished.id);
+    } else {
+      console.error(
+        `[Embedding] Re-embedding job ${unfinished.id} is running in another server process`
+      );
+    }
+  }
+
+  /**
+   * Make this process the runner of a running job, unless another live
+   * process already is. The check and the claim are one UPDATE, so only one
+   * process wins.
+   */
+  private async claim(jobId: number): Promise<boolean> {
+    const { count } = await this.db.client.embeddingJob.updateMany({
+      where: {
+        id: jobId,
+        status: 'running',
+        OR: [
+          { runnerId: null },
+          { runnerId: this.runnerId },
+          { updatedAt: { lt: new Date(Date.now() - RUNNER_LEASE_MS) } },
+        ],
+      },
+      data: { runnerId: this.runnerId },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Save a job's progress while this process still runs it
+   *
+   * @returns The updated job, or null when it was superseded or taken over
+   */
+  private async advance(
+    jobId: number,
+    data: Prisma.EmbeddingJobUpdateManyMutationInput
+  ): Promise<EmbeddingJob | null> {
+    const { count } = await this.db.client.embeddingJob.updateMany({
+      where: { id: jobId, status: 'running', runnerId: this.runnerId },
+      data,
+    });
+    return count === 1
+      ? this.db.client.embeddingJob.findUniqueOrThrow({ where: { id: jobId } })
+      : null;
+  }
+
+  /**
+   * Run a job in the background without blocking the caller
+   */
+  private launch(jobId: number): void {
+    // Concurrent calls in this process may both claim the same job
+    if (this.activeJobId !== null) return;
+    this.activeJobId = jobId;
+    this.runJob(jobId)
+      .catch(async error => {
+        console.error(`[Embedding] Re-embedding job ${jobId} failed:`, error);
+        await this.db.client.embeddingJob
+          .updateMany({
+            where: { id: jobId, runnerId: this.runnerId },
+            data: {
+              status: 'failed',
+              lastError: error instanceof Error ? error.message : String(error),
+              completedAt: new Date(),
+            },
+          })
+          .catch(() => undefined);
+      })
+      .finally(() => {
+        this.activeJobId = null;
+      });
+  }
+
+  private async runJob(jobId: number): Promise<void> {
+    let job: EmbeddingJob | null = await this.db.client.embeddingJob.findUniqueOrThrow({
+      where: { id: jobId },
+    });
+    const candidates = this.candidatesWhere(job.model, job.force);
+
+    // Memories first, then tasks; each batch commits progress before the next
+    for (;;) {
+      const memories = await this.db.client.memory.findMany({
+        where: { id: { gt: job.memoryCursor }, ...candidates },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: job.batchSize,
+      });
+      if (memories.length === 0) break;
+
+      const indexed = await this.indexer.indexMemories(
+        memories.map(memory => memory.id),
+        { force: job.force }
+      );
+      const failed = indexed.filter(ok => !ok).length;
+
+      job = await this.advance(jobId, {
+        memoryCursor: memories[memories.length - 1].id,
+        memoriesProcessed: { increment: memories.length - failed },
+        memoriesFailed: { increment: failed },
+      });
+      if (!job) return this.stopped(jobId);
+    }
+
+    for (;;) {
+      const tasks = await this.db.client.task.findMany({
+        where: { id: { gt: job.taskCursor }, ...candidates },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: job.batchSize,
+      });
+      if (tasks.length === 0) break;
+
+      const indexed = await this.indexer.indexTasks(
+        tasks.map(task => task.id),
+        { force: job.force }
+      );
+      const failed = indexed.filter(ok => !ok).length;
+
+      job = await this.advance(jobId, {
+        taskCursor: tasks[tasks.length - 1].id,
+        tasksProcessed: { increment: tasks.length - failed },
+        tasksFailed: { increment: failed },
+      });
+      if (!job) return this.stopped(jobId);
+    }
+
+    if (!(await this.advance(jobId, { status: 'completed', completedAt: new Date() }))) {
+      return this.stopped(jobId);
+    }
+    console.error(`[Embedding] Re-embedding job ${jobId} completed`);
+  }
+
+  private stopped(jobId: number): void {
+    console.error(
+      `[Embedding] Stopped re-embedding job ${jobId}: superseded or taken over by another process`
+    );
+  }
+
+  /**
+   * Rows never embedded or embedded with a model other than the given one;
+   * trashed rows are left alone and re-indexed when restored
+   */
+  private outdatedWhere(model: string) {
+    return {
+      deletedAt: null,
+      OR: [{ embeddingModel: null }, { embeddingModel: { not: model } }],
+    };
+  }
+
+  /**
+   * Rows a job re-embeds: the outdated ones, or every row not in the trash
+   */
+  private candidatesWhere(model: string, force: boolean) {
+    return force ? { deletedAt: null } : this.outdatedWhere(model);
+  }
+
+  private formatJob(job: EmbeddingJob) {
+    const total = job.memoriesTotal + job.tasksTotal;
+    const done =
+      job.memoriesProcessed + job.memoriesFailed + job.tasksProcessed + job.tasksFailed;
+
+    return {
+      id: job.id,
+      model: job.model,
+      status: job.status,
+      batch_size: job.batchSize,
+      force: job.force,
+      progress_percent: total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 100,
+      memories: {
+        total: job.memoriesTotal,
+        processed: job.memoriesProcessed,
+        failed: job.memoriesFailed,
+      },
+      tasks: {
+        total: job.tasksTotal,
+        processed: job.tasksProcessed,
+        failed: job.tasksFailed,
+      },
+      last_error: job.lastError,
+      started_at: job.startedAt,
+      updated_at: job.updatedAt,
+      completed_at: job.completedAt,
+    };
+  }
+}
+
+// Export factory function
+export function createReembeddingService(db: PrismaDatabaseService): ReembeddingService {
+  return new ReembeddingServiceImpl(db);
+}
@@ -0,0 +1,239 @@
+/**
+ * Search Ranker for AI Memory MCP Server
+ *
+ * Ranks memories and tasks for a query in one of three modes:
+ * - semantic: cosine similarity against pgvector embeddings
+ * - keyword: PostgreSQL full-text rank against the generated search_vector
+ * - hybrid: reciprocal rank fusion of both lists
+ *
+ * Every match carries a score breakdown so callers can explain the ranking.
+ * Memories can additionally be reordered by relevance, which blends the
+ * match with priority, recency and usage (see MemoryRelevance).
+ * Semantic ranking only compares vectors produced by the active embedding
+ * model; stale vectors are skipped until the re-embedding job replaces them.
+ *
+ * @fileoverview Shared semantic/keyword/hybrid ranking for search and context tools
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import {
+  KeywordMatch,
+  MemoryVectorFilters,
+  PassageMatch,
+  TaskVectorFilters,
+  VectorMatch,
+} from '../core/vector-store.js';
+import { SearchMode, SearchScoreBreakdown } from '../core/types.js';
+import { embeddingService } from '../embedding-service.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { activeMemoryWhere } from './memory-expiry.js';
+import { MemoryRelevance } from './memory-relevance.js';
+
+/**
+ * How many candidates each list contributes per requested hybrid result
+ */
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+
+/**
+ * How many candidates are ranked per requested result before relevance reordering
+ */
+const RELEVANCE_CANDIDATE_MULTIPLIER = 2;
+
+/**
+ * Rows never embedded or embedded with a model other than the active one
+ */
+function staleEmbeddingWhere() {
+  return {
+    OR: [{ embeddingModel: null }, { embeddingModel: { not: embeddingService.getModelName() } }],
+  };
+}
+
+/**
+ * Ranking options shared by memory and task search
+ */
+export interface RankOptions {
+  mode: SearchMode;
+  limit: number;
+  minSimilarity: number;
+  // Memories only: reorder the matches by relevance
+  relevance?: boolean;
+}
+
+/**
+ * A ranked match with its score breakdown
+ */
+export interface RankedMatch {
+  id: number;
+  breakdown: SearchScoreBreakdown;
+  passage?: PassageMatch;
+}
+
+export class SearchRanker {
+  private relevance: MemoryRelevance;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.relevance = new MemoryRelevance(db);
+  }
+
+  /**
+   * Rank memories for a query
+   */
+  async rankMemories(
+    query: string,
+    filters: MemoryVectorFilters,
+    options: RankOptions
+  ): Promise<RankedMatch[]> {
+    if (options.relevance) {
+      // Rank a deeper pool so relevance can lift memories just below the cut
+      const matches = await this.rankMemories(query, filters, {
+        ...options,
+        relevance: false,
+        limit: options.limit * RELEVANCE_CANDIDATE_MULTIPLIER,
+      });
+      return this.relevance.rerank(matches, options.limit);
+    }
+
+    return this.rank(
+      query,
+      options,
+      (embedding, limit, model) =>
+        this.db.vectors.findNearestMemories(
+          embedding,
+          { ...filters, embedding_model: model },
+          limit,
+          options.minSimilarity
+        ),
+      limit => this.db.vectors.findKeywordMemories(query, filters, limit)
+    );
+  }
+
+  /**
+   * Rank tasks for a query
+   */
+  async rankTasks(
+    query: string,
+    filters: TaskVectorFilters,
+    options: RankOptions
+  ): Promise<RankedMatch[]> {
+    return this.rank(
+      query,
+      options,
+      (embedding, limit, model) =>
+        this.db.vectors.findNearestTasks(
+          embedding,
+          { ...filters, embedding_model: model },
+          limit,
+          options.minSimilarity
+        ),
+      limit => this.db.vectors.findKeywordTasks(query, filters, limit)
+    );
+  }
+
+  /**
+   * Count memories without a vector from the active model, which semantic
+   * ranking skips; archived and expired ones only when they are searched
+   */
+  async countStaleMemories(includeExpired: boolean = false): Promise<number> {
+    return this.db.client.memory.count({
+      where: {
+        deletedAt: null,
+        AND: [staleEmbeddingWhere(), ...(includeExpired ? [] : [activeMemoryWhere()])],
+      },
+    });
+  }
+
+  /**
+   * Count tasks without a vector from the active model, which semantic ranking skips
+   */
+  async countStaleTasks(): Promise<number> {
+    return this.db.client.task.count({
+      where: { ...staleEmbeddingWhere(), archived: false, deletedAt: null },
+    });
+  }
+
+  private async rank(
+    query: string,
+    options: RankOptions,
+    semanticSearch: (embedding: number[], limit: number, model: string) => Promise<VectorMatch[]>,
+    keywordSearch: (limit: number) => Promise<KeywordMatch[]>
+  ): Promise<RankedMatch[]> {
+    const { mode, limit } = options;
+
+    if (mode === 'keyword') {
+      const keywordMatches = await keywordSearch(limit);
+      return keywordMatches.map((match, index) => ({
+        id: match.id,
+        breakdown: {
+          mode,
+          score: round(match.rank),
+          keyword_rank_score: round(match.rank),
+          keyword_rank: index + 1,
+        },
+      }));
+    }
+
+    if (mode === 'semantic') {
+      const queryEmbedding = await embeddingService.generateEmbedding(query);
+      const semanticMatches = await semanticSearch(
+        queryEmbedding.embedding,
+        limit,
+        queryEmbedding.model
+      );
+      return semanticMatches.map((match, index) => ({
+        id: match.id,
+        passage: match.passage,
+        breakdown: {
+          mode,
+          score: round(match.similarity),
+          semantic_similarity: round(match.similarity),
+          semantic_rank: index + 1,
+        },
+      }));
+    }
+
+    // Hybrid: gather a deeper candidate pool from both sides, then fuse
+    const candidateLimit = limit * HYBRID_CANDIDATE_MULTIPLIER;
+    const keywordMatches = await keywordSearch(candidateLimit);
+    let semanticMatches: VectorMatch[] = [];
+    try {
+      const queryEmbedding = await embeddingService.generateEmbedding(query);
+      semanticMatches = await semanticSearch(
+        queryEmbedding.embedding,
+        candidateLimit,
+        queryEmbedding.model
+      );
+    } catch (error) {
+      console.warn('Semantic ranking unavailable, hybrid search using keyword rank only:', error);
+    }
+
+    const semanticById = new Map(semanticMatches.map(match => [match.id, match]));
+    const keywordRankById = new Map(keywordMatches.map(match => [match.id, match.rank]));
+
+    const fused = reciprocalRankFusion({
+      semantic: semanticMatches.map(match => match.id),
+      keyword: keywordMatches.map(match => match.id),
+    });
+
+    return fused.slice(0, limit).map(result => {
+      const similarity = semanticById.get(result.id)?.similarity;
+      const keywordRank = keywordRankById.get(result.id);
+      return {
+        id: result.id,
+        passage: semanticById.get(result.id)?.passage,
+        breakdown: {
+          mode,
+          score: round(result.score, 6),
+          semantic_similarity: similarity !== undefined ? round(similarity) : undefined,
+          semantic_rank: result.ranks.semantic,
+          keyword_rank_score: keywordRank !== undefined ? round(keywordRank) : undefined,
+          keyword_rank: result.ranks.keyword,
+        },
+      };
+    });
+  }
+}
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,101 @@
+/**
+ * Session Log for AI Memory MCP Server
+ *
+ * A session is one conversation with an agent, begun by begin_session or
+ * start_session and closed by end_session. At most one session is active at
+ * a time; beginning a new one ends the one before. Memory and task writes
+ * record what they created or updated against the active session, in the
+ * same transaction as the change, so get_session can replay what a session
+ * touched. The latest earlier session in the same scope is what "since last
+ * time" means in the next start_session briefing.
+ *
+ * @fileoverview Session markers and the activity attributed to them
+ */
+
+import { Prisma, Session } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { SessionAction } from '../core/types.js';
+
+/**
+ * Prisma client or the client of an open transaction
+ */
+type SessionClient = Prisma.TransactionClient;
+
+export class SessionLog {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Latest session begun for the project, or, when projectId is null, the
+   * latest begun without a project; sessions of a project do not count for
+   * the project-less scope, nor the other way round
+   */
+  async latest(projectId: number | null): Promise<Session | null> {
+    return this.db.client.session.findFirst({
+      where: { projectId },
+      orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  /**
+   * The session that has not ended yet, if any
+   */
+  async active(client: SessionClient = this.db.client): Promise<Session | null> {
+    return client.session.findFirst({
+      where: { endedAt: null },
+      orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  /**
+   * Start a session, ending any session still active
+   *
+   * @returns The new session and the IDs of the sessions it ended
+   */
+  async begin(
+    projectId: number | null,
+    startedAt: Date = new Date()
+  ): Promise<{ session: Session; ended: number[] }> {
+    return this.db.client.$transaction(async tx => {
+      const open = await tx.session.findMany({ where: { endedAt: null }, select: { id: true } });
+      const ended = open.map(session => session.id);
+      if (ended.length > 0) {
+        await tx.session.updateMany({ where: { id: { in: ended } }, data: { endedAt: startedAt } });
+      }
+
+      const session = await tx.session.create({ data: { projectId, startedAt } });
+      return { session, ended };
+    });
+  }
+
+  /**
+   * Attribute a created or updated memory or task to the active session; does
+   * nothing while no session is active. Pass the transaction client the change
+   * runs in so the record commits with it.
+   */
+  async record(
+    client: SessionClient,
+    item: { memoryId: number } | { taskId: number },
+    action: SessionAction
+  ): Promise<void> {
+    const session = await this.active(client);
+    if (!session) return;
+
+    await client.sessionActivity.create({ data: { sessionId: session.id, action, ...item } });
+  }
+
+  /**
+   * Attribute tasks changed in bulk to the active session, as record does
+   */
+  async recordTasks(
+    client: SessionClient,
+    taskIds: number[],
+    action: SessionAction
+  ): Promise<void> {
+    const session = await this.active(client);
+    if (!session || taskIds.length === 0) return;
+
+    await client.sessionActivity.createMany({
+      data: taskIds.map(taskId => ({ sessionId: session.id, taskId, action })),
+    });
+  }
+}
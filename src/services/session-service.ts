@@ -0,0 +1,331 @@
+/**
+ * Session Service for AI Memory MCP Server
+ *
+ * begin_session and end_session bracket a conversation with an agent. While a
+ * session is active, every memory and task created or updated is attributed
+ * to it (see SessionLog). end_session can keep a summary of the conversation
+ * as a memory, and list_sessions and get_session replay what each session
+ * touched.
+ *
+ * @fileoverview Beginning, ending and replaying conversation sessions
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import {
+  BeginSessionArgs,
+  EndSessionArgs,
+  GetSessionArgs,
+  ListSessionsArgs,
+  MCPResponse,
+  SessionAction,
+} from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+import { MemoryService } from './memory-service.js';
+import { SessionLog } from './session-log.js';
+
+/**
+ * Sessions listed by list_sessions when no limit is given
+ */
+const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * Category and tag of the memories end_session stores summaries in
+ */
+const SUMMARY_CATEGORY = 'session';
+const SUMMARY_TAG = 'session-summary';
+
+/**
+ * One session as listed by list_sessions
+ */
+export interface SessionOverview {
+  id: number;
+  project?: string;
+  started_at: string;
+  ended_at?: string;
+  active: boolean;
+  summary_memory_id?: number;
+  // Distinct memories and tasks created or updated during the session
+  memories_touched: number;
+  tasks_touched: number;
+}
+
+/**
+ * One change made during a session
+ */
+export interface SessionTouch {
+  at: string;
+  action: SessionAction;
+  type: 'memory' | 'task';
+  id: number;
+  title: string;
+  // Set when the memory or task has been deleted since
+  in_trash?: boolean;
+}
+
+/**
+ * A session with everything it touched, as returned by get_session and end_session
+ */
+export interface SessionReplay extends SessionOverview {
+  summary?: { memory_id: number; title: string; content: string };
+  // Oldest first
+  timeline: SessionTouch[];
+}
+
+/**
+ * Session service interface
+ */
+export interface SessionService {
+  beginSession(args: BeginSessionArgs): Promise<MCPResponse>;
+  endSession(args: EndSessionArgs): Promise<MCPResponse>;
+  listSessions(args: ListSessionsArgs): Promise<MCPResponse>;
+  getSession(args: GetSessionArgs): Promise<MCPResponse>;
+}
+
+const replayInclude = {
+  project: { select: { name: true } },
+  summaryMemory: { select: { id: true, title: true, content: true, deletedAt: true } },
+  activity: {
+    orderBy: [{ createdAt: 'asc' as const }, { id: 'asc' as const }],
+    include: {
+      memory: { select: { title: true, deletedAt: true } },
+      task: { select: { title: true, deletedAt: true } },
+    },
+  },
+};
+
+/**
+ * Session Service Implementation
+ *
+ * Summaries are stored through the memory service, so they are embedded and
+ * searchable like any other memory, and attributed to the session they sum up.
+ */
+export class SessionServiceImpl implements SessionService {
+  private sessions: SessionLog;
+
+  constructor(
+    private db: PrismaDatabaseService,
+    private memoryService: MemoryService
+  ) {
+    this.sessions = new SessionLog(db);
+  }
+
+  /**
+   * Begin a session, ending the one still active
+   */
+  async beginSession(args: BeginSessionArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { project } = args;
+
+      const projectId = project ? await this.resolveProject(project) : null;
+      const { session, ended } = await this.sessions.begin(projectId);
+
+      let message = `Session #${session.id} begun`;
+      if (project) {
+        message += ` for project "${project.toLowerCase()}"`;
+      }
+      if (ended.length > 0) {
+        message += `; ended session ${ended.map(id => `#${id}`).join(', ')}`;
+      }
+
+      return createMCPResponse(
+        { ...(await this.replay(session.id)), ended_sessions: ended },
+        message
+      );
+    });
+  }
+
+  /**
+   * End a session, keeping the summary as a memory in the session's project
+   */
+  async endSession(args: EndSessionArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { id, summary, title } = args;
+
+      if (summary !== undefined && !summary.trim()) {
+        throw createValidationError('Summary must not be empty');
+      }
+
+      const session = await this.findSession(id);
+      if (session.endedAt) {
+        throw createValidationError(
+          `Session #${session.id} already ended at ${session.endedAt.toISOString()}`
+        );
+      }
+
+      // Stored before the session ends, so the summary counts as touched by it
+      let summaryMemoryId: number | undefined;
+      if (summary !== undefined) {
+        const response = await this.memoryService.storeMemory({
+          title: title || `Session #${session.id} summary`,
+          content: summary.trim(),
+          category: SUMMARY_CATEGORY,
+          project: session.project?.name,
+          tags: SUMMARY_TAG,
+          on_duplicate: 'ignore',
+        });
+        if (response.isError) {
+          return response;
+        }
+        summaryMemoryId = JSON.parse(response.content[0].text).data.id;
+      }
+
+      await this.db.client.session.update({
+        where: { id: session.id },
+        data: { endedAt: new Date(), summaryMemoryId },
+      });
+
+      const replay = await this.replay(session.id);
+      let message = `Session #${session.id} ended; it touched ${replay.memories_touched} memories and ${replay.tasks_touched} tasks`;
+      if (summaryMemoryId !== undefined) {
+        message += `; summary stored as memory #${summaryMemoryId}`;
+      }
+
+      return createMCPResponse(replay, message);
+    });
+  }
+
+  /**
+   * List sessions, most recent first, with how much each touched
+   */
+  async listSessions(args: ListSessionsArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { project, limit = DEFAULT_LIST_LIMIT } = args;
+
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw createValidationError('Limit must be a positive integer');
+      }
+
+      const projectId = project ? await this.resolveProject(project) : undefined;
+      const sessions = await this.db.client.session.findMany({
+        where: projectId !== undefined ? { projectId } : {},
+        include: {
+          project: { select: { name: true } },
+          activity: { select: { memoryId: true, taskId: true } },
+        },
+        orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+      });
+
+      const overviews = sessions.map(session => this.overview(session, session.activity));
+
+      return createMCPResponse(
+        { sessions: overviews, count: overviews.length },
+        `Found ${overviews.length} sessions`
+      );
+    });
+  }
+
+  /**
+   * Replay a session: the memories and tasks it created or updated, in order
+   */
+  async getSession(args: GetSessionArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const session = await this.findSession(args.id);
+      const replay = await this.replay(session.id);
+
+      return createMCPResponse(
+        replay,
+        `Session #${session.id} touched ${replay.memories_touched} memories and ${replay.tasks_touched} tasks`
+      );
+    });
+  }
+
+  private async resolveProject(name: string): Promise<number> {
+    const project = await this.db.getProjectByName(name.toLowerCase());
+    if (!project) {
+      throw createNotFoundError('Project', name);
+    }
+    return project.id;
+  }
+
+  /**
+   * The session with the given ID, or the active session when id is omitted
+   */
+  private async findSession(id?: number) {
+    if (id === undefined) {
+      const active = await this.sessions.active();
+      if (!active) {
+        throw createValidationError('No session is active; pass the ID of a session');
+      }
+      id = active.id;
+    }
+
+    const session = await this.db.client.session.findUnique({
+      where: { id },
+      include: { project: { select: { name: true } } },
+    });
+    if (!session) {
+      throw createNotFoundError('Session', id);
+    }
+    return session;
+  }
+
+  private async replay(id: number): Promise<SessionReplay> {
+    const session = await this.db.client.session.findUniqueOrThrow({
+      where: { id },
+      include: replayInclude,
+    });
+
+    const timeline = session.activity.map((entry): SessionTouch => {
+      const item = entry.memory ?? entry.task!;
+      return {
+        at: entry.createdAt.toISOString(),
+        action: entry.action as SessionAction,
+        type: entry.memoryId !== null ? 'memory' : 'task',
+        id: (entry.memoryId ?? entry.taskId)!,
+        title: item.title,
+        in_trash: item.deletedAt ? true : undefined,
+      };
+    });
+
+    const summary = session.summaryMemory;
+    return {
+      ...this.overview(session, session.activity),
+      summary:
+        summary && !summary.deletedAt
+          ? { memory_id: summary.id, title: summary.title, content: summary.content }
+          : undefined,
+      timeline,
+    };
+  }
+
+  private overview(
+    session: {
+      id: number;
+      project: { name: string } | null;
+      startedAt: Date;
+      endedAt: Date | null;
+      summaryMemoryId: number | null;
+    },
+    activity: { memoryId: number | null; taskId: number | null }[]
+  ): SessionOverview {
+    const memories = new Set(activity.flatMap(entry => entry.memoryId ?? []));
+    const tasks = new Set(activity.flatMap(entry => entry.taskId ?? []));
+
+    return {
+      id: session.id,
+      project: session.project?.name,
+      started_at: session.startedAt.toISOString(),
+      ended_at: session.endedAt?.toISOString(),
+      active: session.endedAt === null,
+      summary_memory_id: session.summaryMemoryId ?? undefined,
+      memories_touched: memories.size,
+      tasks_touched: tasks.size,
+    };
+  }
+}
+
+/**
+ * Create a new session service instance
+ */
+export function createSessionService(
+  db: PrismaDatabaseService,
+  memoryService: MemoryService
+): SessionService {
+  return new SessionServiceImpl(db, memoryService);
+}
@@ -34,8 +34,12 @@ export class StatusTagServiceImpl implements StatusTagService {
         include: {
           _count: {
             select: {
-              memoryTags: true,
-              taskTags: true,
+              memoryTags: {
+                where: { memory: { deletedAt: null } },
+              },
+              taskTags: {
+                where: { task: { deletedAt: null } },
+              },
             },
           },
         },
@@ -92,7 +96,7 @@ export class StatusTagServiceImpl implements StatusTagService {
 
   async getMemoryWithRelations(memoryId: number): Promise<any> {
     const memory = await this.db.client.memory.findUnique({
-      where: { id: memoryId },
+      where: { id: memoryId, deletedAt: null },
       include: {
         category: true,
         project: true,
@@ -0,0 +1,433 @@
+/**
+ * Task Dependency Service for AI Memory MCP Server
+ *
+ * Manages "task B cannot start until task A is done" relationships. The
+ * dependency graph is kept acyclic: adding an edge that would close a loop is
+ * refused with the offending path. A task is blocked while any task it
+ * depends on is still open (not completed, cancelled or archived).
+ *
+ * @fileoverview Task dependency graph with cycle detection and blocking info
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import {
+  AddTaskDependencyArgs,
+  GetTaskGraphArgs,
+  MCPResponse,
+  RemoveTaskDependencyArgs,
+} from '../core/types.js';
+import { TASK_STATUS } from '../utils/constants.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+
+/**
+ * Statuses that no longer block dependent tasks
+ */
+const CLOSED_STATUSES: string[] = [TASK_STATUS.COMPLETED, TASK_STATUS.CANCELLED];
+
+const graphTaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  archived: true,
+  status: { select: { name: true } },
+  project: { select: { name: true } },
+} satisfies Prisma.TaskSelect;
+
+type GraphTaskRow = Prisma.TaskGetPayload<{ select: typeof graphTaskSelect }>;
+
+/**
+ * Dependency edges loaded into adjacency lists
+ */
+interface LoadedGraph {
+  tasks: Map<number, GraphTaskRow>;
+  // task id -> ids of the tasks it depends on
+  dependsOn: Map<number, number[]>;
+  // task id -> ids of the tasks that depend on it
+  dependents: Map<number, number[]>;
+}
+
+/**
+ * Short description of a task on the other end of a dependency
+ */
+export interface DependencyTaskSummary {
+  id: number;
+  title: string;
+  status: string;
+  open: boolean;
+}
+
+/**
+ * Blocking information for one task
+ */
+export interface TaskDependencyInfo {
+  depends_on: DependencyTaskSummary[];
+  blocks: DependencyTaskSummary[];
+  // Open tasks this task is waiting on
+  blocked_by: number[];
+  blocked: boolean;
+  // Open tasks that (directly or transitively) wait on this task
+  unblocks: number;
+}
+
+/**
+ * Task dependency service interface
+ */
+export interface TaskDependencyService {
+  addTaskDependency(args: AddTaskDependencyArgs): Promise<MCPResponse>;
+  removeTaskDependency(args: RemoveTaskDependencyArgs): Promise<MCPResponse>;
+  getTaskGraph(args: GetTaskGraphArgs): Promise<MCPResponse>;
+  getDependencyInfo(taskIds: number[]): Promise<Map<number, TaskDependencyInfo>>;
+}
+
+/**
+ * Task Dependency Service Implementation
+ */
+export class TaskDependencyServiceImpl implements TaskDependencyService {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * Make a task depend on another, refusing edges that would create a cycle
+   */
+  async addTaskDependency(args: AddTaskDependencyArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { task_id, depends_on_id } = args;
+      this.validateIds(task_id, depends_on_id);
+
+      // Serializable so two concurrent additions cannot close a cycle together
+      const tasks = await this.db.client.$transaction(
+        async tx => {
+          const tasks = await tx.task.findMany({
+            where: { id: { in: [task_id, depends_on_id] }, deletedAt: null },
+            select: graphTaskSelect,
+          });
+          for (const id of [task_id, depends_on_id]) {
+            if (!tasks.some(task => task.id === id)) {
+              throw createNotFoundError('Task', id);
+            }
+          }
+
+          const existing = await tx.taskDependency.findUnique({
+            where: { taskId_dependsOnId: { taskId: task_id, dependsOnId: depends_on_id } },
+          });
+          if (existing) {
+            throw createValidationError(
+              `Task ${task_id} already depends on task ${depends_on_id}`
+            );
+          }
+
+          const cycle = await this.findPath(tx, depends_on_id, task_id);
+          if (cycle) {
+            throw createValidationError(
+              `Adding this dependency would create a cycle: ${[task_id, ...cycle]
+                .map(id => `#${id}`)
+                .join(' → ')}`
+            );
+          }
+
+          await tx.taskDependency.create({
+            data: { taskId: task_id, dependsOnId: depends_on_id },
+          });
+          return tasks;
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      const task = tasks.find(t => t.id === task_id)!;
+      const prerequisite = tasks.find(t => t.id === depends_on_id)!;
+      const info = (await this.getDependencyInfo([task_id])).get(task_id)!;
+
+      return createMCPResponse(
+        {
+          task: this.toSummary(task),
+          depends_on: this.toSummary(prerequisite),
+          blocked: info.blocked,
+          blocked_by: info.blocked_by,
+        },
+        `Task "${task.title}" now depends on "${prerequisite.title}"${info.blocked ? ' and is blocked' : ''}`
+      );
+    });
+  }
+
+  /**
+   * Remove a dependency between two tasks
+   */
+  async removeTaskDependency(args: RemoveTaskDependencyArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { task_id, depends_on_id } = args;
+      this.validateIds(task_id, depends_on_id);
+
+      const { count } = await this.db.client.taskDependency.deleteMany({
+        where: { taskId: task_id, dependsOnId: depends_on_id },
+      });
+      if (count === 0) {
+        throw createNotFoundError(`Dependency of task ${task_id} on task ${depends_on_id}`);
+      }
+
+      const info = (await this.getDependencyInfo([task_id])).get(task_id)!;
+
+      return createMCPResponse(
+        { task_id, depends_on_id, blocked: info.blocked, blocked_by: info.blocked_by },
+        `Task ${task_id} no longer depends on task ${depends_on_id}${info.blocked ? '' : ' and is unblocked'}`
+      );
+    });
+  }
+
+  /**
+   * Return dependency nodes and edges, in dependency order. With task_id, only
+   * the task's prerequisites and dependents (transitively) are included.
+   */
+  async getTaskGraph(args: GetTaskGraphArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { task_id, project, include_completed = true } = args;
+
+      if (task_id !== undefined && (!Number.isInteger(task_id) || task_id <= 0)) {
+        throw createValidationError('task_id must be a positive integer');
+      }
+
+      const graph = await this.loadGraph();
+      let ids = new Set(graph.tasks.keys());
+
+      if (task_id !== undefined) {
+        const task = await this.db.client.task.findUnique({
+          where: { id: task_id, deletedAt: null },
+          select: graphTaskSelect,
+        });
+        if (!task) {
+          throw createNotFoundError('Task', task_id);
+        }
+        graph.tasks.set(task.id, task);
+        ids = new Set([
+          task_id,
+          ...this.reachable(graph.dependsOn, task_id),
+          ...this.reachable(graph.dependents, task_id),
+        ]);
+      }
+
+      if (project) {
+        const name = project.toLowerCase();
+        ids = new Set([...ids].filter(id => graph.tasks.get(id)!.project?.name === name));
+      }
+      if (!include_completed) {
+        ids = new Set([...ids].filter(id => this.isOpen(graph.tasks.get(id)!)));
+      }
+
+      const edges = [...ids].flatMap(id =>
+        (graph.dependsOn.get(id) ?? [])
+          .filter(dependsOnId => ids.has(dependsOnId))
+          .map(dependsOnId => ({ task_id: id, depends_on_id: dependsOnId }))
+      );
+
+      const nodes = this.topologicalOrder(ids, graph).map(id => {
+        const task = graph.tasks.get(id)!;
+        const blockedBy = this.openPrerequisites(graph, id);
+        return {
+          id,
+          title: task.title,
+          status: task.status.name,
+          project: task.project?.name,
+          priority: task.priority,
+          due_date: task.dueDate?.toISOString().split('T')[0],
+          archived: task.archived,
+          depends_on: graph.dependsOn.get(id) ?? [],
+          blocks: graph.dependents.get(id) ?? [],
+          blocked: blockedBy.length > 0,
+          unblocks: this.countOpenDependents(graph, id),
+        };
+      });
+
+      const ready = nodes.filter(n => !n.blocked && this.isOpen(graph.tasks.get(n.id)!));
+      const blocked = nodes.filter(n => n.blocked);
+
+      return createMCPResponse(
+        {
+          nodes,
+          edges,
+          ready: ready.map(n => n.id),
+          blocked: blocked.map(n => n.id),
+        },
+        `Task graph with ${nodes.length} tasks and ${edges.length} dependencies (${ready.length} ready, ${blocked.length} blocked)`
+      );
+    });
+  }
+
+  /**
+   * Blocking information for the given tasks, used by get_task, task context
+   * and urgency scoring. Tasks without dependencies get empty entries.
+   */
+  async getDependencyInfo(taskIds: number[]): Promise<Map<number, TaskDependencyInfo>> {
+    const graph = await this.loadGraph();
+    const summary = (id: number): DependencyTaskSummary => this.toSummary(graph.tasks.get(id)!);
+
+    return new Map(
+      taskIds.map(id => {
+        const blockedBy = this.openPrerequisites(graph, id);
+        return [
+          id,
+          {
+            depends_on: (graph.dependsOn.get(id) ?? []).map(summary),
+            blocks: (graph.dependents.get(id) ?? []).map(summary),
+            blocked_by: blockedBy,
+            blocked: blockedBy.length > 0,
+            unblocks: this.countOpenDependents(graph, id),
+          },
+        ];
+      })
+    );
+  }
+
+  // Private helper methods
+
+  private validateIds(taskId: unknown, dependsOnId: unknown): void {
+    if (!Number.isInteger(taskId) || (taskId as number) <= 0) {
+      throw createValidationError('task_id must be a positive integer');
+    }
+    if (!Number.isInteger(dependsOnId) || (dependsOnId as number) <= 0) {
+      throw createValidationError('depends_on_id must be a positive integer');
+    }
+    if (taskId === dependsOnId) {
+      throw createValidationError('A task cannot depend on itself');
+    }
+  }
+
+  /**
+   * Follow dependency edges from one task to another
+   *
+   * @returns Task ids from `from` to `to`, or null when `to` is not reachable
+   */
+  private async findPath(
+    tx: Prisma.TransactionClient,
+    from: number,
+    to: number
+  ): Promise<number[] | null> {
+    const previous = new Map<number, number | null>([[from, null]]);
+    let frontier = [from];
+
+    while (frontier.length > 0) {
+      const edges = await tx.taskDependency.findMany({
+        where: { taskId: { in: frontier } },
+        select: { taskId: true, dependsOnId: true },
+      });
+
+      frontier = [];
+      for (const { taskId, dependsOnId } of edges) {
+        if (previous.has(dependsOnId)) continue;
+        previous.set(dependsOnId, taskId);
+
+        if (dependsOnId === to) {
+          const path = [to];
+          for (let id = previous.get(to); id != null; id = previous.get(id)) {
+            path.unshift(id);
+          }
+          return path;
+        }
+        frontier.push(dependsOnId);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Load every dependency edge with the tasks on both ends; edges to or from
+   * a trashed task are left out until it is restored
+   */
+  private async loadGraph(): Promise<LoadedGraph> {
+    const edges = await this.db.client.taskDependency.findMany({
+      where: { task: { deletedAt: null }, dependsOn: { deletedAt: null } },
+      select: {
+        task: { select: graphTaskSelect },
+        dependsOn: { select: graphTaskSelect },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const graph: LoadedGraph = { tasks: new Map(), dependsOn: new Map(), dependents: new Map() };
+    for (const { task, dependsOn } of edges) {
+      graph.tasks.set(task.id, task);
+      graph.tasks.set(dependsOn.id, dependsOn);
+      graph.dependsOn.set(task.id, [...(graph.dependsOn.get(task.id) ?? []), dependsOn.id]);
+      graph.dependents.set(dependsOn.id, [...(graph.dependents.get(dependsOn.id) ?? []), task.id]);
+    }
+    return graph;
+  }
+
+  private isOpen(task: GraphTaskRow): boolean {
+    return !task.archived && !CLOSED_STATUSES.includes(task.status.name);
+  }
+
+  private openPrerequisites(graph: LoadedGraph, id: number): number[] {
+    return (graph.dependsOn.get(id) ?? []).filter(dep => this.isOpen(graph.tasks.get(dep)!));
+  }
+
+  private countOpenDependents(graph: LoadedGraph, id: number): number {
+    return [...this.reachable(graph.dependents, id)].filter(dep =>
+      this.isOpen(graph.tasks.get(dep)!)
+    ).length;
+  }
+
+  /**
+   * Every task reachable from `start` along the given edges, excluding `start`
+   */
+  private reachable(edges: Map<number, number[]>, start: number): Set<number> {
+    const seen = new Set<number>();
+    const stack = [start];
+    while (stack.length > 0) {
+      for (const next of edges.get(stack.pop()!) ?? []) {
+        if (next !== start && !seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Order task ids so that prerequisites come before their dependents
+   */
+  private topologicalOrder(ids: Set<number>, graph: LoadedGraph): number[] {
+    const remaining = new Map(
+      [...ids].map(id => [
+        id,
+        (graph.dependsOn.get(id) ?? []).filter(dep => ids.has(dep)).length,
+      ])
+    );
+    const order: number[] = [];
+    let ready = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => a - b);
+      const id = ready.shift()!;
+      order.push(id);
+      for (const dependent of graph.dependents.get(id) ?? []) {
+        if (!remaining.has(dependent)) continue;
+        const count = remaining.get(dependent)! - 1;
+        remaining.set(dependent, count);
+        if (count === 0) ready.push(dependent);
+      }
+    }
+
+    return order;
+  }
+
+  private toSummary(task: GraphTaskRow): DependencyTaskSummary {
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status.name,
+      open: this.isOpen(task),
+    };
+  }
+}
+
+// Export factory function
+export function createTaskDependencyService(db: PrismaDatabaseService): TaskDependencyService {
+  return new TaskDependencyServiceImpl(db);
+}
@@ -0,0 +1,421 @@
+/**
+ * Task Event Log for AI Memory MCP Server
+ *
+ * Append-only history of task changes. Task writes record what changed (old
+ * and new value per field, status transitions, tag and archive changes) in
+ * the same transaction as the change itself, so the history shows when a
+ * task went in progress, who changed it and how long it sat in each status.
+ *
+ * @fileoverview Task change events, status timelines and cycle time
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { RecurrenceFrequency, TaskEventType } from '../core/types.js';
+import { formatRRule } from '../utils/recurrence.js';
+import { SessionLog } from './session-log.js';
+
+/**
+ * Events listed by get_task_history when no limit is given
+ */
+const DEFAULT_HISTORY_LIMIT = 100;
+
+const IN_PROGRESS_STATUS = 'in_progress';
+const COMPLETED_STATUS = 'completed';
+
+/**
+ * Prisma client or the client of an open transaction
+ */
+type EventClient = Prisma.TransactionClient;
+
+const snapshotSelect = {
+  title: true,
+  description: true,
+  priority: true,
+  dueDate: true,
+  parentId: true,
+  archived: true,
+  recurrenceFrequency: true,
+  recurrenceInterval: true,
+  recurrenceUntil: true,
+  recurrenceCount: true,
+  status: { select: { name: true } },
+  category: { select: { name: true } },
+  project: { select: { name: true } },
+  taskTags: { select: { tag: { select: { name: true } } } },
+} satisfies Prisma.TaskSelect;
+
+/**
+ * Task state compared before and after a change; every value is stored as text
+ */
+interface TaskSnapshot {
+  status: string;
+  archived: boolean;
+  tags: string;
+  fields: Record<string, string | null>;
+}
+
+type NewEvent = Omit<Prisma.TaskEventCreateManyInput, 'taskId' | 'actor'>;
+
+/**
+ * One entry of a task's history
+ */
+export interface TaskEventEntry {
+  id: number;
+  type: string;
+  field?: string;
+  old_value?: string;
+  new_value?: string;
+  actor?: string;
+  created_at: string;
+}
+
+/**
+ * A stretch of time a task spent in one status
+ */
+export interface StatusPeriod {
+  status: string;
+  entered_at: string;
+  left_at?: string;
+  hours: number;
+}
+
+/**
+ * Average and median of a duration over completed tasks
+ */
+export interface DurationStats {
+  tasks: number;
+  average_hours: number | null;
+  median_hours: number | null;
+}
+
+/**
+ * History of a task as returned by get_task_history
+ */
+export interface TaskHistory {
+  task_id: number;
+  events: TaskEventEntry[];
+  status_timeline: StatusPeriod[];
+  // Total hours per status over the task's lifetime
+  time_in_status: Record<string, number>;
+  // First move to in_progress until the last completion
+  cycle_time_hours?: number;
+  // Creation until the last completion
+  lead_time_hours?: number;
+}
+
+export class TaskEventLog {
+  private sessions: SessionLog;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.sessions = new SessionLog(db);
+  }
+
+  /**
+   * Run a change to an existing task and record the fields it changed. Pass
+   * the transaction client the change runs in so the events commit with it.
+   */
+  async track<T>(
+    client: EventClient,
+    taskId: number,
+    actor: string | undefined,
+    change: () => Promise<T>
+  ): Promise<T> {
+    const before = await this.snapshot(client, taskId);
+    const result = await change();
+    const after = await this.snapshot(client, taskId);
+
+    if (before && after) {
+      await this.write(client, taskId, actor, this.diff(before, after));
+    }
+    return result;
+  }
+
+  /**
+   * Record the creation of a task, dated at the task's own creation time
+   */
+  async recordCreated(client: EventClient, taskId: number, actor?: string): Promise<void> {
+    const task = await client.task.findUnique({
+      where: { id: taskId },
+      select: { createdAt: true, status: { select: { name: true } } },
+    });
+    if (!task) return;
+
+    await this.write(client, taskId, actor, [
+      { eventType: 'created', newValue: task.status.name, createdAt: task.createdAt },
+    ]);
+  }
+
+  /**
+   * Record status transitions made in bulk, e.g. when completing subtasks
+   */
+  async recordStatusChanges(
+    client: EventClient,
+    changes: { taskId: number; from: string; to: string }[],
+    actor?: string
+  ): Promise<void> {
+    if (changes.length === 0) return;
+
+    await client.taskEvent.createMany({
+      data: changes.map(change => ({
+        taskId: change.taskId,
+        eventType: 'status_changed',
+        oldValue: change.from,
+        newValue: change.to,
+        actor: actor ?? null,
+      })),
+    });
+    await this.sessions.recordTasks(
+      client,
+      changes.map(change => change.taskId),
+      'updated'
+    );
+  }
+
+  /**
+   * Record tasks moving into or out of the trash
+   */
+  async recordTrashChanges(
+    client: EventClient,
+    taskIds: number[],
+    trashed: boolean,
+    actor?: string
+  ): Promise<void> {
+    if (taskIds.length === 0) return;
+
+    await client.taskEvent.createMany({
+      data: taskIds.map(taskId => ({
+        taskId,
+        eventType: trashed ? 'trashed' : 'restored',
+        actor: actor ?? null,
+      })),
+    });
+    await this.sessions.recordTasks(client, taskIds, 'updated');
+  }
+
+  /**
+   * Events of a task, newest first, with the status timeline and durations
+   * computed from the full history
+   */
+  async getHistory(
+    taskId: number,
+    options: { eventType?: TaskEventType; limit?: number } = {}
+  ): Promise<TaskHistory> {
+    const rows = await this.db.client.taskEvent.findMany({
+      where: { taskId, ...(options.eventType ? { eventType: options.eventType } : {}) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options.limit ?? DEFAULT_HISTORY_LIMIT,
+    });
+
+    const transitions = await this.db.client.taskEvent.findMany({
+      where: { taskId, eventType: { in: ['created', 'status_changed'] } },
+      select: { eventType: true, newValue: true, createdAt: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const timeline = this.timeline(transitions);
+    const timeInStatus: Record<string, number> = {};
+    for (const period of timeline) {
+      timeInStatus[period.status] = round((timeInStatus[period.status] ?? 0) + period.hours);
+    }
+    const durations = this.durations(transitions);
+
+    return {
+      task_id: taskId,
+      events: rows.map(row => ({
+        id: row.id,
+        type: row.eventType,
+        field: row.field ?? undefined,
+        old_value: row.oldValue ?? undefined,
+        new_value: row.newValue ?? undefined,
+        actor: row.actor ?? undefined,
+        created_at: row.createdAt.toISOString(),
+      })),
+      status_timeline: timeline,
+      time_in_status: timeInStatus,
+      cycle_time_hours: durations.cycle,
+      lead_time_hours: durations.lead,
+    };
+  }
+
+  /**
+   * Cycle and lead time over tasks that are currently completed. Archived
+   * tasks count too, since finished work is usually archived; trashed tasks
+   * and tasks completed before the history existed are left out.
+   */
+  async completionTimes(): Promise<{ cycle_time: DurationStats; lead_time: DurationStats }> {
+    const rows = await this.db.client.taskEvent.findMany({
+      where: {
+        eventType: { in: ['created', 'status_changed'] },
+        task: { status: { name: COMPLETED_STATUS }, deletedAt: null },
+      },
+      select: { taskId: true, eventType: true, newValue: true, createdAt: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const byTask = new Map<number, typeof rows>();
+    for (const row of rows) {
+      byTask.set(row.taskId, [...(byTask.get(row.taskId) ?? []), row]);
+    }
+
+    const cycle: number[] = [];
+    const lead: number[] = [];
+    for (const transitions of byTask.values()) {
+      const durations = this.durations(transitions);
+      if (durations.cycle !== undefined) cycle.push(durations.cycle);
+      if (durations.lead !== undefined) lead.push(durations.lead);
+    }
+
+    return { cycle_time: summarize(cycle), lead_time: summarize(lead) };
+  }
+
+  private async snapshot(client: EventClient, taskId: number): Promise<TaskSnapshot | null> {
+    const task = await client.task.findUnique({ where: { id: taskId }, select: snapshotSelect });
+    if (!task) return null;
+
+    const rrule = task.recurrenceFrequency
+      ? formatRRule({
+          frequency: task.recurrenceFrequency as RecurrenceFrequency,
+          interval: task.recurrenceInterval ?? 1,
+          until: task.recurrenceUntil?.toISOString().split('T')[0],
+          count: task.recurrenceCount ?? undefined,
+        })
+      : null;
+
+    return {
+      status: task.status.name,
+      archived: task.archived,
+      tags: task.taskTags
+        .map(tt => tt.tag.name)
+        .sort()
+        .join(', '),
+      fields: {
+        title: task.title,
+        description: task.description,
+        category: task.category?.name ?? null,
+        project: task.project?.name ?? null,
+        priority: String(task.priority),
+        due_date: task.dueDate?.toISOString().split('T')[0] ?? null,
+        parent_id: task.parentId !== null ? String(task.parentId) : null,
+        recurrence: rrule,
+      },
+    };
+  }
+
+  private diff(before: TaskSnapshot, after: TaskSnapshot): NewEvent[] {
+    const events: NewEvent[] = [];
+
+    if (before.status !== after.status) {
+      events.push({ eventType: 'status_changed', oldValue: before.status, newValue: after.status });
+    }
+    for (const [field, value] of Object.entries(after.fields)) {
+      if (before.fields[field] !== value) {
+        events.push({
+          eventType: 'field_changed',
+          field,
+          oldValue: before.fields[field],
+          newValue: value,
+        });
+      }
+    }
+    if (before.tags !== after.tags) {
+      events.push({
+        eventType: 'tags_changed',
+        oldValue: before.tags || null,
+        newValue: after.tags || null,
+      });
+    }
+    if (before.archived !== after.archived) {
+      events.push({ eventType: after.archived ? 'archived' : 'unarchived' });
+    }
+
+    return events;
+  }
+
+  private async write(
+    client: EventClient,
+    taskId: number,
+    actor: string | undefined,
+    events: NewEvent[]
+  ): Promise<void> {
+    if (events.length === 0) return;
+    await client.taskEvent.createMany({
+      data: events.map(event => ({ ...event, taskId, actor: actor ?? null })),
+    });
+
+    // Single-task changes pass through here, so this is where they are
+    // attributed to the active session; bulk changes use recordTasks
+    const created = events.some(event => event.eventType === 'created');
+    await this.sessions.record(client, { taskId }, created ? 'created' : 'updated');
+  }
+
+  /**
+   * Status periods from a task's creation and status events, oldest first;
+   * the last period runs until now
+   */
+  private timeline(
+    transitions: { eventType: string; newValue: string | null; createdAt: Date }[]
+  ): StatusPeriod[] {
+    const periods: StatusPeriod[] = [];
+    const now = new Date();
+
+    transitions.forEach((event, i) => {
+      if (!event.newValue) return;
+      const left = transitions[i + 1]?.createdAt;
+      periods.push({
+        status: event.newValue,
+        entered_at: event.createdAt.toISOString(),
+        left_at: left?.toISOString(),
+        hours: hoursBetween(event.createdAt, left ?? now),
+      });
+    });
+
+    return periods;
+  }
+
+  /**
+   * Cycle and lead time of one task, when it is completed
+   */
+  private durations(
+    transitions: { eventType: string; newValue: string | null; createdAt: Date }[]
+  ): { cycle?: number; lead?: number } {
+    const last = transitions[transitions.length - 1];
+    if (!last || last.newValue !== COMPLETED_STATUS) {
+      return {};
+    }
+
+    const completedAt = last.createdAt;
+    const created = transitions.find(event => event.eventType === 'created');
+    const started = transitions.find(event => event.newValue === IN_PROGRESS_STATUS);
+
+    return {
+      cycle: started ? hoursBetween(started.createdAt, completedAt) : undefined,
+      lead: created ? hoursBetween(created.createdAt, completedAt) : undefined,
+    };
+  }
+}
+
+function hoursBetween(from: Date, to: Date): number {
+  return round((to.getTime() - from.getTime()) / 3_600_000);
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
+
+function summarize(hours: number[]): DurationStats {
+  if (hours.length === 0) {
+    return { tasks: 0, average_hours: null, median_hours: null };
+  }
+
+  const sorted = [...hours].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return {
+    tasks: hours.length,
+    average_hours: round(hours.reduce((sum, value) => sum + value, 0) / hours.length),
+    median_hours: round(median),
+  };
+}
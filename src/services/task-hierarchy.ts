@@ -0,0 +1,228 @@
+/**
+ * Task Hierarchy for AI Memory MCP Server
+ *
+ * Parent/child relationships between tasks, used to break work into steps.
+ * Loads a task's subtree, rolls completion percentage and due dates up to the
+ * parent, keeps the hierarchy free of loops and cascades completion.
+ *
+ * @fileoverview Subtask trees, roll-ups and cascading completion for tasks
+ */
+
+import { Prisma } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { TASK_STATUS } from '../utils/constants.js';
+import { createNotFoundError, createValidationError } from '../utils/error-handling.js';
+import { TaskEventLog } from './task-event-log.js';
+
+/**
+ * Deepest subtree that is loaded for display and roll-ups; deeper levels are
+ * left out of the tree (subtaskIds has no limit)
+ */
+const MAX_DEPTH = 20;
+
+const subtaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  completedAt: true,
+  archived: true,
+  parentId: true,
+  status: { select: { name: true } },
+} satisfies Prisma.TaskSelect;
+
+type SubtaskRow = Prisma.TaskGetPayload<{ select: typeof subtaskSelect }>;
+
+/**
+ * A subtask with its own subtasks
+ */
+export interface SubtaskNode {
+  id: number;
+  title: string;
+  status: string;
+  priority: number;
+  due_date?: string;
+  completed_at?: string;
+  archived: boolean;
+  subtasks: SubtaskNode[];
+}
+
+/**
+ * Subtree totals rolled up to a parent task
+ */
+export interface SubtaskRollup {
+  total: number;
+  completed: number;
+  open: number;
+  // Completed share of all non-cancelled subtasks, 0-100
+  completion_percent: number;
+  // Earliest due date among open subtasks
+  next_due_date?: string;
+  // Latest due date among all subtasks, i.e. when the whole tree is due
+  last_due_date?: string;
+}
+
+export class TaskHierarchy {
+  private events: TaskEventLog;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.events = new TaskEventLog(db);
+  }
+
+  /**
+   * Load the subtasks of a task, level by level, as a tree
+   */
+  async loadSubtree(taskId: number): Promise<SubtaskNode[]> {
+    const children = new Map<number, SubtaskRow[]>();
+    let frontier = [taskId];
+
+    for (let depth = 0; depth < MAX_DEPTH && frontier.length > 0; depth++) {
+      const rows = await this.db.client.task.findMany({
+        where: { parentId: { in: frontier }, deletedAt: null },
+        select: subtaskSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      for (const row of rows) {
+        children.set(row.parentId!, [...(children.get(row.parentId!) ?? []), row]);
+      }
+      frontier = rows.map(row => row.id);
+    }
+
+    const build = (parentId: number): SubtaskNode[] =>
+      (children.get(parentId) ?? []).map(row => ({
+        id: row.id,
+        title: row.title,
+        status: row.status.name,
+        priority: row.priority,
+        due_date: row.dueDate?.toISOString().split('T')[0],
+        completed_at: row.completedAt?.toISOString(),
+        archived: row.archived,
+        subtasks: build(row.id),
+      }));
+
+    return build(taskId);
+  }
+
+  /**
+   * IDs of every live descendant of the given tasks, at any depth, other than
+   * the given tasks themselves
+   */
+  async subtaskIds(taskIds: number[]): Promise<number[]> {
+    const ids: number[] = [];
+    let frontier = taskIds;
+
+    while (frontier.length > 0) {
+      const rows = await this.db.client.task.findMany({
+        where: { parentId: { in: frontier }, deletedAt: null, id: { notIn: [...taskIds, ...ids] } },
+        select: { id: true },
+      });
+      frontier = rows.map(row => row.id);
+      ids.push(...frontier);
+    }
+    return ids;
+  }
+
+  /**
+   * Roll completion and due dates of a subtree up to its root
+   */
+  rollup(subtasks: SubtaskNode[]): SubtaskRollup {
+    const all = this.flatten(subtasks);
+    const counted = all.filter(node => node.status !== TASK_STATUS.CANCELLED);
+    const completed = counted.filter(node => node.status === TASK_STATUS.COMPLETED).length;
+    const open = counted.length - completed;
+    const openDue = counted
+      .filter(node => node.status !== TASK_STATUS.COMPLETED && node.due_date)
+      .map(node => node.due_date!)
+      .sort();
+    const allDue = counted
+      .filter(node => node.due_date)
+      .map(node => node.due_date!)
+      .sort();
+
+    return {
+      total: all.length,
+      completed,
+      open,
+      completion_percent:
+        counted.length > 0 ? Math.round((completed / counted.length) * 100) : 100,
+      next_due_date: openDue[0],
+      last_due_date: allDue[allDue.length - 1],
+    };
+  }
+
+  /**
+   * Every node of a subtree, parents before their children
+   */
+  flatten(subtasks: SubtaskNode[]): SubtaskNode[] {
+    return subtasks.flatMap(node => [node, ...this.flatten(node.subtasks)]);
+  }
+
+  /**
+   * Check that a task may be placed under a parent: the parent must exist and
+   * must not be the task itself or one of its subtasks
+   *
+   * @param taskId Task being moved, or undefined for a task not created yet
+   */
+  async assertValidParent(taskId: number | undefined, parentId: number): Promise<void> {
+    if (taskId === parentId) {
+      throw createValidationError('A task cannot be its own parent');
+    }
+
+    const parent = await this.db.client.task.findUnique({
+      where: { id: parentId, deletedAt: null },
+      select: { id: true, parentId: true },
+    });
+    if (!parent) {
+      throw createNotFoundError('Parent task', parentId);
+    }
+    if (taskId === undefined) return;
+
+    // Walk up from the new parent; meeting the task means it would become its own ancestor
+    const seen = new Set<number>();
+    let ancestorId = parent.parentId;
+    while (ancestorId !== null && !seen.has(ancestorId)) {
+      if (ancestorId === taskId) {
+        throw createValidationError(
+          `Task ${parentId} is a subtask of task ${taskId} and cannot become its parent`
+        );
+      }
+      seen.add(ancestorId);
+      const ancestor = await this.db.client.task.findUnique({
+        where: { id: ancestorId },
+        select: { parentId: true },
+      });
+      ancestorId = ancestor?.parentId ?? null;
+    }
+  }
+
+  /**
+   * Complete every open subtask of a task, recording each status change in
+   * the subtask's history
+   *
+   * @returns IDs of the subtasks that were completed
+   */
+  async completeSubtasks(
+    taskId: number,
+    completedStatusId: number,
+    actor?: string
+  ): Promise<number[]> {
+    const open = this.flatten(await this.loadSubtree(taskId)).filter(
+      node => node.status !== TASK_STATUS.COMPLETED && node.status !== TASK_STATUS.CANCELLED
+    );
+
+    if (open.length > 0) {
+      await this.db.client.$transaction(async prisma => {
+        await prisma.task.updateMany({
+          where: { id: { in: open.map(node => node.id) } },
+          data: { statusId: completedStatusId, completedAt: new Date() },
+        });
+        await this.events.recordStatusChanges(
+          prisma,
+          open.map(node => ({ taskId: node.id, from: node.status, to: TASK_STATUS.COMPLETED })),
+          actor
+        );
+      });
+    }
+    return open.map(node => node.id);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Task Recurrence for AI Memory MCP Server
+ *
+ * Recurring tasks repeat on a daily, weekly or monthly schedule. Completing
+ * an occurrence spawns the next one with its due date rolled forward by one
+ * interval; each occurrence links to the one it was spawned from, and all
+ * occurrences share the id of the first task as their series id.
+ *
+ * @fileoverview Recurrence rules, next-occurrence spawning and series history for tasks
+ */
+
+import { Prisma, Task as TaskRow } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { RecurrenceArgs, RecurrenceFrequency } from '../core/types.js';
+import {
+  RecurrenceRule,
+  describeRecurrence,
+  formatRRule,
+  nextOccurrenceDate,
+  parseRecurrence,
+  recurrenceEnded,
+} from '../utils/recurrence.js';
+import { TaskEventLog } from './task-event-log.js';
+
+/**
+ * Most recent occurrences listed in a task's recurrence history
+ */
+const HISTORY_LIMIT = 50;
+
+/**
+ * Status new occurrences start in, matching create_task's default
+ */
+const INITIAL_STATUS = 'not_started';
+
+/**
+ * One occurrence of a recurring series
+ */
+export interface OccurrenceSummary {
+  id: number;
+  occurrence: number;
+  status: string;
+  due_date?: string;
+  completed_at?: string;
+}
+
+/**
+ * Recurrence details shown by get_task
+ */
+export interface RecurrenceInfo {
+  rule: RecurrenceRule | null;
+  rrule?: string;
+  description: string;
+  occurrence: number;
+  series_id: number;
+  previous_occurrence_id?: number;
+  next_occurrence_id?: number;
+  history: OccurrenceSummary[];
+}
+
+/**
+ * The next occurrence spawned when a recurring task is completed
+ */
+export interface SpawnedOccurrence {
+  id: number;
+  occurrence: number;
+  due_date: string;
+}
+
+type RecurrenceColumns = Pick<
+  TaskRow,
+  'recurrenceFrequency' | 'recurrenceInterval' | 'recurrenceUntil' | 'recurrenceCount'
+>;
+
+export class TaskRecurrence {
+  private events: TaskEventLog;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.events = new TaskEventLog(db);
+  }
+
+  /**
+   * Validate a recurrence argument and convert it to task columns; null
+   * clears the rule
+   */
+  toColumns(input: RecurrenceArgs | string | null): RecurrenceColumns {
+    if (input === null) {
+      return {
+        recurrenceFrequency: null,
+        recurrenceInterval: null,
+        recurrenceUntil: null,
+        recurrenceCount: null,
+      };
+    }
+
+    const rule = parseRecurrence(input);
+    return {
+      recurrenceFrequency: rule.frequency,
+      recurrenceInterval: rule.interval,
+      recurrenceUntil: rule.until ? new Date(rule.until) : null,
+      recurrenceCount: rule.count ?? null,
+    };
+  }
+
+  /**
+   * The rule stored on a task, or null for one-off tasks
+   */
+  ruleOf(task: RecurrenceColumns): RecurrenceRule | null {
+    if (!task.recurrenceFrequency) return null;
+    return {
+      frequency: task.recurrenceFrequency as RecurrenceFrequency,
+      interval: task.recurrenceInterval ?? 1,
+      ...(task.recurrenceUntil ? { until: task.recurrenceUntil.toISOString().split('T')[0] } : {}),
+      ...(task.recurrenceCount ? { count: task.recurrenceCount } : {}),
+    };
+  }
+
+  /**
+   * Recurrence rule and series history of a task, or undefined when the task
+   * neither recurs nor belongs to a series
+   */
+  async describe(taskId: number): Promise<RecurrenceInfo | undefined> {
+    const task = await this.db.client.task.findUnique({
+      where: { id: taskId },
+      include: { nextOccurrence: { select: { id: true } } },
+    });
+    if (!task) return undefined;
+
+    const rule = this.ruleOf(task);
+    if (!rule && task.recurrenceSeriesId === null && !task.nextOccurrence) {
+      return undefined;
+    }
+
+    const seriesId = task.recurrenceSeriesId ?? task.id;
+    const occurrences = await this.db.client.task.findMany({
+      where: { OR: [{ id: seriesId }, { recurrenceSeriesId: seriesId }] },
+      select: {
+        id: true,
+        occurrence: true,
+        dueDate: true,
+        completedAt: true,
+        status: { select: { name: true } },
+      },
+      orderBy: { occurrence: 'desc' },
+      take: HISTORY_LIMIT,
+    });
+
+    return {
+      rule,
+      rrule: rule ? formatRRule(rule) : undefined,
+      description: rule ? describeRecurrence(rule) : 'no longer recurring',
+      occurrence: task.occurrence,
+      series_id: seriesId,
+      previous_occurrence_id: task.previousOccurrenceId ?? undefined,
+      next_occurrence_id: task.nextOccurrence?.id,
+      history: occurrences.reverse().map(row => ({
+        id: row.id,
+        occurrence: row.occurrence,
+        status: row.status.name,
+        due_date: row.dueDate?.toISOString().split('T')[0],
+        completed_at: row.completedAt?.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Create the occurrence that follows a completed recurring task. The new
+   * task copies the title, description, category, project, parent, priority,
+   * tags and rule; its due date is one interval after this occurrence's due
+   * date (or after today when it has none).
+   *
+   * @param actor Who completed the task, recorded as the creator of the next occurrence
+   * @returns The new occurrence, or null when the task does not recur, the
+   * series has ended or the next occurrence already exists
+   */
+  async spawnNextOccurrence(taskId: number, actor?: string): Promise<SpawnedOccurrence | null> {
+    const task = await this.db.client.task.findUnique({
+      where: { id: taskId },
+      include: { taskTags: true, nextOccurrence: { select: { id: true } } },
+    });
+    const rule = task ? this.ruleOf(task) : null;
+    if (!task || !rule || task.nextOccurrence) {
+      return null;
+    }
+
+    const seriesId = task.recurrenceSeriesId ?? task.id;
+    const from = task.dueDate ?? new Date();
+
+    // Monthly series keep the day of month they started on
+    const first =
+      seriesId === task.id
+        ? task
+        : await this.db.client.task.findUnique({
+            where: { id: seriesId },
+            select: { dueDate: true },
+          });
+    const dueDate = nextOccurrenceDate(from, rule, (first?.dueDate ?? from).getUTCDate());
+
+    if (recurrenceEnded(rule, task.occurrence, dueDate)) {
+      return null;
+    }
+
+    const status = await this.db.client.status.upsert({
+      where: { name: INITIAL_STATUS },
+      update: {},
+      create: { name: INITIAL_STATUS, description: 'Task has not been started yet' },
+    });
+
+    try {
+      const next = await this.db.client.$transaction(async prisma => {
+        const next = await prisma.task.create({
+          data: {
+            title: task.title,
+            description: task.description,
+            statusId: status.id,
+            categoryId: task.categoryId,
+            projectId: task.projectId,
+            parentId: task.parentId,
+            priority: task.priority,
+            dueDate,
+            recurrenceFrequency: task.recurrenceFrequency,
+            recurrenceInterval: task.recurrenceInterval,
+            recurrenceUntil: task.recurrenceUntil,
+            recurrenceCount: task.recurrenceCount,
+            occurrence: task.occurrence + 1,
+            recurrenceSeriesId: seriesId,
+            previousOccurrenceId: task.id,
+          },
+        });
+
+        if (task.taskTags.length > 0) {
+          await prisma.taskTag.createMany({
+            data: task.taskTags.map(tt => ({ taskId: next.id, tagId: tt.tagId })),
+          });
+        }
+        await this.events.recordCreated(prisma, next.id, actor);
+        return next;
+      });
+
+      return {
+        id: next.id,
+        occurrence: next.occurrence,
+        due_date: dueDate.toISOString().split('T')[0],
+      };
+    } catch (error) {
+      // Another completion spawned this occurrence first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -9,11 +9,18 @@
  */
 
 import { PrismaDatabaseService } from '../core/prisma-database.js';
-import { embeddingService } from '../embedding-service.js';
 import { InstructionCacheService } from './instruction-cache-service.js';
+import { EmbeddingIndexer } from './embedding-indexer.js';
+import { SearchRanker } from './search-ranker.js';
+import { TaskDependencyServiceImpl } from './task-dependency-service.js';
+import { TaskHierarchy } from './task-hierarchy.js';
+import { SpawnedOccurrence, TaskRecurrence } from './task-recurrence.js';
+import { TaskEventLog } from './task-event-log.js';
+import { trashedProjectMessage } from './trash-service.js';
 import {
   Task,
   AIInstruction,
+  BatchTaskInput,
   CreateTaskArgs,
   ListTasksArgs,
   SearchTasksArgs,
@@ -24,6 +31,7 @@ import {
   DeleteTaskArgs,
   GetTaskStatsArgs,
   ExportTasksArgs,
+  GetTaskHistoryArgs,
   MCPResponse,
 } from '../core/types.js';
 import {
@@ -49,6 +57,7 @@ export interface TaskService {
   getTaskStats(args: GetTaskStatsArgs): Promise<MCPResponse>;
   exportTasks(args: ExportTasksArgs): Promise<MCPResponse>;
   batchCreateTasks(args: any): Promise<MCPResponse>;
+  getTaskHistory(args: GetTaskHistoryArgs): Promise<MCPResponse>;
 }
 
 /**
@@ -59,9 +68,21 @@ export interface TaskService {
  */
 export class TaskServiceImpl implements TaskService {
   private instructionCache: InstructionCacheService;
+  private indexer: EmbeddingIndexer;
+  private ranker: SearchRanker;
+  private dependencies: TaskDependencyServiceImpl;
+  private hierarchy: TaskHierarchy;
+  private recurrence: TaskRecurrence;
+  private events: TaskEventLog;
 
   constructor(private db: PrismaDatabaseService) {
     this.instructionCache = new InstructionCacheService();
+    this.indexer = new EmbeddingIndexer(db);
+    this.ranker = new SearchRanker(db);
+    this.dependencies = new TaskDependencyServiceImpl(db);
+    this.hierarchy = new TaskHierarchy(db);
+    this.recurrence = new TaskRecurrence(db);
+    this.events = new TaskEventLog(db);
   }
 
   /**
@@ -78,6 +99,9 @@ export class TaskServiceImpl implements TaskService {
         tags = '',
         priority = 1,
         due_date,
+        parent_id,
+        recurrence,
+        actor,
       } = args;
 
       // Validate required fields
@@ -90,6 +114,12 @@ export class TaskServiceImpl implements TaskService {
         throw createValidationError('Invalid due date format. Use YYYY-MM-DD');
       }
 
+      if (parent_id !== undefined) {
+        await this.hierarchy.assertValidParent(undefined, parent_id);
+      }
+
+      const recurrenceColumns = recurrence ? this.recurrence.toColumns(recurrence) : {};
+
       // Ensure status exists
       const statusId = await this.ensureStatus(status);
 
@@ -116,6 +146,8 @@ export class TaskServiceImpl implements TaskService {
             projectId,
             priority,
             dueDate: due_date ? new Date(due_date) : null,
+            parentId: parent_id ?? null,
+            ...recurrenceColumns,
             archived: false,
           },
         });
@@ -130,25 +162,15 @@ export class TaskServiceImpl implements TaskService {
           });
         }
 
+        await this.events.recordCreated(prisma, task.id, actor);
+
         return task;
       });
 
       const taskId = createdTask.id;
 
       // Generate embedding for semantic search
-      try {
-        const embedding = await embeddingService.generateEmbedding(`${title}: ${description}`);
-        await this.db.client.task.update({
-          where: { id: taskId },
-          data: {
-            embedding: JSON.stringify(embedding),
-            embeddingModel: embeddingService.getModelName(),
-            embeddingCreatedAt: new Date(),
-          },
-        });
-      } catch (embeddingError) {
-        console.warn(`Failed to generate embedding for task ${taskId}:`, embeddingError);
-      }
+      await this.indexer.indexTask(taskId);
 
       // Get the created task with relations
       const task = await this.getTaskWithRelations(taskId, false);
@@ -186,9 +208,10 @@ export class TaskServiceImpl implements TaskService {
         throw createValidationError(`Invalid sort order: ${sort_order}`);
       }
 
-      // Build where conditions
+      // Build where conditions; trashed tasks are never listed
       const where: any = {
         archived,
+        deletedAt: null,
       };
 
       if (status) {
@@ -283,7 +306,7 @@ export class TaskServiceImpl implements TaskService {
   }
 
   /**
-   * Search tasks using semantic search with optional filters
+   * Search tasks using semantic, keyword or hybrid ranking with optional filters
    */
   async searchTasks(args: SearchTasksArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
@@ -295,40 +318,33 @@ export class TaskServiceImpl implements TaskService {
         priority_min,
         limit = 20,
         min_similarity = 0.15,
+        search_mode = 'semantic',
       } = args;
 
       if (!query) {
         throw createValidationError('Search query is required');
       }
 
-      // Generate embedding for the search query
-      const queryEmbedding = await embeddingService.generateEmbedding(query);
-
-      // Build where conditions
-      const where: any = {
-        embedding: { not: null },
-        archived: false,
-      };
-
-      if (status) {
-        where.status = { name: status };
-      }
-
-      if (category) {
-        where.category = { name: category };
-      }
+      // Rank inside PostgreSQL by similarity, full-text rank, or both fused
+      const matches = await this.ranker.rankTasks(
+        query,
+        { status, category, project, priority_min, archived: false },
+        { mode: search_mode, limit, minSimilarity: min_similarity }
+      );
 
-      if (project) {
-        where.project = { name: project };
-      }
+      // Flag vectors from an older model that semantic ranking had to skip
+      const staleCount = search_mode === 'keyword' ? 0 : await this.ranker.countStaleTasks();
+      const staleNote =
+        staleCount > 0
+          ? `; ${staleCount} tasks with missing or stale embeddings were skipped by semantic ranking until re-embedded`
+          : '';
 
-      if (priority_min) {
-        where.priority = { gte: priority_min };
+      if (matches.length === 0) {
+        return createMCPResponse([], `No tasks found matching the criteria${staleNote}`);
       }
 
-      // Get all tasks matching filters
       const tasks = await this.db.client.task.findMany({
-        where,
+        where: { id: { in: matches.map(match => match.id) }, deletedAt: null },
         include: {
           status: true,
           category: true,
@@ -341,44 +357,35 @@ export class TaskServiceImpl implements TaskService {
         },
       });
 
-      if (tasks.length === 0) {
-        return createMCPResponse([], 'No tasks found matching the criteria');
-      }
-
-      // Calculate similarities and filter by minimum similarity
-      const tasksWithSimilarity = tasks
-        .map(task => {
-          try {
-            const taskEmbedding = JSON.parse(task.embedding || '[]');
-            const similarity = embeddingService.calculateSimilarity(
-              queryEmbedding.embedding,
-              taskEmbedding.embedding
-            );
-            return { ...task, similarity };
-          } catch (error) {
-            console.warn(`Failed to parse embedding for task ${task.id}:`, error);
-            return { ...task, similarity: 0 };
-          }
-        })
-        .filter(task => task.similarity >= min_similarity)
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      // Restore ranking order and attach score breakdowns
+      const tasksById = new Map(tasks.map(task => [task.id, task]));
+      const rankedTasks = matches
+        .filter(match => tasksById.has(match.id))
+        .map(match => ({
+          ...tasksById.get(match.id)!,
+          score_breakdown: match.breakdown,
+          matched_passage: match.passage ?? null,
+        }));
 
       // Format tags and add computed fields
-      const formattedTasks = tasksWithSimilarity.map(task => ({
+      const formattedTasks = rankedTasks.map(task => ({
         ...task,
         status: task.status?.name,
         category: task.category?.name,
         project: task.project?.name,
         tags: task.taskTags.map(tt => tt.tag.name),
-        similarity: Math.round(task.similarity * 100) / 100,
+        similarity:
+          task.score_breakdown.semantic_similarity !== undefined
+            ? Math.round(task.score_breakdown.semantic_similarity * 100) / 100
+            : undefined,
+        score: task.score_breakdown.score,
         is_overdue:
           task.dueDate && new Date(task.dueDate) < new Date() && task.status?.name !== 'completed',
       }));
 
       return createMCPResponse(
         formattedTasks,
-        `Found ${formattedTasks.length} tasks matching "${query}"`
+        `Found ${formattedTasks.length} tasks matching "${query}" (${search_mode} search)${staleNote}`
       );
     });
   }
@@ -402,10 +409,17 @@ export class TaskServiceImpl implements TaskService {
 
       // Get applicable AI instructions for this task
       const instructions = await this.getApplicableInstructionsForTask(task);
+      const dependencies = (await this.dependencies.getDependencyInfo([id])).get(id);
+      const subtasks = await this.hierarchy.loadSubtree(id);
+      const recurrence = await this.recurrence.describe(id);
 
-      // Add instructions to the response
+      // Add instructions, blocking information, recurrence and the subtask tree to the response
       const response = {
         ...task,
+        recurrence,
+        dependencies,
+        subtasks,
+        subtask_rollup: subtasks.length > 0 ? this.hierarchy.rollup(subtasks) : undefined,
         ai_instructions: instructions,
       };
 
@@ -421,7 +435,20 @@ export class TaskServiceImpl implements TaskService {
    */
   async updateTask(args: UpdateTaskArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { id, title, description, status, category, project, tags, priority, due_date } = args;
+      const {
+        id,
+        title,
+        description,
+        status,
+        category,
+        project,
+        tags,
+        priority,
+        due_date,
+        parent_id,
+        recurrence,
+        actor,
+      } = args;
 
       if (!id || typeof id !== 'number') {
         throw createValidationError('Valid task ID is required');
@@ -429,7 +456,7 @@ export class TaskServiceImpl implements TaskService {
 
       // Check if task exists
       const existing = await this.db.client.task.findUnique({
-        where: { id },
+        where: { id, deletedAt: null },
         include: { status: true },
       });
       if (!existing) {
@@ -487,75 +514,76 @@ export class TaskServiceImpl implements TaskService {
         updateData.dueDate = due_date ? new Date(due_date) : null;
       }
 
-      if (Object.keys(updateData).length === 0) {
+      if (parent_id !== undefined) {
+        if (parent_id !== null) {
+          await this.hierarchy.assertValidParent(id, parent_id);
+        }
+        updateData.parentId = parent_id;
+      }
+
+      if (recurrence !== undefined) {
+        Object.assign(updateData, this.recurrence.toColumns(recurrence));
+      }
+
+      if (Object.keys(updateData).length === 0 && tags === undefined) {
         throw createValidationError('At least one field must be provided for update');
       }
 
-      // Update task in a transaction
-      const updatedTask = await this.db.client.$transaction(async prisma => {
-        const task = await prisma.task.update({
-          where: { id },
-          data: updateData,
-          include: {
-            status: true,
-            category: true,
-            project: true,
-            taskTags: {
-              include: {
-                tag: true,
+      // Update task in a transaction, recording what changed in its history
+      const updatedTask = await this.db.client.$transaction(async prisma =>
+        this.events.track(prisma, id, actor, async () => {
+          const task = await prisma.task.update({
+            where: { id },
+            data: updateData,
+            include: {
+              status: true,
+              category: true,
+              project: true,
+              taskTags: {
+                include: {
+                  tag: true,
+                },
               },
             },
-          },
-        });
-
-        // Update tags if provided
-        if (tags !== undefined) {
-          const tagIds = await this.ensureTags(tags);
-
-          // Remove existing tags
-          await prisma.taskTag.deleteMany({
-            where: { taskId: id },
           });
 
-          // Add new tags
-          if (tagIds.length > 0) {
-            await prisma.taskTag.createMany({
-              data: tagIds.map(tagId => ({
-                taskId: id,
-                tagId,
-              })),
+          // Update tags if provided
+          if (tags !== undefined) {
+            const tagIds = await this.ensureTags(tags);
+
+            // Remove existing tags
+            await prisma.taskTag.deleteMany({
+              where: { taskId: id },
             });
-          }
-        }
 
-        return task;
-      });
+            // Add new tags
+            if (tagIds.length > 0) {
+              await prisma.taskTag.createMany({
+                data: tagIds.map(tagId => ({
+                  taskId: id,
+                  tagId,
+                })),
+              });
+            }
+          }
 
-      // Regenerate embedding if content changed
-      if (title !== undefined || description !== undefined) {
-        try {
-          const finalTitle = title !== undefined ? title : existing.title;
-          const finalDescription = description !== undefined ? description : existing.description;
-          const embedding = await embeddingService.generateEmbedding(
-            `${finalTitle}: ${finalDescription}`
-          );
+          return task;
+        })
+      );
 
-          await this.db.client.task.update({
-            where: { id },
-            data: {
-              embedding: JSON.stringify(embedding),
-              embeddingModel: embeddingService.getModelName(),
-              embeddingCreatedAt: new Date(),
-            },
-          });
-        } catch (embeddingError) {
-          console.warn(`Failed to regenerate embedding for task ${id}:`, embeddingError);
-        }
+      // Finishing a recurring task here starts its next occurrence, as complete_task does
+      let nextOccurrence: SpawnedOccurrence | null = null;
+      if (status === 'completed' && existing.status.name !== 'completed') {
+        nextOccurrence = await this.recurrence.spawnNextOccurrence(id, actor);
       }
 
+      // Regenerate embedding; skipped when the searchable text is unchanged
+      await this.indexer.indexTasks(nextOccurrence ? [id, nextOccurrence.id] : [id]);
+
       // Format the response
       const formattedTask = {
         ...updatedTask,
+        next_occurrence: nextOccurrence ?? undefined,
         tags: updatedTask.taskTags.map(tt => tt.tag.name),
         is_overdue:
           updatedTask.dueDate &&
@@ -568,11 +596,12 @@ export class TaskServiceImpl implements TaskService {
   }
 
   /**
-   * Complete a task (set status to completed)
+   * Complete a task (set status to completed), optionally completing its
+   * open subtasks as well
    */
   async completeTask(args: CompleteTaskArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { id } = args;
+      const { id, cascade = false, actor } = args;
 
       if (!id || typeof id !== 'number') {
         throw createValidationError('Valid task ID is required');
@@ -587,15 +616,18 @@ export class TaskServiceImpl implements TaskService {
         throw createNotFoundError('Completed status not found');
       }
 
-      let updatedTask;
       try {
-        updatedTask = await this.db.client.task.update({
-          where: { id },
-          data: {
-            statusId: completedStatus.id,
-            completedAt: new Date(),
-          },
-        });
+        await this.db.client.$transaction(async prisma =>
+          this.events.track(prisma, id, actor, () =>
+            prisma.task.update({
+              where: { id, deletedAt: null },
+              data: {
+                statusId: completedStatus.id,
+                completedAt: new Date(),
+              },
+            })
+          )
+        );
       } catch (error: any) {
         if (error.code === 'P2025') {
           throw createNotFoundError(`Task with ID ${id} not found`);
@@ -603,12 +635,55 @@ export class TaskServiceImpl implements TaskService {
         throw error;
       }
 
+      const completedSubtasks = cascade
+        ? await this.hierarchy.completeSubtasks(id, completedStatus.id, actor)
+        : [];
+
+      const nextOccurrence = await this.recurrence.spawnNextOccurrence(id, actor);
+
+      // Recurring subtasks completed by the cascade continue their own series
+      const subtaskOccurrences: SpawnedOccurrence[] = [];
+      for (const subtaskId of completedSubtasks) {
+        const spawned = await this.recurrence.spawnNextOccurrence(subtaskId, actor);
+        if (spawned) {
+          subtaskOccurrences.push(spawned);
+        }
+      }
+
+      // Status is part of the searchable text
+      await this.indexer.indexTasks([
+        id,
+        ...completedSubtasks,
+        ...(nextOccurrence ? [nextOccurrence.id] : []),
+        ...subtaskOccurrences.map(spawned => spawned.id),
+      ]);
+
       // Get the updated task with relations
       const taskWithRelations = await this.getTaskWithRelations(id, false);
+      const rollup = this.hierarchy.rollup(await this.hierarchy.loadSubtree(id));
+
+      let message = `Task "${taskWithRelations!.title}" completed successfully`;
+      if (completedSubtasks.length > 0) {
+        message += ` along with ${completedSubtasks.length} subtasks`;
+      } else if (rollup.open > 0) {
+        message += `; ${rollup.open} subtasks are still open (use cascade to complete them)`;
+      }
+      if (nextOccurrence) {
+        message += `; next occurrence #${nextOccurrence.id} is due ${nextOccurrence.due_date}`;
+      }
+      if (subtaskOccurrences.length > 0) {
+        message += `; ${subtaskOccurrences.length} recurring subtasks spawned their next occurrence`;
+      }
 
       return createMCPResponse(
-        taskWithRelations,
-        `Task "${taskWithRelations!.title}" completed successfully`
+        {
+          ...taskWithRelations,
+          completed_subtasks: completedSubtasks,
+          subtask_rollup: rollup,
+          next_occurrence: nextOccurrence ?? undefined,
+          subtask_occurrences: subtaskOccurrences.length > 0 ? subtaskOccurrences : undefined,
+        },
+        message
       );
     });
   }
@@ -618,17 +693,21 @@ export class TaskServiceImpl implements TaskService {
    */
   async archiveTask(args: ArchiveTaskArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
-      const { id, archived = true } = args;
+      const { id, archived = true, actor } = args;
 
       if (!id || typeof id !== 'number') {
         throw createValidationError('Valid task ID is required');
       }
 
       try {
-        await this.db.client.task.update({
-          where: { id },
-          data: { archived },
-        });
+        await this.db.client.$transaction(async prisma =>
+          this.events.track(prisma, id, actor, () =>
+            prisma.task.update({
+              where: { id, deletedAt: null },
+              data: { archived },
+            })
+          )
+        );
       } catch (error: any) {
         if (error.code === 'P2025') {
           throw createNotFoundError(`Task with ID ${id} not found`);
@@ -647,7 +726,8 @@ export class TaskServiceImpl implements TaskService {
   }
 
   /**
-   * Delete a task by ID
+   * Move a task and its subtasks to the trash; restore_item brings them back
+   * together until they are purged
    */
   async deleteTask(args: DeleteTaskArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
@@ -657,18 +737,30 @@ export class TaskServiceImpl implements TaskService {
         throw createValidationError('Valid task ID is required');
       }
 
-      try {
-        await this.db.client.task.delete({
-          where: { id },
-        });
-      } catch (error: any) {
-        if (error.code === 'P2025') {
-          throw createNotFoundError(`Task with ID ${id} not found`);
-        }
-        throw error;
+      const task = await this.db.client.task.findUnique({
+        where: { id, deletedAt: null },
+        select: { title: true },
+      });
+      if (!task) {
+        throw createNotFoundError(`Task with ID ${id} not found`);
       }
 
-      return createMCPResponse({ id }, `Task with ID ${id} deleted successfully`);
+      // Every level goes, so no live subtask is left under a trashed parent
+      const subtaskIds = await this.hierarchy.subtaskIds([id]);
+
+      await this.db.client.$transaction(async prisma => {
+        await prisma.task.updateMany({
+          where: { id: { in: [id, ...subtaskIds] } },
+          data: { deletedAt: new Date() },
+        });
+        await this.events.recordTrashChanges(prisma, [id, ...subtaskIds], true);
+      });
+
+      const subtaskNote = subtaskIds.length > 0 ? ` with ${subtaskIds.length} subtasks` : '';
+      return createMCPResponse(
+        { id, trashed: true, subtasks: subtaskIds },
+        `Task "${task.title}" moved to the trash${subtaskNote}`
+      );
     });
   }
 
@@ -678,7 +770,7 @@ export class TaskServiceImpl implements TaskService {
   async getTaskStats(args: GetTaskStatsArgs): Promise<MCPResponse> {
     return handleAsyncError(async () => {
       const totalTasks = await this.db.client.task.count({
-        where: { archived: false },
+        where: { archived: false, deletedAt: null },
       });
 
       const tasksByStatus = await this.db.client.status.findMany({
@@ -686,7 +778,7 @@ export class TaskServiceImpl implements TaskService {
           _count: {
             select: {
               tasks: {
-                where: { archived: false },
+                where: { archived: false, deletedAt: null },
               },
             },
           },
@@ -697,6 +789,7 @@ export class TaskServiceImpl implements TaskService {
       const overdueTasks = await this.db.client.task.count({
         where: {
           archived: false,
+          deletedAt: null,
           dueDate: {
             lt: new Date(),
             not: null,
@@ -713,6 +806,7 @@ export class TaskServiceImpl implements TaskService {
       const completedToday = await this.db.client.task.count({
         where: {
           archived: false,
+          deletedAt: null,
           status: { name: 'completed' },
           completedAt: {
             gte: today,
@@ -723,11 +817,14 @@ export class TaskServiceImpl implements TaskService {
 
       const priorityStats = await this.db.client.task.groupBy({
         by: ['priority'],
-        where: { archived: false },
+        where: { archived: false, deletedAt: null },
         _count: true,
         orderBy: { priority: 'desc' },
       });
 
+      // Cycle and lead time come from the task history
+      const completionTimes = await this.events.completionTimes();
+
       const stats = {
         total_tasks: totalTasks,
         tasks_by_status: tasksByStatus.map(status => ({
@@ -740,6 +837,8 @@ export class TaskServiceImpl implements TaskService {
           priority: stat.priority,
           count: stat._count,
         })),
+        cycle_time: completionTimes.cycle_time,
+        lead_time: completionTimes.lead_time,
       };
 
       return createMCPResponse(stats, 'Task statistics retrieved successfully');
@@ -756,6 +855,7 @@ export class TaskServiceImpl implements TaskService {
       // Build where conditions
       const where: any = {
         archived: include_archived,
+        deletedAt: null,
       };
 
       if (status) {
@@ -807,89 +907,22 @@ export class TaskServiceImpl implements TaskService {
   }
 
   /**
-   * Create multiple tasks in a single batch operation
+   * Create multiple tasks in a single batch operation. Entries may carry
+   * nested subtasks, which are created under their parent and inherit its
+   * project unless they name one.
    */
   async batchCreateTasks(args: any): Promise<MCPResponse> {
     return handleAsyncError(async () => {
       const { tasks, continue_on_error = false } = args;
-      const results = [];
-      const errors = [];
+      const results: any[] = [];
+      const errors: any[] = [];
 
       for (let i = 0; i < tasks.length; i++) {
-        try {
-          const task = tasks[i];
-          const result = await this.createTask(task);
-
-          // Check if the result indicates success (has content with id)
-          if (result.content && Array.isArray(result.content) && result.content.length > 0) {
-            const contentItem = result.content[0];
-            if (contentItem && contentItem.type === 'text' && contentItem.text) {
-              try {
-                const parsedResponse = JSON.parse(contentItem.text);
-                if (
-                  parsedResponse.success &&
-                  parsedResponse.data &&
-                  typeof parsedResponse.data === 'object' &&
-                  'id' in parsedResponse.data
-                ) {
-                  results.push({
-                    index: i,
-                    success: true,
-                    task: parsedResponse.data,
-                  });
-                } else {
-                  errors.push({
-                    index: i,
-                    error: 'Task creation failed - no valid response',
-                  });
-
-                  if (!continue_on_error) {
-                    throw new Error(`Task ${i} failed: Task creation failed - no valid response`);
-                  }
-                }
-              } catch (parseError) {
-                errors.push({
-                  index: i,
-                  error: 'Task creation failed - invalid response format',
-                });
-
-                if (!continue_on_error) {
-                  throw new Error(
-                    `Task ${i} failed: Task creation failed - invalid response format`
-                  );
-                }
-              }
-            } else {
-              errors.push({
-                index: i,
-                error: 'Task creation failed - no valid response',
-              });
-
-              if (!continue_on_error) {
-                throw new Error(`Task ${i} failed: Task creation failed - no valid response`);
-              }
-            }
-          } else {
-            errors.push({
-              index: i,
-              error: 'Task creation failed - invalid response format',
-            });
-
-            if (!continue_on_error) {
-              throw new Error(`Task ${i} failed: Task creation failed - invalid response format`);
-            }
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push({
-            index: i,
-            error: errorMessage,
-          });
-
-          if (!continue_on_error) {
-            throw new Error(`Task ${i} failed: ${errorMessage}`);
-          }
-        }
+        await this.createTaskTree(tasks[i], String(i), undefined, {
+          results,
+          errors,
+          continue_on_error,
+        });
       }
 
       return createMCPResponse(
@@ -897,7 +930,7 @@ export class TaskServiceImpl implements TaskService {
           created_tasks: results,
           errors: errors,
           summary: {
-            total: tasks.length,
+            total: results.length + errors.length,
             successful: results.length,
             failed: errors.length,
           },
@@ -907,6 +940,85 @@ export class TaskServiceImpl implements TaskService {
     });
   }
 
+  /**
+   * Get the change history of a task: its events, newest first, and how long
+   * it spent in each status
+   */
+  async getTaskHistory(args: GetTaskHistoryArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { id, event_type, limit } = args;
+
+      if (!id || typeof id !== 'number') {
+        throw createValidationError('Valid task ID is required');
+      }
+
+      const task = await this.db.client.task.findUnique({
+        where: { id },
+        select: { title: true },
+      });
+      if (!task) {
+        throw createNotFoundError('Task', id);
+      }
+
+      const history = await this.events.getHistory(id, { eventType: event_type, limit });
+
+      let message = `Retrieved ${history.events.length} events for task "${task.title}"`;
+      if (history.cycle_time_hours !== undefined) {
+        message += `; cycle time ${history.cycle_time_hours} hours`;
+      }
+
+      return createMCPResponse({ title: task.title, ...history }, message);
+    });
+  }
+
+  /**
+   * Create one batch entry and then its subtasks. When an entry fails, its
+   * subtasks are skipped.
+   *
+   * @param path Position in the batch, e.g. "2" or "2.0.1" for nested entries
+   */
+  private async createTaskTree(
+    input: BatchTaskInput,
+    path: string,
+    parent: { id: number; project?: string } | undefined,
+    batch: { results: any[]; errors: any[]; continue_on_error: boolean }
+  ): Promise<void> {
+    const { subtasks = [], ...task } = input;
+    const index = Number(path.split('.')[0]);
+
+    let created: any;
+    try {
+      const result = await this.createTask({
+        ...task,
+        project: task.project ?? parent?.project,
+        parent_id: parent?.id ?? task.parent_id,
+      });
+      const parsedResponse = JSON.parse(result.content[0].text);
+      if (!parsedResponse.success || !parsedResponse.data || !('id' in parsedResponse.data)) {
+        throw new Error('Task creation failed - no valid response');
+      }
+      created = parsedResponse.data;
+      batch.results.push({ index, path, success: true, task: created });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      batch.errors.push({ index, path, error: errorMessage });
+
+      if (!batch.continue_on_error) {
+        throw new Error(`Task ${path} failed: ${errorMessage}`);
+      }
+      return;
+    }
+
+    for (let i = 0; i < subtasks.length; i++) {
+      await this.createTaskTree(
+        subtasks[i],
+        `${path}.${i}`,
+        { id: created.id, project: task.project ?? parent?.project },
+        batch
+      );
+    }
+  }
+
   /**
    * Get task with all relations (status, category, project, tags)
    */
@@ -915,7 +1027,7 @@ export class TaskServiceImpl implements TaskService {
     includeEmbedding: boolean = false
   ): Promise<Task | null> {
     const task = await this.db.client.task.findUnique({
-      where: { id: taskId },
+      where: { id: taskId, deletedAt: null },
       include: {
         status: true,
         category: true,
@@ -939,6 +1051,7 @@ export class TaskServiceImpl implements TaskService {
       status_id: task.statusId,
       category_id: task.categoryId || undefined,
       project_id: task.projectId || undefined,
+      parent_id: task.parentId || undefined,
       priority: task.priority,
       due_date: task.dueDate?.toISOString().split('T')[0],
       created_at: task.createdAt.toISOString(),
@@ -947,9 +1060,8 @@ export class TaskServiceImpl implements TaskService {
       archived: task.archived,
     };
 
-    // Only include embedding data if explicitly requested
+    // Only include embedding metadata if explicitly requested (vectors stay in the database)
     if (includeEmbedding) {
-      result.embedding = task.embedding || undefined;
       result.embedding_model = task.embeddingModel || undefined;
       result.embedding_created_at = task.embeddingCreatedAt?.toISOString();
     }
@@ -1037,7 +1149,8 @@ export class TaskServiceImpl implements TaskService {
   }
 
   /**
-   * Ensure project exists and return its ID
+   * Ensure project exists and return its ID; a trashed project of that name
+   * has to be restored (with its memories and tasks) or purged first
    */
   private async ensureProject(projectName: string): Promise<number> {
     let project = await this.db.client.project.findUnique({
@@ -1051,6 +1164,8 @@ export class TaskServiceImpl implements TaskService {
           description: `Auto-created project: ${projectName}`,
         },
       });
+    } else if (project.deletedAt) {
+      throw createValidationError(trashedProjectMessage(projectName, project.id));
     }
 
     return project.id;
@@ -0,0 +1,453 @@
+/**
+ * Trash Service for AI Memory MCP Server
+ *
+ * delete_memory, delete_task and delete_project move rows into the trash by
+ * setting their deletedAt column instead of deleting them. Trashed rows are
+ * left out of every list, search, context and statistics query until they are
+ * restored or purged. Items trashed together (a project with its memories and
+ * tasks, a task with its subtasks) share one deletedAt timestamp and are
+ * restored together. Trashed rows are not re-embedded, so restored ones are
+ * re-indexed if the active model changed meanwhile. Rows older than
+ * config.trash.retentionDays are purged automatically.
+ *
+ * @fileoverview Listing, restoring and purging trashed memories, tasks and projects
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { config } from '../core/config.js';
+import {
+  ListTrashArgs,
+  MCPResponse,
+  PurgeTrashArgs,
+  RestoreItemArgs,
+  TrashItemType,
+  VALID_TRASH_ITEM_TYPES,
+} from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+import { EmbeddingIndexer } from './embedding-indexer.js';
+import { TaskEventLog } from './task-event-log.js';
+
+/**
+ * Items listed by list_trash when no limit is given
+ */
+const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * How often expired trash is purged while the server runs
+ */
+const AUTO_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why a trashed project cannot be used by name until it is restored or purged
+ */
+export function trashedProjectMessage(name: string, id: number): string {
+  return `Project '${name}' is in the trash (ID: ${id}); restore it with restore_item or purge it with purge_trash.`;
+}
+
+/**
+ * One trashed row as listed by list_trash
+ */
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  title: string;
+  project?: string;
+  deleted_at: string;
+  // When auto-purge removes the item; absent when auto-purge is disabled
+  purge_after?: string;
+}
+
+/**
+ * Trash service interface
+ */
+export interface TrashService {
+  listTrash(args: ListTrashArgs): Promise<MCPResponse>;
+  restoreItem(args: RestoreItemArgs): Promise<MCPResponse>;
+  purgeTrash(args: PurgeTrashArgs): Promise<MCPResponse>;
+  startAutoPurge(): Promise<void>;
+}
+
+/**
+ * Trash Service Implementation
+ *
+ * Purging deletes rows for good: memories with their versions and chunks,
+ * tasks with their tags, dependencies and history. Subtasks of a purged task
+ * that were restored on their own become top-level tasks, and memories or
+ * tasks still pointing at a purged project lose the project.
+ */
+export class TrashServiceImpl implements TrashService {
+  private events: TaskEventLog;
+  private indexer: EmbeddingIndexer;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.events = new TaskEventLog(db);
+    this.indexer = new EmbeddingIndexer(db);
+  }
+
+  /**
+   * List trashed items, most recently deleted first
+   */
+  async listTrash(args: ListTrashArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { type, limit = DEFAULT_LIST_LIMIT } = args;
+
+      if (type !== undefined && !VALID_TRASH_ITEM_TYPES.includes(type)) {
+        throw createValidationError(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+      }
+
+      const trashed = { deletedAt: { not: null } };
+      const newestFirst = [{ deletedAt: 'desc' as const }, { id: 'desc' as const }];
+      const [memories, tasks, projects] = await Promise.all([
+        !type || type === 'memory'
+          ? this.db.client.memory.findMany({
+              where: trashed,
+              select: {
+                id: true,
+                title: true,
+                deletedAt: true,
+                project: { select: { name: true } },
+              },
+              orderBy: newestFirst,
+              take: limit,
+            })
+          : [],
+        !type || type === 'task'
+          ? this.db.client.task.findMany({
+              where: trashed,
+              select: {
+                id: true,
+                title: true,
+                deletedAt: true,
+                project: { select: { name: true } },
+              },
+              orderBy: newestFirst,
+              take: limit,
+            })
+          : [],
+        !type || type === 'project'
+          ? this.db.client.project.findMany({
+              where: trashed,
+              select: { id: true, name: true, deletedAt: true },
+              orderBy: newestFirst,
+              take: limit,
+            })
+          : [],
+      ]);
+
+      const items: TrashItem[] = [
+        ...memories.map(row =>
+          this.toItem('memory', row.id, row.title, row.deletedAt!, row.project?.name)
+        ),
+        ...tasks.map(row =>
+          this.toItem('task', row.id, row.title, row.deletedAt!, row.project?.name)
+        ),
+        ...projects.map(row => this.toItem('project', row.id, row.name, row.deletedAt!)),
+      ]
+        .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+        .slice(0, limit);
+
+      const [memoryCount, taskCount, projectCount] = await Promise.all([
+        this.db.client.memory.count({ where: trashed }),
+        this.db.client.task.count({ where: trashed }),
+        this.db.client.project.count({ where: trashed }),
+      ]);
+
+      return createMCPResponse(
+        {
+          items,
+          counts: { memories: memoryCount, tasks: taskCount, projects: projectCount },
+          retention_days: config.trash.retentionDays || null,
+        },
+        `Trash holds ${memoryCount} memories, ${taskCount} tasks and ${projectCount} projects`
+      );
+    });
+  }
+
+  /**
+   * Take an item out of the trash along with the items trashed with it
+   */
+  async restoreItem(args: RestoreItemArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { type, id } = args;
+
+      if (!VALID_TRASH_ITEM_TYPES.includes(type)) {
+        throw createValidationError(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+      }
+      if (!id || typeof id !== 'number') {
+        throw createValidationError('Valid item ID is required');
+      }
+
+      switch (type) {
+        case 'memory':
+          return this.restoreMemory(id);
+        case 'task':
+          return this.restoreTask(id);
+        case 'project':
+          return this.restoreProject(id);
+      }
+    });
+  }
+
+  /**
+   * Permanently delete trashed items
+   */
+  async purgeTrash(args: PurgeTrashArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { type, older_than_days, dry_run = false } = args;
+
+      if (type !== undefined && !VALID_TRASH_ITEM_TYPES.includes(type)) {
+        throw createValidationError(`Type must be one of: ${VALID_TRASH_ITEM_TYPES.join(', ')}`);
+      }
+      if (
+        older_than_days !== undefined &&
+        (!Number.isInteger(older_than_days) || older_than_days < 0)
+      ) {
+        throw createValidationError('older_than_days must be a non-negative integer');
+      }
+
+      const purged = await this.purge(type, older_than_days, dry_run);
+      const age =
+        older_than_days !== undefined ? ` trashed at least ${older_than_days} days ago` : '';
+
+      return createMCPResponse(
+        { ...purged, dry_run },
+        `${dry_run ? 'Would purge' : 'Purged'} ${purged.memories} memories, ${purged.tasks} tasks and ${purged.projects} projects${age}`
+      );
+    });
+  }
+
+  /**
+   * Purge items past the retention period now and once a day while the
+   * server runs; does nothing when auto-purge is disabled
+   */
+  async startAutoPurge(): Promise<void> {
+    const { retentionDays } = config.trash;
+    if (retentionDays === 0 || this.purgeTimer) return;
+
+    const run = async () => {
+      try {
+        const purged = await this.purge(undefined, retentionDays, false);
+        const total = purged.memories + purged.tasks + purged.projects;
+        if (total > 0) {
+          console.error(
+            `[Trash] Purged ${purged.memories} memories, ${purged.tasks} tasks and ${purged.projects} projects older than ${retentionDays} days`
+          );
+        }
+      } catch (error) {
+        console.error('[Trash] Auto-purge failed:', error);
+      }
+    };
+
+    await run();
+    this.purgeTimer = setInterval(run, AUTO_PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  private async restoreMemory(id: number): Promise<MCPResponse> {
+    const memory = await this.db.client.memory.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        deletedAt: true,
+        project: { select: { name: true, deletedAt: true } },
+      },
+    });
+    if (!memory) {
+      throw createNotFoundError('Memory', id);
+    }
+    if (!memory.deletedAt) {
+      throw createValidationError(`Memory ${id} is not in the trash`);
+    }
+    if (memory.project?.deletedAt) {
+      throw createValidationError(
+        `Memory ${id} belongs to project "${memory.project.name}", which is in the trash; restore the project first`
+      );
+    }
+
+    await this.db.client.memory.update({ where: { id }, data: { deletedAt: null } });
+    await this.indexer.indexMemory(id);
+
+    return createMCPResponse(
+      { type: 'memory', id, restored: { memories: 1, tasks: 0 } },
+      `Memory "${memory.title}" restored from the trash`
+    );
+  }
+
+  private async restoreTask(id: number): Promise<MCPResponse> {
+    const task = await this.db.client.task.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        deletedAt: true,
+        project: { select: { name: true, deletedAt: true } },
+        parent: { select: { id: true, deletedAt: true } },
+      },
+    });
+    if (!task) {
+      throw createNotFoundError('Task', id);
+    }
+    if (!task.deletedAt) {
+      throw createValidationError(`Task ${id} is not in the trash`);
+    }
+    if (task.project?.deletedAt) {
+      throw createValidationError(
+        `Task ${id} belongs to project "${task.project.name}", which is in the trash; restore the project first`
+      );
+    }
+    if (task.parent?.deletedAt) {
+      throw createValidationError(
+        `Task ${id} is a subtask of task ${task.parent.id}, which is in the trash; restore the parent first`
+      );
+    }
+
+    const subtaskIds = await this.subtasksTrashedWith([id], task.deletedAt);
+    await this.db.client.$transaction(async prisma => {
+      await prisma.task.updateMany({
+        where: { id: { in: [id, ...subtaskIds] } },
+        data: { deletedAt: null },
+      });
+      await this.events.recordTrashChanges(prisma, [id, ...subtaskIds], false);
+    });
+    await this.indexer.indexTasks([id, ...subtaskIds]);
+
+    const subtaskNote = subtaskIds.length > 0 ? ` with ${subtaskIds.length} subtasks` : '';
+    return createMCPResponse(
+      { type: 'task', id, restored: { memories: 0, tasks: 1 + subtaskIds.length } },
+      `Task "${task.title}" restored from the trash${subtaskNote}`
+    );
+  }
+
+  private async restoreProject(id: number): Promise<MCPResponse> {
+    const project = await this.db.client.project.findUnique({
+      where: { id },
+      select: { name: true, deletedAt: true },
+    });
+    if (!project) {
+      throw createNotFoundError('Project', id);
+    }
+    if (!project.deletedAt) {
+      throw createValidationError(`Project ${id} is not in the trash`);
+    }
+
+    // Memories and tasks trashed on their own before the project stay in the
+    // trash; subtasks in other projects trashed with their parent come back
+    const trashedWithProject = { projectId: id, deletedAt: project.deletedAt };
+    const projectTaskIds = (
+      await this.db.client.task.findMany({ where: trashedWithProject, select: { id: true } })
+    ).map(task => task.id);
+    const taskIds = [
+      ...projectTaskIds,
+      ...(await this.subtasksTrashedWith(projectTaskIds, project.deletedAt)),
+    ];
+
+    const memoryIds = await this.db.client.$transaction(async prisma => {
+      const memories = await prisma.memory.findMany({
+        where: trashedWithProject,
+        select: { id: true },
+      });
+      await prisma.memory.updateMany({ where: trashedWithProject, data: { deletedAt: null } });
+      await prisma.task.updateMany({ where: { id: { in: taskIds } }, data: { deletedAt: null } });
+      await prisma.project.update({ where: { id }, data: { deletedAt: null } });
+      await this.events.recordTrashChanges(prisma, taskIds, false);
+      return memories.map(memory => memory.id);
+    });
+    await this.indexer.indexMemories(memoryIds);
+    await this.indexer.indexTasks(taskIds);
+
+    const restored = { memories: memoryIds.length, tasks: taskIds.length };
+
+    return createMCPResponse(
+      { type: 'project', id, restored },
+      `Project "${project.name}" restored from the trash with ${restored.memories} memories and ${restored.tasks} tasks`
+    );
+  }
+
+  /**
+   * Descendants of tasks, other than the tasks themselves, that were moved to
+   * the trash in the same deletion
+   */
+  private async subtasksTrashedWith(taskIds: number[], deletedAt: Date): Promise<number[]> {
+    const ids: number[] = [];
+    let frontier = taskIds;
+
+    while (frontier.length > 0) {
+      const rows = await this.db.client.task.findMany({
+        where: { parentId: { in: frontier }, deletedAt, id: { notIn: [...taskIds, ...ids] } },
+        select: { id: true },
+      });
+      frontier = rows.map(row => row.id);
+      ids.push(...frontier);
+    }
+    return ids;
+  }
+
+  /**
+   * Delete trashed rows of one or all types, optionally only those trashed
+   * more than the given number of days ago
+   */
+  private async purge(
+    type: TrashItemType | undefined,
+    olderThanDays: number | undefined,
+    dryRun: boolean
+  ): Promise<{ memories: number; tasks: number; projects: number }> {
+    const where = {
+      deletedAt:
+        olderThanDays !== undefined
+          ? { lte: new Date(Date.now() - olderThanDays * DAY_MS) }
+          : { not: null },
+    };
+    const includes = (itemType: TrashItemType) => !type || type === itemType;
+
+    if (dryRun) {
+      const [memories, tasks, projects] = await Promise.all([
+        includes('memory') ? this.db.client.memory.count({ where }) : 0,
+        includes('task') ? this.db.client.task.count({ where }) : 0,
+        includes('project') ? this.db.client.project.count({ where }) : 0,
+      ]);
+      return { memories, tasks, projects };
+    }
+
+    return this.db.client.$transaction(async prisma => {
+      const memories = includes('memory') ? (await prisma.memory.deleteMany({ where })).count : 0;
+      const tasks = includes('task') ? (await prisma.task.deleteMany({ where })).count : 0;
+      const projects = includes('project') ? (await prisma.project.deleteMany({ where })).count : 0;
+      return { memories, tasks, projects };
+    });
+  }
+
+  private toItem(
+    type: TrashItemType,
+    id: number,
+    title: string,
+    deletedAt: Date,
+    project?: string
+  ): TrashItem {
+    const { retentionDays } = config.trash;
+    return {
+      type,
+      id,
+      title,
+      project,
+      deleted_at: deletedAt.toISOString(),
+      purge_after:
+        retentionDays > 0
+          ? new Date(deletedAt.getTime() + retentionDays * DAY_MS).toISOString()
+          : undefined,
+    };
+  }
+}
+
+/**
+ * Create a new trash service instance
+ */
+export function createTrashService(db: PrismaDatabaseService): TrashService {
+  return new TrashServiceImpl(db);
+}
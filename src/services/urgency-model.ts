@@ -0,0 +1,310 @@
+/**
+ * Urgency Model for AI Memory MCP Server
+ *
+ * How urgent an open task is, on a 0-10 scale. A score adds up points for
+ * the task's priority, due date, age, status, the open tasks waiting on it
+ * and its tags, each weighted by the urgency model of the task's project
+ * (else the global model, else the built-in defaults). The sum is capped at
+ * 10, blocked tasks lose a penalty, and the same model's thresholds decide
+ * the band: urgent, high, medium or low. Every score carries the points each
+ * factor added and a one-line explanation.
+ *
+ * @fileoverview Configurable urgency scoring of tasks
+ */
+
+import { UrgencyModel } from '@prisma/client';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { UrgencyBand } from '../core/types.js';
+import { TaskDependencyInfo } from './task-dependency-service.js';
+
+export const MAX_URGENCY = 10;
+
+/**
+ * Open tasks waiting on a task count for its score up to this many
+ */
+const MAX_COUNTED_DEPENDENTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UrgencyWeights {
+  // Points per priority level
+  priority: number;
+  // Multiplier on due-date points: 5 overdue, 4 due today, 3 due tomorrow,
+  // 2 due within 3 days, 1 due within a week
+  due: number;
+  // Points per week since the task was created
+  age: number;
+  // Points per status name
+  status: Record<string, number>;
+  // Points per open task waiting on this one
+  dependencies: number;
+  // Taken off the score of a blocked task, which keeps at least 1
+  blocked_penalty: number;
+  // Points per tag name
+  tags: Record<string, number>;
+  // Lowest score of each band; lower scores are low
+  bands: { urgent: number; high: number; medium: number };
+}
+
+/**
+ * Weights applied when no model is stored
+ */
+export const DEFAULT_URGENCY_WEIGHTS: UrgencyWeights = {
+  priority: 2,
+  due: 1,
+  age: 0,
+  status: { in_progress: 1 },
+  dependencies: 1,
+  blocked_penalty: 6,
+  tags: {},
+  bands: { urgent: 8, high: 6, medium: 4 },
+};
+
+/**
+ * Where the weights of a score came from
+ */
+export type UrgencyModelSource = 'project' | 'global' | 'default';
+
+export interface ResolvedUrgencyModel {
+  source: UrgencyModelSource;
+  weights: UrgencyWeights;
+}
+
+/**
+ * A task's urgency score and how it was reached
+ */
+export interface UrgencyBreakdown {
+  score: number;
+  band: UrgencyBand;
+  model: UrgencyModelSource;
+  // Points each factor added; blocked is the penalty, as a negative number
+  parts: {
+    priority: number;
+    due: number;
+    age: number;
+    status: number;
+    dependencies: number;
+    tags: number;
+    blocked: number;
+  };
+  // "priority 4 × 2 = 8, due tomorrow +3, in_progress +1, capped at 10 (default model)"
+  explanation: string;
+}
+
+/**
+ * What scoring needs to know about a task
+ */
+export interface UrgencyTask {
+  id: number;
+  priority: number;
+  due_date?: string;
+  status?: string;
+  tags?: string[];
+  created_at?: string;
+  project_id?: number | null;
+}
+
+/**
+ * Weights stored in a model row; malformed status or tag entries are ignored
+ */
+export function weightsOf(row: UrgencyModel): UrgencyWeights {
+  return {
+    priority: row.priorityWeight,
+    due: row.dueWeight,
+    age: row.ageWeight,
+    status: numberEntries(row.statusWeights),
+    dependencies: row.dependencyWeight,
+    blocked_penalty: row.blockedPenalty,
+    tags: numberEntries(row.tagWeights),
+    bands: { urgent: row.urgentThreshold, high: row.highThreshold, medium: row.mediumThreshold },
+  };
+}
+
+/**
+ * Model row columns holding the weights
+ */
+export function columnsOf(weights: UrgencyWeights) {
+  return {
+    priorityWeight: weights.priority,
+    dueWeight: weights.due,
+    ageWeight: weights.age,
+    statusWeights: weights.status,
+    dependencyWeight: weights.dependencies,
+    blockedPenalty: weights.blocked_penalty,
+    tagWeights: weights.tags,
+    urgentThreshold: weights.bands.urgent,
+    highThreshold: weights.bands.high,
+    mediumThreshold: weights.bands.medium,
+  };
+}
+
+/**
+ * Score a task with the given model
+ */
+export function scoreUrgency(
+  task: UrgencyTask,
+  model: ResolvedUrgencyModel,
+  dependencies?: TaskDependencyInfo,
+  now: Date = new Date()
+): UrgencyBreakdown {
+  const { weights } = model;
+  const reasons: string[] = [];
+
+  const priority = task.priority * weights.priority;
+  reasons.push(`priority ${task.priority} × ${weights.priority} = ${round(priority)}`);
+
+  const deadline = dueProximity(task.due_date, now);
+  const due = deadline ? deadline.points * weights.due : 0;
+  if (due !== 0) {
+    reasons.push(`${deadline!.label} ${signed(due)}`);
+  }
+
+  const weeks = task.created_at
+    ? Math.max(now.getTime() - new Date(task.created_at).getTime(), 0) / (7 * DAY_MS)
+    : 0;
+  const age = weeks * weights.age;
+  if (age !== 0) {
+    reasons.push(`${round(weeks)} weeks old ${signed(age)}`);
+  }
+
+  const status = (task.status && weights.status[task.status]) || 0;
+  if (status !== 0) {
+    reasons.push(`${task.status} ${signed(status)}`);
+  }
+
+  const waiting = dependencies?.unblocks ?? 0;
+  const dependents = Math.min(waiting, MAX_COUNTED_DEPENDENTS) * weights.dependencies;
+  if (dependents !== 0) {
+    reasons.push(`unblocks ${waiting} ${signed(dependents)}`);
+  }
+
+  const weightedTags = (task.tags ?? []).filter(tag => weights.tags[tag] !== undefined);
+  const tags = weightedTags.reduce((sum, tag) => sum + weights.tags[tag], 0);
+  if (tags !== 0) {
+    reasons.push(`tagged ${weightedTags.join(', ')} ${signed(tags)}`);
+  }
+
+  const total = priority + due + age + status + dependents + tags;
+  let score = Math.min(Math.max(total, 0), MAX_URGENCY);
+  if (total > MAX_URGENCY) {
+    reasons.push(`capped at ${MAX_URGENCY}`);
+  } else if (total < 0) {
+    reasons.push('raised to 0');
+  }
+
+  // Blocked tasks cannot be started yet, so they drop below unblocked work
+  let blocked = 0;
+  if (dependencies?.blocked) {
+    const lowered = Math.max(score - weights.blocked_penalty, Math.min(score, 1));
+    blocked = lowered - score;
+    score = lowered;
+    reasons.push(`blocked ${signed(blocked)}`);
+  }
+
+  score = round(score);
+  return {
+    score,
+    band: bandOf(score, weights),
+    model: model.source,
+    parts: {
+      priority: round(priority),
+      due: round(due),
+      age: round(age),
+      status: round(status),
+      dependencies: round(dependents),
+      tags: round(tags),
+      blocked: round(blocked),
+    },
+    explanation: `${reasons.join(', ')} (${model.source} model)`,
+  };
+}
+
+function bandOf(score: number, weights: UrgencyWeights): UrgencyBand {
+  if (score >= weights.bands.urgent) return 'urgent';
+  if (score >= weights.bands.high) return 'high';
+  if (score >= weights.bands.medium) return 'medium';
+  return 'low';
+}
+
+function dueProximity(
+  dueDate: string | undefined,
+  now: Date
+): { points: number; label: string } | undefined {
+  if (!dueDate) return undefined;
+
+  const daysUntilDue = Math.ceil((new Date(dueDate).getTime() - now.getTime()) / DAY_MS);
+  if (daysUntilDue < 0) return { points: 5, label: 'overdue' };
+  if (daysUntilDue === 0) return { points: 4, label: 'due today' };
+  if (daysUntilDue <= 1) return { points: 3, label: 'due tomorrow' };
+  if (daysUntilDue <= 3) return { points: 2, label: 'due within 3 days' };
+  if (daysUntilDue <= 7) return { points: 1, label: 'due within a week' };
+  return undefined;
+}
+
+function numberEntries(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([, weight]) => typeof weight === 'number' && isFinite(weight))
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function signed(value: number): string {
+  return value >= 0 ? `+${round(value)}` : `-${round(-value)}`;
+}
+
+export class UrgencyModels {
+  constructor(private db: PrismaDatabaseService) {}
+
+  /**
+   * The model for a project's tasks, or for tasks without a project when
+   * projectId is null
+   */
+  async resolve(projectId: number | null): Promise<ResolvedUrgencyModel> {
+    return (await this.resolveAll([projectId]))(projectId);
+  }
+
+  /**
+   * Score tasks, each with the model of its project
+   */
+  async scoreAll(
+    tasks: UrgencyTask[],
+    dependencyInfo?: Map<number, TaskDependencyInfo>,
+    now: Date = new Date()
+  ): Promise<Map<number, UrgencyBreakdown>> {
+    const modelOf = await this.resolveAll(tasks.map(task => task.project_id ?? null));
+    return new Map(
+      tasks.map(task => [
+        task.id,
+        scoreUrgency(task, modelOf(task.project_id ?? null), dependencyInfo?.get(task.id), now),
+      ])
+    );
+  }
+
+  private async resolveAll(
+    projectIds: (number | null)[]
+  ): Promise<(projectId: number | null) => ResolvedUrgencyModel> {
+    const ids = [...new Set(projectIds.filter((id): id is number => id !== null))];
+    const rows = await this.db.client.urgencyModel.findMany({
+      where: { OR: [{ projectId: null }, { projectId: { in: ids } }] },
+      orderBy: { id: 'asc' },
+    });
+
+    const global = rows.find(row => row.projectId === null);
+    const fallback: ResolvedUrgencyModel = global
+      ? { source: 'global', weights: weightsOf(global) }
+      : { source: 'default', weights: DEFAULT_URGENCY_WEIGHTS };
+    const byProject = new Map(
+      rows
+        .filter(row => row.projectId !== null)
+        .map(row => [row.projectId!, { source: 'project' as const, weights: weightsOf(row) }])
+    );
+
+    return projectId => (projectId !== null && byProject.get(projectId)) || fallback;
+  }
+}
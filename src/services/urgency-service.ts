@@ -0,0 +1,215 @@
+/**
+ * Urgency Service for AI Memory MCP Server
+ *
+ * get_urgency_model and set_urgency_model read and edit the weights that
+ * score task urgency (see UrgencyModels). A project's model applies to its
+ * own tasks; the global model applies to every other task. Where neither is
+ * stored, the built-in defaults apply.
+ *
+ * @fileoverview Reading and editing urgency models
+ */
+
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { GetUrgencyModelArgs, MCPResponse, SetUrgencyModelArgs } from '../core/types.js';
+import {
+  createNotFoundError,
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+import {
+  MAX_URGENCY,
+  ResolvedUrgencyModel,
+  UrgencyModels,
+  UrgencyWeights,
+  columnsOf,
+} from './urgency-model.js';
+
+/**
+ * Urgency service interface
+ */
+export interface UrgencyService {
+  getUrgencyModel(args: GetUrgencyModelArgs): Promise<MCPResponse>;
+  setUrgencyModel(args: SetUrgencyModelArgs): Promise<MCPResponse>;
+}
+
+const SINGLE_WEIGHTS = ['priority', 'due', 'age', 'dependencies', 'blocked_penalty'] as const;
+
+/**
+ * Urgency Service Implementation
+ */
+export class UrgencyServiceImpl implements UrgencyService {
+  private models: UrgencyModels;
+
+  constructor(private db: PrismaDatabaseService) {
+    this.models = new UrgencyModels(db);
+  }
+
+  /**
+   * The model scoring a project's tasks, or the global model
+   */
+  async getUrgencyModel(args: GetUrgencyModelArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { project } = args;
+
+      const projectId = project ? await this.resolveProject(project) : null;
+      const model = await this.models.resolve(projectId);
+
+      return createMCPResponse(
+        this.describe(project, model),
+        project
+          ? `Tasks in project "${project.toLowerCase()}" are scored with the ${model.source} urgency model`
+          : `Tasks without a project model are scored with the ${model.source} urgency model`
+      );
+    });
+  }
+
+  /**
+   * Change some weights of a project's model or the global model, starting
+   * from the weights that currently apply
+   */
+  async setUrgencyModel(args: SetUrgencyModelArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { project, reset = false } = args;
+
+      const projectId = project ? await this.resolveProject(project) : null;
+      const stored =
+        projectId !== null
+          ? await this.db.client.urgencyModel.findUnique({ where: { projectId } })
+          : await this.db.client.urgencyModel.findFirst({
+              where: { projectId: null },
+              orderBy: { id: 'asc' },
+            });
+
+      if (reset) {
+        if (stored) {
+          await this.db.client.urgencyModel.delete({ where: { id: stored.id } });
+        }
+        const model = await this.models.resolve(projectId);
+        return createMCPResponse(
+          this.describe(project, model),
+          `${this.scopeName(project)} urgency model reset; the ${model.source} model applies`
+        );
+      }
+
+      const weights = this.merge((await this.models.resolve(projectId)).weights, args);
+      const data = columnsOf(weights);
+      if (stored) {
+        await this.db.client.urgencyModel.update({ where: { id: stored.id }, data });
+      } else {
+        await this.db.client.urgencyModel.create({ data: { projectId, ...data } });
+      }
+
+      return createMCPResponse(
+        this.describe(project, await this.models.resolve(projectId)),
+        `${this.scopeName(project)} urgency model saved`
+      );
+    });
+  }
+
+  private async resolveProject(name: string): Promise<number> {
+    const project = await this.db.getProjectByName(name.toLowerCase());
+    if (!project) {
+      throw createNotFoundError('Project', name);
+    }
+    return project.id;
+  }
+
+  /**
+   * The weights with the arguments' changes applied; status and tag entries
+   * are merged, and null removes one
+   */
+  private merge(current: UrgencyWeights, args: SetUrgencyModelArgs): UrgencyWeights {
+    const changed =
+      SINGLE_WEIGHTS.some(name => args[name] !== undefined) ||
+      args.status !== undefined ||
+      args.tags !== undefined ||
+      args.bands !== undefined;
+    if (!changed) {
+      throw createValidationError('Give at least one weight to change, or reset');
+    }
+
+    const weights: UrgencyWeights = {
+      ...current,
+      status: this.mergeEntries('status', current.status, args.status),
+      tags: this.mergeEntries('tags', current.tags, args.tags),
+      bands: { ...current.bands },
+    };
+
+    for (const name of SINGLE_WEIGHTS) {
+      const value = args[name];
+      if (value !== undefined) {
+        this.checkNumber(name, value);
+        weights[name] = value;
+      }
+    }
+    if (weights.blocked_penalty < 0) {
+      throw createValidationError('blocked_penalty must not be negative');
+    }
+
+    for (const band of ['urgent', 'high', 'medium'] as const) {
+      const value = args.bands?.[band];
+      if (value !== undefined) {
+        this.checkNumber(`bands.${band}`, value);
+        weights.bands[band] = value;
+      }
+    }
+    const { urgent, high, medium } = weights.bands;
+    if (!(0 <= medium && medium < high && high < urgent && urgent <= MAX_URGENCY)) {
+      throw createValidationError(
+        `Bands must satisfy 0 <= medium < high < urgent <= ${MAX_URGENCY} (got medium ${medium}, high ${high}, urgent ${urgent})`
+      );
+    }
+
+    return weights;
+  }
+
+  private mergeEntries(
+    name: string,
+    current: Record<string, number>,
+    changes?: Record<string, number | null>
+  ): Record<string, number> {
+    if (changes === undefined) {
+      return current;
+    }
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw createValidationError(`${name} must be an object of names to weights`);
+    }
+
+    const merged = { ...current };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[key];
+      } else {
+        this.checkNumber(`${name}.${key}`, value);
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  private checkNumber(name: string, value: unknown): void {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      throw createValidationError(`${name} must be a finite number`);
+    }
+  }
+
+  private describe(project: string | undefined, model: ResolvedUrgencyModel) {
+    return {
+      project: project?.toLowerCase(),
+      model: model.source,
+      weights: model.weights,
+    };
+  }
+
+  private scopeName(project?: string): string {
+    return project ? `Project "${project.toLowerCase()}"` : 'Global';
+  }
+}
+
+/**
+ * Create a new urgency service instance
+ */
+export function createUrgencyService(db: PrismaDatabaseService): UrgencyService {
+  return new UrgencyServiceImpl(db);
+}
@@ -0,0 +1,415 @@
+/**
+ * Vault Service for AI Memory MCP Server
+ *
+ * Round-trips memories through a Markdown (Obsidian) vault. The exporter
+ * writes one note per memory with YAML front matter (stable id, title,
+ * category, project, tags, priority, timestamps), in one folder per project.
+ * The importer reads notes back through storeMemory and updateMemory; the
+ * ai_memory_id property links a note to its memory, so re-importing updates
+ * instead of duplicating. Inline #tags in the note body are merged with the
+ * front matter tags.
+ *
+ * @fileoverview Markdown vault export and import for memories
+ */
+
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { PrismaDatabaseService } from '../core/prisma-database.js';
+import { config } from '../core/config.js';
+import { MemoryService } from './memory-service.js';
+import {
+  ExportMemoriesMarkdownArgs,
+  ImportMemoriesMarkdownArgs,
+  MCPResponse,
+} from '../core/types.js';
+import {
+  FrontMatter,
+  FrontMatterValue,
+  parseFrontMatter,
+  stringifyFrontMatter,
+} from '../utils/front-matter.js';
+import {
+  createValidationError,
+  handleAsyncError,
+  createMCPResponse,
+} from '../utils/error-handling.js';
+
+/**
+ * Folder inside the vault used when none is given
+ */
+const DEFAULT_FOLDER = 'AI Memory';
+
+/**
+ * Front matter property holding the memory's stable uid
+ */
+const ID_PROPERTY = 'ai_memory_id';
+
+/**
+ * Vault folders that never contain notes to import
+ */
+const IGNORED_DIRECTORIES = new Set(['.obsidian', '.trash', '.git']);
+
+type ImportAction = 'create' | 'update' | 'unchanged' | 'failed';
+
+/**
+ * Memory fields read from one note
+ */
+interface NoteMemory {
+  uid?: string;
+  title: string;
+  content: string;
+  category?: string;
+  project?: string;
+  tags: string[];
+  priority?: number;
+}
+
+/**
+ * Vault service interface
+ */
+export interface VaultService {
+  exportMemoriesMarkdown(args: ExportMemoriesMarkdownArgs): Promise<MCPResponse>;
+  importMemoriesMarkdown(args: ImportMemoriesMarkdownArgs): Promise<MCPResponse>;
+}
+
+/**
+ * Vault Service Implementation
+ *
+ * All paths stay inside config.vault.path. Notes in the target folder that
+ * carry no ai_memory_id are never overwritten by an export.
+ */
+export class VaultServiceImpl implements VaultService {
+  constructor(
+    private db: PrismaDatabaseService,
+    private memoryService: MemoryService
+  ) {}
+
+  /**
+   * Write one Markdown note per memory into project folders
+   */
+  async exportMemoriesMarkdown(args: ExportMemoriesMarkdownArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { category, project } = args;
+      const root = this.resolveFolder(args.folder);
+      await mkdir(root, { recursive: true });
+
+      const where: any = { deletedAt: null };
+      if (category) where.category = { name: category.toLowerCase() };
+      if (project) where.project = { name: project.toLowerCase() };
+
+      const memories = await this.db.client.memory.findMany({
+        where,
+        include: { category: true, project: true, memoryTags: { include: { tag: true } } },
+        orderBy: { id: 'asc' },
+      });
+
+      const notes = await this.readNotes(root);
+      const pathsByUid = new Map<string, string>();
+      const uidsByPath = new Map<string, string | undefined>();
+      for (const note of notes) {
+        const uid = this.stringValue(note.data[ID_PROPERTY]);
+        uidsByPath.set(note.path, uid);
+        if (uid) pathsByUid.set(uid, note.path);
+      }
+
+      const claimed = new Set<string>();
+      const counts = { written: 0, unchanged: 0, moved: 0 };
+
+      for (const memory of memories) {
+        const folder = memory.project ? join(root, this.safeName(memory.project.name)) : root;
+        const previousPath = pathsByUid.get(memory.uid);
+
+        // Keep the note's current path if it still fits, otherwise pick a free name
+        const name = this.safeName(memory.title);
+        let path = join(folder, `${name}.md`);
+        for (let n = 2; ; n++) {
+          const owner = uidsByPath.has(path) ? uidsByPath.get(path) : null;
+          if (!claimed.has(path) && (owner === null || owner === memory.uid)) break;
+          path = join(folder, `${name} (${n}).md`);
+        }
+        claimed.add(path);
+
+        const markdown = stringifyFrontMatter(
+          {
+            [ID_PROPERTY]: memory.uid,
+            title: memory.title,
+            category: memory.category?.name ?? null,
+            project: memory.project?.name ?? null,
+            tags: memory.memoryTags.map(mt => mt.tag.name),
+            priority: memory.priority,
+            created: memory.createdAt.toISOString(),
+            updated: memory.updatedAt.toISOString(),
+          },
+          `${memory.content.trimEnd()}\n`
+        );
+
+        const current = notes.find(note => note.path === path)?.raw;
+        if (current === markdown) {
+          counts.unchanged++;
+          continue;
+        }
+
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, markdown, 'utf8');
+        counts.written++;
+
+        if (previousPath && previousPath !== path) {
+          await unlink(previousPath).catch(() => undefined);
+          counts.moved++;
+        }
+      }
+
+      return createMCPResponse(
+        { folder: root, memories: memories.length, ...counts },
+        `Exported ${memories.length} memories to ${root} (${counts.written} written, ${counts.unchanged} unchanged)`
+      );
+    });
+  }
+
+  /**
+   * Create or update memories from the notes in a vault folder
+   */
+  async importMemoriesMarkdown(args: ImportMemoriesMarkdownArgs): Promise<MCPResponse> {
+    return handleAsyncError(async () => {
+      const { dry_run = false, write_ids = true } = args;
+      const root = this.resolveFolder(args.folder);
+
+      const notes = await this.readNotes(root);
+      const results: Array<{
+        file: string;
+        action: ImportAction;
+        id?: number;
+        title?: string;
+        error?: string;
+      }> = [];
+
+      for (const note of notes) {
+        const file = relative(root, note.path);
+        try {
+          const memory = this.toNoteMemory(note.data, note.body, note.path, root);
+          const existing = memory.uid
+            ? await this.db.client.memory.findUnique({
+                where: { uid: memory.uid },
+                include: { category: true, project: true, memoryTags: { include: { tag: true } } },
+              })
+            : null;
+
+          if (existing?.deletedAt) {
+            throw createValidationError(
+              `Memory ${existing.id} with this note's ID is in the trash; restore or purge it first`
+            );
+          }
+
+          if (existing) {
+            const changed =
+              existing.title !== memory.title ||
+              existing.content !== memory.content ||
+              (memory.category !== undefined &&
+                existing.category?.name !== memory.category.toLowerCase()) ||
+              (existing.project?.name ?? '') !== (memory.project ?? '').toLowerCase() ||
+              (memory.priority !== undefined && existing.priority !== memory.priority) ||
+              !this.sameTags(
+                existing.memoryTags.map(mt => mt.tag.name),
+                memory.tags
+              );
+
+            if (changed && !dry_run) {
+              await this.memoryService.updateMemory({
+                id: existing.id,
+                title: memory.title,
+                content: memory.content,
+                category: memory.category,
+                project: memory.project ?? '',
+                tags: memory.tags.join(', '),
+                priority: memory.priority,
+              });
+            }
+            results.push({
+              file,
+              action: changed ? 'update' : 'unchanged',
+              id: existing.id,
+              title: memory.title,
+            });
+            continue;
+          }
+
+          if (dry_run) {
+            results.push({ file, action: 'create', title: memory.title });
+            continue;
+          }
+
+          const response = await this.memoryService.storeMemory({
+            title: memory.title,
+            content: memory.content,
+            category: memory.category,
+            project: memory.project,
+            tags: memory.tags.join(', '),
+            priority: memory.priority,
+            uid: memory.uid,
+            // Notes are the user's own files, so they are imported as they are
+            on_duplicate: 'ignore',
+          });
+          const created = JSON.parse(response.content[0].text).data;
+
+          // Link the note to its new memory so the next import updates it
+          if (write_ids && !memory.uid) {
+            await writeFile(
+              note.path,
+              stringifyFrontMatter({ [ID_PROPERTY]: created.uid, ...note.data }, note.body),
+              'utf8'
+            );
+          }
+
+          results.push({ file, action: 'create', id: created.id, title: memory.title });
+        } catch (error) {
+          results.push({
+            file,
+            action: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      const count = (action: ImportAction) => results.filter(r => r.action === action).length;
+      const summary = {
+        notes: notes.length,
+        created: count('create'),
+        updated: count('update'),
+        unchanged: count('unchanged'),
+        failed: count('failed'),
+      };
+
+      return createMCPResponse(
+        { folder: root, dry_run, summary, results },
+        dry_run
+          ? `Dry run: ${summary.created} notes would be created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`
+          : `Imported ${notes.length} notes: ${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`
+      );
+    });
+  }
+
+  /**
+   * Map a note to memory fields. Without a project property, the note's
+   * top-level folder is used as the project.
+   */
+  private toNoteMemory(data: FrontMatter, body: string, path: string, root: string): NoteMemory {
+    const content = body.trim();
+    if (!content) {
+      throw createValidationError('Note has no content');
+    }
+
+    const folder = relative(root, dirname(path));
+    const project =
+      this.stringValue(data.project) ?? (folder ? folder.split(sep)[0] : undefined);
+
+    const priority = typeof data.priority === 'number' ? data.priority : undefined;
+    if (priority !== undefined && (!Number.isInteger(priority) || priority < 1 || priority > 5)) {
+      throw createValidationError('priority must be an integer between 1 and 5');
+    }
+
+    const propertyTags = Array.isArray(data.tags)
+      ? data.tags.map(String)
+      : (this.stringValue(data.tags) ?? '').split(/[,\s]+/);
+
+    return {
+      uid: this.stringValue(data[ID_PROPERTY]),
+      title: this.stringValue(data.title) ?? basename(path, '.md'),
+      content,
+      category: this.stringValue(data.category),
+      project,
+      tags: this.uniqueTags([...propertyTags, ...extractHashtags(content)]),
+      priority,
+    };
+  }
+
+  /**
+   * Read every Markdown note below a folder, skipping Obsidian's own folders
+   */
+  private async readNotes(root: string) {
+    const notes: Array<{ path: string; raw: string; data: FrontMatter; body: string }> = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(path);
+        } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) {
+          const raw = await readFile(path, 'utf8');
+          notes.push({ path, raw, ...parseFrontMatter(raw) });
+        }
+      }
+    };
+
+    await walk(root);
+    return notes;
+  }
+
+  /**
+   * Resolve a folder inside the configured vault
+   */
+  private resolveFolder(folder: string = DEFAULT_FOLDER): string {
+    const vault = resolve(config.vault.path);
+    const target = resolve(vault, folder);
+    if (target !== vault && !target.startsWith(vault + sep)) {
+      throw createValidationError(`Folder must be inside the vault at ${vault}`);
+    }
+    return target;
+  }
+
+  /**
+   * Make a title or project name safe to use as a file or folder name
+   */
+  private safeName(name: string): string {
+    const safe = name
+      .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^\.+/, '')
+      .slice(0, 120)
+      .trim();
+    return safe || 'Untitled';
+  }
+
+  private stringValue(value: FrontMatterValue | undefined): string | undefined {
+    if (value === undefined || value === null || Array.isArray(value)) return undefined;
+    const text = String(value).trim();
+    return text === '' ? undefined : text;
+  }
+
+  private uniqueTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag))];
+  }
+
+  private sameTags(a: string[], b: string[]): boolean {
+    const left = new Set(a);
+    return left.size === new Set(b).size && b.every(tag => left.has(tag));
+  }
+}
+
+/**
+ * Obsidian-style #tags in a note body, ignoring code, headings and pure numbers
+ */
+function extractHashtags(body: string): string[] {
+  const text = body.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  const tags: string[] = [];
+  for (const match of text.matchAll(/(?:^|[\s(,;])#([\p{L}\p{N}_\-/]+)/gu)) {
+    const tag = match[1].replace(/\/+$/, '');
+    if (tag && !/^\d+$/.test(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+// Export factory function
+export function createVaultService(
+  db: PrismaDatabaseService,
+  memoryService: MemoryService
+): VaultService {
+  return new VaultServiceImpl(db, memoryService);
+}
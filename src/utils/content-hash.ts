@@ -0,0 +1,12 @@
+/**
+ * Content hashing for embedding reuse
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 hex digest of a text, used to detect unchanged embedding input
+ */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
@@ -0,0 +1,152 @@
+/**
+ * YAML front matter for Markdown notes
+ *
+ * Reads and writes the subset of YAML that Obsidian uses for note properties:
+ * scalar values (quoted or plain strings, numbers, booleans, null) and lists
+ * of scalars, either inline ([a, b]) or as indented "- item" lines. Nested
+ * mappings are not supported and are read as plain strings.
+ */
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number | boolean>;
+
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+/**
+ * A note split into its front matter and body
+ */
+export interface ParsedNote {
+  data: FrontMatter;
+  body: string;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a Markdown document into front matter and body
+ */
+export function parseFrontMatter(markdown: string): ParsedNote {
+  const text = markdown.replace(/^\uFEFF/, '');
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s*(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as Array<string | number | boolean>).push(
+        parseScalar(item[1]) as string | number | boolean
+      );
+      continue;
+    }
+
+    const entry = line.match(/^([^\s:][^:]*):(?:\s+(.*))?$/);
+    if (!entry) continue;
+
+    const key = entry[1].trim();
+    const raw = (entry[2] ?? '').trim();
+    if (raw === '') {
+      // Either an empty value or the start of a block list
+      data[key] = [];
+      listKey = key;
+      continue;
+    }
+
+    listKey = null;
+    data[key] = raw.startsWith('[') && raw.endsWith(']') ? parseInlineList(raw) : parseScalar(raw);
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+/**
+ * Render front matter and body as a Markdown document
+ */
+export function stringifyFrontMatter(data: FrontMatter, body: string): string {
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        lines.push(`${key}: []`);
+      } else {
+        lines.push(`${key}:`);
+        value.forEach(item => lines.push(`  - ${formatScalar(item)}`));
+      }
+    } else {
+      lines.push(`${key}: ${formatScalar(value)}`);
+    }
+  }
+
+  return `---\n${lines.join('\n')}\n---\n\n${body.replace(/^\n+/, '')}`;
+}
+
+function parseInlineList(raw: string): Array<string | number | boolean> {
+  const inner = raw.slice(1, -1).trim();
+  if (inner === '') return [];
+
+  // Split on commas outside quotes
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+
+  return items
+    .map(item => parseScalar(item.trim()))
+    .filter((item): item is string | number | boolean => item !== null && item !== '');
+}
+
+function parseScalar(raw: string): string | number | boolean | null {
+  const value = raw.trim();
+
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  // Strip a trailing comment from plain scalars
+  const plain = value.replace(/\s+#.*$/, '');
+  if (plain === '' || plain === '~' || plain === 'null') return null;
+  if (plain === 'true') return true;
+  if (plain === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(plain)) return Number(plain);
+
+  return plain;
+}
+
+function formatScalar(value: string | number | boolean | null): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'string') return String(value);
+  // JSON strings are valid double-quoted YAML scalars
+  return JSON.stringify(value);
+}
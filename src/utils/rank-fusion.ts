@@ -0,0 +1,56 @@
+/**
+ * Reciprocal Rank Fusion
+ *
+ * Combines several independently ranked result lists into one ranking.
+ * Each list contributes 1 / (k + rank) for every item it contains, so items
+ * that rank well in more than one list rise to the top without having to
+ * normalize incomparable scores (cosine similarity vs. ts_rank).
+ */
+
+/**
+ * Default RRF damping constant from Cormack et al. (2009)
+ */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * A single fused result with the rank each input list gave it
+ */
+export interface FusedRank {
+  id: number;
+  score: number;
+  ranks: Record<string, number | undefined>;
+}
+
+/**
+ * Fuse ranked id lists with reciprocal rank fusion
+ *
+ * @param lists - Named lists of ids, each ordered best first
+ * @param k - Damping constant; larger values flatten the contribution of top ranks
+ * @returns Fused results ordered by descending score
+ */
+export function reciprocalRankFusion(
+  lists: Record<string, number[]>,
+  k: number = DEFAULT_RRF_K
+): FusedRank[] {
+  const fused = new Map<number, FusedRank>();
+  const listNames = Object.keys(lists);
+
+  for (const name of listNames) {
+    lists[name].forEach((id, index) => {
+      const rank = index + 1;
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = {
+          id,
+          score: 0,
+          ranks: Object.fromEntries(listNames.map(listName => [listName, undefined])),
+        };
+        fused.set(id, entry);
+      }
+      entry.score += 1 / (k + rank);
+      entry.ranks[name] = rank;
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score || a.id - b.id);
+}
@@ -0,0 +1,175 @@
+/**
+ * Task recurrence rules
+ *
+ * A rule repeats a task every `interval` days, weeks or months and may end on
+ * a date (`until`, inclusive) or after a total number of occurrences
+ * (`count`). Rules can be given as objects or as the matching subset of
+ * iCalendar RRULE syntax: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, COUNT, UNTIL.
+ * Dates are calendar days (YYYY-MM-DD) and are computed in UTC, like due dates.
+ */
+
+import {
+  RecurrenceArgs,
+  RecurrenceFrequency,
+  VALID_RECURRENCE_FREQUENCIES,
+} from '../core/types.js';
+import { createValidationError } from './error-handling.js';
+
+/**
+ * A validated recurrence rule
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string;
+  count?: number;
+}
+
+const UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+/**
+ * Validate a recurrence given as an object or an RRULE string
+ */
+export function parseRecurrence(input: RecurrenceArgs | string): RecurrenceRule {
+  const args = typeof input === 'string' ? parseRRule(input) : input;
+
+  if (!args || typeof args !== 'object') {
+    throw createValidationError('Recurrence must be an object or an RRULE string');
+  }
+  if (!VALID_RECURRENCE_FREQUENCIES.includes(args.frequency)) {
+    throw createValidationError(
+      `Recurrence frequency must be one of: ${VALID_RECURRENCE_FREQUENCIES.join(', ')}`
+    );
+  }
+
+  const interval = args.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    throw createValidationError('Recurrence interval must be an integer between 1 and 365');
+  }
+  if (args.count !== undefined && (!Number.isInteger(args.count) || args.count < 1)) {
+    throw createValidationError('Recurrence count must be a positive integer');
+  }
+  if (args.until !== undefined && !isCalendarDate(args.until)) {
+    throw createValidationError('Recurrence until must be a date in YYYY-MM-DD format');
+  }
+  if (args.until !== undefined && args.count !== undefined) {
+    throw createValidationError('Recurrence can end with until or count, not both');
+  }
+
+  return {
+    frequency: args.frequency,
+    interval,
+    ...(args.until !== undefined ? { until: args.until } : {}),
+    ...(args.count !== undefined ? { count: args.count } : {}),
+  };
+}
+
+/**
+ * Date one interval after `from`. Monthly rules keep `dayOfMonth` (the day
+ * the series started on), using the last day of shorter months.
+ */
+export function nextOccurrenceDate(
+  from: Date,
+  rule: RecurrenceRule,
+  dayOfMonth: number = from.getUTCDate()
+): Date {
+  const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  switch (rule.frequency) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + rule.interval);
+      break;
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + rule.interval * 7);
+      break;
+    case 'monthly': {
+      const month = next.getUTCMonth() + rule.interval;
+      const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), month + 1, 0)).getUTCDate();
+      next.setUTCFullYear(next.getUTCFullYear(), month, Math.min(dayOfMonth, daysInMonth));
+      break;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Whether the series has ended once `occurrence` is done and the next one
+ * would fall on `nextDate`
+ */
+export function recurrenceEnded(
+  rule: RecurrenceRule,
+  occurrence: number,
+  nextDate: Date
+): boolean {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return true;
+  }
+  if (rule.until !== undefined && nextDate.toISOString().split('T')[0] > rule.until) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Human-readable rule, e.g. "every 2 weeks until 2026-12-31"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const [one, many] = UNITS[rule.frequency];
+  let text = rule.interval === 1 ? `every ${one}` : `every ${rule.interval} ${many}`;
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count) text += `, ${rule.count} occurrences`;
+  return text;
+}
+
+/**
+ * RRULE form of a rule, e.g. "FREQ=WEEKLY;INTERVAL=2;UNTIL=20261231"
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+function parseRRule(text: string): RecurrenceArgs {
+  const args: Partial<RecurrenceArgs> = {};
+  const body = text.trim().replace(/^RRULE:/i, '');
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=').map(piece => piece.trim());
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        args.frequency = value.toLowerCase() as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        args.interval = Number(value);
+        break;
+      case 'COUNT':
+        args.count = Number(value);
+        break;
+      case 'UNTIL': {
+        const date = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        args.until = date ? `${date[1]}-${date[2]}-${date[3]}` : value;
+        break;
+      }
+      default:
+        throw createValidationError(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!args.frequency) {
+    throw createValidationError('RRULE must include FREQ');
+  }
+  return args as RecurrenceArgs;
+}
+
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
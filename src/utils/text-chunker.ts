@@ -0,0 +1,87 @@
+/**
+ * Text Chunker
+ *
+ * Splits long text into overlapping character windows for embedding.
+ * Window ends are pulled back to the nearest paragraph, sentence or word
+ * boundary when one is close, so passages read naturally in search results.
+ */
+
+/**
+ * A contiguous passage of the source text
+ */
+export interface TextChunk {
+  index: number;
+  content: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Chunking options
+ */
+export interface ChunkOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+/**
+ * Boundaries tried in order when choosing where a chunk ends
+ */
+const BOUNDARY_PATTERNS = [/\n\s*\n/g, /[.!?]\s/g, /\s/g];
+
+/**
+ * Split text into overlapping chunks of at most chunkSize characters
+ *
+ * @returns An empty list when the text already fits in one chunk
+ */
+export function chunkText(text: string, options: ChunkOptions): TextChunk[] {
+  const { chunkSize, overlap } = options;
+
+  if (text.length <= chunkSize) {
+    return [];
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      end = findBoundary(text, start, end);
+    }
+
+    const content = text.substring(start, end).trim();
+    if (content.length > 0) {
+      chunks.push({ index: chunks.length, content, start, end });
+    }
+
+    if (end >= text.length) break;
+
+    // Step back by the overlap to a word start, but always make forward progress
+    start = Math.max(end - overlap, start + 1);
+    while (start < end && !/\s/.test(text[start - 1])) start++;
+    while (start < end && /\s/.test(text[start])) start++;
+  }
+
+  return chunks;
+}
+
+/**
+ * Find the latest boundary in the second half of the window, or cut at maxEnd
+ */
+function findBoundary(text: string, start: number, maxEnd: number): number {
+  const minEnd = start + Math.floor((maxEnd - start) / 2);
+  const window = text.substring(minEnd, maxEnd);
+
+  for (const pattern of BOUNDARY_PATTERNS) {
+    let lastMatchEnd = -1;
+    for (const match of window.matchAll(pattern)) {
+      lastMatchEnd = match.index! + match[0].length;
+    }
+    if (lastMatchEnd > 0) {
+      return minEnd + lastMatchEnd;
+    }
+  }
+
+  return maxEnd;
+}
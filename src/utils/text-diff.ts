@@ -0,0 +1,131 @@
+/**
+ * Line-based text diff
+ *
+ * Compares two texts line by line using the longest common subsequence and
+ * renders the result as a unified diff, the format `diff -u` and git use.
+ */
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Largest number of line pairs compared exactly; beyond this the differing
+ * middle section is shown as removed and re-added as a whole
+ */
+const MAX_COMPARED_PAIRS = 4_000_000;
+
+/**
+ * Lines of context shown around each change in a unified diff
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common leading and trailing lines need no comparison
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const context = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'context', text }));
+
+  return [
+    ...context(a.slice(0, start)),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...context(a.slice(endA)),
+  ];
+}
+
+/**
+ * Render a diff in unified format with `---`/`+++` headers and `@@` hunks
+ *
+ * @returns An empty string when the texts are equal
+ */
+export function formatUnifiedDiff(lines: DiffLine[], fromLabel: string, toLabel: string): string {
+  const changed = lines.map((line, i) => (line.type !== 'context' ? i : -1)).filter(i => i >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const i of changed) {
+    const from = Math.max(0, i - CONTEXT_LINES);
+    const to = Math.min(lines.length, i + CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      hunks.push([from, to]);
+    }
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [from, to] of hunks) {
+    // Line numbers in each text where the hunk starts
+    const before = lines.slice(0, from);
+    const oldStart = before.filter(line => line.type !== 'added').length + 1;
+    const newStart = before.filter(line => line.type !== 'removed').length + 1;
+    const hunk = lines.slice(from, to);
+    const oldCount = hunk.filter(line => line.type !== 'added').length;
+    const newCount = hunk.filter(line => line.type !== 'removed').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removed = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'removed', text }));
+  const added = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'added', text }));
+
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_COMPARED_PAIRS) {
+    return [...removed(a), ...added(b)];
+  }
+
+  // lcs[i * width + j] = length of the common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+
+  return [...lines, ...removed(a.slice(i)), ...added(b.slice(j))];
+}
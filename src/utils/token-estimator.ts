@@ -0,0 +1,61 @@
+/**
+ * Token Estimator
+ *
+ * Context tools with max_tokens need to know roughly how many tokens a piece
+ * of text costs. Real tokenizers depend on the model reading the output, so
+ * estimators are pluggable: pick a built-in one with CONTEXT_TOKEN_ESTIMATOR
+ * or pass any TokenEstimator to createContextService.
+ */
+
+/**
+ * Built-in token estimators, selected by ServerConfig.context.tokenEstimator
+ */
+export const TOKEN_ESTIMATORS = ['chars', 'words'] as const;
+export type TokenEstimatorKind = (typeof TOKEN_ESTIMATORS)[number];
+
+export interface TokenEstimator {
+  /** Name reported with budgeted context */
+  readonly name: string;
+
+  /** Estimated number of tokens in text; 0 for empty text */
+  estimate(text: string): number;
+}
+
+/**
+ * About four characters per token, the usual rule of thumb for English text
+ * with BPE tokenizers
+ */
+export class CharacterTokenEstimator implements TokenEstimator {
+  readonly name = 'chars';
+
+  constructor(private charsPerToken: number = 4) {}
+
+  estimate(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
+
+/**
+ * About four tokens per three words, plus one per symbol such as emoji,
+ * bullets and markdown markers, which tokenizers rarely merge with words
+ */
+export class WordTokenEstimator implements TokenEstimator {
+  readonly name = 'words';
+
+  estimate(text: string): number {
+    const words = text.match(/[\p{L}\p{N}_']+/gu)?.length ?? 0;
+    const symbols = text.match(/[^\p{L}\p{N}_'\s]/gu)?.length ?? 0;
+    return Math.ceil((words * 4) / 3) + symbols;
+  }
+}
+
+export function createTokenEstimator(kind: TokenEstimatorKind): TokenEstimator {
+  switch (kind) {
+    case 'chars':
+      return new CharacterTokenEstimator();
+    case 'words':
+      return new WordTokenEstimator();
+    default:
+      throw new Error(`Unknown token estimator: ${kind}`);
+  }
+}
@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+
+/**
+ * Test for max_tokens packing of context payloads
+ * Checks that packed context stays within budget whenever the frame and the
+ * report of omitted items fit, that a frame larger than the budget comes back
+ * with every item omitted, and that the budget report lists exactly the items
+ * that were shortened or omitted
+ */
+
+import { ContextPacker } from '../../dist/services/context-budget.js';
+import {
+  JsonContextRenderer,
+  MarkdownContextRenderer,
+} from '../../dist/services/context-renderer.js';
+import { CharacterTokenEstimator, WordTokenEstimator } from '../../dist/utils/token-estimator.js';
+
+const LOREM =
+  'Deployments run from the release branch after the staging checks pass and the changelog is approved by the team lead';
+
+function memory(id, score, words) {
+  return {
+    kind: 'memory',
+    id,
+    title: `Budget test memory ${id}`,
+    priority: 3,
+    score,
+    content: Array.from({ length: words }, (_, i) => LOREM.split(' ')[i % 20]).join(' '),
+    category: 'testing',
+    tags: ['budget'],
+  };
+}
+
+function topicPayload(topic = 'deployment process') {
+  return {
+    context: 'topic',
+    topic,
+    sections: [
+      {
+        name: 'ranked_memories',
+        title: 'Relevant Memories',
+        total: 3,
+        items: [memory(1, 0.9, 60), memory(2, 0.6, 60), memory(3, 0.3, 60)],
+      },
+      {
+        name: 'related_memories',
+        title: 'Related Memories',
+        total: 2,
+        items: [memory(4, 0.8, 20), memory(5, 0.2, 20)],
+      },
+    ],
+  };
+}
+
+const ALL_IDS = [1, 2, 3, 4, 5];
+
+class ContextBudgetTester {
+  constructor() {
+    this.testResults = [];
+    this.setups = [
+      {
+        name: 'markdown/chars',
+        estimator: new CharacterTokenEstimator(),
+        renderer: new MarkdownContextRenderer(),
+      },
+      {
+        name: 'markdown/words',
+        estimator: new WordTokenEstimator(),
+        renderer: new MarkdownContextRenderer(),
+      },
+      {
+        name: 'json/chars',
+        estimator: new CharacterTokenEstimator(),
+        renderer: new JsonContextRenderer(),
+      },
+    ];
+  }
+
+  async test(name, testFn) {
+    const startTime = Date.now();
+    console.log(`\n🧪 Testing: ${name}`);
+
+    try {
+      await testFn();
+      const duration = Date.now() - startTime;
+      this.testResults.push({ name, passed: true, message: 'Test passed', duration });
+      console.log(`✅ ${name} - PASSED (${duration}ms)`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.testResults.push({ name, passed: false, message: error.message, duration });
+      console.log(`❌ ${name} - FAILED: ${error.message} (${duration}ms)`);
+    }
+  }
+
+  testWithinBudget() {
+    for (const { name, estimator, renderer } of this.setups) {
+      const packer = new ContextPacker(estimator, renderer);
+      // The frame is kept and every left-out item is reported, so the
+      // smallest possible output is the frame with all items omitted
+      const floor = packer.pack(topicPayload(), 0).budget.estimated_tokens;
+
+      for (const maxTokens of [floor, floor + 40, floor + 120, floor + 300, 5000]) {
+        const packed = packer.pack(topicPayload(), maxTokens);
+        const actual = estimator.estimate(renderer.render(packed));
+
+        if (actual > maxTokens) {
+          throw new Error(`${name}: ${actual} tokens rendered for max_tokens ${maxTokens}`);
+        }
+        // The report may round up per part, but never understates or exceeds the budget
+        const reported = packed.budget.estimated_tokens;
+        if (reported < actual || reported > maxTokens) {
+          throw new Error(`${name}: report says ${reported} tokens, rendered ${actual}`);
+        }
+      }
+
+      const roomy = packer.pack(topicPayload(), 5000);
+      if (roomy.budget.shortened.length > 0 || roomy.budget.omitted.length > 0) {
+        throw new Error(`${name}: items left out although everything fits`);
+      }
+    }
+  }
+
+  testFrameOverBudget() {
+    for (const { name, estimator, renderer } of this.setups) {
+      const packer = new ContextPacker(estimator, renderer);
+      const payload = topicPayload(LOREM.repeat(20));
+      const maxTokens = Math.floor(estimator.estimate(renderer.renderFrame(payload)) / 2);
+
+      const packed = packer.pack(payload, maxTokens);
+      const kept = packed.sections.flatMap(section => section.items);
+      if (kept.length > 0) {
+        throw new Error(`${name}: ${kept.length} items kept although the frame is over budget`);
+      }
+
+      const omitted = packed.budget.omitted.map(ref => ref.id).sort();
+      if (omitted.join() !== ALL_IDS.join()) {
+        throw new Error(`${name}: omitted ${omitted.join(', ')} instead of every item`);
+      }
+      if (packed.topic !== payload.topic) {
+        throw new Error(`${name}: the frame was changed`);
+      }
+    }
+  }
+
+  testReportedItems() {
+    for (const { name, estimator, renderer } of this.setups) {
+      const packer = new ContextPacker(estimator, renderer);
+      const frame = estimator.estimate(renderer.renderFrame(topicPayload()));
+      const whole = packer.pack(topicPayload(), 5000).budget.estimated_tokens;
+
+      let sawShortened = false;
+      let sawOmitted = false;
+      for (let maxTokens = frame + 20; maxTokens < whole; maxTokens += 10) {
+        const packed = packer.pack(topicPayload(), maxTokens);
+        const { shortened, omitted } = packed.budget;
+        const kept = packed.sections.flatMap(section => section.items);
+
+        for (const id of ALL_IDS) {
+          const item = kept.find(candidate => candidate.id === id);
+          const isShortened = shortened.some(ref => ref.id === id);
+          const isOmitted = omitted.some(ref => ref.id === id);
+
+          if (item && isOmitted) {
+            throw new Error(`${name}: item ${id} is kept but reported omitted`);
+          }
+          if (!item && !isOmitted) {
+            throw new Error(`${name}: item ${id} is missing but not reported omitted`);
+          }
+          if (item && Boolean(item.shortened) !== isShortened) {
+            throw new Error(`${name}: item ${id} shortened flag does not match the report`);
+          }
+        }
+
+        sawShortened ||= shortened.length > 0;
+        sawOmitted ||= omitted.length > 0;
+      }
+
+      if (!sawShortened || !sawOmitted) {
+        throw new Error(`${name}: budgets never shortened and omitted items`);
+      }
+    }
+  }
+
+  async runAllTests() {
+    try {
+      await this.test('Packed Context Stays Within max_tokens', async () => {
+        this.testWithinBudget();
+      });
+
+      await this.test('Frame Larger Than the Budget Omits Every Item', async () => {
+        this.testFrameOverBudget();
+      });
+
+      await this.test('Shortened and Omitted Items Are Reported', async () => {
+        this.testReportedItems();
+      });
+
+      this.printResults();
+    } catch (error) {
+      console.error('❌ Test suite failed:', error.message);
+      process.exit(1);
+    }
+  }
+
+  printResults() {
+    console.log('\n📊 Test Results Summary:');
+    console.log('========================');
+
+    const passed = this.testResults.filter(r => r.passed).length;
+    const failed = this.testResults.filter(r => !r.passed).length;
+    const total = this.testResults.length;
+
+    console.log(`✅ Passed: ${passed}`);
+    console.log(`❌ Failed: ${failed}`);
+    console.log(`📊 Total: ${total}`);
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:');
+      this.testResults
+        .filter(r => !r.passed)
+        .forEach(r => console.log(`  - ${r.name}: ${r.message}`));
+    }
+
+    const totalDuration = this.testResults.reduce((sum, r) => sum + r.duration, 0);
+    console.log(`\n⏱️  Total Duration: ${totalDuration}ms`);
+
+    if (failed === 0) {
+      console.log('\n🎉 All context budget tests passed!');
+    } else {
+      console.log('\n💥 Some tests failed. Please review the errors above.');
+      process.exit(1);
+    }
+  }
+}
+
+// Run the tests
+const tester = new ContextBudgetTester();
+tester.runAllTests().catch(error => {
+  console.error('❌ Test runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,291 @@
+#!/usr/bin/env node
+
+/**
+ * Test for recurring tasks
+ * Checks the date arithmetic of recurrence rules (month-end clamping, count
+ * and until) and spawning of next occurrences against the database
+ */
+
+import { PrismaDatabaseService } from '../../dist/core/prisma-database.js';
+import { TaskRecurrence } from '../../dist/services/task-recurrence.js';
+import {
+  nextOccurrenceDate,
+  parseRecurrence,
+  recurrenceEnded,
+} from '../../dist/utils/recurrence.js';
+
+const TEST_TITLE = 'Recurrence Test Task';
+
+function day(value) {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function dateOf(date) {
+  return date.toISOString().split('T')[0];
+}
+
+function expectDate(actual, expected, what) {
+  if (dateOf(actual) !== expected) {
+    throw new Error(`${what}: expected ${expected}, got ${dateOf(actual)}`);
+  }
+}
+
+class RecurrenceTester {
+  constructor() {
+    this.db = null;
+    this.recurrence = null;
+    this.testResults = [];
+  }
+
+  async setup() {
+    console.log('🔧 Setting up test environment...');
+
+    this.db = new PrismaDatabaseService();
+    await this.db.initialize();
+    this.recurrence = new TaskRecurrence(this.db);
+
+    console.log('✅ Test environment setup complete');
+  }
+
+  async cleanup() {
+    console.log('🧹 Cleaning up test environment...');
+
+    if (this.db) {
+      await this.db.client.task.deleteMany({
+        where: { title: { startsWith: TEST_TITLE } },
+      });
+      await this.db.close();
+    }
+
+    console.log('✅ Cleanup complete');
+  }
+
+  async test(name, testFn) {
+    const startTime = Date.now();
+    console.log(`\n🧪 Testing: ${name}`);
+
+    try {
+      await testFn();
+      const duration = Date.now() - startTime;
+      this.testResults.push({ name, passed: true, message: 'Test passed', duration });
+      console.log(`✅ ${name} - PASSED (${duration}ms)`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.testResults.push({ name, passed: false, message: error.message, duration });
+      console.log(`❌ ${name} - FAILED: ${error.message} (${duration}ms)`);
+    }
+  }
+
+  /**
+   * Create the first occurrence of a recurring series
+   */
+  async createRecurringTask(dueDate, recurrence) {
+    const status = await this.db.client.status.upsert({
+      where: { name: 'not_started' },
+      update: {},
+      create: { name: 'not_started', description: 'Task has not been started yet' },
+    });
+
+    return this.db.client.task.create({
+      data: {
+        title: `${TEST_TITLE} ${Date.now()}`,
+        statusId: status.id,
+        dueDate: day(dueDate),
+        ...this.recurrence.toColumns(recurrence),
+      },
+    });
+  }
+
+  testMonthEndClamping() {
+    const monthly = parseRecurrence({ frequency: 'monthly' });
+
+    const february = nextOccurrenceDate(day('2026-01-31'), monthly);
+    expectDate(february, '2026-02-28', 'January 31 plus one month');
+
+    // The series started on the 31st, so it returns to the 31st after February
+    expectDate(nextOccurrenceDate(february, monthly, 31), '2026-03-31', 'February plus one month');
+    expectDate(
+      nextOccurrenceDate(day('2026-03-31'), monthly, 31),
+      '2026-04-30',
+      'March 31 plus one month'
+    );
+    expectDate(
+      nextOccurrenceDate(day('2028-01-31'), monthly),
+      '2028-02-29',
+      'January 31 plus one month in a leap year'
+    );
+    expectDate(
+      nextOccurrenceDate(day('2026-12-31'), parseRecurrence('FREQ=MONTHLY;INTERVAL=2')),
+      '2027-02-28',
+      'December 31 plus two months'
+    );
+    expectDate(
+      nextOccurrenceDate(day('2026-02-26'), parseRecurrence({ frequency: 'weekly' })),
+      '2026-03-05',
+      'February 26 plus one week'
+    );
+  }
+
+  testCountAndUntil() {
+    const threeTimes = parseRecurrence('FREQ=DAILY;COUNT=3');
+    if (recurrenceEnded(threeTimes, 2, day('2026-01-03'))) {
+      throw new Error('A series of 3 ended after the second occurrence');
+    }
+    if (!recurrenceEnded(threeTimes, 3, day('2026-01-04'))) {
+      throw new Error('A series of 3 did not end after the third occurrence');
+    }
+
+    // until is inclusive
+    const untilMarch = parseRecurrence({ frequency: 'weekly', until: '2026-03-31' });
+    if (recurrenceEnded(untilMarch, 10, day('2026-03-31'))) {
+      throw new Error('An occurrence on the until date ended the series');
+    }
+    if (!recurrenceEnded(untilMarch, 10, day('2026-04-01'))) {
+      throw new Error('An occurrence after the until date did not end the series');
+    }
+
+    let rejected = false;
+    try {
+      parseRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20261231');
+    } catch (error) {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error('A rule with both count and until was accepted');
+    }
+  }
+
+  async testSpawnKeepsDayOfMonth() {
+    const first = await this.createRecurringTask('2026-01-31', { frequency: 'monthly' });
+
+    const second = await this.recurrence.spawnNextOccurrence(first.id);
+    if (!second) throw new Error('No second occurrence was spawned');
+    if (second.due_date !== '2026-02-28' || second.occurrence !== 2) {
+      throw new Error(`Second occurrence: ${JSON.stringify(second)}`);
+    }
+
+    const third = await this.recurrence.spawnNextOccurrence(second.id);
+    if (!third) throw new Error('No third occurrence was spawned');
+    if (third.due_date !== '2026-03-31' || third.occurrence !== 3) {
+      throw new Error(`Third occurrence: ${JSON.stringify(third)}`);
+    }
+  }
+
+  async testSpawnStopsAtCount() {
+    const first = await this.createRecurringTask('2026-05-01', 'FREQ=WEEKLY;COUNT=2');
+
+    const second = await this.recurrence.spawnNextOccurrence(first.id);
+    if (!second || second.due_date !== '2026-05-08') {
+      throw new Error(`Second occurrence: ${JSON.stringify(second)}`);
+    }
+    if ((await this.recurrence.spawnNextOccurrence(second.id)) !== null) {
+      throw new Error('An occurrence past the count was spawned');
+    }
+  }
+
+  async testSpawnStopsAtUntil() {
+    const first = await this.createRecurringTask('2026-06-20', {
+      frequency: 'weekly',
+      until: '2026-06-27',
+    });
+
+    const second = await this.recurrence.spawnNextOccurrence(first.id);
+    if (!second || second.due_date !== '2026-06-27') {
+      throw new Error(`Occurrence on the until date: ${JSON.stringify(second)}`);
+    }
+    if ((await this.recurrence.spawnNextOccurrence(second.id)) !== null) {
+      throw new Error('An occurrence after the until date was spawned');
+    }
+  }
+
+  async testSpawnAgainReturnsNothing() {
+    const first = await this.createRecurringTask('2026-07-01', { frequency: 'daily' });
+
+    const next = await this.recurrence.spawnNextOccurrence(first.id);
+    if (!next) throw new Error('No next occurrence was spawned');
+
+    if ((await this.recurrence.spawnNextOccurrence(first.id)) !== null) {
+      throw new Error('A second next occurrence was spawned');
+    }
+    const series = await this.db.client.task.count({
+      where: { OR: [{ id: first.id }, { recurrenceSeriesId: first.id }] },
+    });
+    if (series !== 2) {
+      throw new Error(`Expected 2 tasks in the series, found ${series}`);
+    }
+  }
+
+  async runAllTests() {
+    try {
+      await this.test('Monthly Rules Clamp to Month End', async () => {
+        this.testMonthEndClamping();
+      });
+
+      await this.test('Count and Until End the Series', async () => {
+        this.testCountAndUntil();
+      });
+
+      await this.setup();
+
+      await this.test('Spawned Occurrences Keep the Day of Month', async () => {
+        await this.testSpawnKeepsDayOfMonth();
+      });
+
+      await this.test('Spawning Stops at Count', async () => {
+        await this.testSpawnStopsAtCount();
+      });
+
+      await this.test('Spawning Stops at Until', async () => {
+        await this.testSpawnStopsAtUntil();
+      });
+
+      await this.test('Spawning Again Does Not Duplicate the Next Occurrence', async () => {
+        await this.testSpawnAgainReturnsNothing();
+      });
+
+      this.printResults();
+    } catch (error) {
+      console.error('❌ Test suite failed:', error.message);
+      process.exit(1);
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  printResults() {
+    console.log('\n📊 Test Results Summary:');
+    console.log('========================');
+
+    const passed = this.testResults.filter(r => r.passed).length;
+    const failed = this.testResults.filter(r => !r.passed).length;
+    const total = this.testResults.length;
+
+    console.log(`✅ Passed: ${passed}`);
+    console.log(`❌ Failed: ${failed}`);
+    console.log(`📊 Total: ${total}`);
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:');
+      this.testResults
+        .filter(r => !r.passed)
+        .forEach(r => console.log(`  - ${r.name}: ${r.message}`));
+    }
+
+    const totalDuration = this.testResults.reduce((sum, r) => sum + r.duration, 0);
+    console.log(`\n⏱️  Total Duration: ${totalDuration}ms`);
+
+    if (failed === 0) {
+      console.log('\n🎉 All recurrence tests passed!');
+    } else {
+      console.log('\n💥 Some tests failed. Please review the errors above.');
+      process.exit(1);
+    }
+  }
+}
+
+// Run the tests
+const tester = new RecurrenceTester();
+tester.runAllTests().catch(error => {
+  console.error('❌ Test runner failed:', error);
+  process.exit(1);
+});